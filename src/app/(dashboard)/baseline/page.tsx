@@ -20,6 +20,7 @@ import { useBodyMetrics } from "@/hooks/useBodyMetrics";
 import { useBaselineTesting } from "@/hooks/useBaselineTesting";
 import { useGoals } from "@/hooks/useGoals";
 import { useSettings } from "@/hooks/useSettings";
+import { useUserProfile } from "@/hooks/useUserProfile";
 import { MetricsAnalysisService } from "@/services/metricsAnalysisService";
 import type { CreateData, BodyMetricEntry } from "@/types";
 
@@ -33,8 +34,10 @@ export default function BaselinePage() {
 
   // Hooks
   const { settings } = useSettings();
+  const { inputs: profileInputs } = useUserProfile();
   const { 
     latestEntry, 
+    latestMeasurements,
     weightHistory, 
     addWeightEntry, 
     getWeightTrend,
@@ -64,16 +67,16 @@ export default function BaselinePage() {
   }, [addWeightEntry]);
 
   // Calculate health indicators
-  const healthIndicators = latestEntry && settings ? 
-    MetricsAnalysisService.getHealthIndicators(
+  const healthIndicators = latestEntry ?
+    MetricsAnalysisService.getProfileHealthIndicators(
       latestEntry,
-      undefined, // We would need measurements here
-      undefined, // We would need height from settings
-      undefined, // We would need age from settings
-      undefined, // We would need gender from settings
-      settings.unit_system
+      profileInputs,
+      latestMeasurements ?? undefined
     ) : null;
 
+  const calorieNeeds = latestEntry ?
+    MetricsAnalysisService.getProfileCalorieNeeds(latestEntry, profileInputs) : null;
+
   // Get weight trend
   const weightTrend = getWeightTrend(30);
 
@@ -93,9 +96,10 @@ export default function BaselinePage() {
     },
     {
       title: "BMI",
-      value: healthIndicators?.bmi ? 
+      value: healthIndicators?.bmi.value ? 
         `${healthIndicators.bmi.value.toFixed(1)} (${healthIndicators.bmi.category})` : 
         "Needs height",
+      subtitle: calorieNeeds ? `About ${calorieNeeds} kcal/day to maintain` : undefined,
       icon: Activity,
       status: healthIndicators?.bmi?.category === 'normal' ? 'good' : 
               healthIndicators?.bmi?.category === 'overweight' ? 'warning' : 'info'
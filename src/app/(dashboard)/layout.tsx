@@ -2,19 +2,33 @@
 
 import { useEffect } from "react";
 import { BottomNav, SettingsButton } from "@/components/common/BottomNav";
-import { storageService } from "@/services/storage";
+import { ProfileSwitcher } from "@/components/common/ProfileSwitcher";
+import { ResumeWorkoutPrompt } from "@/components/common/ResumeWorkoutPrompt";
+import { StorageWarning } from "@/components/common/StorageWarning";
+import { UndoToast } from "@/components/common/UndoToast";
+import { DataInitService } from "@/services/dataInitService";
+import { StorageQuotaService } from "@/services/storageQuotaService";
+import { TrashService } from "@/services/trashService";
+import { WorkoutService } from "@/services/workoutService";
 
 export default function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  // Initialize storage service on mount
+  // Initialize storage service and apply pending migrations on mount
   useEffect(() => {
     const initializeStorage = async () => {
       try {
-        await storageService.initialize();
+        await DataInitService.ensureStorageInitialized();
         console.log("Storage initialized successfully");
+
+        await TrashService.purgeExpired();
+
+        await WorkoutService.expireStaleSessions();
+
+        // Keeps the browser from evicting workout history when the device runs low
+        await StorageQuotaService.requestPersistence();
       } catch (error) {
         console.error("Failed to initialize storage:", error);
       }
@@ -25,9 +39,21 @@ export default function DashboardLayout({
 
   return (
     <div className="bg-background min-h-screen">
+      {/* Profile switcher for shared devices */}
+      <ProfileSwitcher />
+
+      {/* Storage running out */}
+      <StorageWarning />
+
       {/* Main content area */}
       <main className="main-content safe-area-top">{children}</main>
 
+      {/* Workout left running when the app was last closed */}
+      <ResumeWorkoutPrompt />
+
+      {/* Undo for the most recent delete */}
+      <UndoToast />
+
       {/* Bottom navigation */}
       <BottomNav />
 
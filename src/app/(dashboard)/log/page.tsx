@@ -1,14 +1,260 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { PlusCircle, Search, Dumbbell } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  PlusCircle,
+  Search,
+  Dumbbell,
+  Trash2,
+  Activity,
+  Pause,
+  Play,
+  Timer,
+} from "lucide-react";
+import { CardioLogger } from "@/components/features/WorkoutSession/CardioLogger";
+import { SetLogger } from "@/components/features/WorkoutSession/SetLogger";
+import { useExerciseSearch } from "@/hooks/useExerciseSearch";
+import { useFreeformWorkout } from "@/hooks/useFreeformWorkout";
+import { useSettings } from "@/hooks/useSettings";
+import { WorkoutService } from "@/services/workoutService";
+import { FriendlyFormatter } from "@/utils/formatting";
+import type {
+  CardioSegment,
+  ExerciseCatalogItem,
+  ExerciseEntry,
+  PerformedSet,
+} from "@/types";
+
+// Enough to find an exercise without pushing the workout off screen
+const MAX_SEARCH_RESULTS = 8;
+
+const DEFAULT_REST_SECONDS = 90;
+
+function formatClock(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, "0")}:${secs}`
+    : `${mins}:${secs}`;
+}
+
+function describeEntry(entry: ExerciseEntry): string {
+  switch (entry.type) {
+    case "strength":
+      return entry.performed_sets.length === 0
+        ? "No sets yet"
+        : entry.performed_sets
+            .map((set) => {
+              const reps = [
+                set.repetitions_done,
+                ...(set.sub_sets ?? []).map(
+                  (subSet) => subSet.repetitions_done
+                ),
+              ].join("+");
+              const summary = set.weight_value
+                ? `${reps}×${set.weight_value}${set.weight_unit ?? ""}`
+                : reps;
+              return set.set_type && set.set_type !== "working"
+                ? `${summary} (${FriendlyFormatter.setTypeLabel(set.set_type)})`
+                : summary;
+            })
+            .join(", ");
+    case "cardio":
+      return entry.segments.length === 0
+        ? "No segments yet"
+        : `${entry.segments.length} segment${entry.segments.length === 1 ? "" : "s"}, ${Math.round(entry.total_duration_seconds / 60)} min`;
+    case "flexibility":
+      return `${Math.round(entry.duration_seconds / 60)} min`;
+  }
+}
 
 export default function LogPage() {
+  const { settings } = useSettings();
+  const {
+    filters,
+    results,
+    isLoading: isSearching,
+    updateFilters,
+  } = useExerciseSearch();
+  const workout = useFreeformWorkout();
+  const [openEntry, setOpenEntry] = useState<number | null>(null);
+  const [title, setTitle] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const endingRestRef = useRef(false);
+
+  const weightUnit = settings.unit_system === "metric" ? "kg" : "lb";
+  const entries = workout.draft?.workoutLog.entries ?? [];
+  const activeEntry = openEntry ?? workout.draft?.currentExerciseIndex ?? null;
+  const hasLoggedWork = entries.some((entry) =>
+    entry.type === "strength"
+      ? entry.performed_sets.length > 0
+      : entry.type === "cardio"
+        ? entry.segments.length > 0
+        : true
+  );
+  const exerciseIds = new Set(entries.map((entry) => entry.exercise_id));
+
+  const isPaused = workout.draft?.sessionStatus === "paused";
+  const elapsed = workout.draft
+    ? WorkoutService.getElapsedSeconds(workout.draft, now)
+    : 0;
+  const restRemaining = workout.draft
+    ? WorkoutService.getRestTimeRemaining(workout.draft, now)
+    : 0;
+
+  // Clock and rest countdown, both derived from stored timestamps so a reload resumes them
+  const hasDraft = workout.draft !== null;
+  useEffect(() => {
+    if (!hasDraft) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasDraft]);
+
+  const { isResting, sessionStatus } = workout.draft ?? {};
+  const { endRest } = workout;
+  useEffect(() => {
+    if (!isResting || sessionStatus !== "active" || restRemaining > 0) {
+      endingRestRef.current = false;
+      return;
+    }
+    if (!endingRestRef.current) {
+      endingRestRef.current = true;
+      endRest().catch(() => undefined);
+    }
+  }, [isResting, sessionStatus, restRemaining, endRest]);
+
+  const nameOf = (entry: ExerciseEntry): string =>
+    entry.type === "cardio"
+      ? (entry.exercise_name ?? entry.mode.replace(/_/g, " "))
+      : entry.exercise_name;
+
+  const handleAdd = async (exercise: ExerciseCatalogItem) => {
+    try {
+      await workout.addExercise(exercise);
+      setOpenEntry(null);
+      updateFilters({ query: "" });
+    } catch {
+      // Shown through workout.error
+    }
+  };
+
+  const handleRemove = async (index: number) => {
+    if (
+      !confirm(
+        `Remove ${nameOf(entries[index])} and its logged sets from this workout?`
+      )
+    ) {
+      return;
+    }
+    try {
+      await workout.removeEntry(index);
+      setOpenEntry(null);
+    } catch {
+      // Shown through workout.error
+    }
+  };
+
+  const handleSetComplete = async (
+    entry: Extract<ExerciseEntry, { type: "strength" }>,
+    set: PerformedSet
+  ) => {
+    await workout.logSet(entry.exercise_id, set, entry.exercise_name);
+    await workout.startRest(set.rest_seconds_observed ?? DEFAULT_REST_SECONDS);
+  };
+
+  const handleSegmentComplete = async (
+    entry: Extract<ExerciseEntry, { type: "cardio" }>,
+    segment: CardioSegment
+  ) => {
+    if (!entry.exercise_id) return;
+    await workout.logSegment(entry.exercise_id, {
+      ...segment,
+      segment_number: entry.segments.length + 1,
+      label: `Segment ${entry.segments.length + 1}`,
+    });
+  };
+
+  const handlePauseResume = async () => {
+    try {
+      await (isPaused ? workout.resume() : workout.pause());
+    } catch {
+      // Shown through workout.error
+    }
+  };
+
+  const handleFinish = async () => {
+    setIsFinishing(true);
+    try {
+      const finished = await workout.finish({
+        title,
+        notes: notes || undefined,
+      });
+      if (finished) {
+        setTitle("");
+        setNotes("");
+        setOpenEntry(null);
+        alert("Workout saved to your history.");
+      }
+    } catch {
+      // Shown through workout.error
+    } finally {
+      setIsFinishing(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (
+      !confirm("Discard this workout? Nothing logged so far will be saved.")
+    ) {
+      return;
+    }
+    try {
+      await workout.discard();
+      setTitle("");
+      setNotes("");
+      setOpenEntry(null);
+    } catch {
+      // Shown through workout.error
+    }
+  };
+
+  const renderExerciseList = (exercises: ExerciseCatalogItem[]) => (
+    <div className="grid grid-cols-1 gap-3">
+      {exercises.map((exercise) => (
+        <div
+          key={exercise.id}
+          className="flex items-center justify-between rounded-lg border p-3"
+        >
+          <div className="min-w-0">
+            <p className="truncate font-medium">{exercise.name}</p>
+            <p className="text-muted-foreground text-xs capitalize">
+              {exercise.exercise_type}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={exerciseIds.has(exercise.id)}
+            onClick={() => handleAdd(exercise)}
+          >
+            <PlusCircle className="mr-1 h-3 w-3" />
+            {exerciseIds.has(exercise.id) ? "Added" : "Add"}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+
   return (
-    <div className="space-y-6 p-4">
+    <div className="space-y-6 p-4 pb-40">
       {/* Header */}
       <div className="space-y-2">
         <h1>Log Workout</h1>
@@ -26,59 +272,203 @@ export default function LogPage() {
             id="exercise-search"
             placeholder="Search for an exercise..."
             className="pl-8"
+            value={filters.query}
+            onChange={(e) => updateFilters({ query: e.target.value })}
           />
         </div>
+        {filters.query.trim() !== "" &&
+          (results.length > 0 ? (
+            renderExerciseList(results.slice(0, MAX_SEARCH_RESULTS))
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              {isSearching ? "Searching..." : "No exercises match your search."}
+            </p>
+          ))}
       </div>
 
       {/* Quick Add Exercises */}
+      {filters.query.trim() === "" && workout.frequentExercises.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Dumbbell className="h-5 w-5" />
+              Popular Exercises
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {renderExerciseList(workout.frequentExercises)}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Current Workout */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Dumbbell className="h-5 w-5" />
-            Popular Exercises
+          <CardTitle className="flex items-center justify-between gap-2">
+            Current Workout
+            {workout.draft && (
+              <span className="flex items-center gap-2 text-sm font-normal">
+                <span className="text-muted-foreground tabular-nums">
+                  {formatClock(elapsed)}
+                  {isPaused && " (paused)"}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  aria-label={isPaused ? "Resume workout" : "Pause workout"}
+                  onClick={handlePauseResume}
+                >
+                  {isPaused ? (
+                    <Play className="h-4 w-4" />
+                  ) : (
+                    <Pause className="h-4 w-4" />
+                  )}
+                </Button>
+              </span>
+            )}
           </CardTitle>
         </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 gap-3">
-            {[
-              "Push-ups",
-              "Squats",
-              "Bench Press",
-              "Deadlift",
-              "Pull-ups",
-              "Overhead Press",
-            ].map((exercise) => (
+        <CardContent className="space-y-4">
+          {workout.draft?.isResting && restRemaining > 0 && (
+            <div className="bg-muted flex items-center gap-3 rounded-lg px-3 py-2 text-sm">
+              <Timer className="h-4 w-4 shrink-0" aria-hidden="true" />
+              <span className="flex-1 tabular-nums">
+                Rest {formatClock(restRemaining)}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  workout.startRest(restRemaining + 30).catch(() => undefined)
+                }
+              >
+                +30s
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => workout.endRest().catch(() => undefined)}
+              >
+                Skip
+              </Button>
+            </div>
+          )}
+
+          {entries.length === 0 ? (
+            <div className="text-muted-foreground text-center">
+              {workout.isLoading ? "Loading..." : "No exercises added yet"}
+            </div>
+          ) : (
+            entries.map((entry, index) => (
               <div
-                key={exercise}
-                className="flex items-center justify-between rounded-lg border p-3"
+                key={`${index}-${nameOf(entry)}`}
+                className="space-y-3 rounded-lg border p-3"
               >
-                <span className="font-medium">{exercise}</span>
-                <Button size="sm" variant="outline">
-                  <PlusCircle className="mr-1 h-3 w-3" />
-                  Add
-                </Button>
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 text-left"
+                    onClick={() =>
+                      setOpenEntry(activeEntry === index ? -1 : index)
+                    }
+                  >
+                    <p className="flex items-center gap-2 truncate font-medium">
+                      {entry.type === "cardio" ? (
+                        <Activity className="h-4 w-4 shrink-0" />
+                      ) : (
+                        <Dumbbell className="h-4 w-4 shrink-0" />
+                      )}
+                      {nameOf(entry)}
+                    </p>
+                    <p className="text-muted-foreground text-sm">
+                      {describeEntry(entry)}
+                    </p>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Remove ${nameOf(entry)}`}
+                    onClick={() => handleRemove(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {activeEntry === index && entry.type === "strength" && (
+                  <SetLogger
+                    key={`${entry.exercise_id}-${entry.performed_sets.length}`}
+                    setNumber={entry.performed_sets.length + 1}
+                    exerciseId={entry.exercise_id}
+                    targetReps={entry.performed_sets.at(-1)?.repetitions_done}
+                    targetWeight={entry.performed_sets.at(-1)?.weight_value}
+                    weightUnit={weightUnit}
+                    onSetComplete={(set) => handleSetComplete(entry, set)}
+                  />
+                )}
+
+                {activeEntry === index &&
+                  entry.type === "cardio" &&
+                  entry.exercise_id && (
+                    <CardioLogger
+                      prescription={{
+                        exercise_id: entry.exercise_id,
+                        clear_description: nameOf(entry),
+                        order_index: index,
+                      }}
+                      onSegmentComplete={(segment) =>
+                        handleSegmentComplete(entry, segment)
+                      }
+                      onExerciseComplete={() => setOpenEntry(-1)}
+                    />
+                  )}
               </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+            ))
+          )}
 
-      {/* Current Workout */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Current Workout</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-muted-foreground text-center">
-            No exercises added yet
-          </div>
+          {workout.draft && (
+            <div className="space-y-3 border-t pt-4">
+              <div className="space-y-2">
+                <Label htmlFor="workout-title">Title (optional)</Label>
+                <Input
+                  id="workout-title"
+                  placeholder="e.g. Upper body"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="workout-notes">Notes (optional)</Label>
+                <Textarea
+                  id="workout-notes"
+                  placeholder="How did it go?"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleDiscard}
+              >
+                Discard Workout
+              </Button>
+            </div>
+          )}
+
+          {workout.error && (
+            <p className="text-destructive text-sm">{workout.error}</p>
+          )}
         </CardContent>
       </Card>
 
       {/* Finish Workout */}
       <div className="fixed right-4 bottom-20 left-4">
-        <Button className="w-full" disabled>
-          Finish Workout
+        <Button
+          className="w-full"
+          disabled={!hasLoggedWork || isFinishing}
+          onClick={handleFinish}
+        >
+          {isFinishing ? "Saving..." : "Finish Workout"}
         </Button>
       </div>
     </div>
@@ -1,19 +1,23 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
-import { Calendar, Plus, BookOpen, Search, Filter, Play, MoreVertical, Copy, Trash2, Loader2 } from "lucide-react";
-import { planRepository } from "@/repositories";
+import { Calendar, Plus, BookOpen, Search, Filter, Play, MoreVertical, Copy, Trash2, Loader2, History } from "lucide-react";
+import { exerciseRepository, planRepository } from "@/repositories";
 import { PlanService } from "@/services/planService";
+import { UndoService } from "@/services/undoService";
+import { RevisionHistory } from "@/components/common/RevisionHistory";
+import { ExerciseGroupEditor } from "@/components/features/WorkoutPlan/ExerciseGroupEditor";
 import { DataInitService } from "@/services/dataInitService";
-import { storageService } from "@/services/storage";
+import { useLiveQuery } from "@/hooks/useLiveQuery";
 
-import type { ProgramPlan } from "@/types";
+import type { ExerciseCatalogItem, ExerciseGroupSettings, ProgramPlan, SessionPath } from "@/types";
 import styles from "./PlanPage.module.css";
 
 export default function PlanPage() {
@@ -30,9 +34,6 @@ export default function PlanPage() {
   const loadData = useCallback(async () => {
     setIsLoading(true);
     try {
-      // Ensure storage is initialized first
-      await storageService.initialize();
-
       // Initialize data if needed
       await DataInitService.ensureStorageInitialized();
       const initStatus = await DataInitService.getInitializationStatus();
@@ -95,8 +96,12 @@ export default function PlanPage() {
 
   const handleDeletePlan = useCallback(async (planId: string) => {
     try {
-      await planRepository.delete(planId);
+      await PlanService.deletePlan(planId);
       await loadData(); // Refresh the list
+      UndoService.offer("Plan deleted", async () => {
+        await PlanService.restorePlan(planId);
+        await loadData();
+      });
     } catch (error) {
       console.error("Failed to delete plan:", error);
     }
@@ -280,7 +285,10 @@ export default function PlanPage() {
           plan={selectedPlan}
           isOpen={!!selectedPlan}
           onClose={() => setSelectedPlan(null)}
-
+          onPlanChanged={async (plan) => {
+            await loadData();
+            setSelectedPlan(plan);
+          }}
         />
       )}
     </div>
@@ -384,9 +392,30 @@ interface PlanDetailSheetProps {
   plan: ProgramPlan;
   isOpen: boolean;
   onClose: () => void;
+  onPlanChanged: (plan: ProgramPlan) => void; // After restoring or copying an older version
 }
 
-function PlanDetailSheet({ plan, isOpen, onClose }: PlanDetailSheetProps) {
+function PlanDetailSheet({ plan, isOpen, onClose, onPlanChanged }: PlanDetailSheetProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const [openPath, setOpenPath] = useState<SessionPath | null>(null);
+  const loadExercises = useCallback(() => exerciseRepository.getAll(), []);
+  const { data: exercises } = useLiveQuery<ExerciseCatalogItem[]>(loadExercises, [], { stores: ["exercises"] });
+  const openSession = openPath && PlanService.getSessionByPath(plan, openPath);
+
+  const handleGroup = async (exerciseIndices: number[], settings: ExerciseGroupSettings) => {
+    if (!openPath) return;
+    onPlanChanged(await PlanService.groupExercises(plan.id, openPath, exerciseIndices, settings));
+  };
+
+  const handleUpdateGroup = async (groupId: string, settings: ExerciseGroupSettings) => {
+    if (!openPath) return;
+    onPlanChanged(await PlanService.updateExerciseGroup(plan.id, openPath, groupId, settings));
+  };
+
+  const handleUngroup = async (groupId: string) => {
+    if (!openPath) return;
+    onPlanChanged(await PlanService.ungroupExercises(plan.id, openPath, groupId));
+  };
 
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
@@ -411,8 +440,22 @@ function PlanDetailSheet({ plan, isOpen, onClose }: PlanDetailSheetProps) {
             {plan.description && (
               <p className={styles.planDetailDescription}>{plan.description}</p>
             )}
+
+            <Button variant="outline" size="sm" onClick={() => setShowHistory(!showHistory)}>
+              <History className={styles.buttonIcon} />
+              {showHistory ? "Hide history" : "Version history"}
+            </Button>
           </div>
 
+          {showHistory && (
+            <RevisionHistory
+              store="plans"
+              entityId={plan.id}
+              onRestored={(restored) => onPlanChanged(restored as ProgramPlan)}
+              onForked={(forked) => onPlanChanged(forked as ProgramPlan)}
+            />
+          )}
+
           <div className={styles.phasesList}>
             {plan.phases.map((phase, phaseIndex) => (
               <Card key={phaseIndex} className={styles.phaseCard}>
@@ -447,13 +490,15 @@ function PlanDetailSheet({ plan, isOpen, onClose }: PlanDetailSheetProps) {
                               ) : (
                                 <div className={styles.sessionsList}>
                                   {day.sessions.map((session, sessionIndex) => (
-                                    <Badge 
-                                      key={sessionIndex} 
-                                      variant="outline" 
-                                      className={styles.sessionBadge}
+                                    <button
+                                      key={sessionIndex}
+                                      type="button"
+                                      onClick={() => setOpenPath({ phaseIndex, weekIndex, dayIndex, sessionIndex })}
                                     >
-                                      {session.title}
-                                    </Badge>
+                                      <Badge variant="outline" className={styles.sessionBadge}>
+                                        {session.title}
+                                      </Badge>
+                                    </button>
                                   ))}
                                 </div>
                               )}
@@ -463,6 +508,28 @@ function PlanDetailSheet({ plan, isOpen, onClose }: PlanDetailSheetProps) {
                       </div>
                     ))}
                   </div>
+
+                  {openSession && openPath?.phaseIndex === phaseIndex && (
+                    <div className={styles.sessionEditor}>
+                      <div className={styles.sessionEditorHeader}>
+                        <h4 className={styles.sessionEditorTitle}>{openSession.title}</h4>
+                        <Button asChild size="sm">
+                          <Link href={`/plan/session?${new URLSearchParams({ session: openSession.id })}`}>
+                            <Play className={styles.buttonIcon} />
+                            Start
+                          </Link>
+                        </Button>
+                      </div>
+                      <ExerciseGroupEditor
+                        key={Object.values(openPath).join("-")}
+                        session={openSession}
+                        exercises={exercises}
+                        onGroup={handleGroup}
+                        onUpdateGroup={handleUpdateGroup}
+                        onUngroup={handleUngroup}
+                      />
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
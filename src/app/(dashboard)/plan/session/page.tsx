@@ -0,0 +1,88 @@
+"use client";
+
+import { Suspense, useCallback } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ActiveSession } from "@/components/features/WorkoutSession/ActiveSession";
+import { useLiveQuery } from "@/hooks/useLiveQuery";
+import { exerciseRepository } from "@/repositories";
+import { PlanService } from "@/services/planService";
+import type { ExerciseCatalogItem, Session } from "@/types";
+
+const PLAN_PATH = "/plan";
+
+interface SessionView {
+  session: Session;
+  exercises: ExerciseCatalogItem[];
+}
+
+/**
+ * Works through one planned session. `session` is the plan session's id;
+ * `resume`, when given, is the unfinished workout to pick up where it left off.
+ */
+function PlanSessionView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const sessionId = searchParams.get("session");
+  const resumeSessionId = searchParams.get("resume") ?? undefined;
+
+  const load = useCallback(async (): Promise<SessionView | null> => {
+    if (!sessionId) return null;
+    const [found, exercises] = await Promise.all([
+      PlanService.findSession(sessionId),
+      exerciseRepository.getAll(),
+    ]);
+    return found ? { session: found.session, exercises } : null;
+  }, [sessionId]);
+
+  const { data: view, isLoading } = useLiveQuery<SessionView | null>(
+    load,
+    null,
+    { stores: ["plans", "exercises"] }
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2
+          className="h-6 w-6 animate-spin"
+          aria-label="Loading session"
+        />
+      </div>
+    );
+  }
+
+  if (!view) {
+    return (
+      <Card>
+        <CardContent className="space-y-3 py-6 text-center">
+          <p>This session is no longer in any of your plans.</p>
+          <Button variant="outline" onClick={() => router.push(PLAN_PATH)}>
+            Back to plans
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <ActiveSession
+      sessionPlan={view.session}
+      exercises={view.exercises}
+      resumeSessionId={resumeSessionId}
+      onComplete={() => router.push(PLAN_PATH)}
+      onAbandon={() => router.push(PLAN_PATH)}
+    />
+  );
+}
+
+export default function PlanSessionPage() {
+  // Reading the query string needs a boundary to render under
+  return (
+    <Suspense fallback={null}>
+      <PlanSessionView />
+    </Suspense>
+  );
+}
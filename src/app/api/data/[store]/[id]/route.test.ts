@@ -0,0 +1,60 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { StorageData } from "@/types";
+
+const NOW = "2026-05-04T07:00:00.000Z";
+
+describe("PUT /api/data/[store]/[id]", () => {
+  let dir: string;
+  let PUT: typeof import("./route").PUT;
+
+  // The data store reads its file path when the module loads
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "data-api-test-"));
+    vi.stubEnv("NEXT_PUBLIC_STORAGE_BACKEND", "server");
+    vi.stubEnv("DATA_FILE", path.join(dir, "data.json"));
+    ({ PUT } = await import("./route"));
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function put(expectedVersion: string | null, record: StorageData) {
+    const query = expectedVersion === null ? "" : `?expectedVersion=${encodeURIComponent(expectedVersion)}`;
+    return PUT(
+      new Request(`http://localhost/api/data/workouts/${record.id}${query}`, {
+        method: "PUT",
+        body: JSON.stringify(record),
+      }),
+      { params: Promise.resolve({ store: "workouts", id: record.id }) }
+    );
+  }
+
+  const workout = (version: number): StorageData => ({
+    id: "workout-1",
+    created_at: NOW,
+    updated_at: NOW,
+    version,
+  });
+
+  it("rejects an expectedVersion that isn't an integer as a bad request", async () => {
+    for (const expected of ["abc", "", "1.5"]) {
+      const response = await put(expected, workout(1));
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.code).toBe("INVALID_EXPECTED_VERSION");
+    }
+  });
+
+  it("still reports a stale expectedVersion as a conflict", async () => {
+    expect((await put(null, workout(1))).status).toBe(200);
+    expect((await put("1", workout(2))).status).toBe(200);
+
+    const response = await put("1", workout(3));
+    expect(response.status).toBe(409);
+    expect((await response.json()).error.code).toBe("VERSION_CONFLICT");
+  });
+});
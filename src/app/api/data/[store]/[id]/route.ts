@@ -0,0 +1,57 @@
+/**
+ * Server storage: read, write or delete one record
+ */
+
+import { dataStore } from "@/lib/server/dataStore";
+import { handleDataRequest } from "@/lib/server/dataApi";
+import { apiError, apiSuccess } from "@/lib/server/apiResponse";
+import type { StorageData } from "@/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RecordRouteContext {
+  params: Promise<{ store: string; id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RecordRouteContext) {
+  const { store, id } = await params;
+
+  return handleDataRequest(store, async () => {
+    const record = await dataStore.get(store, id);
+    return record ? apiSuccess(record) : apiError("NOT_FOUND", `${store} record ${id} not found`, 404);
+  });
+}
+
+/**
+ * Body: the record. Pass ?expectedVersion=n to reject the write if the stored copy moved on.
+ */
+export async function PUT(request: Request, { params }: RecordRouteContext) {
+  const { store, id } = await params;
+  const expected = new URL(request.url).searchParams.get("expectedVersion");
+  // A blank value is malformed too, not version 0
+  const expectedVersion = expected === null ? undefined : Number(expected.trim() || NaN);
+
+  return handleDataRequest(store, async () => {
+    if (expectedVersion !== undefined && !Number.isInteger(expectedVersion)) {
+      return apiError("INVALID_EXPECTED_VERSION", "expectedVersion must be an integer", 400);
+    }
+
+    const data = (await request.json()) as StorageData | null;
+    if (typeof data !== "object" || data === null || data.id !== id) {
+      return apiError("INVALID_RECORD", "Record id must match the URL", 400);
+    }
+
+    await dataStore.save(store, data, { expectedVersion });
+    return apiSuccess({ id });
+  });
+}
+
+export async function DELETE(_request: Request, { params }: RecordRouteContext) {
+  const { store, id } = await params;
+
+  return handleDataRequest(store, async () => {
+    await dataStore.delete(store, id);
+    return apiSuccess({ id });
+  });
+}
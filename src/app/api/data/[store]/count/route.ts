@@ -0,0 +1,20 @@
+/**
+ * Server storage: count records in a store or index range
+ */
+
+import { dataStore } from "@/lib/server/dataStore";
+import { handleDataRequest } from "@/lib/server/dataApi";
+import { apiSuccess } from "@/lib/server/apiResponse";
+import type { DataCountRequest } from "@/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request, { params }: { params: Promise<{ store: string }> }) {
+  const { store } = await params;
+
+  return handleDataRequest(store, async () => {
+    const { index, range } = (await request.json()) as DataCountRequest;
+    return apiSuccess({ count: await dataStore.count(store, index, range) });
+  });
+}
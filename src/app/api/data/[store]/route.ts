@@ -0,0 +1,32 @@
+/**
+ * Server storage: list, fetch by ids, or clear a store
+ */
+
+import { dataStore } from "@/lib/server/dataStore";
+import { handleDataRequest } from "@/lib/server/dataApi";
+import { apiSuccess } from "@/lib/server/apiResponse";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface StoreRouteContext {
+  params: Promise<{ store: string }>;
+}
+
+export async function GET(request: Request, { params }: StoreRouteContext) {
+  const { store } = await params;
+  const ids = new URL(request.url).searchParams.getAll("id");
+
+  return handleDataRequest(store, async () =>
+    apiSuccess(ids.length > 0 ? await dataStore.getMultiple(store, ids) : await dataStore.getAll(store))
+  );
+}
+
+export async function DELETE(_request: Request, { params }: StoreRouteContext) {
+  const { store } = await params;
+
+  return handleDataRequest(store, async () => {
+    await dataStore.clear(store);
+    return apiSuccess({ cleared: store });
+  });
+}
@@ -0,0 +1,20 @@
+/**
+ * Server storage: walk a store or index in key order
+ */
+
+import { dataStore } from "@/lib/server/dataStore";
+import { handleDataRequest } from "@/lib/server/dataApi";
+import { apiSuccess } from "@/lib/server/apiResponse";
+import type { DataScanRequest } from "@/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request, { params }: { params: Promise<{ store: string }> }) {
+  const { store } = await params;
+
+  return handleDataRequest(store, async () => {
+    const scan = (await request.json()) as DataScanRequest;
+    return apiSuccess(await dataStore.scanPage(store, scan));
+  });
+}
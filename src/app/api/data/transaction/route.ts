@@ -0,0 +1,26 @@
+/**
+ * Server storage: apply writes across stores atomically
+ */
+
+import { dataStore } from "@/lib/server/dataStore";
+import { handleDataRequest } from "@/lib/server/dataApi";
+import { apiError, apiSuccess } from "@/lib/server/apiResponse";
+import type { WriteOperation } from "@/services/storageAdapter";
+import { ValidationService } from "@/validators";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  return handleDataRequest(null, async () => {
+    let operations;
+    try {
+      ({ operations } = ValidationService.validateDataTransactionRequest(await request.json()));
+    } catch (error) {
+      return apiError("INVALID_DATA_TRANSACTION", (error as Error).message, 400);
+    }
+
+    await dataStore.commitOperations(operations as WriteOperation[]);
+    return apiSuccess({ applied: operations.length });
+  });
+}
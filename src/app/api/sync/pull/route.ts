@@ -0,0 +1,30 @@
+/**
+ * Reference sync server: return records merged since a cursor
+ */
+
+import { isSyncServerEnabled, syncStore, FileSyncStore } from "@/lib/server/syncStore";
+import { apiError, apiSuccess } from "@/lib/server/apiResponse";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!isSyncServerEnabled()) {
+    return apiError("SYNC_SERVER_DISABLED", "The sync server is not enabled", 404);
+  }
+
+  const params = new URL(request.url).searchParams;
+  const since = Number(params.get("since") ?? 0);
+  const limit = Number(params.get("limit") ?? FileSyncStore.DEFAULT_PULL_LIMIT);
+
+  if (!Number.isInteger(since) || since < 0 || !Number.isInteger(limit) || limit < 1) {
+    return apiError("INVALID_SYNC_PULL", "since and limit must be non-negative integers", 400);
+  }
+
+  try {
+    return apiSuccess(await syncStore.pull(since, Math.min(limit, FileSyncStore.DEFAULT_PULL_LIMIT)));
+  } catch (error) {
+    console.error("Sync pull failed:", error);
+    return apiError("SYNC_PULL_FAILED", "Failed to read changes", 500);
+  }
+}
@@ -0,0 +1,59 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { SyncPushRequest } from "@/types";
+
+const payload: SyncPushRequest = {
+  device_id: "phone",
+  changes: [
+    {
+      store: "workouts",
+      record_id: "workout-1",
+      fields: {
+        session_title: {
+          value: "Pull day",
+          clock: { updated_at: "2026-05-04T07:00:00.000Z", version: 1, device_id: "phone" },
+        },
+      },
+      deleted: null,
+    },
+  ],
+};
+
+describe("POST /api/sync/push", () => {
+  let dir: string;
+  let POST: typeof import("./route").POST;
+
+  // The sync store reads its file path when the module loads
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "sync-push-test-"));
+    vi.stubEnv("SYNC_DATA_FILE", path.join(dir, "sync-store.json"));
+    ({ POST } = await import("./route"));
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const push = () =>
+    POST(new Request("http://localhost/api/sync/push", { method: "POST", body: JSON.stringify(payload) }));
+
+  it("is not found unless the deployment enables the sync server", async () => {
+    const response = await push();
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.code).toBe("SYNC_SERVER_DISABLED");
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it("stores pushed changes once enabled", async () => {
+    vi.stubEnv("SYNC_SERVER_ENABLED", "true");
+
+    const response = await push();
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toMatchObject({ accepted: 1 });
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Reference sync server: accept a device's changes
+ */
+
+import { isSyncServerEnabled, syncStore } from "@/lib/server/syncStore";
+import { apiError, apiSuccess } from "@/lib/server/apiResponse";
+import { ValidationService } from "@/validators";
+import type { SyncPushRequest } from "@/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  if (!isSyncServerEnabled()) {
+    return apiError("SYNC_SERVER_DISABLED", "The sync server is not enabled", 404);
+  }
+
+  let payload: SyncPushRequest;
+  try {
+    payload = ValidationService.validateSyncPushRequest(await request.json());
+  } catch (error) {
+    return apiError("INVALID_SYNC_PUSH", (error as Error).message, 400);
+  }
+
+  try {
+    return apiSuccess(await syncStore.push(payload));
+  } catch (error) {
+    console.error("Sync push failed:", error);
+    return apiError("SYNC_PUSH_FAILED", "Failed to store changes", 500);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Reference sync server: status
+ */
+
+import { isSyncServerEnabled, syncStore } from "@/lib/server/syncStore";
+import { apiError, apiSuccess } from "@/lib/server/apiResponse";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  if (!isSyncServerEnabled()) {
+    return apiError("SYNC_SERVER_DISABLED", "The sync server is not enabled", 404);
+  }
+
+  try {
+    return apiSuccess(await syncStore.getStatus());
+  } catch (error) {
+    console.error("Sync status failed:", error);
+    return apiError("SYNC_STATUS_FAILED", "Failed to read sync data", 500);
+  }
+}
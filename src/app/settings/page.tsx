@@ -2,6 +2,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import {
@@ -20,64 +21,647 @@ import {
   Download,
   Upload,
   ArrowLeft,
+  Lock,
+  RefreshCw,
+  FileSpreadsheet,
+  MapPin,
+  HeartPulse,
+  ShieldCheck,
+  User,
+  Users,
+  Trash2,
+  HardDrive,
 } from "lucide-react";
 import Link from "next/link";
+import { useState } from "react";
 import { useSettings } from "@/hooks/useSettings";
-import { storageService } from "@/services/storage";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useEncryption } from "@/hooks/useEncryption";
+import { useSync } from "@/hooks/useSync";
+import { useUserProfile } from "@/hooks/useUserProfile";
+import { useProfiles } from "@/hooks/useProfiles";
+import { useTrash } from "@/hooks/useTrash";
+import { useStorageQuota } from "@/hooks/useStorageQuota";
+import { VersionConflictDialog } from "@/components/common/VersionConflictDialog";
+import { UndoToast } from "@/components/common/UndoToast";
+import { STORAGE_BACKEND } from "@/services/storageBackend";
+import { BackupService } from "@/services/backupService";
+import { WorkoutImportService } from "@/services/workoutImportService";
+import { ActivityImportService } from "@/services/activityImportService";
+import { HealthImportService } from "@/services/healthImportService";
+import { IntegrityService } from "@/services/integrityService";
+import { DataExportService } from "@/services/dataExportService";
+import { ProfileService } from "@/services/profileService";
+import { TrashService } from "@/services/trashService";
+import { StorageQuotaService } from "@/services/storageQuotaService";
+import { UndoService } from "@/services/undoService";
+import { WrongPassphraseError } from "@/services/cryptoService";
+import { UnitConverter } from "@/utils/units";
+import type {
+  ActivityImportOptions,
+  ActivityImportResult,
+  ActivityLevel,
+  ActivitySplit,
+  CleanupAction,
+  DataExportDataset,
+  DataExportFormat,
+  HealthImportReport,
+  IntegrityCategory,
+  IntegrityRepair,
+  IntegrityReport,
+  RestoreMode,
+  RestoreReport,
+  TrashItem,
+  TrashStore,
+  UserProfile,
+  WorkoutImportOptions,
+  WorkoutImportReport,
+} from "@/types";
+
+// Steps a gym's plates and dumbbells commonly allow
+const LB_INCREMENTS = [2.5, 5, 10];
+const KG_INCREMENTS = [0.5, 1, 1.25, 2.5, 5];
+
+function describeRestoreReport(report: RestoreReport): string {
+  const restored = report.stores.reduce((sum, store) => sum + store.restored, 0);
+  const lines = [
+    `${report.encrypted ? "Encrypted backup" : "Backup"} from ${new Date(report.created_at).toLocaleString()}`,
+    `${restored} records${report.media_restored > 0 ? ` (${report.media_restored} media files)` : ""} ${report.dry_run ? "will be restored" : "restored"}`,
+  ];
+
+  if (report.conflicts.length > 0) {
+    const usedBackup = report.conflicts.filter((c) => c.resolution === "used-backup").length;
+    lines.push(
+      `${report.conflicts.length} conflicts: ${usedBackup} from backup, ${report.conflicts.length - usedBackup} kept local`
+    );
+  }
+  if (report.invalid.length > 0) {
+    lines.push(`${report.invalid.length} invalid records skipped`);
+  }
+  if (report.unknown_stores.length > 0) {
+    lines.push(`Unknown sections ignored: ${report.unknown_stores.join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
+
+function describeImportReport(report: WorkoutImportReport): string {
+  const source = WorkoutImportService.SOURCE_LABELS[report.source];
+  const lines = [
+    `${source} export: ${report.workouts} workouts with ${report.sets} sets ${report.dry_run ? "will be imported" : "imported"}`,
+  ];
+
+  if (report.first_date && report.last_date) {
+    lines.push(
+      `From ${new Date(report.first_date).toLocaleDateString()} to ${new Date(report.last_date).toLocaleDateString()}`
+    );
+  }
+  if (report.duplicates > 0) {
+    lines.push(`${report.duplicates} workouts already in your log are left alone`);
+  }
+  if (report.created_exercises.length > 0) {
+    lines.push(`${report.created_exercises.length} custom exercises ${report.dry_run ? "will be created" : "created"}`);
+  }
+  if (report.unmatched_sets > 0) {
+    lines.push(`${report.unmatched_sets} sets of exercises not in your catalog left out`);
+  }
+  if (report.skipped_rows.length > 0) {
+    const [first] = report.skipped_rows;
+    lines.push(`${report.skipped_rows.length} rows skipped (row ${first.row}: ${first.reason})`);
+  }
+
+  return lines.join("\n");
+}
+
+function describeActivityImport(result: ActivityImportResult): string {
+  const { entry, workout } = result;
+  const segment = entry.segments[0];
+  const distance = entry.segments.reduce((sum, s) => sum + (s.distance_value ?? 0), 0);
+  const lines = [
+    `${ActivityImportService.FORMAT_LABELS[result.format]} activity: ${entry.mode.replace(/_/g, " ")}, ${Math.round(entry.total_duration_seconds / 60)} min${distance > 0 ? `, ${Math.round(distance * 100) / 100} ${segment?.distance_unit}` : ""}`,
+    `${entry.segments.length} segments`,
+  ];
+
+  if (entry.average_heart_rate_bpm) {
+    lines.push(`Heart rate ${entry.average_heart_rate_bpm} avg, ${entry.max_heart_rate_bpm} max`);
+  }
+  lines.push(
+    `${result.created_workout ? "New workout" : "Added to workout"} "${workout.session_title ?? "Workout"}" on ${new Date(workout.date_time_start).toLocaleString()}${result.dry_run ? "" : " saved"}`
+  );
+
+  return lines.join("\n");
+}
+
+function describeHealthImport(report: HealthImportReport): string {
+  const sources = report.sources.map((source) => HealthImportService.SOURCE_LABELS[source]).join(" and ");
+  const lines = [
+    `${sources}: ${report.metric_entries} body metric entries ${report.dry_run ? "will be imported" : "imported"}`,
+  ];
+
+  if (report.first_date && report.last_date) {
+    lines.push(
+      `From ${new Date(report.first_date).toLocaleDateString()} to ${new Date(report.last_date).toLocaleDateString()}`
+    );
+  }
+  if (report.baselines_created + report.baselines_updated > 0) {
+    lines.push(
+      `Resting heart rate for ${report.baselines_created + report.baselines_updated} months of baselines (${report.baselines_created} new)`
+    );
+  }
+  if (report.skipped.length > 0) {
+    const existing = report.skipped.filter((skip) => skip.reason === "Already in your body metrics").length;
+    lines.push(`${report.skipped.length} readings skipped, ${existing} of them days already in your log`);
+  }
+
+  return lines.join("\n");
+}
 
 export default function SettingsPage() {
   const {
     settings,
     updateSetting,
-    exportSettings,
     importSettings,
     resetSettings,
+    replaceSettings,
+    conflict,
+    resolveConflict,
   } = useSettings();
+  const { preferences, updatePreference } = usePreferences();
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>("merge");
+  const [backupPassphrase, setBackupPassphrase] = useState("");
+  const encryption = useEncryption();
+  const [encryptionPassphrase, setEncryptionPassphrase] = useState("");
+  const [encryptionConfirm, setEncryptionConfirm] = useState("");
+  const sync = useSync();
+  const userProfile = useUserProfile();
+  const profiles = useProfiles();
+  const [newProfileName, setNewProfileName] = useState("");
+  const [backupScope, setBackupScope] = useState<"profile" | "device">("profile");
+  const profileHeight = userProfile.profile?.height_cm
+    ? UnitConverter.cmToFeetInches(userProfile.profile.height_cm)
+    : null;
+  const [exportDataset, setExportDataset] = useState<DataExportDataset>("sets");
+  const [exportFormat, setExportFormat] = useState<DataExportFormat>("csv");
+  const [exportStartDate, setExportStartDate] = useState("");
+  const [exportEndDate, setExportEndDate] = useState("");
+  const [exportColumns, setExportColumns] = useState<string[]>(DataExportService.COLUMNS.sets);
+  const [activitySplit, setActivitySplit] = useState<ActivitySplit["by"]>("lap");
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [isCheckingIntegrity, setIsCheckingIntegrity] = useState(false);
+  const [trashStore, setTrashStore] = useState<TrashStore>("workouts");
+  const trash = useTrash(trashStore);
+  const storageQuota = useStorageQuota(settings, true);
+  const [runningCleanup, setRunningCleanup] = useState<CleanupAction["id"] | null>(null);
+
+  const handleSaveProfile = async (updates: Partial<UserProfile>) => {
+    try {
+      await userProfile.saveProfile(updates);
+    } catch {
+      // Shown through userProfile.error
+    }
+  };
+
+  const handleCreateProfile = async () => {
+    try {
+      await profiles.createProfile(newProfileName);
+      setNewProfileName("");
+    } catch {
+      // Shown through profiles.error
+    }
+  };
 
-  const handleExportData = () => {
-    exportSettings();
+  const handleDeleteProfile = async (profile: UserProfile) => {
+    const name = ProfileService.nameOf(profile);
+    if (
+      !confirm(
+        `Delete ${name} along with all of their workouts, plans, body metrics, goals and photos? ` +
+          "The shared exercise catalog and glossary stay. This cannot be undone."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const report = await profiles.deleteProfile(profile.id);
+      const records = Object.values(report.records_deleted).reduce((sum, count) => sum + count, 0);
+      alert(`Deleted ${name}: ${records} records and ${report.media_deleted} media files removed.`);
+    } catch {
+      // Shown through profiles.error
+    }
+  };
+
+  const handleHeightChange = (form: HTMLElement) => {
+    const read = (name: string) => {
+      const input = form.querySelector<HTMLInputElement>(`[name="${name}"]`);
+      return input?.value ? Number(input.value) : 0;
+    };
+    const heightCm =
+      settings.unit_system === "metric"
+        ? read("height-cm")
+        : UnitConverter.feetInchesToCm(read("height-feet"), read("height-inches"));
+    handleSaveProfile({ height_cm: heightCm > 0 ? Math.round(heightCm * 10) / 10 : undefined });
+  };
+
+  const handleExportData = async () => {
+    try {
+      await BackupService.downloadArchive({
+        appSettings: settings,
+        passphrase: backupPassphrase || undefined,
+        profileId: backupScope === "profile" ? profiles.activeProfileId : undefined,
+      });
+    } catch (error) {
+      alert("Failed to export data: " + (error as Error).message);
+    }
+  };
+
+  const restoreBackup = async (file: File) => {
+    const passphrase = backupPassphrase || undefined;
+    if (!passphrase && (await BackupService.isEncrypted(file))) {
+      alert("This backup is encrypted. Enter its passphrase and import it again.");
+      return;
+    }
+
+    // Preview first so the user sees conflicts and skipped records before anything is written
+    const preview = await BackupService.restoreArchive(file, {
+      mode: restoreMode,
+      dryRun: true,
+      passphrase,
+    });
+    const warning =
+      restoreMode !== "replace"
+        ? ""
+        : preview.profile_id
+          ? "\n\nThis is a single-profile backup. Replace mode deletes the active profile's records in every restored section."
+          : "\n\nReplace mode deletes existing records in every restored section.";
+    if (!confirm(`${describeRestoreReport(preview)}${warning}\n\nContinue?`)) {
+      return;
+    }
+
+    const report = await BackupService.restoreArchive(file, { mode: restoreMode, passphrase });
+    if (report.app_settings) {
+      replaceSettings(report.app_settings);
+    }
+    alert(describeRestoreReport(report));
   };
 
   const handleImportData = () => {
     const input = document.createElement("input");
     input.type = "file";
-    input.accept = ".json";
+    input.accept = `${BackupService.FILE_EXTENSION},.json`;
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        try {
+          if (file.name.endsWith(".json")) {
+            // Settings-only exports from earlier versions
+            await importSettings(file);
+            alert("Settings imported successfully!");
+          } else {
+            await restoreBackup(file);
+          }
+        } catch (error) {
+          if (error instanceof WrongPassphraseError) {
+            alert("Incorrect passphrase for this backup. Nothing was imported.");
+          } else {
+            alert("Failed to import data: " + (error as Error).message);
+          }
+        }
+      }
+    };
+    input.click();
+  };
+
+  const importWorkoutHistory = async (file: File) => {
+    const text = await file.text();
+    const weightUnit = settings.unit_system === "metric" ? "kg" : "lb";
+    const options: WorkoutImportOptions = { defaultWeightUnit: weightUnit, targetWeightUnit: weightUnit };
+
+    let preview = await WorkoutImportService.importCsv(text, { ...options, dryRun: true });
+    const unmatched = preview.exercises.filter((match) => !match.exercise_id).map((match) => match.name);
+    if (unmatched.length > 0) {
+      const listed = unmatched.slice(0, 10).join("\n");
+      const more = unmatched.length > 10 ? `\n…and ${unmatched.length - 10} more` : "";
+      if (
+        confirm(
+          `${unmatched.length} exercises are not in your catalog:\n${listed}${more}\n\nCreate them as custom exercises? Cancel leaves their sets out.`
+        )
+      ) {
+        options.createExercises = unmatched;
+        preview = await WorkoutImportService.importCsv(text, { ...options, dryRun: true });
+      }
+    }
+
+    if (preview.workouts === 0) {
+      alert(describeImportReport(preview));
+      return;
+    }
+    if (!confirm(`${describeImportReport(preview)}\n\nContinue?`)) {
+      return;
+    }
+
+    const report = await WorkoutImportService.importCsv(text, options);
+    alert(describeImportReport(report));
+  };
+
+  const handleImportWorkoutHistory = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".csv,text/csv";
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        try {
+          await importWorkoutHistory(file);
+        } catch (error) {
+          alert("Failed to import workout history: " + (error as Error).message);
+        }
+      }
+    };
+    input.click();
+  };
+
+  const importActivity = async (file: File) => {
+    const buffer = await file.arrayBuffer();
+    const distanceUnit = settings.unit_system === "metric" ? "kilometers" : "miles";
+    const split: ActivitySplit =
+      activitySplit === "distance"
+        ? { by: "distance", meters: distanceUnit === "kilometers" ? 1000 : 1609.344 }
+        : activitySplit === "time"
+          ? { by: "time", seconds: 300 }
+          : { by: "lap" };
+    const options: ActivityImportOptions = { split, distanceUnit };
+
+    const activity = ActivityImportService.parse(buffer, file.name);
+    const [overlapping] = await ActivityImportService.findOverlappingWorkouts(activity);
+    if (
+      overlapping &&
+      confirm(
+        `Add this activity to "${overlapping.session_title ?? "Workout"}" on ${new Date(overlapping.date_time_start).toLocaleString()}? Cancel creates a new workout.`
+      )
+    ) {
+      options.workoutId = overlapping.id;
+    }
+
+    const preview = await ActivityImportService.importFile(buffer, file.name, { ...options, dryRun: true });
+    if (!confirm(`${describeActivityImport(preview)}\n\nContinue?`)) {
+      return;
+    }
+
+    const result = await ActivityImportService.importFile(buffer, file.name, options);
+    alert(describeActivityImport(result));
+  };
+
+  const handleImportActivity = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".gpx,.tcx,.fit";
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         try {
-          await importSettings(file);
-          alert("Settings imported successfully!");
+          await importActivity(file);
+        } catch (error) {
+          alert("Failed to import activity: " + (error as Error).message);
+        }
+      }
+    };
+    input.click();
+  };
+
+  const importHealthData = async (files: File[]) => {
+    const texts = await Promise.all(files.map((file) => file.text()));
+    const options = { weightUnit: settings.unit_system === "metric" ? "kg" : "lb" } as const;
+
+    const preview = await HealthImportService.importExports(texts, { ...options, dryRun: true });
+    if (preview.metric_entries + preview.baselines_created + preview.baselines_updated === 0) {
+      alert(describeHealthImport(preview));
+      return;
+    }
+    if (!confirm(`${describeHealthImport(preview)}\n\nContinue?`)) {
+      return;
+    }
+
+    const report = await HealthImportService.importExports(texts, options);
+    alert(describeHealthImport(report));
+  };
+
+  const handleImportHealthData = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".xml,.json,application/xml,application/json";
+    // Google Takeout writes one JSON file per data type
+    input.multiple = true;
+    input.onchange = async (e) => {
+      const files = Array.from((e.target as HTMLInputElement).files ?? []);
+      if (files.length > 0) {
+        try {
+          await importHealthData(files);
         } catch (error) {
-          alert("Failed to import settings: " + (error as Error).message);
+          alert("Failed to import health data: " + (error as Error).message);
         }
       }
     };
     input.click();
   };
 
+  const handleCheckIntegrity = async () => {
+    setIsCheckingIntegrity(true);
+    try {
+      setIntegrityReport(await IntegrityService.scan());
+    } catch (error) {
+      alert("Failed to check data integrity: " + (error as Error).message);
+    } finally {
+      setIsCheckingIntegrity(false);
+    }
+  };
+
+  const handleRepairIntegrity = async (category: IntegrityCategory, repair: IntegrityRepair) => {
+    if (!integrityReport) return;
+    const issues = integrityReport.issues.filter(
+      (issue) => issue.category === category && issue.repairs.includes(repair)
+    );
+    if (
+      !confirm(
+        `${IntegrityService.REPAIR_LABELS[repair]} for ${issues.length} ${IntegrityService.CATEGORY_LABELS[category].toLowerCase()}?`
+      )
+    ) {
+      return;
+    }
+
+    setIsCheckingIntegrity(true);
+    try {
+      const result = await IntegrityService.repair(issues.map((issue) => ({ issue, repair })));
+      if (result.skipped.length > 0) {
+        alert(`${result.repaired} repaired, ${result.skipped.length} skipped (${result.skipped[0].reason})`);
+      }
+      setIntegrityReport(await IntegrityService.scan());
+    } catch (error) {
+      alert("Failed to repair data: " + (error as Error).message);
+    } finally {
+      setIsCheckingIntegrity(false);
+    }
+  };
+
+  const handleExportDatasetChange = (dataset: DataExportDataset) => {
+    setExportDataset(dataset);
+    setExportColumns(DataExportService.COLUMNS[dataset]);
+  };
+
+  const toggleExportColumn = (column: string, included: boolean) => {
+    // Keep the dataset's column order whatever order they were ticked in
+    setExportColumns((current) =>
+      DataExportService.COLUMNS[exportDataset].filter((name) =>
+        name === column ? included : current.includes(name)
+      )
+    );
+  };
+
+  const handleExportForAnalysis = async () => {
+    if (exportColumns.length === 0) {
+      alert("Choose at least one column to export");
+      return;
+    }
+    try {
+      const file = await DataExportService.downloadFile({
+        dataset: exportDataset,
+        format: exportFormat,
+        startDate: exportStartDate || undefined,
+        endDate: exportEndDate || undefined,
+        columns: exportColumns,
+        weightUnit: settings.unit_system === "metric" ? "kg" : "lb",
+      });
+      if (file.rows === 0) {
+        alert("Nothing to export in that date range");
+      }
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleEnableEncryption = async () => {
+    if (encryptionPassphrase !== encryptionConfirm) {
+      alert("Passphrases do not match");
+      return;
+    }
+    if (
+      !confirm(
+        "Encrypt progress photos and body metrics? If you forget this passphrase they cannot be recovered."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await encryption.enable(encryptionPassphrase);
+      setEncryptionPassphrase("");
+      setEncryptionConfirm("");
+    } catch {
+      // Shown through encryption.error
+    }
+  };
+
+  const handleUnlock = async () => {
+    try {
+      await encryption.unlock(encryptionPassphrase);
+      setEncryptionPassphrase("");
+    } catch {
+      // Shown through encryption.error
+    }
+  };
+
+  const handleDisableEncryption = async () => {
+    if (!confirm("Decrypt progress photos and body metrics and store them in plain form?")) {
+      return;
+    }
+
+    try {
+      await encryption.disable(encryptionPassphrase);
+      setEncryptionPassphrase("");
+    } catch {
+      // Shown through encryption.error
+    }
+  };
+
   const handleClearAllData = async () => {
     if (
       confirm(
-        "Are you sure you want to clear all data? This action cannot be undone."
+        "Are you sure you want to clear all data for this profile? Workouts and custom exercises " +
+          `move to the trash for ${TrashService.RETENTION_DAYS} days; settings are reset.`
       )
     ) {
       try {
-        // Clear IndexedDB
-        await storageService.clear("workouts");
-        await storageService.clear("exercises");
-        await storageService.clear("settings");
+        const stores: TrashStore[] = ["workouts", "exercises"];
+        const { deleted_at, count } = await TrashService.trashStores(stores);
 
         // Reset app settings
         resetSettings();
 
-        alert("All data cleared successfully!");
+        UndoService.offer(`Cleared ${count} records`, () => TrashService.restoreDeletion(stores, deleted_at));
       } catch (error) {
         alert("Failed to clear data: " + (error as Error).message);
       }
     }
   };
 
+  const handlePurgeTrashItem = async (item: TrashItem) => {
+    if (!confirm(`Delete "${item.title}" for good? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await trash.purge(item.id);
+    } catch {
+      // Shown through trash.error
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (
+      !confirm(
+        `Permanently delete all ${trash.items.length} ${TrashService.STORE_LABELS[trashStore].toLowerCase()} in the trash? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await trash.emptyTrash();
+    } catch {
+      // Shown through trash.error
+    }
+  };
+
+  const handleRunCleanup = async (action: CleanupAction) => {
+    if (
+      !confirm(
+        `${action.label}? This frees about ${StorageQuotaService.formatBytes(action.estimated_bytes)} and cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    setRunningCleanup(action.id);
+    try {
+      const result = await storageQuota.runCleanup(action.id);
+      alert(`Freed ${StorageQuotaService.formatBytes(result.freed_bytes)} (${result.items_affected} items).`);
+    } catch {
+      // Shown through storageQuota.error
+    } finally {
+      setRunningCleanup(null);
+    }
+  };
+
+  const handleRequestPersistence = async () => {
+    try {
+      const persisted = await storageQuota.requestPersistence();
+      if (!persisted) {
+        alert("The browser declined. Installing the app or bookmarking it usually makes it agree.");
+      }
+    } catch {
+      // Shown through storageQuota.error
+    }
+  };
+
   return (
     <div className="bg-background min-h-screen">
       {/* Header */}
@@ -100,6 +684,19 @@ export default function SettingsPage() {
       </div>
 
       <div className="space-y-6 p-4">
+        {conflict && (
+          <VersionConflictDialog
+            conflict={conflict}
+            title="Settings were changed in another tab"
+            fields={{
+              unit_system: "Units",
+              theme: "Theme",
+              privacy_acknowledged: "Privacy acknowledged",
+            }}
+            onResolve={resolveConflict}
+          />
+        )}
+
         {/* Appearance */}
         <Card>
           <CardHeader>
@@ -173,6 +770,247 @@ export default function SettingsPage() {
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="weight-increment-select">Weight Increment</Label>
+              <Select
+                value={String(
+                  settings.unit_system === "metric"
+                    ? preferences.weight_increment_kg
+                    : preferences.weight_increment_lb
+                )}
+                onValueChange={(value) =>
+                  updatePreference(
+                    settings.unit_system === "metric" ? "weight_increment_kg" : "weight_increment_lb",
+                    Number(value)
+                  )
+                }
+              >
+                <SelectTrigger id="weight-increment-select">
+                  <SelectValue placeholder="Select increment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(settings.unit_system === "metric" ? KG_INCREMENTS : LB_INCREMENTS).map((increment) => (
+                    <SelectItem key={increment} value={String(increment)}>
+                      {increment} {settings.unit_system === "metric" ? "kg" : "lbs"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-muted-foreground text-sm">
+                How much the weight buttons and &quot;Repeat +&quot; add when logging a set.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Profiles */}
+        <Card id="profiles">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Profiles
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              Everyone sharing this device gets their own workouts, plans, body metrics and goals.
+              The exercise catalog, glossary and plan templates are shared by all profiles.
+            </p>
+
+            <ul className="divide-y rounded-md border">
+              {profiles.profiles.map((profile) => {
+                const isActive = profile.id === profiles.activeProfileId;
+                return (
+                  <li key={profile.id} className="flex items-center justify-between gap-2 p-3">
+                    <span className="text-sm font-medium">
+                      {ProfileService.nameOf(profile)}
+                      {isActive && (
+                        <span className="text-muted-foreground ml-2 font-normal">(active)</span>
+                      )}
+                    </span>
+                    <div className="flex gap-2">
+                      {!isActive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => profiles.switchProfile(profile.id).catch(() => undefined)}
+                        >
+                          Switch
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={profiles.profiles.length < 2}
+                        onClick={() => handleDeleteProfile(profile)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="flex gap-2">
+              <Input
+                aria-label="New profile name"
+                placeholder="Name for a new profile"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleCreateProfile()}
+              />
+              <Button onClick={handleCreateProfile} disabled={!newProfileName.trim()}>
+                Add profile
+              </Button>
+            </div>
+
+            {profiles.error && <p className="text-destructive text-sm">{profiles.error}</p>}
+          </CardContent>
+        </Card>
+
+        {/* Profile */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <User className="h-5 w-5" />
+              Profile
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              Used for BMI, daily calorie estimates, strength levels and fitness age. Stays on
+              this device like the rest of your data.
+            </p>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="profile-display-name">Name</Label>
+                <Input
+                  key={`${userProfile.profile?.id}-${userProfile.profile?.display_name}`}
+                  id="profile-display-name"
+                  defaultValue={userProfile.profile?.display_name}
+                  onBlur={(e) => handleSaveProfile({ display_name: e.target.value.trim() || undefined })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="profile-birth-date">Birth date</Label>
+                <Input
+                  key={`${userProfile.profile?.id}-${userProfile.profile?.birth_date}`}
+                  id="profile-birth-date"
+                  type="date"
+                  defaultValue={userProfile.profile?.birth_date}
+                  onBlur={(e) => handleSaveProfile({ birth_date: e.target.value || undefined })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="profile-sex-select">Sex for fitness standards</Label>
+                <Select
+                  value={userProfile.profile?.sex_for_standards ?? ""}
+                  onValueChange={(value) =>
+                    handleSaveProfile({ sex_for_standards: value as "male" | "female" })
+                  }
+                >
+                  <SelectTrigger id="profile-sex-select">
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="female">Female</SelectItem>
+                    <SelectItem value="male">Male</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <fieldset
+                key={`${userProfile.profile?.id}-${settings.unit_system}-${userProfile.profile?.height_cm}`}
+                className="space-y-2"
+                onBlur={(e) => {
+                  // Save once focus leaves the height fields, not when moving from feet to inches
+                  if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                    handleHeightChange(e.currentTarget);
+                  }
+                }}
+              >
+                <legend className="text-sm font-medium">Height</legend>
+                {settings.unit_system === "metric" ? (
+                  <Input
+                    name="height-cm"
+                    type="number"
+                    min={0}
+                    placeholder="cm"
+                    aria-label="Height in centimeters"
+                    defaultValue={userProfile.profile?.height_cm}
+                  />
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      name="height-feet"
+                      type="number"
+                      min={0}
+                      placeholder="ft"
+                      aria-label="Height, feet"
+                      defaultValue={profileHeight?.feet}
+                    />
+                    <Input
+                      name="height-inches"
+                      type="number"
+                      min={0}
+                      max={11}
+                      placeholder="in"
+                      aria-label="Height, inches"
+                      defaultValue={profileHeight ? Math.round(profileHeight.inches) : undefined}
+                    />
+                  </div>
+                )}
+              </fieldset>
+
+              <div className="space-y-2">
+                <Label htmlFor="profile-activity-select">Activity level</Label>
+                <Select
+                  value={userProfile.profile?.activity_level ?? ""}
+                  onValueChange={(value) =>
+                    handleSaveProfile({ activity_level: value as ActivityLevel })
+                  }
+                >
+                  <SelectTrigger id="profile-activity-select">
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sedentary">Sedentary (desk job, little exercise)</SelectItem>
+                    <SelectItem value="lightly_active">Lightly active (1-3 days a week)</SelectItem>
+                    <SelectItem value="moderately_active">Moderately active (3-5 days a week)</SelectItem>
+                    <SelectItem value="very_active">Very active (6-7 days a week)</SelectItem>
+                    <SelectItem value="extra_active">Extra active (physical job or twice a day)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="profile-experience-select">Training experience</Label>
+                <Select
+                  value={userProfile.profile?.training_experience ?? ""}
+                  onValueChange={(value) =>
+                    handleSaveProfile({
+                      training_experience: value as UserProfile["training_experience"],
+                    })
+                  }
+                >
+                  <SelectTrigger id="profile-experience-select">
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="beginner">Beginner (under a year)</SelectItem>
+                    <SelectItem value="intermediate">Intermediate (1-3 years)</SelectItem>
+                    <SelectItem value="advanced">Advanced (3+ years)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {userProfile.error && <p className="text-destructive text-sm">{userProfile.error}</p>}
           </CardContent>
         </Card>
 
@@ -211,6 +1049,149 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Encryption */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Encryption
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              {!encryption.status.enabled
+                ? "Progress photos and body metrics are stored unencrypted."
+                : encryption.status.unlocked
+                  ? "Progress photos and body metrics are encrypted and unlocked for this session."
+                  : "Progress photos and body metrics are encrypted. Unlock them to view or edit."}
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="encryption-passphrase">Passphrase</Label>
+              <Input
+                id="encryption-passphrase"
+                type="password"
+                autoComplete={encryption.status.enabled ? "current-password" : "new-password"}
+                value={encryptionPassphrase}
+                onChange={(e) => setEncryptionPassphrase(e.target.value)}
+              />
+              {!encryption.status.enabled && (
+                <>
+                  <Label htmlFor="encryption-confirm">Confirm passphrase</Label>
+                  <Input
+                    id="encryption-confirm"
+                    type="password"
+                    autoComplete="new-password"
+                    value={encryptionConfirm}
+                    onChange={(e) => setEncryptionConfirm(e.target.value)}
+                  />
+                </>
+              )}
+            </div>
+
+            {encryption.error && (
+              <p className="text-destructive text-sm">{encryption.error}</p>
+            )}
+
+            <div className="grid gap-3">
+              {!encryption.status.enabled && (
+                <Button
+                  variant="outline"
+                  className="justify-start"
+                  disabled={encryption.isLoading || !encryptionPassphrase}
+                  onClick={handleEnableEncryption}
+                >
+                  Encrypt photos and metrics
+                </Button>
+              )}
+              {encryption.status.enabled && !encryption.status.unlocked && (
+                <Button
+                  variant="outline"
+                  className="justify-start"
+                  disabled={encryption.isLoading || !encryptionPassphrase}
+                  onClick={handleUnlock}
+                >
+                  Unlock
+                </Button>
+              )}
+              {encryption.status.unlocked && (
+                <Button
+                  variant="outline"
+                  className="justify-start"
+                  disabled={encryption.isLoading}
+                  onClick={() => encryption.lock()}
+                >
+                  Lock now
+                </Button>
+              )}
+              {encryption.status.enabled && (
+                <Button
+                  variant="outline"
+                  className="justify-start"
+                  disabled={encryption.isLoading || !encryptionPassphrase}
+                  onClick={handleDisableEncryption}
+                >
+                  Turn off encryption
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Sync */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <RefreshCw className="h-5 w-5" />
+              Sync
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sync-server-url">Sync server</Label>
+              <Input
+                key={sync.device?.server_url}
+                id="sync-server-url"
+                type="url"
+                placeholder="/api/sync"
+                defaultValue={sync.device?.server_url}
+                onBlur={(e) => sync.setServerUrl(e.target.value)}
+              />
+            </div>
+
+            <div className="text-muted-foreground space-y-1 text-sm">
+              <p>
+                Last synced:{" "}
+                {sync.device?.last_synced_at
+                  ? new Date(sync.device.last_synced_at).toLocaleString()
+                  : "never"}
+              </p>
+              <p>Changes waiting to upload: {sync.pendingCount}</p>
+              {encryption.status.enabled && (
+                <p>Encrypted body metrics and progress photos stay on this device and are not synced.</p>
+              )}
+              {sync.lastReport && (
+                <p>
+                  Sent {sync.lastReport.pushed} and received {sync.lastReport.applied} updated,{" "}
+                  {sync.lastReport.deleted} deleted records
+                </p>
+              )}
+            </div>
+
+            {sync.error && <p className="text-destructive text-sm">{sync.error}</p>}
+
+            <Button
+              variant="outline"
+              className="justify-start"
+              disabled={sync.isSyncing}
+              onClick={() => sync.syncNow()}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              {sync.isSyncing ? "Syncing..." : "Sync now"}
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Data Management */}
         <Card>
           <CardHeader>
@@ -220,6 +1201,36 @@ export default function SettingsPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="backup-scope-select">Back up</Label>
+              <Select
+                value={backupScope}
+                onValueChange={(value) => setBackupScope(value as "profile" | "device")}
+              >
+                <SelectTrigger id="backup-scope-select">
+                  <SelectValue placeholder="Select what to back up" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="profile">
+                    {profiles.activeProfile ? ProfileService.nameOf(profiles.activeProfile) : "This profile"} only
+                  </SelectItem>
+                  <SelectItem value="device">Every profile on this device</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase">Backup passphrase (optional)</Label>
+              <Input
+                id="backup-passphrase"
+                type="password"
+                autoComplete="off"
+                placeholder="Leave empty for an unencrypted backup"
+                value={backupPassphrase}
+                onChange={(e) => setBackupPassphrase(e.target.value)}
+              />
+            </div>
+
             <div className="grid gap-3">
               <Button
                 variant="outline"
@@ -239,6 +1250,70 @@ export default function SettingsPage() {
                 Import Data
               </Button>
 
+              <Button
+                variant="outline"
+                className="justify-start"
+                onClick={handleImportWorkoutHistory}
+              >
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                Import from Strong, Hevy or FitNotes
+              </Button>
+
+              <Button
+                variant="outline"
+                className="justify-start"
+                onClick={handleImportActivity}
+              >
+                <MapPin className="mr-2 h-4 w-4" />
+                Import GPX, TCX or FIT activity
+              </Button>
+
+              <Button
+                variant="outline"
+                className="justify-start"
+                onClick={handleImportHealthData}
+              >
+                <HeartPulse className="mr-2 h-4 w-4" />
+                Import from Apple Health or Google Fit
+              </Button>
+
+              <div className="space-y-2">
+                <Label htmlFor="activity-split-select">Split imported activities by</Label>
+                <Select
+                  value={activitySplit}
+                  onValueChange={(value) => setActivitySplit(value as ActivitySplit["by"])}
+                >
+                  <SelectTrigger id="activity-split-select">
+                    <SelectValue placeholder="Select split" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="lap">Laps recorded on the device</SelectItem>
+                    <SelectItem value="distance">
+                      Every {settings.unit_system === "metric" ? "kilometer" : "mile"}
+                    </SelectItem>
+                    <SelectItem value="time">Every 5 minutes</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="restore-mode-select">When importing a backup</Label>
+                <Select
+                  value={restoreMode}
+                  onValueChange={(value) => setRestoreMode(value as RestoreMode)}
+                >
+                  <SelectTrigger id="restore-mode-select">
+                    <SelectValue placeholder="Select restore mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="merge">
+                      Merge (keep newest version of each record)
+                    </SelectItem>
+                    <SelectItem value="replace">Replace existing data</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <Button
                 variant="destructive"
                 className="justify-start"
@@ -254,6 +1329,381 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Storage */}
+        <Card id="storage">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <HardDrive className="h-5 w-5" />
+              Storage
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {storageQuota.status && storageQuota.status.quota > 0 ? (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>
+                    {StorageQuotaService.formatBytes(storageQuota.status.usage)} of{" "}
+                    {StorageQuotaService.formatBytes(storageQuota.status.quota)} used
+                  </span>
+                  <span className="text-muted-foreground">
+                    {storageQuota.status.percent_used.toFixed(1)}%
+                  </span>
+                </div>
+                <div className="bg-muted h-2 overflow-hidden rounded-full">
+                  <div
+                    className={
+                      storageQuota.status.health === "critical"
+                        ? "bg-destructive h-full"
+                        : storageQuota.status.health === "warning"
+                          ? "h-full bg-amber-500"
+                          : "bg-primary h-full"
+                    }
+                    style={{ width: `${Math.min(storageQuota.status.percent_used, 100)}%` }}
+                  />
+                </div>
+              </div>
+            ) : (
+              <p className="text-muted-foreground text-sm">
+                {storageQuota.isLoading ? "Loading..." : "This browser doesn't report storage use."}
+              </p>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+              <div className="space-y-0.5">
+                <Label>Persistent storage</Label>
+                <p className="text-muted-foreground text-sm">
+                  {storageQuota.status?.persisted
+                    ? "The browser won't clear your data when the device runs low."
+                    : storageQuota.status?.persisted === false
+                      ? "The browser may clear your data when the device runs low."
+                      : "Not supported by this browser."}
+                </p>
+              </div>
+              {storageQuota.status?.persisted === false && (
+                <Button variant="outline" size="sm" onClick={handleRequestPersistence}>
+                  Keep data
+                </Button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="storage-warning-select">Warn at</Label>
+                <Select
+                  value={String(settings.storage_warning_percent ?? StorageQuotaService.DEFAULT_WARNING_PERCENT)}
+                  onValueChange={(value) => updateSetting("storage_warning_percent", Number(value))}
+                >
+                  <SelectTrigger id="storage-warning-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[50, 60, 70, 80, 90].map((percent) => (
+                      <SelectItem key={percent} value={String(percent)}>
+                        {percent}% full
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="storage-critical-select">Urgent at</Label>
+                <Select
+                  value={String(settings.storage_critical_percent ?? StorageQuotaService.DEFAULT_CRITICAL_PERCENT)}
+                  onValueChange={(value) => updateSetting("storage_critical_percent", Number(value))}
+                >
+                  <SelectTrigger id="storage-critical-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[85, 90, 95, 98].map((percent) => (
+                      <SelectItem key={percent} value={String(percent)}>
+                        {percent}% full
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Free up space</Label>
+              {storageQuota.actions.length === 0 ? (
+                <p className="text-muted-foreground text-sm">
+                  {storageQuota.isLoading ? "Checking..." : "Nothing to clean up."}
+                </p>
+              ) : (
+                <ul className="divide-y rounded-md border">
+                  {storageQuota.actions.map((action) => (
+                    <li key={action.id} className="flex items-center justify-between gap-2 p-3">
+                      <div className="min-w-0 text-sm">
+                        <p className="font-medium">{action.label}</p>
+                        <p className="text-muted-foreground">
+                          {action.unavailable_reason ??
+                            `${action.description} Frees about ${StorageQuotaService.formatBytes(action.estimated_bytes)} from ${action.item_count} item${action.item_count === 1 ? "" : "s"}.`}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="shrink-0"
+                        disabled={Boolean(action.unavailable_reason) || runningCleanup !== null}
+                        onClick={() => handleRunCleanup(action)}
+                      >
+                        {runningCleanup === action.id ? "Running..." : "Run"}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {storageQuota.error && <p className="text-destructive text-sm">{storageQuota.error}</p>}
+          </CardContent>
+        </Card>
+
+        {/* Trash */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5" />
+              Trash
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              Deleted items stay here for {TrashService.RETENTION_DAYS} days and are then removed
+              for good.
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="trash-store-select">Show</Label>
+              <Select value={trashStore} onValueChange={(value) => setTrashStore(value as TrashStore)}>
+                <SelectTrigger id="trash-store-select">
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TrashService.STORE_LABELS) as TrashStore[]).map((store) => (
+                    <SelectItem key={store} value={store}>
+                      {TrashService.STORE_LABELS[store]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {trash.items.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                {trash.isLoading ? "Loading..." : "Nothing in the trash."}
+              </p>
+            ) : (
+              <ul className="divide-y rounded-md border">
+                {trash.items.map((item) => (
+                  <li key={item.id} className="flex items-center justify-between gap-2 p-3">
+                    <div className="min-w-0 text-sm">
+                      <p className="truncate font-medium">{item.title}</p>
+                      <p className="text-muted-foreground">
+                        {item.detail && `${item.detail} · `}
+                        Deleted {new Date(item.deleted_at).toLocaleDateString()}, removed{" "}
+                        {new Date(item.purge_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => trash.restore(item.id).catch(() => undefined)}
+                      >
+                        Restore
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handlePurgeTrashItem(item)}>
+                        Delete forever
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <Button
+              variant="destructive"
+              className="justify-start"
+              disabled={trash.items.length === 0}
+              onClick={handleEmptyTrash}
+            >
+              Empty trash
+            </Button>
+
+            {trash.error && <p className="text-destructive text-sm">{trash.error}</p>}
+          </CardContent>
+        </Card>
+
+        {/* Data Integrity */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Data Integrity
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              Find workouts, plans and glossary entries that point at exercises, sessions, photos
+              or terms that no longer exist.
+            </p>
+
+            {integrityReport && integrityReport.issues.length === 0 && (
+              <p className="text-sm">
+                No problems found in{" "}
+                {Object.values(integrityReport.records_scanned).reduce((sum, count) => sum + count, 0)}{" "}
+                records.
+              </p>
+            )}
+
+            {integrityReport &&
+              (Object.keys(IntegrityService.CATEGORY_LABELS) as IntegrityCategory[]).map((category) => {
+                const issues = integrityReport.issues.filter((issue) => issue.category === category);
+                if (issues.length === 0) return null;
+                const repairs = (Object.keys(IntegrityService.REPAIR_LABELS) as IntegrityRepair[]).filter(
+                  (repair) => issues.some((issue) => issue.repairs.includes(repair))
+                );
+
+                return (
+                  <div key={category} className="space-y-2 rounded-md border p-3">
+                    <p className="text-sm font-medium">
+                      {IntegrityService.CATEGORY_LABELS[category]} ({issues.length})
+                    </p>
+                    <ul className="text-muted-foreground list-inside list-disc text-sm">
+                      {issues.slice(0, 3).map((issue) => (
+                        <li key={issue.id}>
+                          {issue.record_label}: {issue.reference}
+                          {issue.relink && ` (matches ${issue.relink.label})`}
+                        </li>
+                      ))}
+                      {issues.length > 3 && <li>…and {issues.length - 3} more</li>}
+                    </ul>
+                    <div className="flex flex-wrap gap-2">
+                      {repairs.map((repair) => (
+                        <Button
+                          key={repair}
+                          variant="outline"
+                          size="sm"
+                          disabled={isCheckingIntegrity}
+                          onClick={() => handleRepairIntegrity(category, repair)}
+                        >
+                          {IntegrityService.REPAIR_LABELS[repair]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+
+            <Button
+              variant="outline"
+              className="justify-start"
+              disabled={isCheckingIntegrity}
+              onClick={handleCheckIntegrity}
+            >
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              {isCheckingIntegrity ? "Checking..." : "Check data integrity"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Analysis Export */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              Export for Analysis
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="export-dataset-select">Data</Label>
+                <Select
+                  value={exportDataset}
+                  onValueChange={(value) => handleExportDatasetChange(value as DataExportDataset)}
+                >
+                  <SelectTrigger id="export-dataset-select">
+                    <SelectValue placeholder="Select data" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DataExportService.DATASET_LABELS).map(([dataset, label]) => (
+                      <SelectItem key={dataset} value={dataset}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="export-format-select">Format</Label>
+                <Select
+                  value={exportFormat}
+                  onValueChange={(value) => setExportFormat(value as DataExportFormat)}
+                >
+                  <SelectTrigger id="export-format-select">
+                    <SelectValue placeholder="Select format" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="csv">CSV (spreadsheets)</SelectItem>
+                    <SelectItem value="jsonl">JSON Lines</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="export-start-date">From</Label>
+                <Input
+                  id="export-start-date"
+                  type="date"
+                  value={exportStartDate}
+                  onChange={(e) => setExportStartDate(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="export-end-date">To</Label>
+                <Input
+                  id="export-end-date"
+                  type="date"
+                  value={exportEndDate}
+                  onChange={(e) => setExportEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium">Columns</legend>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                {DataExportService.COLUMNS[exportDataset].map((column) => (
+                  <label key={column} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      checked={exportColumns.includes(column)}
+                      onChange={(e) => toggleExportColumn(column, e.target.checked)}
+                    />
+                    {column}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <p className="text-muted-foreground text-sm">
+              Weights are exported in {settings.unit_system === "metric" ? "kilograms" : "pounds"}.
+            </p>
+
+            <Button variant="outline" className="justify-start" onClick={handleExportForAnalysis}>
+              <Download className="mr-2 h-4 w-4" />
+              Export {DataExportService.DATASET_LABELS[exportDataset].toLowerCase()}
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* App Info */}
         <Card>
           <CardHeader>
@@ -263,12 +1713,18 @@ export default function SettingsPage() {
             <p>Fitness Tracker v1.0.0</p>
             <p>Built with Next.js and Tailwind CSS</p>
             <p>
-              This app prioritizes your privacy by storing all data locally on
-              your device.
+              {STORAGE_BACKEND === "server"
+                ? "Your data is stored on your own server; media files stay on this device."
+                : STORAGE_BACKEND === "memory"
+                  ? "Your data is kept in memory only and is lost when you close the app."
+                  : "This app prioritizes your privacy by storing all data locally on your device."}
             </p>
           </CardContent>
         </Card>
       </div>
+
+      {/* Undo for clearing data */}
+      <UndoToast />
     </div>
   );
 }
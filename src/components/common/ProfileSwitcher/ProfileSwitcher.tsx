@@ -0,0 +1,72 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { UserRound } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useProfiles } from "@/hooks/useProfiles";
+import { ProfileService } from "@/services/profileService";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Select value that opens profile management instead of switching
+const MANAGE_PROFILES = "__manage";
+
+interface ProfileSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Switches which local profile the app shows, for devices several people share
+ * Profiles are added and removed on the settings page
+ */
+export function ProfileSwitcher({ className }: ProfileSwitcherProps) {
+  const router = useRouter();
+  const { profiles, activeProfileId, switchProfile } = useProfiles();
+
+  const handleChange = async (value: string) => {
+    if (value === MANAGE_PROFILES) {
+      router.push("/settings#profiles");
+      return;
+    }
+
+    try {
+      await switchProfile(value);
+    } catch (error) {
+      alert("Failed to switch profile: " + (error as Error).message);
+    }
+  };
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn("fixed top-3 right-4 z-50", className)}>
+      <Select value={activeProfileId} onValueChange={handleChange}>
+        <SelectTrigger
+          size="sm"
+          className="bg-background max-w-[10rem] shadow-lg"
+          aria-label="Active profile"
+        >
+          <UserRound className="h-4 w-4" aria-hidden="true" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent align="end">
+          {profiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {ProfileService.nameOf(profile)}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={MANAGE_PROFILES}>Add or remove profiles</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { ProfileSwitcher } from "./ProfileSwitcher";
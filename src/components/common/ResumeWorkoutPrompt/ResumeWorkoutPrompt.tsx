@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Dumbbell } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { WorkoutService } from "@/services/workoutService";
+import type { ActiveWorkoutSession } from "@/types";
+
+// Where an unplanned workout in progress is logged
+const LOG_PATH = "/log";
+// Where a planned session is worked through
+const PLAN_SESSION_PATH = "/plan/session";
+
+interface ResumeWorkoutPromptProps {
+  className?: string;
+}
+
+function describeProgress(session: ActiveWorkoutSession): string {
+  const sets = session.workoutLog.entries.reduce(
+    (sum, entry) =>
+      sum +
+      (entry.type === "strength"
+        ? entry.performed_sets.length
+        : entry.type === "cardio"
+          ? entry.segments.length
+          : 1),
+    0
+  );
+  const started = new Date(session.startTime).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `Started ${started} · ${sets} ${sets === 1 ? "set" : "sets"} logged${session.sessionStatus === "paused" ? " · paused" : ""}`;
+}
+
+// Planned sessions resume in their plan session view, unplanned ones on the log page
+function resumePath(session: ActiveWorkoutSession): string {
+  const planSessionId = session.workoutLog.session_plan_ref;
+  if (!planSessionId) {
+    return LOG_PATH;
+  }
+  const query = new URLSearchParams({
+    session: planSessionId,
+    resume: session.id,
+  });
+  return `${PLAN_SESSION_PATH}?${query}`;
+}
+
+/**
+ * Offers to resume or discard each workout left unfinished, e.g. when the
+ * phone closed the tab mid-workout. Asked once per app load.
+ */
+export function ResumeWorkoutPrompt({ className }: ResumeWorkoutPromptProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [sessions, setSessions] = useState<ActiveWorkoutSession[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    WorkoutService.getUnfinishedSessions()
+      .then(setSessions)
+      .catch((error) =>
+        console.error("Failed to look for unfinished workouts:", error)
+      );
+  }, []);
+
+  // The workout pages show the workout itself
+  if (
+    sessions.length === 0 ||
+    pathname === LOG_PATH ||
+    pathname === PLAN_SESSION_PATH
+  ) {
+    return null;
+  }
+
+  const dismiss = (session: ActiveWorkoutSession) =>
+    setSessions((current) =>
+      current.filter((candidate) => candidate.id !== session.id)
+    );
+
+  const handleResume = async (session: ActiveWorkoutSession) => {
+    setBusyId(session.id);
+    try {
+      // Time spent away while paused counts as pause, not workout
+      if (session.sessionStatus === "paused") {
+        await WorkoutService.resumeSession(session.id);
+      }
+      dismiss(session);
+      router.push(resumePath(session));
+    } catch (error) {
+      alert("Failed to resume workout: " + (error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (session: ActiveWorkoutSession) => {
+    if (!confirm("Discard this workout? Nothing logged in it will be saved.")) {
+      return;
+    }
+
+    setBusyId(session.id);
+    try {
+      await WorkoutService.abandonSession(session.id);
+      dismiss(session);
+    } catch (error) {
+      alert("Failed to discard workout: " + (error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div
+      role="alertdialog"
+      aria-labelledby="resume-workout-title"
+      className={cn(
+        "bg-background fixed top-16 right-4 left-4 z-50 mx-auto max-w-md space-y-3 rounded-lg border p-4 shadow-lg",
+        className
+      )}
+    >
+      <p id="resume-workout-title" className="text-sm font-medium">
+        {sessions.length === 1
+          ? "Unfinished workout"
+          : `${sessions.length} unfinished workouts`}
+      </p>
+      {sessions.map((session) => (
+        <div key={session.id} className="space-y-2">
+          <div className="flex items-start gap-3">
+            <Dumbbell className="mt-0.5 h-5 w-5 shrink-0" aria-hidden="true" />
+            <div className="min-w-0 text-sm">
+              <p className="font-medium">
+                {session.workoutLog.session_title ?? "Unplanned workout"}
+              </p>
+              <p className="text-muted-foreground">
+                {describeProgress(session)}
+              </p>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleDiscard(session)}
+              disabled={busyId !== null}
+            >
+              Discard
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => handleResume(session)}
+              disabled={busyId !== null}
+            >
+              Resume
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { ResumeWorkoutPrompt } from "./ResumeWorkoutPrompt";
@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GitBranch, History, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useRevisionHistory } from "@/hooks/useRevisionHistory";
+import type { ProgramPlan, RevisionChange, RevisionStore, WorkoutLogEntry } from "@/types";
+
+// Changes listed before the rest collapse into a count
+const MAX_CHANGES_SHOWN = 20;
+
+const CHANGE_MARKERS: Record<RevisionChange["kind"], string> = {
+  added: "+",
+  removed: "−",
+  changed: "~",
+  reordered: "↕",
+};
+
+const formatValue = (value: unknown): string | null =>
+  typeof value === "string" || typeof value === "number" || typeof value === "boolean" ? String(value) : null;
+
+export interface RevisionHistoryProps {
+  store: RevisionStore;
+  entityId: string;
+  onRestored?: (record: ProgramPlan | WorkoutLogEntry) => void;
+  onForked?: (record: ProgramPlan | WorkoutLogEntry) => void;
+  className?: string;
+}
+
+/**
+ * Saved versions of a plan or workout log, with a diff between any two
+ * and a way to restore or copy an old one
+ */
+export function RevisionHistory({ store, entityId, onRestored, onForked, className }: RevisionHistoryProps) {
+  const { history, compare, restore, fork, isLoading, error } = useRevisionHistory(store, entityId);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [changes, setChanges] = useState<RevisionChange[]>([]);
+
+  // Compare the latest save with the one before it until the user picks others
+  const latest = history[0]?.entity_version ?? null;
+  const from = fromVersion ?? history[1]?.entity_version ?? null;
+  const to = toVersion ?? latest;
+
+  useEffect(() => {
+    if (from === null || to === null || from === to) {
+      setChanges([]);
+      return;
+    }
+
+    let cancelled = false;
+    compare(from, to)
+      .then((result) => !cancelled && setChanges(result))
+      .catch(() => !cancelled && setChanges([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [compare, from, to, latest]);
+
+  const handleRestore = async (entityVersion: number) => {
+    if (!confirm(`Restore version ${entityVersion}? The current version stays in the history.`)) {
+      return;
+    }
+
+    try {
+      onRestored?.(await restore(entityVersion));
+    } catch {
+      // Shown through error
+    }
+  };
+
+  const handleFork = async (entityVersion: number) => {
+    try {
+      onForked?.(await fork(entityVersion));
+    } catch {
+      // Shown through error
+    }
+  };
+
+  if (history.length === 0) {
+    return (
+      <p className={cn("text-muted-foreground text-sm", className)}>
+        {isLoading ? "Loading history..." : "No saved versions yet."}
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <ul className="divide-y rounded-md border">
+        {history.map((entry) => (
+          <li key={entry.revision_id} className="space-y-2 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2 text-sm font-medium">
+                <History className="h-4 w-4" aria-hidden="true" />
+                Version {entry.entity_version}
+                {entry.entity_version === latest && (
+                  <span className="text-muted-foreground font-normal">(current)</span>
+                )}
+              </span>
+              <span className="text-muted-foreground text-xs">
+                {new Date(entry.saved_at).toLocaleString()}
+              </span>
+            </div>
+            <p className="text-muted-foreground text-sm">{entry.summary}</p>
+            <div className="flex gap-2">
+              {entry.entity_version !== latest && (
+                <Button variant="outline" size="sm" onClick={() => handleRestore(entry.entity_version)}>
+                  <RotateCcw className="mr-1 h-3 w-3" aria-hidden="true" />
+                  Restore
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => handleFork(entry.entity_version)}>
+                <GitBranch className="mr-1 h-3 w-3" aria-hidden="true" />
+                Copy as new
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {history.length > 1 && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { id: "revision-from", label: "Compare", value: from, onChange: setFromVersion },
+              { id: "revision-to", label: "With", value: to, onChange: setToVersion },
+            ].map((picker) => (
+              <div key={picker.id} className="space-y-1">
+                <Label htmlFor={picker.id}>{picker.label}</Label>
+                <Select
+                  value={picker.value?.toString() ?? ""}
+                  onValueChange={(value) => picker.onChange(Number(value))}
+                >
+                  <SelectTrigger id={picker.id}>
+                    <SelectValue placeholder="Version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {history.map((entry) => (
+                      <SelectItem key={entry.revision_id} value={entry.entity_version.toString()}>
+                        Version {entry.entity_version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {from === to ? (
+            <p className="text-muted-foreground text-sm">Pick two different versions.</p>
+          ) : changes.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No differences.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {changes.slice(0, MAX_CHANGES_SHOWN).map((change, index) => (
+                <li key={index} className="flex gap-2">
+                  <span className="text-muted-foreground w-3 shrink-0 text-center" aria-label={change.kind}>
+                    {CHANGE_MARKERS[change.kind]}
+                  </span>
+                  <span>
+                    {change.description}
+                    {change.kind === "changed" &&
+                      formatValue(change.before) !== null &&
+                      formatValue(change.after) !== null && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          ({formatValue(change.before)} → {formatValue(change.after)})
+                        </span>
+                      )}
+                  </span>
+                </li>
+              ))}
+              {changes.length > MAX_CHANGES_SHOWN && (
+                <li className="text-muted-foreground">
+                  …and {changes.length - MAX_CHANGES_SHOWN} more
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  );
+}
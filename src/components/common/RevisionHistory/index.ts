@@ -0,0 +1,2 @@
+export { RevisionHistory } from "./RevisionHistory";
+export type { RevisionHistoryProps } from "./RevisionHistory";
@@ -0,0 +1,57 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { HardDrive, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useSettings } from "@/hooks/useSettings";
+import { useStorageQuota } from "@/hooks/useStorageQuota";
+
+interface StorageWarningProps {
+  className?: string;
+}
+
+/**
+ * Warns when storage use passes the thresholds set in settings, before
+ * writes start failing, and links to the cleanup actions
+ */
+export function StorageWarning({ className }: StorageWarningProps) {
+  const { settings } = useSettings();
+  const { status } = useStorageQuota(settings);
+  const [dismissedHealth, setDismissedHealth] = useState<string | null>(null);
+
+  // Dismissing hides the warning until usage reaches the next level
+  if (!status || status.health === "ok" || status.health === dismissedHealth) {
+    return null;
+  }
+
+  const isCritical = status.health === "critical";
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "mx-4 mt-14 flex items-center gap-3 rounded-lg border px-4 py-3 text-sm",
+        isCritical ? "border-destructive bg-destructive/10 text-destructive" : "bg-muted",
+        className
+      )}
+    >
+      <HardDrive className="h-4 w-4 shrink-0" aria-hidden="true" />
+      <span className="flex-1">
+        Storage is {Math.round(status.percent_used)}% full.{" "}
+        {isCritical ? "New workouts may fail to save. " : ""}
+        <Link href="/settings#storage" className="font-medium underline">
+          Free up space
+        </Link>
+      </span>
+      <button
+        type="button"
+        onClick={() => setDismissedHealth(status.health)}
+        className="opacity-70 hover:opacity-100"
+        aria-label="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
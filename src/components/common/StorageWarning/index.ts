@@ -0,0 +1 @@
+export { StorageWarning } from "./StorageWarning";
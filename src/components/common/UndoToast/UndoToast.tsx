@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Undo2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { UndoService } from "@/services/undoService";
+import type { UndoOffer } from "@/types";
+
+// Long enough to notice a mistake, short enough not to linger over the next task
+const UNDO_WINDOW_MS = 8000;
+
+interface UndoToastProps {
+  className?: string;
+}
+
+/**
+ * Offers to undo the most recent delete, e.g. of a workout or plan
+ * Disappears after a few seconds; the deleted item stays in the trash
+ */
+export function UndoToast({ className }: UndoToastProps) {
+  const [offer, setOffer] = useState<UndoOffer | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  useEffect(() => UndoService.subscribe(setOffer), []);
+
+  useEffect(() => {
+    if (!offer) {
+      return;
+    }
+
+    const timeout = setTimeout(() => UndoService.dismiss(offer.id), UNDO_WINDOW_MS);
+    return () => clearTimeout(timeout);
+  }, [offer]);
+
+  if (!offer) {
+    return null;
+  }
+
+  const handleUndo = async () => {
+    setIsUndoing(true);
+    try {
+      await UndoService.undo(offer.id);
+    } catch (error) {
+      alert("Failed to undo: " + (error as Error).message);
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={cn(
+        "bg-foreground text-background fixed right-4 bottom-20 left-4 z-50 mx-auto flex max-w-md items-center gap-3 rounded-lg px-4 py-3 shadow-lg",
+        className
+      )}
+    >
+      <span className="flex-1 text-sm">{offer.message}</span>
+      <Button size="sm" variant="secondary" onClick={handleUndo} disabled={isUndoing}>
+        <Undo2 className="mr-1 h-4 w-4" aria-hidden="true" />
+        Undo
+      </Button>
+      <button
+        type="button"
+        onClick={() => UndoService.dismiss(offer.id)}
+        className="opacity-70 hover:opacity-100"
+        aria-label="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { UndoToast } from "./UndoToast";
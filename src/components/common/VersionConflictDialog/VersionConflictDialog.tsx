@@ -0,0 +1,97 @@
+/**
+ * Version conflict dialog showing a rejected edit next to the stored record
+ * Following cursor rules for type safety and accessibility
+ */
+
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { AlertTriangle } from "lucide-react";
+import type { ConflictResolution, VersionConflict } from "@/types";
+import styles from "./VersionConflictDialog.module.css";
+
+// Bookkeeping fields that always differ and mean nothing to the user
+const HIDDEN_FIELDS = new Set(["id", "created_at", "updated_at", "version", "timestamp"]);
+
+export interface VersionConflictDialogProps<T extends object> {
+  conflict: VersionConflict<T>;
+  title?: string;
+  // Field labels to show; defaults to every non-bookkeeping field that differs
+  fields?: Partial<Record<keyof T, string>>;
+  onResolve: (resolution: ConflictResolution) => void;
+  className?: string;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export function VersionConflictDialog<T extends object>({
+  conflict,
+  title = "This was changed somewhere else",
+  fields,
+  onResolve,
+  className,
+}: VersionConflictDialogProps<T>) {
+  const local = conflict.local as Record<string, unknown>;
+  const remote = (conflict.remote ?? {}) as Record<string, unknown>;
+
+  const keys = fields
+    ? Object.keys(fields)
+    : Array.from(new Set([...Object.keys(local), ...Object.keys(remote)])).filter(
+        (key) => !HIDDEN_FIELDS.has(key)
+      );
+  // Explicit fields and deleted records show every row; otherwise only what differs
+  const showAll = Boolean(fields) || conflict.remote === null;
+  const rows = keys
+    .map((key) => ({
+      key,
+      label: (fields as Record<string, string> | undefined)?.[key] ?? key.replace(/_/g, " "),
+      mine: formatValue(local[key]),
+      theirs: formatValue(remote[key]),
+    }))
+    .filter((row) => showAll || row.mine !== row.theirs);
+
+  return (
+    <div className={`${styles.dialog} ${className || ""}`} role="alertdialog" aria-labelledby="version-conflict-title">
+      <div className={styles.header}>
+        <AlertTriangle className={styles.icon} aria-hidden="true" />
+        <h3 id="version-conflict-title" className={styles.title}>{title}</h3>
+      </div>
+
+      <p className={styles.description}>
+        {conflict.remote
+          ? "Your change was not saved because a newer version exists. Choose which version to keep."
+          : "Your change was not saved because this item was deleted elsewhere."}
+      </p>
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th scope="col">Field</th>
+            <th scope="col">Yours</th>
+            <th scope="col">Saved</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className={row.mine !== row.theirs ? styles.changed : undefined}>
+              <th scope="row">{row.label}</th>
+              <td>{row.mine}</td>
+              <td>{conflict.remote ? row.theirs : "Deleted"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className={styles.actions}>
+        <Button variant="outline" onClick={() => onResolve("use-theirs")}>
+          {conflict.remote ? "Use saved version" : "Discard my change"}
+        </Button>
+        <Button onClick={() => onResolve("keep-mine")}>Keep mine</Button>
+      </div>
+    </div>
+  );
+}
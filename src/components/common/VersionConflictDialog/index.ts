@@ -0,0 +1,2 @@
+export { VersionConflictDialog } from "./VersionConflictDialog";
+export type { VersionConflictDialogProps } from "./VersionConflictDialog";
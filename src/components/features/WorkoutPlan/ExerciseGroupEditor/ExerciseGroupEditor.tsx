@@ -0,0 +1,305 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FriendlySentenceGenerator } from "@/utils/friendlySentences";
+import type {
+  ExerciseCatalogItem,
+  ExerciseGroup,
+  ExerciseGroupSettings,
+  ExerciseGroupType,
+  Session,
+} from "@/types";
+import styles from "./ExerciseGroupEditor.module.css";
+
+const GROUP_NAMES = FriendlySentenceGenerator.GROUP_NAMES;
+
+const NEW_GROUP: ExerciseGroupSettings = {
+  group_type: "superset",
+  rounds: 3,
+  rest_after_round_seconds: 90,
+};
+
+interface ExerciseGroupEditorProps {
+  session: Session;
+  exercises: ExerciseCatalogItem[];
+  onGroup: (
+    exerciseIndices: number[],
+    settings: ExerciseGroupSettings
+  ) => Promise<void>;
+  onUpdateGroup: (
+    groupId: string,
+    settings: ExerciseGroupSettings
+  ) => Promise<void>;
+  onUngroup: (groupId: string) => Promise<void>;
+}
+
+/**
+ * Groups exercises next to each other in a session to be done back to back,
+ * and sets each group's type, rounds and rest after the round
+ */
+export function ExerciseGroupEditor({
+  session,
+  exercises,
+  onGroup,
+  onUpdateGroup,
+  onUngroup,
+}: ExerciseGroupEditorProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [settings, setSettings] = useState<ExerciseGroupSettings>(NEW_GROUP);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const catalogItem = (exerciseId: string) =>
+    exercises.find((exercise) => exercise.id === exerciseId);
+  const nameOf = (exerciseId: string) => {
+    const exercise = catalogItem(exerciseId);
+    return exercise
+      ? exercise.beginner_friendly_name || exercise.name
+      : "Unknown exercise";
+  };
+
+  const indices = [...selected].sort((a, b) => a - b);
+  const isRun =
+    indices.length >= 2 &&
+    indices.every(
+      (index, position) => position === 0 || index === indices[position - 1] + 1
+    );
+
+  // Each group once, in the order it comes up in the session
+  const groups = [
+    ...new Map(
+      session.exercises.flatMap((prescription) =>
+        prescription.group
+          ? [[prescription.group.group_id, prescription.group] as const]
+          : []
+      )
+    ).values(),
+  ];
+
+  const toggle = (index: number) =>
+    setSelected((current) =>
+      current.includes(index)
+        ? current.filter((candidate) => candidate !== index)
+        : [...current, index]
+    );
+
+  const save = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update groups");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleGroup = () =>
+    save(async () => {
+      await onGroup(indices, settings);
+      setSelected([]);
+    });
+
+  if (session.exercises.length === 0) {
+    return <p className={styles.emptyText}>No exercises in this session yet</p>;
+  }
+
+  return (
+    <div className={styles.groupEditor}>
+      <ul className={styles.exerciseList}>
+        {session.exercises.map((prescription, index) => (
+          <li key={index} className={styles.exerciseItem}>
+            <label className={styles.exerciseLabel}>
+              <input
+                type="checkbox"
+                checked={selected.includes(index)}
+                onChange={() => toggle(index)}
+              />
+              {nameOf(prescription.exercise_id)}
+            </label>
+            {prescription.group && (
+              <Badge variant="secondary">
+                {GROUP_NAMES[prescription.group.group_type]}
+              </Badge>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className={styles.groupCard}>
+        <GroupSettingsFields
+          idPrefix="new-group"
+          settings={settings}
+          onChange={setSettings}
+        />
+        {selected.length >= 2 && !isRun && (
+          <p className={styles.hint}>
+            Pick exercises that come one after another
+          </p>
+        )}
+        <Button size="sm" onClick={handleGroup} disabled={!isRun || isSaving}>
+          Group selected
+        </Button>
+      </div>
+
+      {groups.map((group) => (
+        <GroupCard
+          key={group.group_id}
+          group={group}
+          description={FriendlySentenceGenerator.generateGroupDescription(
+            group,
+            session.exercises
+              .filter(
+                (prescription) =>
+                  prescription.group?.group_id === group.group_id
+              )
+              .map((prescription) => catalogItem(prescription.exercise_id))
+              .filter(
+                (exercise): exercise is ExerciseCatalogItem =>
+                  exercise !== undefined
+              )
+          )}
+          isSaving={isSaving}
+          onSave={(changes) =>
+            save(() => onUpdateGroup(group.group_id, changes))
+          }
+          onUngroup={() => save(() => onUngroup(group.group_id))}
+        />
+      ))}
+
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Group Card Sub-Component
+interface GroupCardProps {
+  group: ExerciseGroup;
+  description: string;
+  isSaving: boolean;
+  onSave: (settings: ExerciseGroupSettings) => void;
+  onUngroup: () => void;
+}
+
+function GroupCard({
+  group,
+  description,
+  isSaving,
+  onSave,
+  onUngroup,
+}: GroupCardProps) {
+  const [settings, setSettings] = useState<ExerciseGroupSettings>({
+    group_type: group.group_type,
+    rounds: group.rounds,
+    rest_after_round_seconds: group.rest_after_round_seconds,
+  });
+
+  return (
+    <div className={styles.groupCard}>
+      <p className={styles.groupDescription}>{description}</p>
+      <GroupSettingsFields
+        idPrefix={group.group_id}
+        settings={settings}
+        onChange={setSettings}
+      />
+      <div className={styles.groupActions}>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onUngroup}
+          disabled={isSaving}
+        >
+          Ungroup
+        </Button>
+        <Button size="sm" onClick={() => onSave(settings)} disabled={isSaving}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Group Settings Sub-Component
+interface GroupSettingsFieldsProps {
+  idPrefix: string;
+  settings: ExerciseGroupSettings;
+  onChange: (settings: ExerciseGroupSettings) => void;
+}
+
+function GroupSettingsFields({
+  idPrefix,
+  settings,
+  onChange,
+}: GroupSettingsFieldsProps) {
+  return (
+    <div className={styles.settingsFields}>
+      <div className={styles.field}>
+        <Label htmlFor={`${idPrefix}-type`}>Type</Label>
+        <Select
+          value={settings.group_type}
+          onValueChange={(value) =>
+            onChange({ ...settings, group_type: value as ExerciseGroupType })
+          }
+        >
+          <SelectTrigger id={`${idPrefix}-type`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(GROUP_NAMES).map(([type, name]) => (
+              <SelectItem key={type} value={type}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className={styles.field}>
+        <Label htmlFor={`${idPrefix}-rounds`}>Rounds</Label>
+        <Input
+          id={`${idPrefix}-rounds`}
+          type="number"
+          min={1}
+          value={settings.rounds}
+          onChange={(e) =>
+            onChange({ ...settings, rounds: Number(e.target.value) })
+          }
+        />
+      </div>
+
+      <div className={styles.field}>
+        <Label htmlFor={`${idPrefix}-rest`}>Rest after round (seconds)</Label>
+        <Input
+          id={`${idPrefix}-rest`}
+          type="number"
+          min={0}
+          placeholder="No rest"
+          value={settings.rest_after_round_seconds ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              rest_after_round_seconds:
+                e.target.value === "" ? undefined : Number(e.target.value),
+            })
+          }
+        />
+      </div>
+    </div>
+  );
+}
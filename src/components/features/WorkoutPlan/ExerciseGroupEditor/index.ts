@@ -0,0 +1 @@
+export { ExerciseGroupEditor } from "./ExerciseGroupEditor";
@@ -10,9 +10,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Plus, Minus, RotateCcw } from "lucide-react";
 import { FriendlySentenceGenerator } from "@/utils/friendlySentences";
+import { FriendlyFormatter } from "@/utils/formatting";
 import type { 
   ExercisePrescription, 
   SetPrescription, 
+  SetType,
   CardioBlock, 
   CardioInterval,
   ExerciseCatalogItem 
@@ -256,10 +258,19 @@ interface SetEditorProps {
 }
 
 function SetEditor({ set, onUpdate, onRemove, unitSystem, canRemove }: SetEditorProps) {
-  const [repType, setRepType] = useState<'exact' | 'range'>(
-    typeof set.target_repetitions === 'number' ? 'exact' : 'range'
+  const [repType, setRepType] = useState<'exact' | 'range' | 'amrap'>(
+    set.target_repetitions === 'AMRAP' ? 'amrap' : typeof set.target_repetitions === 'number' ? 'exact' : 'range'
   );
 
+  const changeRepType = (value: 'exact' | 'range' | 'amrap') => {
+    setRepType(value);
+    if (value === 'amrap') {
+      onUpdate({ target_repetitions: 'AMRAP' });
+    } else if (set.target_repetitions === 'AMRAP') {
+      onUpdate({ target_repetitions: value === 'exact' ? 10 : { min: 8, max: 12 } });
+    }
+  };
+
   const weightUnit = unitSystem === 'imperial' ? 'lb' : 'kg';
 
   return (
@@ -274,21 +285,42 @@ function SetEditor({ set, onUpdate, onRemove, unitSystem, canRemove }: SetEditor
       </div>
 
       <div className={styles.setFields}>
+        {/* Set Type */}
+        <div className={styles.fieldGroup}>
+          <Label>Set type</Label>
+          <Select
+            value={set.set_type ?? 'working'}
+            onValueChange={(value) => onUpdate({ set_type: value as SetType })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FriendlyFormatter.SET_TYPE_LABELS) as SetType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {FriendlyFormatter.setTypeLabel(type)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Repetitions */}
         <div className={styles.fieldGroup}>
           <Label>Repetitions</Label>
           <div className={styles.repFields}>
-            <Select value={repType} onValueChange={(value) => setRepType(value as 'exact' | 'range')}>
+            <Select value={repType} onValueChange={(value) => changeRepType(value as 'exact' | 'range' | 'amrap')}>
               <SelectTrigger className={styles.repTypeSelect}>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="exact">Exact</SelectItem>
                 <SelectItem value="range">Range</SelectItem>
+                <SelectItem value="amrap">AMRAP</SelectItem>
               </SelectContent>
             </Select>
 
-            {repType === 'exact' ? (
+            {repType === 'amrap' ? null : repType === 'exact' ? (
               <Input
                 type="number"
                 min="1"
@@ -13,7 +13,8 @@ import {
   Zap,
   MessageSquare
 } from 'lucide-react';
-import type { ExerciseCatalogItem, ExercisePrescription, PerformedSet } from '@/types';
+import { FriendlyFormatter } from '@/utils/formatting';
+import type { ExerciseCatalogItem, ExercisePrescription, PerformedSet, RepetitionTarget } from '@/types';
 import { SetLogger } from '../SetLogger';
 import { CardioLogger } from '../CardioLogger';
 import styles from './ActiveExerciseCard.module.css';
@@ -67,6 +68,11 @@ export const ActiveExerciseCard: React.FC<ActiveExerciseCardProps> = ({
     onExerciseComplete(exerciseNotes || undefined);
   };
 
+  const formatReps = (target: RepetitionTarget) => {
+    if (target === 'AMRAP') return 'AMRAP';
+    return typeof target === 'number' ? target : `${target.min}-${target.max}`;
+  };
+
   const formatWeight = (weight?: number, unit?: string) => {
     if (!weight) return '';
     return `${weight}${unit || 'kg'}`;
@@ -147,10 +153,7 @@ export const ActiveExerciseCard: React.FC<ActiveExerciseCardProps> = ({
                       <>
                         <div className={styles.targetItem}>
                           <Target className={styles.targetIcon} />
-                          <span>Reps: {typeof prescription.sets[currentSetIndex].target_repetitions === 'number' 
-                            ? prescription.sets[currentSetIndex].target_repetitions 
-                            : `${prescription.sets[currentSetIndex].target_repetitions.min}-${prescription.sets[currentSetIndex].target_repetitions.max}`}
-                          </span>
+                          <span>Reps: {formatReps(prescription.sets[currentSetIndex].target_repetitions)}</span>
                         </div>
                         {prescription.sets[currentSetIndex].target_weight_value && (
                           <div className={styles.targetItem}>
@@ -203,6 +206,8 @@ export const ActiveExerciseCard: React.FC<ActiveExerciseCardProps> = ({
                   <span className={styles.setInfo}>
                     Set {index + 1}: {set.repetitions_done} reps
                     {set.weight_value && ` @ ${formatWeight(set.weight_value, set.weight_unit)}`}
+                    {set.sub_sets?.map((subSet) => ` + ${subSet.repetitions_done}`).join('')}
+                    {set.set_type && set.set_type !== 'working' && ` · ${FriendlyFormatter.setTypeLabel(set.set_type)}`}
                     {set.rpe_score && ` (RPE: ${set.rpe_score})`}
                   </span>
                 </div>
@@ -217,9 +222,13 @@ export const ActiveExerciseCard: React.FC<ActiveExerciseCardProps> = ({
             {isStrengthExercise && prescription.sets && prescription.sets[currentSetIndex] ? (
               <SetLogger
                 setNumber={currentSetIndex + 1}
-                targetReps={typeof prescription.sets[currentSetIndex].target_repetitions === 'number' 
-                  ? prescription.sets[currentSetIndex].target_repetitions 
-                  : prescription.sets[currentSetIndex].target_repetitions.max}
+                exerciseId={prescription.exercise_id}
+                targetReps={(() => {
+                  const target = prescription.sets[currentSetIndex].target_repetitions;
+                  if (target === 'AMRAP') return undefined;
+                  return typeof target === 'number' ? target : target.max;
+                })()}
+                setType={prescription.sets[currentSetIndex].set_type}
                 targetWeight={prescription.sets[currentSetIndex].target_weight_value}
                 weightUnit={prescription.sets[currentSetIndex].target_weight_unit}
                 onSetComplete={handleSetComplete}
@@ -1,12 +1,14 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Play, Pause, Square, Clock, Dumbbell, Target } from 'lucide-react';
 import { useWorkoutSession } from '@/hooks/useWorkoutSession';
 import { useRestTimer } from '@/hooks/useRestTimer';
+import { WorkoutService } from '@/services/workoutService';
+import { FriendlySentenceGenerator } from '@/utils/friendlySentences';
 import type { Session, ExerciseCatalogItem, PerformedSet } from '@/types';
 import { ActiveExerciseCard } from '../ActiveExerciseCard';
 import { RestTimer } from '../RestTimer';
@@ -16,6 +18,7 @@ import styles from './ActiveSession.module.css';
 interface ActiveSessionProps {
   sessionPlan: Session;
   exercises: ExerciseCatalogItem[];
+  resumeSessionId?: string; // Unfinished session to pick up instead of starting a new one
   onComplete: () => void;
   onAbandon: () => void;
 }
@@ -23,6 +26,7 @@ interface ActiveSessionProps {
 export const ActiveSession: React.FC<ActiveSessionProps> = ({
   sessionPlan,
   exercises,
+  resumeSessionId,
   onComplete,
   onAbandon
 }) => {
@@ -31,8 +35,12 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
     isLoading,
     error,
     startSession,
+    restoreSession,
+    startRest,
+    endRest,
     completeSet,
     completeExercise,
+    goToExercise,
     completeSession,
     pauseSession,
     resumeSession,
@@ -62,12 +70,51 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
     ? exercises.find(ex => ex.id === currentExercise.exercise_id)
     : null;
 
+  const currentIndex = activeSession?.currentExerciseIndex ?? 0;
+  const completedSets = useMemo(() => {
+    const entry = activeSession?.workoutLog.entries
+      .find(entry => entry.type === 'strength' && entry.exercise_id === currentExercise?.exercise_id);
+    return entry?.type === 'strength' ? entry.performed_sets : [];
+  }, [activeSession, currentExercise]);
+
+  // What the exercises done back to back with the current one are, in the order they're done
+  const groupDescription = useMemo(() => {
+    const group = sessionPlan.exercises[currentIndex]?.group;
+    if (!group) return null;
+
+    const groupExercises = WorkoutService.getGroupIndices(sessionPlan, currentIndex)
+      .map(index => exercises.find(ex => ex.id === sessionPlan.exercises[index].exercise_id))
+      .filter((exercise): exercise is ExerciseCatalogItem => exercise !== undefined);
+    return FriendlySentenceGenerator.generateGroupDescription(group, groupExercises);
+  }, [sessionPlan, exercises, currentIndex]);
+
   // Initialize session if not started
   useEffect(() => {
     if (!activeSession && !isLoading) {
-      startSession(sessionPlan);
+      if (resumeSessionId) {
+        restoreSession(resumeSessionId);
+      } else {
+        startSession(sessionPlan);
+      }
+    }
+  }, [activeSession, isLoading, startSession, restoreSession, resumeSessionId, sessionPlan, exercises]);
+
+  // A rest that was running when the session was stored carries on where it
+  // left off. Only when a session is first loaded; later rests start from handleSetComplete.
+  const loadedSessionRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!activeSession || loadedSessionRef.current === activeSession.id) return;
+    loadedSessionRef.current = activeSession.id;
+
+    const remaining = WorkoutService.getRestTimeRemaining(activeSession);
+    if (remaining > 0) {
+      startTimer(remaining);
+      setShowRestTimer(true);
+      if (activeSession.sessionStatus === 'paused') {
+        pauseTimer();
+      }
     }
-  }, [activeSession, isLoading, startSession, sessionPlan, exercises]);
+  }, [activeSession, startTimer, pauseTimer]);
 
   // Handle session status changes
   const handlePauseResume = async () => {
@@ -86,21 +133,46 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
     }
   };
 
+  const beginRest = async (seconds: number) => {
+    startTimer(seconds);
+    setShowRestTimer(true);
+    await startRest(seconds);
+  };
+
   const handleSetComplete = async (setData: PerformedSet) => {
     if (!activeSession || !currentExercise) return;
 
-    await completeSet(activeSession.currentExerciseIndex, setData);
+    const updated = await completeSet(
+      {
+        exercise_id: currentExercise.exercise_id,
+        exercise_name: currentExerciseData?.name ?? currentExercise.exercise_id,
+        group: currentExercise.group
+      },
+      setData
+    );
+    if (!updated) return;
+
+    // Grouped exercises alternate set by set, and the rest waits until the whole round is done
+    const step = WorkoutService.getNextGroupStep(updated, sessionPlan, updated.currentExerciseIndex);
+    if (step) {
+      if (step.nextExerciseIndex !== updated.currentExerciseIndex) {
+        await goToExercise(step.nextExerciseIndex);
+      }
+      const isWorkoutDone = step.groupComplete && step.nextExerciseIndex >= sessionPlan.exercises.length;
+      if (step.roundComplete && step.restSeconds && !isWorkoutDone) {
+        await beginRest(step.restSeconds);
+      }
+      return;
+    }
 
     // Start rest timer if this isn't the last set
     if (currentExercise.sets && currentExercise.sets.length > 0) {
-      const strengthEntry = activeSession.workoutLog.entries
+      const strengthEntry = updated.workoutLog.entries
         .find(entry => entry.type === 'strength' && entry.exercise_id === currentExercise.exercise_id);
       const currentSetCount = strengthEntry?.type === 'strength' ? strengthEntry.performed_sets.length : 0;
 
       if (currentSetCount < (currentExercise.sets?.length || 0)) {
-        const restTime = currentExercise.sets[currentSetCount - 1]?.rest_seconds || 60;
-        startTimer(restTime);
-        setShowRestTimer(true);
+        await beginRest(currentExercise.sets[currentSetCount - 1]?.rest_seconds || 60);
       }
     }
   };
@@ -108,11 +180,18 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
   const handleExerciseComplete = async (_notes?: string) => {
     if (!activeSession) return;
 
-    await completeExercise(activeSession.currentExerciseIndex);
+    // Finishing one exercise of a group early finishes the group
+    const groupIndices = WorkoutService.getGroupIndices(sessionPlan, activeSession.currentExerciseIndex);
+    const nextIndex = Math.max(...groupIndices) + 1;
+    if (groupIndices.length > 1) {
+      await goToExercise(nextIndex);
+    } else {
+      await completeExercise(activeSession.currentExerciseIndex);
+    }
     setShowRestTimer(false);
     
     // Check if workout is complete
-    if (activeSession.currentExerciseIndex + 1 >= sessionPlan.exercises.length) {
+    if (nextIndex >= sessionPlan.exercises.length) {
       // Show completion dialog or automatically complete
       handleWorkoutComplete();
     }
@@ -274,30 +353,41 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
       {/* Rest Timer Overlay */}
       {showRestTimer && timerIsActive && (
         <RestTimer
-          onComplete={() => setShowRestTimer(false)}
+          onComplete={() => {
+            setShowRestTimer(false);
+            endRest();
+          }}
           onSkip={() => {
             skipTimer();
             setShowRestTimer(false);
+            endRest();
           }}
         />
       )}
 
+      {/* Superset, circuit or giant set the current exercise belongs to */}
+      {currentExercise?.group && groupDescription && (
+        <Card className={styles.groupCard}>
+          <CardContent>
+            <p className={styles.groupRound}>
+              Round {Math.min(completedSets.length + 1, currentExercise.group.rounds)} of {currentExercise.group.rounds}
+            </p>
+            <p className={styles.groupDescription}>{groupDescription}</p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Current Exercise */}
       {currentExercise && currentExerciseData && (
         <div className={styles.currentExercise}>
           <ActiveExerciseCard
+            key={currentIndex}
             exercise={currentExerciseData}
             prescription={currentExercise}
             onSetComplete={handleSetComplete}
             onExerciseComplete={handleExerciseComplete}
             isActive={activeSession.sessionStatus === 'active'}
-            completedSets={
-              (() => {
-                const entry = activeSession.workoutLog.entries
-                  .find(entry => entry.type === 'strength' && entry.exercise_id === currentExercise.exercise_id);
-                return entry?.type === 'strength' ? entry.performed_sets : [];
-              })()
-            }
+            completedSets={completedSets}
           />
         </div>
       )}
@@ -13,14 +13,38 @@ import {
   Check, 
   AlertTriangle,
   Heart,
-  Clock
+  Clock,
+  History,
+  Repeat,
+  X
 } from 'lucide-react';
-import type { PerformedSet } from '@/types';
-import { useLocalStorage } from '@/hooks/useLocalStorage';
+import type { PerformedSet, PerformedSubSet, SetType } from '@/types';
+import { useLastPerformance } from '@/hooks/useLastPerformance';
+import { usePreferences } from '@/hooks/usePreferences';
+import { WorkoutService } from '@/services/workoutService';
+import { FriendlyFormatter } from '@/utils/formatting';
+import { UnitConverter } from '@/utils/units';
 import styles from './SetLogger.module.css';
 
+// Set types that carry on past the first effort, with what each extra effort is called
+const SUB_SET_LABELS: Partial<Record<SetType, string>> = {
+  drop_set: 'Drop',
+  rest_pause: 'Mini-set',
+  cluster: 'Mini-set',
+};
+
+// Usual pause before a rest-pause or cluster mini-set
+const SUB_SET_PAUSE_SECONDS: Partial<Record<SetType, number>> = {
+  rest_pause: 20,
+  cluster: 15,
+};
+
+const DROP_FRACTION = 0.8;
+
 interface SetLoggerProps {
   setNumber: number;
+  exerciseId?: string; // Looks up what was done last time for this set
+  setType?: SetType; // The prescribed type; the user can switch it before logging
   targetReps?: number;
   targetWeight?: number;
   weightUnit?: string;
@@ -30,6 +54,8 @@ interface SetLoggerProps {
 
 export const SetLogger: React.FC<SetLoggerProps> = ({
   setNumber,
+  exerciseId,
+  setType: prescribedSetType = 'working',
   targetReps,
   targetWeight,
   weightUnit = 'kg',
@@ -43,12 +69,29 @@ export const SetLogger: React.FC<SetLoggerProps> = ({
   const [painLevel, setPainLevel] = useState<number | undefined>();
   const [restTime, setRestTime] = useState<number | undefined>();
   const [setNotes, setSetNotes] = useState('');
+  const [setType, setSetType] = useState<SetType>(prescribedSetType);
+  const [subSets, setSubSets] = useState<PerformedSubSet[]>([]);
   const [isLogging, setIsLogging] = useState(false);
+  const [isEdited, setIsEdited] = useState(false); // Once the user types, history stops filling the form
 
   // User preferences
-  const [defaultWeightIncrement] = useLocalStorage('weight-increment', 2.5);
+  const { weightIncrement } = usePreferences();
+  const unit: 'lb' | 'kg' = weightUnit === 'lb' ? 'lb' : 'kg';
+  const defaultWeightIncrement = weightIncrement(unit);
   const [showAdvancedFields, setShowAdvancedFields] = useState(false);
 
+  // Weights logged in the other unit are converted and snapped to the increment
+  const toLoggerUnit = (value: number, fromUnit: 'lb' | 'kg'): number => {
+    if (fromUnit === unit) return value;
+    const converted = UnitConverter.convertWeight(value, fromUnit, unit);
+    return Math.round(converted / defaultWeightIncrement) * defaultWeightIncrement;
+  };
+
+  // The same set last time, in this logger's unit
+  const { lastPerformance } = useLastPerformance(exerciseId);
+  const lastSet = WorkoutService.matchLastSet(lastPerformance, setNumber);
+  const lastWeight = lastSet?.weight_value ? toLoggerUnit(lastSet.weight_value, lastSet.weight_unit ?? unit) : 0;
+
   // Validation
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -62,14 +105,25 @@ export const SetLogger: React.FC<SetLoggerProps> = ({
     }
   }, [targetReps, targetWeight, reps, weight]);
 
-  const validateForm = (): boolean => {
+  // Without a target, start from last time until the user changes something
+  useEffect(() => {
+    if (!lastSet || isEdited) return;
+    if (!targetReps) {
+      setReps(lastSet.repetitions_done);
+    }
+    if (!targetWeight && lastWeight) {
+      setWeight(lastWeight);
+    }
+  }, [lastSet, lastWeight, isEdited, targetReps, targetWeight]);
+
+  const validateForm = (values: { reps: number; weight: number }): boolean => {
     const newErrors: Record<string, string> = {};
 
-    if (!reps || reps < 1) {
+    if (!values.reps || values.reps < 1) {
       newErrors.reps = 'Reps must be at least 1';
     }
 
-    if (weight < 0) {
+    if (values.weight < 0) {
       newErrors.weight = 'Weight cannot be negative';
     }
 
@@ -87,48 +141,88 @@ export const SetLogger: React.FC<SetLoggerProps> = ({
 
   const handleRepsChange = (value: string) => {
     const numValue = parseInt(value) || 0;
+    setIsEdited(true);
     setReps(Math.max(0, numValue));
   };
 
   const handleWeightChange = (value: string) => {
     const numValue = parseFloat(value) || 0;
+    setIsEdited(true);
     setWeight(Math.max(0, numValue));
   };
 
   const adjustWeight = (increment: number) => {
+    setIsEdited(true);
     setWeight(prev => Math.max(0, prev + increment));
   };
 
   const adjustReps = (increment: number) => {
+    setIsEdited(true);
     setReps(prev => Math.max(1, prev + increment));
   };
 
-  const handleComplete = async () => {
-    if (!validateForm() || isLogging) return;
+  const subSetLabel = SUB_SET_LABELS[setType];
+
+  const changeSetType = (type: SetType) => {
+    setSetType(type);
+    if (!SUB_SET_LABELS[type]) {
+      setSubSets([]);
+    }
+  };
+
+  // A drop starts lighter than the effort before it; a mini-set keeps the weight
+  const addSubSet = () => {
+    setSubSets(prev => {
+      if (setType !== 'drop_set') {
+        return [...prev, { repetitions_done: 0, rest_seconds_before: SUB_SET_PAUSE_SECONDS[setType] }];
+      }
+      const previousWeight = prev.at(-1)?.weight_value ?? weight;
+      const dropped = Math.round((previousWeight * DROP_FRACTION) / defaultWeightIncrement) * defaultWeightIncrement;
+      return [...prev, { repetitions_done: 0, weight_value: dropped || undefined, weight_unit: weightUnit as 'lb' | 'kg' }];
+    });
+  };
+
+  const updateSubSet = (index: number, update: Partial<PerformedSubSet>) => {
+    setSubSets(prev => prev.map((subSet, i) => i === index ? { ...subSet, ...update } : subSet));
+  };
+
+  const removeSubSet = (index: number) => {
+    setSubSets(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Repeat buttons log straight away with last time's numbers instead of the form's
+  const handleComplete = async (values: { reps: number; weight: number } = { reps, weight }) => {
+    if (!validateForm(values) || isLogging) return;
 
     setIsLogging(true);
 
     try {
+      const loggedSubSets = subSets.filter(subSet => subSet.repetitions_done > 0);
       const setData: PerformedSet = {
         set_number: setNumber,
-        repetitions_done: reps,
-        weight_value: weight || undefined,
+        set_type: setType,
+        repetitions_done: values.reps,
+        weight_value: values.weight || undefined,
         weight_unit: weightUnit as 'lb' | 'kg' | undefined,
         rpe_score: rpe || undefined,
         rest_seconds_observed: restTime || undefined,
         notes: setNotes || undefined,
         perceived_effort_text: rpe ? (rpe <= 2 ? 'very easy' : rpe <= 4 ? 'easy' : rpe <= 6 ? 'moderately hard' : rpe <= 8 ? 'hard' : 'very hard') : 'moderately hard',
-        pain_back_0_to_10: painLevel || undefined
+        pain_back_0_to_10: painLevel || undefined,
+        sub_sets: loggedSubSets.length > 0 ? loggedSubSets : undefined
       };
 
       await onSetComplete(setData);
 
       // Reset form for next set (keep weight, reset others)
-      setReps(targetReps || reps);
+      setReps(targetReps || values.reps);
+      setWeight(values.weight);
       setRpe(undefined);
       setPainLevel(undefined);
       setRestTime(undefined);
       setSetNotes('');
+      setSetType(prescribedSetType);
+      setSubSets([]);
       setShowAdvancedFields(false);
     } catch (error) {
       console.error('Error logging set:', error);
@@ -137,6 +231,11 @@ export const SetLogger: React.FC<SetLoggerProps> = ({
     }
   };
 
+  const repeatLastSet = (increment: number = 0) => {
+    if (!lastSet) return;
+    handleComplete({ reps: lastSet.repetitions_done, weight: lastWeight ? lastWeight + increment : 0 });
+  };
+
   const getRepsDifference = () => {
     if (!targetReps) return null;
     const diff = reps - targetReps;
@@ -167,6 +266,63 @@ export const SetLogger: React.FC<SetLoggerProps> = ({
         )}
       </div>
 
+      {/* Last Time */}
+      {lastSet && lastPerformance && (
+        <div className={styles.lastTime}>
+          <div className={styles.lastTimeText}>
+            <History className={styles.fieldIcon} />
+            <span>
+              Last time ({FriendlyFormatter.formatDate(lastPerformance.date, 'relative')}):{' '}
+              {lastSet.repetitions_done} reps{lastWeight ? ` × ${lastWeight}${weightUnit}` : ''}
+              {lastSet.rpe_score ? ` • RPE ${lastSet.rpe_score}` : ''}
+              {lastSet.notes ? ` • "${lastSet.notes}"` : ''}
+            </span>
+          </div>
+          <div className={styles.lastTimeActions}>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => repeatLastSet()}
+              disabled={disabled || isLogging}
+            >
+              <Repeat className={styles.adjustIcon} />
+              Repeat
+            </Button>
+            {lastWeight > 0 && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => repeatLastSet(defaultWeightIncrement)}
+                disabled={disabled || isLogging}
+              >
+                <Plus className={styles.adjustIcon} />
+                Repeat +{defaultWeightIncrement}{weightUnit}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Set Type */}
+      <div className={styles.setTypes} role="group" aria-label="Set type">
+        {(Object.keys(FriendlyFormatter.SET_TYPE_LABELS) as SetType[]).map((type) => (
+          <Button
+            key={type}
+            type="button"
+            size="sm"
+            variant={setType === type ? 'default' : 'outline'}
+            aria-pressed={setType === type}
+            onClick={() => changeSetType(type)}
+            disabled={disabled}
+            className={styles.setTypeButton}
+          >
+            {FriendlyFormatter.setTypeLabel(type)}
+          </Button>
+        ))}
+      </div>
+
       {/* Main Inputs */}
       <div className={styles.mainInputs}>
         {/* Reps Input */}
@@ -195,6 +351,7 @@ export const SetLogger: React.FC<SetLoggerProps> = ({
               type="number"
               value={reps || ''}
               onChange={(e) => handleRepsChange(e.target.value)}
+              placeholder={lastSet ? String(lastSet.repetitions_done) : undefined}
               disabled={disabled}
               className={styles.numberField}
               min="1"
@@ -241,6 +398,7 @@ export const SetLogger: React.FC<SetLoggerProps> = ({
               type="number"
               value={weight || ''}
               onChange={(e) => handleWeightChange(e.target.value)}
+              placeholder={lastWeight ? String(lastWeight) : undefined}
               disabled={disabled}
               className={styles.numberField}
               min="0"
@@ -263,6 +421,62 @@ export const SetLogger: React.FC<SetLoggerProps> = ({
         </div>
       </div>
 
+      {/* Drops and mini-sets after the first effort */}
+      {subSetLabel && (
+        <div className={styles.subSets}>
+          {subSets.map((subSet, index) => (
+            <div key={index} className={styles.subSetRow}>
+              <span className={styles.subSetLabel}>{subSetLabel} {index + 1}</span>
+              <Input
+                type="number"
+                aria-label={`${subSetLabel} ${index + 1} reps`}
+                placeholder="Reps"
+                value={subSet.repetitions_done || ''}
+                onChange={(e) => updateSubSet(index, { repetitions_done: Math.max(0, parseInt(e.target.value) || 0) })}
+                disabled={disabled}
+                min="0"
+              />
+              {setType === 'drop_set' ? (
+                <Input
+                  type="number"
+                  aria-label={`${subSetLabel} ${index + 1} weight`}
+                  placeholder={`Weight (${weightUnit})`}
+                  value={subSet.weight_value || ''}
+                  onChange={(e) => updateSubSet(index, { weight_value: parseFloat(e.target.value) || undefined })}
+                  disabled={disabled}
+                  min="0"
+                  step={defaultWeightIncrement}
+                />
+              ) : (
+                <Input
+                  type="number"
+                  aria-label={`Rest before ${subSetLabel.toLowerCase()} ${index + 1} (seconds)`}
+                  placeholder="Rest (s)"
+                  value={subSet.rest_seconds_before ?? ''}
+                  onChange={(e) => updateSubSet(index, { rest_seconds_before: e.target.value ? parseInt(e.target.value) : undefined })}
+                  disabled={disabled}
+                  min="0"
+                />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                aria-label={`Remove ${subSetLabel.toLowerCase()} ${index + 1}`}
+                onClick={() => removeSubSet(index)}
+                disabled={disabled}
+              >
+                <X className={styles.adjustIcon} />
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={addSubSet} disabled={disabled}>
+            <Plus className={styles.adjustIcon} />
+            Add {subSetLabel.toLowerCase()}
+          </Button>
+        </div>
+      )}
+
       {/* Advanced Fields Toggle */}
       <Button
         type="button"
@@ -369,7 +583,7 @@ export const SetLogger: React.FC<SetLoggerProps> = ({
 
       {/* Complete Set Button */}
       <Button
-        onClick={handleComplete}
+        onClick={() => handleComplete()}
         disabled={disabled || isLogging || !reps}
         className={styles.completeButton}
       >
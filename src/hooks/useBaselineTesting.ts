@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from 'react';
-import { baselineRepository } from '@/repositories';
+import { baselineRepository, profileRepository } from '@/repositories';
 import { FitnessStandardsService } from '@/services/fitnessStandardsService';
 import { DateUtils } from '@/utils/dateUtils';
 import type { 
@@ -29,7 +29,8 @@ export interface UseBaselineTestingReturn {
   // Analysis
   getFitnessLevel: (category: 'strength' | 'cardio', exercise?: string) => Promise<FitnessLevel | null>;
   getImprovementStats: (testType: string, months?: number) => Promise<ImprovementStats | null>;
-  getComprehensiveFitnessLevel: (bodyWeight: number, age: number, gender: "male" | "female") => Promise<{
+  // Age and sex default to the user profile
+  getComprehensiveFitnessLevel: (bodyWeight: number, age?: number, gender?: "male" | "female") => Promise<{
     overall: FitnessLevel;
     strength: Record<string, FitnessLevel>;
     cardio: Record<string, { level: string; fitnessAge: number; percentile: number }>;
@@ -209,17 +210,17 @@ export const useBaselineTesting = (): UseBaselineTestingReturn => {
   // Get comprehensive fitness level
   const getComprehensiveFitnessLevel = useCallback(async (
     bodyWeight: number,
-    age: number,
-    gender: "male" | "female"
+    age?: number,
+    gender?: "male" | "female"
   ) => {
     try {
       if (!currentMonthBaseline) return null;
 
-      return FitnessStandardsService.getComprehensiveFitnessLevel(
+      const profile = await profileRepository.getProfileInputs();
+      return FitnessStandardsService.getProfileFitnessLevel(
         currentMonthBaseline,
         bodyWeight,
-        age,
-        gender
+        { ...profile, age: age ?? profile.age, gender: gender ?? profile.gender }
       );
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to get comprehensive fitness level');
@@ -1,11 +1,14 @@
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { 
   metricsRepository, 
   bodyMeasurementsRepository 
 } from '@/repositories';
 import { MetricsAnalysisService } from '@/services/metricsAnalysisService';
+import { UndoService } from '@/services/undoService';
+import { useLiveQuery } from './useLiveQuery';
+import { useUserProfile } from './useUserProfile';
 import type { 
   BodyMetricEntry, 
   BodyMeasurement, 
@@ -31,7 +34,8 @@ export interface UseBodyMetricsReturn {
   
   // Analytics
   getWeightTrend: (days: number) => MetricsTrend;
-  getBMI: () => number | null;
+  getBMI: () => number | null; // Uses height from the user profile
+  getCalorieNeeds: () => number | null; // TDEE from the latest weight and the user profile
   getBodyFatTrend: (days: number) => MetricsTrend;
   getMeasurementChange: (bodyPart: keyof BodyMeasurement['measurements'], days: number) => Promise<{
     change: number;
@@ -45,60 +49,81 @@ export interface UseBodyMetricsReturn {
   refreshData: () => Promise<void>;
 }
 
+interface MetricsSnapshot<T> {
+  latest: T | null;
+  history: T[];
+}
+
+const EMPTY_SNAPSHOT: MetricsSnapshot<never> = { latest: null, history: [] };
+
+const byDate = (a: { date: string }, b: { date: string }) =>
+  new Date(a.date).getTime() - new Date(b.date).getTime();
+
 /**
  * Custom hook for managing body metrics
  * Following cursor rules for state management and type safety
  */
 export const useBodyMetrics = (): UseBodyMetricsReturn => {
   // State
-  const [latestEntry, setLatestEntry] = useState<BodyMetricEntry | null>(null);
-  const [latestMeasurements, setLatestMeasurements] = useState<BodyMeasurement | null>(null);
-  const [weightHistory, setWeightHistory] = useState<BodyMetricEntry[]>([]);
-  const [measurementHistory, setMeasurementHistory] = useState<BodyMeasurement[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [mutationError, setError] = useState<string | null>(null);
+
+  const { inputs: profileInputs } = useUserProfile();
 
   // Generate unique ID
   const generateId = useCallback(() => crypto.randomUUID(), []);
 
-  // Load data
-  const loadData = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
+  // Latest entry plus the last 6 months of history for each store
+  const loadWeightData = useCallback(async (): Promise<MetricsSnapshot<BodyMetricEntry>> => {
+    const [latest, history] = await Promise.all([
+      metricsRepository.getLatest(),
+      metricsRepository.getRecentMetrics(180)
+    ]);
+    return { latest, history: history.sort(byDate) };
+  }, []);
+
+  const loadMeasurementData = useCallback(async (): Promise<MetricsSnapshot<BodyMeasurement>> => {
+    const [latest, history] = await Promise.all([
+      bodyMeasurementsRepository.getLatest(),
+      bodyMeasurementsRepository.getByDateRange(
+        new Date(Date.now() - 180 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        new Date().toISOString().split('T')[0]
+      )
+    ]);
+    return { latest, history: history.sort(byDate) };
+  }, []);
 
-      // Load latest entries
-      const [latestMetric, latestMeasurement] = await Promise.all([
-        metricsRepository.getLatest(),
-        bodyMeasurementsRepository.getLatest()
-      ]);
+  // Both reload whenever their store changes here or in another tab
+  const weightQuery = useLiveQuery(loadWeightData, EMPTY_SNAPSHOT, { stores: ['metrics'] });
+  const measurementQuery = useLiveQuery(loadMeasurementData, EMPTY_SNAPSHOT, {
+    stores: ['body-measurements']
+  });
 
-      setLatestEntry(latestMetric);
-      setLatestMeasurements(latestMeasurement);
+  const latestEntry = weightQuery.data.latest;
+  const weightHistory = weightQuery.data.history;
+  const latestMeasurements = measurementQuery.data.latest;
+  const measurementHistory = measurementQuery.data.history;
+  const isLoading = weightQuery.isLoading || measurementQuery.isLoading;
+  const error = mutationError ?? weightQuery.error ?? measurementQuery.error;
 
-      // Load historical data (last 6 months)
-      const [weightData, measurementData] = await Promise.all([
-        metricsRepository.getRecentMetrics(180),
-        bodyMeasurementsRepository.getByDateRange(
-          new Date(Date.now() - 180 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          new Date().toISOString().split('T')[0]
-        )
-      ]);
+  // Optimistic local updates; the live queries replace them once they refetch
+  const { setData: setWeightData, refresh: refreshWeight } = weightQuery;
+  const { setData: setMeasurementData, refresh: refreshMeasurements } = measurementQuery;
 
-      setWeightHistory(weightData.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()));
-      setMeasurementHistory(measurementData.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()));
+  const setLatestEntry = useCallback((entry: BodyMetricEntry | null) => {
+    setWeightData(prev => ({ ...prev, latest: entry }));
+  }, [setWeightData]);
 
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load body metrics');
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+  const setWeightHistory = useCallback((update: (prev: BodyMetricEntry[]) => BodyMetricEntry[]) => {
+    setWeightData(prev => ({ ...prev, history: update(prev.history) }));
+  }, [setWeightData]);
+
+  const setLatestMeasurements = useCallback((measurement: BodyMeasurement | null) => {
+    setMeasurementData(prev => ({ ...prev, latest: measurement }));
+  }, [setMeasurementData]);
 
-  // Load data on mount
-  useEffect(() => {
-    loadData();
-  }, [loadData]);
+  const setMeasurementHistory = useCallback((update: (prev: BodyMeasurement[]) => BodyMeasurement[]) => {
+    setMeasurementData(prev => ({ ...prev, history: update(prev.history) }));
+  }, [setMeasurementData]);
 
   // Add weight entry
   const addWeightEntry = useCallback(async (entry: CreateData<BodyMetricEntry>) => {
@@ -123,7 +148,7 @@ export const useBodyMetrics = (): UseBodyMetricsReturn => {
       setError(err instanceof Error ? err.message : 'Failed to save weight entry');
       throw err;
     }
-  }, [generateId]);
+  }, [generateId, setLatestEntry, setWeightHistory]);
 
   // Add measurements
   const addMeasurements = useCallback(async (measurements: CreateData<BodyMeasurement>) => {
@@ -148,7 +173,7 @@ export const useBodyMetrics = (): UseBodyMetricsReturn => {
       setError(err instanceof Error ? err.message : 'Failed to save measurements');
       throw err;
     }
-  }, [generateId]);
+  }, [generateId, setLatestMeasurements, setMeasurementHistory]);
 
   // Update weight entry
   const updateWeightEntry = useCallback(async (id: string, updates: Partial<BodyMetricEntry>) => {
@@ -172,7 +197,7 @@ export const useBodyMetrics = (): UseBodyMetricsReturn => {
       setError(err instanceof Error ? err.message : 'Failed to update weight entry');
       throw err;
     }
-  }, [latestEntry]);
+  }, [latestEntry, setLatestEntry, setWeightHistory]);
 
   // Update measurements
   const updateMeasurements = useCallback(async (id: string, updates: Partial<BodyMeasurement>) => {
@@ -196,7 +221,7 @@ export const useBodyMetrics = (): UseBodyMetricsReturn => {
       setError(err instanceof Error ? err.message : 'Failed to update measurements');
       throw err;
     }
-  }, [latestMeasurements]);
+  }, [latestMeasurements, setLatestMeasurements, setMeasurementHistory]);
 
   // Delete entry
   const deleteEntry = useCallback(async (id: string, type: 'weight' | 'measurements') => {
@@ -205,6 +230,7 @@ export const useBodyMetrics = (): UseBodyMetricsReturn => {
       
       if (type === 'weight') {
         await metricsRepository.delete(id);
+        UndoService.offer('Weight entry deleted', () => metricsRepository.restore(id));
         
         // Update local state
         if (latestEntry?.id === id) {
@@ -219,6 +245,7 @@ export const useBodyMetrics = (): UseBodyMetricsReturn => {
         
       } else {
         await bodyMeasurementsRepository.delete(id);
+        UndoService.offer('Measurements deleted', () => bodyMeasurementsRepository.restore(id));
         
         // Update local state
         if (latestMeasurements?.id === id) {
@@ -236,7 +263,10 @@ export const useBodyMetrics = (): UseBodyMetricsReturn => {
       setError(err instanceof Error ? err.message : 'Failed to delete entry');
       throw err;
     }
-  }, [latestEntry, latestMeasurements, weightHistory, measurementHistory]);
+  }, [
+    latestEntry, latestMeasurements, weightHistory, measurementHistory,
+    setLatestEntry, setLatestMeasurements, setWeightHistory, setMeasurementHistory
+  ]);
 
   // Get weight trend
   const getWeightTrend = useCallback((days: number = 30): MetricsTrend => {
@@ -245,15 +275,21 @@ export const useBodyMetrics = (): UseBodyMetricsReturn => {
 
   // Get BMI
   const getBMI = useCallback((): number | null => {
+    if (!latestEntry || !latestEntry.body_weight || !profileInputs.height_cm) {
+      return null;
+    }
+
+    return MetricsAnalysisService.getProfileHealthIndicators(latestEntry, profileInputs).bmi.value;
+  }, [latestEntry, profileInputs]);
+
+  // Get daily calorie needs
+  const getCalorieNeeds = useCallback((): number | null => {
     if (!latestEntry || !latestEntry.body_weight) {
       return null;
     }
 
-    // We would need height from user settings or separate height tracking
-    // For now, return null if height is not available
-    // This could be enhanced to get height from user profile
-    return null;
-  }, [latestEntry]);
+    return MetricsAnalysisService.getProfileCalorieNeeds(latestEntry, profileInputs);
+  }, [latestEntry, profileInputs]);
 
   // Get body fat trend
   const getBodyFatTrend = useCallback((days: number = 30): MetricsTrend => {
@@ -332,8 +368,8 @@ export const useBodyMetrics = (): UseBodyMetricsReturn => {
 
   // Refresh data
   const refreshData = useCallback(async () => {
-    await loadData();
-  }, [loadData]);
+    await Promise.all([refreshWeight(), refreshMeasurements()]);
+  }, [refreshWeight, refreshMeasurements]);
 
   return {
     // Current data
@@ -354,6 +390,7 @@ export const useBodyMetrics = (): UseBodyMetricsReturn => {
     // Analytics
     getWeightTrend,
     getBMI,
+    getCalorieNeeds,
     getBodyFatTrend,
     getMeasurementChange,
     
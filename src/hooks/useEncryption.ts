@@ -0,0 +1,84 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { EncryptionService, type EncryptionStatus } from '@/services/encryptionService';
+import { WrongPassphraseError } from '@/services/cryptoService';
+
+export interface UseEncryptionReturn {
+  status: EncryptionStatus;
+
+  // Actions
+  enable: (passphrase: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => Promise<void>;
+  disable: (passphrase: string) => Promise<void>;
+
+  // State
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for at-rest encryption of progress photos and body metrics
+ * Following cursor rules for state management and type safety
+ */
+export const useEncryption = (): UseEncryptionReturn => {
+  const [status, setStatus] = useState<EncryptionStatus>({
+    enabled: false,
+    unlocked: false,
+    stores: [],
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshStatus = useCallback(async () => {
+    setStatus(await EncryptionService.getStatus());
+  }, []);
+
+  useEffect(() => {
+    // Pages outside the dashboard layout still need the codecs installed
+    EncryptionService.initialize().then(refreshStatus).catch((err) => {
+      setError(err instanceof Error ? err.message : 'Failed to read encryption status');
+    });
+  }, [refreshStatus]);
+
+  // Run an action, translating a failed passphrase check into a friendly message
+  const run = useCallback(async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      const message = err instanceof WrongPassphraseError
+        ? 'Incorrect passphrase. Your data has not been changed.'
+        : err instanceof Error ? err.message : fallback;
+      setError(message);
+      throw err;
+    } finally {
+      await refreshStatus();
+      setIsLoading(false);
+    }
+  }, [refreshStatus]);
+
+  const enable = useCallback((passphrase: string) =>
+    run(() => EncryptionService.enable(passphrase), 'Failed to enable encryption'), [run]);
+
+  const unlock = useCallback((passphrase: string) =>
+    run(() => EncryptionService.unlock(passphrase), 'Failed to unlock'), [run]);
+
+  const lock = useCallback(() =>
+    run(async () => EncryptionService.lock(), 'Failed to lock'), [run]);
+
+  const disable = useCallback((passphrase: string) =>
+    run(() => EncryptionService.disable(passphrase), 'Failed to disable encryption'), [run]);
+
+  return {
+    status,
+    enable,
+    unlock,
+    lock,
+    disable,
+    isLoading,
+    error,
+  };
+};
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import { WorkoutService } from '@/services/workoutService';
+import { useLiveQuery } from './useLiveQuery';
+import type {
+  ActiveWorkoutSession,
+  CardioSegment,
+  ExerciseCatalogItem,
+  PerformedSet,
+  WorkoutLogEntry,
+} from '@/types';
+
+export interface UseFreeformWorkoutReturn {
+  draft: ActiveWorkoutSession | null; // The workout in progress, saved after every change
+  frequentExercises: ExerciseCatalogItem[];
+  addExercise: (exercise: ExerciseCatalogItem) => Promise<void>;
+  removeEntry: (entryIndex: number) => Promise<void>;
+  logSet: (exerciseId: string, set: PerformedSet, exerciseName: string) => Promise<void>;
+  logSegment: (exerciseId: string, segment: CardioSegment) => Promise<void>;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  startRest: (seconds: number) => Promise<void>;
+  endRest: () => Promise<void>;
+  finish: (details: { title?: string; notes?: string; rating?: number }) => Promise<WorkoutLogEntry | undefined>;
+  discard: () => Promise<void>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for logging a workout without a plan
+ * Following cursor rules for state management and type safety
+ */
+export const useFreeformWorkout = (): UseFreeformWorkoutReturn => {
+  const [mutationError, setError] = useState<string | null>(null);
+
+  const loadDraft = useCallback(() => WorkoutService.getFreeformDraft(), []);
+  const loadFrequent = useCallback(() => WorkoutService.getFrequentExercises(), []);
+
+  // The draft lives in storage, so another tab, a reload or a crash picks up where this left off
+  const {
+    data: draft,
+    setData: setDraft,
+    isLoading: isLoadingDraft,
+    error: draftError,
+  } = useLiveQuery<ActiveWorkoutSession | null>(loadDraft, null, { stores: ['active-sessions'] });
+  const { data: frequentExercises, isLoading: isLoadingFrequent } = useLiveQuery<ExerciseCatalogItem[]>(
+    loadFrequent,
+    [],
+    { stores: ['workouts', 'exercises'] }
+  );
+  const error = mutationError ?? draftError;
+
+  const run = useCallback(async <T>(action: () => Promise<T>, fallback: string): Promise<T> => {
+    try {
+      setError(null);
+      return await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      throw err;
+    }
+  }, []);
+
+  // The first exercise starts the workout
+  const addExercise = useCallback(
+    (exercise: ExerciseCatalogItem) =>
+      run(async () => {
+        const session = draft ?? (await WorkoutService.startFreeformSession());
+        setDraft(await WorkoutService.addExercise(session.id, exercise));
+      }, 'Failed to add exercise'),
+    [run, draft, setDraft]
+  );
+
+  const removeEntry = useCallback(
+    (entryIndex: number) =>
+      run(async () => {
+        if (!draft) return;
+        setDraft(await WorkoutService.removeEntry(draft.id, entryIndex));
+      }, 'Failed to remove exercise'),
+    [run, draft, setDraft]
+  );
+
+  const logSet = useCallback(
+    (exerciseId: string, set: PerformedSet, exerciseName: string) =>
+      run(async () => {
+        if (!draft) return;
+        setDraft(await WorkoutService.logStrengthSet(draft.id, exerciseId, set, exerciseName));
+      }, 'Failed to log set'),
+    [run, draft, setDraft]
+  );
+
+  const logSegment = useCallback(
+    (exerciseId: string, segment: CardioSegment) =>
+      run(async () => {
+        if (!draft) return;
+        setDraft(await WorkoutService.logCardioSegment(draft.id, exerciseId, segment));
+      }, 'Failed to log segment'),
+    [run, draft, setDraft]
+  );
+
+  // Session updates that need nothing but the session id
+  const update = useCallback(
+    (change: (sessionId: string) => Promise<ActiveWorkoutSession>, fallback: string) =>
+      run(async () => {
+        if (!draft) return;
+        setDraft(await change(draft.id));
+      }, fallback),
+    [run, draft, setDraft]
+  );
+
+  const pause = useCallback(
+    () => update((id) => WorkoutService.pauseSession(id), 'Failed to pause workout'),
+    [update]
+  );
+
+  const resume = useCallback(
+    () => update((id) => WorkoutService.resumeSession(id), 'Failed to resume workout'),
+    [update]
+  );
+
+  const startRest = useCallback(
+    (seconds: number) => update((id) => WorkoutService.startRest(id, seconds), 'Failed to start rest'),
+    [update]
+  );
+
+  const endRest = useCallback(
+    () => update((id) => WorkoutService.endRest(id), 'Failed to end rest'),
+    [update]
+  );
+
+  const finish = useCallback(
+    (details: { title?: string; notes?: string; rating?: number }) =>
+      run(async () => {
+        if (!draft) return undefined;
+        const workout = await WorkoutService.finishFreeformSession(draft.id, details);
+        setDraft(null);
+        return workout;
+      }, 'Failed to finish workout'),
+    [run, draft, setDraft]
+  );
+
+  const discard = useCallback(
+    () =>
+      run(async () => {
+        if (!draft) return;
+        await WorkoutService.abandonSession(draft.id);
+        setDraft(null);
+      }, 'Failed to discard workout'),
+    [run, draft, setDraft]
+  );
+
+  return {
+    draft,
+    frequentExercises,
+    addExercise,
+    removeEntry,
+    logSet,
+    logSegment,
+    pause,
+    resume,
+    startRest,
+    endRest,
+    finish,
+    discard,
+    isLoading: isLoadingDraft || isLoadingFrequent,
+    error,
+  };
+};
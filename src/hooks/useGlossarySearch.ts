@@ -6,7 +6,7 @@
 "use client";
 
 import { useState, useCallback, useMemo } from "react";
-import { storageService } from "@/services/storage";
+import { getStorageAdapter } from "@/services/storageBackend";
 import type { GlossaryItem } from "@/types";
 
 export interface GlossarySearchFilters {
@@ -56,7 +56,7 @@ export const useGlossarySearch = () => {
       setError(null);
 
       try {
-        const allItems = await storageService.getAll<GlossaryItem>("glossary");
+        const allItems = await getStorageAdapter().getAll<GlossaryItem>("glossary");
         let filteredItems = [...allItems];
 
         // Apply text search with fuzzy matching
@@ -136,7 +136,7 @@ export const useGlossarySearch = () => {
   // Get available filter options
   const getFilterOptions = useCallback(async () => {
     try {
-      const allItems = await storageService.getAll<GlossaryItem>("glossary");
+      const allItems = await getStorageAdapter().getAll<GlossaryItem>("glossary");
 
       const categories = [...new Set(allItems.map((item) => item.category))];
       const difficultyLevels = [...new Set(allItems.map((item) => item.difficulty_level))];
@@ -158,7 +158,7 @@ export const useGlossarySearch = () => {
   const getSuggestions = useCallback(
     async (currentTerm: string): Promise<string[]> => {
       try {
-        const allItems = await storageService.getAll<GlossaryItem>("glossary");
+        const allItems = await getStorageAdapter().getAll<GlossaryItem>("glossary");
         const currentItem = allItems.find(
           (item) => item.term.toLowerCase() === currentTerm.toLowerCase()
         );
@@ -213,7 +213,7 @@ export const useGlossarySearch = () => {
   const getRandomTerms = useCallback(
     async (count: number = 5): Promise<GlossaryItem[]> => {
       try {
-        const allItems = await storageService.getAll<GlossaryItem>("glossary");
+        const allItems = await getStorageAdapter().getAll<GlossaryItem>("glossary");
         const shuffled = [...allItems].sort(() => 0.5 - Math.random());
         return shuffled.slice(0, count);
       } catch (err) {
@@ -1,8 +1,10 @@
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { goalsRepository } from '@/repositories';
+import { useLiveQuery } from './useLiveQuery';
 import { MetricsAnalysisService } from '@/services/metricsAnalysisService';
+import { UndoService } from '@/services/undoService';
 import type { 
   FitnessGoal, 
   CreateData 
@@ -54,33 +56,26 @@ export interface UseGoalsReturn {
  */
 export const useGoals = (): UseGoalsReturn => {
   // State
-  const [allGoals, setAllGoals] = useState<FitnessGoal[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [mutationError, setError] = useState<string | null>(null);
 
   // Generate unique ID
   const generateId = useCallback(() => crypto.randomUUID(), []);
 
   // Load goals data
   const loadGoals = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      const goals = await goalsRepository.getAll();
-      setAllGoals(goals.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()));
-
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load goals');
-    } finally {
-      setIsLoading(false);
-    }
+    const goals = await goalsRepository.getAll();
+    return goals.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
   }, []);
 
-  // Load goals on mount
-  useEffect(() => {
-    loadGoals();
-  }, [loadGoals]);
+  // Reloads whenever goals change here or in another tab
+  const {
+    data: allGoals,
+    setData: setAllGoals,
+    isLoading,
+    error: loadError,
+    refresh,
+  } = useLiveQuery(loadGoals, [], { stores: ['goals'] });
+  const error = mutationError ?? loadError;
 
   // Computed values
   const activeGoals = allGoals.filter(goal => goal.status === 'active');
@@ -106,7 +101,7 @@ export const useGoals = (): UseGoalsReturn => {
       setError(err instanceof Error ? err.message : 'Failed to create goal');
       throw err;
     }
-  }, [generateId]);
+  }, [generateId, setAllGoals]);
 
   // Update goal
   const updateGoal = useCallback(async (id: string, updates: Partial<FitnessGoal>) => {
@@ -125,7 +120,7 @@ export const useGoals = (): UseGoalsReturn => {
       setError(err instanceof Error ? err.message : 'Failed to update goal');
       throw err;
     }
-  }, []);
+  }, [setAllGoals]);
 
   // Delete goal
   const deleteGoal = useCallback(async (id: string) => {
@@ -134,12 +129,13 @@ export const useGoals = (): UseGoalsReturn => {
       
       await goalsRepository.delete(id);
       setAllGoals(prev => prev.filter(goal => goal.id !== id));
+      UndoService.offer('Goal deleted', () => goalsRepository.restore(id));
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete goal');
       throw err;
     }
-  }, []);
+  }, [setAllGoals]);
 
   // Pause goal
   const pauseGoal = useCallback(async (id: string) => {
@@ -326,8 +322,8 @@ export const useGoals = (): UseGoalsReturn => {
 
   // Refresh data
   const refreshData = useCallback(async () => {
-    await loadGoals();
-  }, [loadGoals]);
+    await refresh();
+  }, [refresh]);
 
   return {
     // Goals data
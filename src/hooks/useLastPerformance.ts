@@ -0,0 +1,28 @@
+"use client";
+
+import { useCallback } from "react";
+import { WorkoutService } from "@/services/workoutService";
+import { useLiveQuery } from "./useLiveQuery";
+import type { LastPerformance } from "@/types";
+
+/**
+ * Custom hook for what the user did for an exercise the last time they logged it
+ * Following cursor rules for state management and type safety
+ */
+export const useLastPerformance = (exerciseId?: string) => {
+  const loadLastPerformance = useCallback(
+    () =>
+      exerciseId
+        ? WorkoutService.getLastPerformance(exerciseId)
+        : Promise.resolve(null),
+    [exerciseId]
+  );
+
+  const { data: lastPerformance, isLoading } =
+    useLiveQuery<LastPerformance | null>(loadLastPerformance, null, {
+      stores: ["workouts"],
+      enabled: Boolean(exerciseId),
+    });
+
+  return { lastPerformance, isLoading };
+};
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { getStorageAdapter } from '@/services/storageBackend';
+import type { StorageChange } from '@/services/storageAdapter';
+
+// Writes arriving within this window (e.g. a batch import) trigger one refetch
+const REFRESH_DEBOUNCE_MS = 50;
+
+export interface LiveQueryOptions {
+  stores: string[];
+  // Narrow which changes in the watched stores trigger a refetch
+  isRelevant?: (change: StorageChange) => boolean;
+  enabled?: boolean;
+}
+
+export interface UseLiveQueryReturn<T> {
+  data: T;
+  setData: Dispatch<SetStateAction<T>>; // Optimistic updates until the refetch lands
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Run a query and re-run it whenever a watched store changes in this or another tab.
+ * Pass a memoized query (useCallback); a new function identity reloads from scratch.
+ */
+export function useLiveQuery<T>(
+  query: () => Promise<T>,
+  initialValue: T,
+  options: LiveQueryOptions
+): UseLiveQueryReturn<T> {
+  const [data, setData] = useState<T>(initialValue);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { stores, isRelevant, enabled = true } = options;
+  const storesKey = stores.join('|');
+  const isRelevantRef = useRef(isRelevant);
+  isRelevantRef.current = isRelevant;
+
+  // Only the newest request may update state, so slow responses never overwrite fresh ones
+  const requestRef = useRef(0);
+
+  const run = useCallback(async (showLoading: boolean) => {
+    const request = ++requestRef.current;
+    if (showLoading) {
+      setIsLoading(true);
+    }
+
+    try {
+      const result = await query();
+      if (request === requestRef.current) {
+        setData(result);
+        setError(null);
+      }
+    } catch (err) {
+      if (request === requestRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load data');
+        console.error('Live query failed:', err);
+      }
+    } finally {
+      if (request === requestRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [query]);
+
+  useEffect(() => {
+    if (enabled) {
+      run(true);
+    }
+  }, [run, enabled]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const watched = new Set(storesKey.split('|'));
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = getStorageAdapter().subscribe((changes) => {
+      const relevant = changes.some((change) =>
+        watched.has(change.store) && (!isRelevantRef.current || isRelevantRef.current(change))
+      );
+      if (!relevant) {
+        return;
+      }
+
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => {
+        timer = null;
+        run(false);
+      }, REFRESH_DEBOUNCE_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }, [run, enabled, storesKey]);
+
+  const refresh = useCallback(() => run(false), [run]);
+
+  return { data, setData, isLoading, error, refresh };
+}
@@ -5,9 +5,11 @@
 
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback } from "react";
 import { planRepository } from "@/repositories";
 import { PlanService } from "@/services/planService";
+import { VersionConflictError, type StorageChange } from "@/services/storageAdapter";
+import { useLiveQuery } from "./useLiveQuery";
 import type { 
   ProgramPlan, 
   SessionPath, 
@@ -15,57 +17,101 @@ import type {
   PlanStats,
   Session,
   ExercisePrescription,
-  ExerciseCatalogItem
+  ExerciseCatalogItem,
+  VersionConflict,
+  ConflictResolution
 } from "@/types";
 
+interface PlanSnapshot {
+  plan: ProgramPlan | null;
+  progress: PlanProgress | null;
+  stats: PlanStats | null;
+}
+
+const EMPTY_PLAN: PlanSnapshot = { plan: null, progress: null, stats: null };
+
+const fetchPlan = async (id: string): Promise<PlanSnapshot> => {
+  const [planData, progressData, statsData] = await Promise.all([
+    planRepository.getById(id),
+    planRepository.calculateProgress(id),
+    planRepository.getStats(id)
+  ]);
+  
+  if (!planData) {
+    throw new Error(`Plan with ID ${id} not found`);
+  }
+  
+  return { plan: planData, progress: progressData, stats: statsData };
+};
+
 export const usePlan = (planId?: string) => {
-  const [plan, setPlan] = useState<ProgramPlan | null>(null);
-  const [progress, setProgress] = useState<PlanProgress | null>(null);
-  const [stats, setStats] = useState<PlanStats | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [mutationError, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<VersionConflict<ProgramPlan> | null>(null);
 
-  // Load plan on mount or when planId changes
-  useEffect(() => {
-    if (planId) {
-      loadPlan(planId);
-    }
-  }, [planId]);
+  // Reload when this plan or any completion record changes, here or in another tab
+  const loadCurrentPlan = useCallback(
+    async () => (planId ? fetchPlan(planId) : EMPTY_PLAN),
+    [planId]
+  );
+  const isPlanChange = useCallback(
+    (change: StorageChange) =>
+      change.store === "completed_sessions" || change.id === null || change.id === planId,
+    [planId]
+  );
+  const {
+    data: snapshot,
+    setData: setSnapshot,
+    isLoading: isQueryLoading,
+    error: loadError,
+  } = useLiveQuery(loadCurrentPlan, EMPTY_PLAN, {
+    stores: ["plans", "completed_sessions"],
+    isRelevant: isPlanChange,
+    enabled: Boolean(planId),
+  });
+  const [isLoadingPlan, setIsLoading] = useState(false);
+
+  const { plan, progress, stats } = snapshot;
+  const isLoading = isQueryLoading || isLoadingPlan;
+  const error = mutationError ?? loadError;
+
+  const setPlan = useCallback((next: ProgramPlan) => {
+    setSnapshot(prev => ({ ...prev, plan: next }));
+  }, [setSnapshot]);
+
+  const setProgress = useCallback((next: PlanProgress | null) => {
+    setSnapshot(prev => ({ ...prev, progress: next }));
+  }, [setSnapshot]);
+
+  const setStats = useCallback((next: PlanStats | null) => {
+    setSnapshot(prev => ({ ...prev, stats: next }));
+  }, [setSnapshot]);
 
   const loadPlan = useCallback(async (id: string) => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const [planData, progressData, statsData] = await Promise.all([
-        planRepository.getById(id),
-        planRepository.calculateProgress(id),
-        planRepository.getStats(id)
-      ]);
-      
-      if (!planData) {
-        throw new Error(`Plan with ID ${id} not found`);
-      }
-      
-      setPlan(planData);
-      setProgress(progressData);
-      setStats(statsData);
+      setSnapshot(await fetchPlan(id));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load plan");
       console.error("Failed to load plan:", err);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [setSnapshot]);
 
   const savePlan = useCallback(async (updatedPlan: ProgramPlan) => {
     setIsSaving(true);
     setError(null);
     
     try {
-      await planRepository.save(updatedPlan);
-      setPlan(updatedPlan);
+      // Saving an edit of a stale copy is rejected instead of overwriting the newer plan
+      const saved = await planRepository.save(updatedPlan, undefined, {
+        expectedVersion: updatedPlan.version,
+      });
+      setPlan(saved);
+      setConflict(null);
       
       // Refresh progress and stats
       if (updatedPlan.id) {
@@ -77,13 +123,43 @@ export const usePlan = (planId?: string) => {
         setStats(statsData);
       }
     } catch (err) {
+      if (err instanceof VersionConflictError) {
+        setConflict({ local: updatedPlan, remote: err.current as ProgramPlan | null });
+      }
       setError(err instanceof Error ? err.message : "Failed to save plan");
       console.error("Failed to save plan:", err);
       throw err;
     } finally {
       setIsSaving(false);
     }
-  }, []);
+  }, [setPlan, setProgress, setStats]);
+
+  // Settle a save conflict: overwrite with the local edit, or adopt the stored plan
+  const resolveConflict = useCallback(async (resolution: ConflictResolution) => {
+    if (!conflict) {
+      return;
+    }
+
+    if (resolution === "use-theirs") {
+      if (conflict.remote) {
+        setPlan(conflict.remote);
+      }
+      setConflict(null);
+      setError(null);
+      return;
+    }
+
+    if (!conflict.remote) {
+      // The plan was deleted elsewhere; saving recreates it
+      setPlan(await planRepository.save(conflict.local));
+      setConflict(null);
+      setError(null);
+      return;
+    }
+
+    // Rebase the local edit onto the stored version so the save is accepted
+    await savePlan({ ...conflict.local, version: conflict.remote.version });
+  }, [conflict, savePlan, setPlan]);
 
   const updatePlan = useCallback(async (updates: Partial<ProgramPlan>) => {
     if (!plan) {
@@ -257,7 +333,7 @@ export const usePlan = (planId?: string) => {
     
     setProgress(progressData);
     setStats(statsData);
-  }, [plan]);
+  }, [plan, setProgress, setStats]);
 
   return {
     // State
@@ -267,11 +343,13 @@ export const usePlan = (planId?: string) => {
     isLoading,
     isSaving,
     error,
+    conflict,
     
     // Plan management
     loadPlan,
     savePlan,
     updatePlan,
+    resolveConflict,
     duplicatePlan,
     
     // Structure management
@@ -0,0 +1,63 @@
+"use client";
+
+import { useCallback } from "react";
+import { preferencesRepository } from "@/repositories";
+import { defaultUserPreferences } from "@/lib/validations";
+import { useLiveQuery } from "./useLiveQuery";
+import type { UserPreferences } from "@/types";
+
+/**
+ * Custom hook for the active profile's workout logging preferences
+ * Following cursor rules for state management and type safety
+ */
+export function usePreferences() {
+  const loadPreferences = useCallback(
+    () => preferencesRepository.getPreferences(),
+    []
+  );
+  // Reloads when the preferences change in another tab or the profile switches
+  const {
+    data: preferences,
+    setData: setPreferences,
+    isLoading,
+    error,
+    refresh,
+  } = useLiveQuery<UserPreferences>(loadPreferences, defaultUserPreferences, {
+    stores: ["preferences"],
+  });
+
+  const updatePreference = useCallback(
+    async <K extends keyof UserPreferences>(
+      key: K,
+      value: UserPreferences[K]
+    ) => {
+      setPreferences((prev) => ({ ...prev, [key]: value }));
+      try {
+        setPreferences(
+          await preferencesRepository.updatePreference(key, value)
+        );
+      } catch (err) {
+        console.error("Failed to save preference:", err);
+        await refresh();
+      }
+    },
+    [setPreferences, refresh]
+  );
+
+  // The step the weight buttons move by, in the unit being logged
+  const weightIncrement = useCallback(
+    (unit: "lb" | "kg") =>
+      unit === "kg"
+        ? preferences.weight_increment_kg
+        : preferences.weight_increment_lb,
+    [preferences.weight_increment_kg, preferences.weight_increment_lb]
+  );
+
+  return {
+    preferences,
+    updatePreference,
+    weightIncrement,
+    isLoading,
+    error,
+  };
+}
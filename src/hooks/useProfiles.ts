@@ -0,0 +1,84 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { ProfileService } from '@/services/profileService';
+import { DEFAULT_PROFILE_ID, getActiveProfileId, subscribeActiveProfile } from '@/services/activeProfile';
+import { useLiveQuery } from './useLiveQuery';
+import type { ProfileDeletionReport, UserProfile } from '@/types';
+
+export interface UseProfilesReturn {
+  profiles: UserProfile[];
+  activeProfileId: string;
+  activeProfile: UserProfile | null;
+  switchProfile: (profileId: string) => Promise<void>;
+  createProfile: (displayName: string) => Promise<UserProfile>; // Switches to the new profile
+  deleteProfile: (profileId: string) => Promise<ProfileDeletionReport>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for the local profiles on this device
+ * Following cursor rules for state management and type safety
+ */
+export const useProfiles = (): UseProfilesReturn => {
+  const [mutationError, setError] = useState<string | null>(null);
+  // The stored choice is only readable in the browser, so render the default first
+  const [activeProfileId, setActiveProfileId] = useState<string>(DEFAULT_PROFILE_ID);
+
+  useEffect(() => {
+    setActiveProfileId(getActiveProfileId());
+    return subscribeActiveProfile(setActiveProfileId);
+  }, []);
+
+  const loadProfiles = useCallback(() => ProfileService.ensureActiveProfile(), []);
+
+  // Reloads whenever a profile is added, renamed or deleted here or in another tab
+  const {
+    data: profiles,
+    isLoading,
+    error: loadError,
+  } = useLiveQuery<UserProfile[]>(loadProfiles, [], { stores: ['profile'] });
+  const error = mutationError ?? loadError;
+
+  const run = useCallback(async <T>(action: () => Promise<T>, fallback: string): Promise<T> => {
+    try {
+      setError(null);
+      return await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      throw err;
+    }
+  }, []);
+
+  const switchProfile = useCallback(
+    (profileId: string) => run(() => ProfileService.switchProfile(profileId), 'Failed to switch profile'),
+    [run]
+  );
+
+  const createProfile = useCallback(
+    (displayName: string) =>
+      run(async () => {
+        const profile = await ProfileService.createProfile(displayName);
+        await ProfileService.switchProfile(profile.id);
+        return profile;
+      }, 'Failed to create profile'),
+    [run]
+  );
+
+  const deleteProfile = useCallback(
+    (profileId: string) => run(() => ProfileService.deleteProfile(profileId), 'Failed to delete profile'),
+    [run]
+  );
+
+  return {
+    profiles,
+    activeProfileId,
+    activeProfile: profiles.find((profile) => profile.id === activeProfileId) ?? null,
+    switchProfile,
+    createProfile,
+    deleteProfile,
+    isLoading,
+    error,
+  };
+};
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import { RevisionService } from '@/services/revisionService';
+import { useLiveQuery } from './useLiveQuery';
+import type {
+  ProgramPlan,
+  RevisionChange,
+  RevisionHistoryEntry,
+  RevisionStore,
+  WorkoutLogEntry,
+} from '@/types';
+
+export interface UseRevisionHistoryReturn {
+  history: RevisionHistoryEntry[]; // Newest first
+  compare: (fromVersion: number, toVersion: number) => Promise<RevisionChange[]>;
+  restore: (entityVersion: number) => Promise<ProgramPlan | WorkoutLogEntry>;
+  fork: (entityVersion: number) => Promise<ProgramPlan | WorkoutLogEntry>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for the saved versions of one plan or workout log
+ * Following cursor rules for state management and type safety
+ */
+export const useRevisionHistory = (store: RevisionStore, entityId: string | null): UseRevisionHistoryReturn => {
+  const [mutationError, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(
+    () => (entityId ? RevisionService.getHistory(store, entityId) : Promise.resolve([])),
+    [store, entityId]
+  );
+
+  // Every save of the record adds a revision, so this follows edits made elsewhere
+  const {
+    data: history,
+    isLoading,
+    error: loadError,
+  } = useLiveQuery<RevisionHistoryEntry[]>(loadHistory, [], {
+    stores: ['revisions'],
+    enabled: entityId !== null,
+  });
+  const error = mutationError ?? loadError;
+
+  const run = useCallback(async <T>(action: (id: string) => Promise<T>, fallback: string): Promise<T> => {
+    try {
+      setError(null);
+      if (!entityId) {
+        throw new Error('Nothing selected');
+      }
+      return await action(entityId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      throw err;
+    }
+  }, [entityId]);
+
+  const compare = useCallback(
+    (fromVersion: number, toVersion: number) =>
+      run((id) => RevisionService.compare(store, id, fromVersion, toVersion), 'Failed to compare versions'),
+    [run, store]
+  );
+
+  const restore = useCallback(
+    (entityVersion: number) =>
+      run((id) => RevisionService.restore(store, id, entityVersion), 'Failed to restore version'),
+    [run, store]
+  );
+
+  const fork = useCallback(
+    (entityVersion: number) =>
+      run((id) => RevisionService.fork(store, id, entityVersion), 'Failed to copy version'),
+    [run, store]
+  );
+
+  return {
+    history,
+    compare,
+    restore,
+    fork,
+    isLoading,
+    error,
+  };
+};
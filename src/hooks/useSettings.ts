@@ -1,8 +1,21 @@
 "use client";
 
+import { useState } from "react";
 import { useLocalStorage } from "./useLocalStorage";
 import { defaultAppSettings, sanitizeAppSettings } from "@/lib/validations";
-import type { AppSettings } from "@/types";
+import type { AppSettings, ConflictResolution, VersionConflict } from "@/types";
+
+const SETTINGS_KEY = "app-settings";
+
+// Settings as last written by any tab, or null if never saved
+function readStoredSettings(): AppSettings | null {
+  try {
+    const item = window.localStorage.getItem(SETTINGS_KEY);
+    return item ? sanitizeAppSettings(JSON.parse(item)) : null;
+  } catch {
+    return null;
+  }
+}
 
 /**
  * Custom hook for managing app settings
@@ -10,21 +23,57 @@ import type { AppSettings } from "@/types";
  */
 export function useSettings() {
   const [settings, setStoredSettings, isLoading] = useLocalStorage<AppSettings>(
-    "app-settings",
+    SETTINGS_KEY,
     defaultAppSettings
   );
+  const [conflict, setConflict] = useState<VersionConflict<AppSettings> | null>(null);
+
+  // Write over whatever is stored, continuing its version sequence
+  const writeSettings = (next: AppSettings) => {
+    const storedVersion = readStoredSettings()?.version ?? 0;
+    setStoredSettings(
+      sanitizeAppSettings({
+        ...next,
+        version: Math.max(storedVersion, settings.version) + 1,
+        updated_at: new Date().toISOString(),
+      })
+    );
+    setConflict(null);
+  };
 
   const updateSetting = <K extends keyof AppSettings>(
     key: K,
     value: AppSettings[K]
   ) => {
-    const newSettings = { ...settings, [key]: value };
-    const validatedSettings = sanitizeAppSettings(newSettings);
-    setStoredSettings(validatedSettings);
+    const newSettings = sanitizeAppSettings({ ...settings, [key]: value });
+
+    // Another tab saved since these settings were loaded; let the user choose
+    const stored = readStoredSettings();
+    if (stored && stored.version !== settings.version) {
+      setConflict({ local: newSettings, remote: stored });
+      return;
+    }
+
+    writeSettings(newSettings);
+  };
+
+  const resolveConflict = (resolution: ConflictResolution) => {
+    if (!conflict) return;
+
+    if (resolution === "use-theirs" && conflict.remote) {
+      setStoredSettings(conflict.remote);
+      setConflict(null);
+    } else {
+      writeSettings(conflict.local);
+    }
   };
 
   const resetSettings = () => {
-    setStoredSettings(defaultAppSettings);
+    writeSettings(defaultAppSettings);
+  };
+
+  const replaceSettings = (next: AppSettings) => {
+    writeSettings(sanitizeAppSettings(next));
   };
 
   const exportSettings = () => {
@@ -49,7 +98,7 @@ export function useSettings() {
           const content = event.target?.result as string;
           const importedSettings = JSON.parse(content);
           const validatedSettings = sanitizeAppSettings(importedSettings);
-          setStoredSettings(validatedSettings);
+          writeSettings(validatedSettings);
           resolve();
         } catch {
           reject(new Error("Invalid settings file format"));
@@ -65,8 +114,11 @@ export function useSettings() {
     settings,
     updateSetting,
     resetSettings,
+    replaceSettings,
     exportSettings,
     importSettings,
+    conflict,
+    resolveConflict,
     isLoading,
   };
 }
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import { StorageQuotaService } from '@/services/storageQuotaService';
+import { useLiveQuery } from './useLiveQuery';
+import type { AppSettings, CleanupAction, CleanupActionId, CleanupResult, StorageStatus } from '@/types';
+
+// The stores that grow fastest, and the ones the cleanup actions shrink
+const WATCHED_STORES = ['workouts', 'media', 'progress-photos', 'active-sessions'];
+
+export interface UseStorageQuotaReturn {
+  status: StorageStatus | null;
+  actions: CleanupAction[]; // Empty unless requested; estimating reads every photo
+  runCleanup: (id: CleanupActionId) => Promise<CleanupResult>;
+  requestPersistence: () => Promise<boolean | null>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for storage usage against the quota and the cleanup actions
+ * Following cursor rules for state management and type safety
+ */
+export const useStorageQuota = (
+  settings: Pick<AppSettings, 'storage_warning_percent' | 'storage_critical_percent'>,
+  includeActions: boolean = false
+): UseStorageQuotaReturn => {
+  const [mutationError, setError] = useState<string | null>(null);
+  const { storage_warning_percent: warningPercent, storage_critical_percent: criticalPercent } = settings;
+
+  const loadStatus = useCallback(
+    () =>
+      StorageQuotaService.getStatus({
+        storage_warning_percent: warningPercent,
+        storage_critical_percent: criticalPercent,
+      }),
+    [warningPercent, criticalPercent]
+  );
+  const loadActions = useCallback(() => StorageQuotaService.getCleanupActions(), []);
+
+  const {
+    data: status,
+    isLoading: isLoadingStatus,
+    error: statusError,
+    refresh: refreshStatus,
+  } = useLiveQuery<StorageStatus | null>(loadStatus, null, { stores: WATCHED_STORES });
+  const {
+    data: actions,
+    isLoading: isLoadingActions,
+    error: actionsError,
+  } = useLiveQuery<CleanupAction[]>(loadActions, [], { stores: WATCHED_STORES, enabled: includeActions });
+  const error = mutationError ?? statusError ?? actionsError;
+
+  const run = useCallback(async <T>(action: () => Promise<T>, fallback: string): Promise<T> => {
+    try {
+      setError(null);
+      return await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      throw err;
+    }
+  }, []);
+
+  const runCleanup = useCallback(
+    (id: CleanupActionId) => run(() => StorageQuotaService.runCleanup(id), 'Failed to free up space'),
+    [run]
+  );
+
+  const requestPersistence = useCallback(
+    () =>
+      run(async () => {
+        const persisted = await StorageQuotaService.requestPersistence();
+        await refreshStatus();
+        return persisted;
+      }, 'Failed to request persistent storage'),
+    [run, refreshStatus]
+  );
+
+  return {
+    status,
+    actions,
+    runCleanup,
+    requestPersistence,
+    isLoading: isLoadingStatus || isLoadingActions,
+    error,
+  };
+};
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { SyncService } from '@/services/syncService';
+import type { SyncDeviceState, SyncReport } from '@/types';
+
+export interface UseSyncReturn {
+  device: SyncDeviceState | null;
+  pendingCount: number;
+  lastReport: SyncReport | null;
+
+  // Actions
+  syncNow: () => Promise<SyncReport | null>;
+  setServerUrl: (serverUrl: string) => Promise<void>;
+
+  // State
+  isSyncing: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for syncing this device with a sync server
+ * Following cursor rules for state management and type safety
+ */
+export const useSync = (): UseSyncReturn => {
+  const [device, setDevice] = useState<SyncDeviceState | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastReport, setLastReport] = useState<SyncReport | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshState = useCallback(async () => {
+    setDevice(await SyncService.getDeviceState());
+    setPendingCount(await SyncService.getPendingCount());
+  }, []);
+
+  useEffect(() => {
+    refreshState().catch((err) => {
+      setError(err instanceof Error ? err.message : 'Failed to read sync state');
+    });
+  }, [refreshState]);
+
+  const syncNow = useCallback(async () => {
+    try {
+      setIsSyncing(true);
+      setError(null);
+      const report = await SyncService.sync();
+      setLastReport(report);
+      return report;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sync failed');
+      console.error('Sync failed:', err);
+      return null;
+    } finally {
+      await refreshState();
+      setIsSyncing(false);
+    }
+  }, [refreshState]);
+
+  const setServerUrl = useCallback(async (serverUrl: string) => {
+    try {
+      setError(null);
+      setDevice(await SyncService.setServerUrl(serverUrl));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update sync server');
+    }
+  }, []);
+
+  return {
+    device,
+    pendingCount,
+    lastReport,
+    syncNow,
+    setServerUrl,
+    isSyncing,
+    error,
+  };
+};
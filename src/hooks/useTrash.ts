@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import { TrashService } from '@/services/trashService';
+import { useLiveQuery } from './useLiveQuery';
+import type { TrashItem, TrashStore } from '@/types';
+
+export interface UseTrashReturn {
+  items: TrashItem[];
+  restore: (id: string) => Promise<void>;
+  purge: (id: string) => Promise<void>; // Deletes for good
+  emptyTrash: () => Promise<number>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for the trash of one entity type
+ * Following cursor rules for state management and type safety
+ */
+export const useTrash = (store: TrashStore): UseTrashReturn => {
+  const [mutationError, setError] = useState<string | null>(null);
+
+  const loadItems = useCallback(() => TrashService.list(store), [store]);
+
+  // Deleting anywhere in the app moves items in here, so watch the store itself
+  const {
+    data: items,
+    isLoading,
+    error: loadError,
+  } = useLiveQuery<TrashItem[]>(loadItems, [], { stores: [store] });
+  const error = mutationError ?? loadError;
+
+  const run = useCallback(async <T>(action: () => Promise<T>, fallback: string): Promise<T> => {
+    try {
+      setError(null);
+      return await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      throw err;
+    }
+  }, []);
+
+  const restore = useCallback(
+    (id: string) => run(() => TrashService.restore(store, id), 'Failed to restore item'),
+    [run, store]
+  );
+
+  const purge = useCallback(
+    (id: string) => run(() => TrashService.purge(store, id), 'Failed to delete item'),
+    [run, store]
+  );
+
+  const emptyTrash = useCallback(
+    () => run(() => TrashService.emptyTrash(store), 'Failed to empty trash'),
+    [run, store]
+  );
+
+  return {
+    items,
+    restore,
+    purge,
+    emptyTrash,
+    isLoading,
+    error,
+  };
+};
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState, useCallback, useMemo } from 'react';
+import { profileRepository, ProfileRepository } from '@/repositories';
+import { useLiveQuery } from './useLiveQuery';
+import type { ProfileInputs, StorageData, UserProfile } from '@/types';
+
+export interface UseUserProfileReturn {
+  profile: UserProfile | null;
+  inputs: ProfileInputs; // Age, sex, height and activity level ready for calculations
+  isComplete: boolean; // Everything BMI, TDEE and the standards need is filled in
+  saveProfile: (updates: Partial<Omit<UserProfile, keyof StorageData>>) => Promise<void>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for the user profile
+ * Following cursor rules for state management and type safety
+ */
+export const useUserProfile = (): UseUserProfileReturn => {
+  const [mutationError, setError] = useState<string | null>(null);
+
+  const loadProfile = useCallback(() => profileRepository.getProfile(), []);
+
+  // Reloads whenever the profile changes here or in another tab
+  const {
+    data: profile,
+    setData: setProfile,
+    isLoading,
+    error: loadError,
+  } = useLiveQuery<UserProfile | null>(loadProfile, null, { stores: ['profile'] });
+  const error = mutationError ?? loadError;
+
+  const saveProfile = useCallback(async (updates: Partial<Omit<UserProfile, keyof StorageData>>) => {
+    try {
+      setError(null);
+      setProfile(await profileRepository.saveProfile(updates));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save profile');
+      throw err;
+    }
+  }, [setProfile]);
+
+  const inputs = useMemo<ProfileInputs>(() => ProfileRepository.toInputs(profile), [profile]);
+
+  return {
+    profile,
+    inputs,
+    isComplete: Boolean(inputs.age && inputs.gender && inputs.height_cm && inputs.activity_level),
+    saveProfile,
+    isLoading,
+    error,
+  };
+};
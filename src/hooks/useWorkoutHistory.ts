@@ -5,43 +5,91 @@
 
 "use client";
 
-import { useState, useCallback, useEffect, useMemo } from "react";
+import { useState, useCallback, useMemo, useRef } from "react";
 import { workoutRepository } from "@/repositories";
+import { UndoService } from "@/services/undoService";
+import { WorkoutAnalysis } from "@/utils/workoutAnalysis";
+import { useLiveQuery } from "./useLiveQuery";
 import type { 
   WorkoutLogEntry, 
   WorkoutFilters, 
   ExerciseProgressData,
-  WorkoutSummary 
+  WorkoutSummary,
+  CursorPage
 } from "@/types";
 
+const PAGE_SIZE = 20;
+
+const EMPTY_HISTORY: CursorPage<WorkoutLogEntry> = { items: [], nextCursor: null };
+
 export const useWorkoutHistory = () => {
-  const [workouts, setWorkouts] = useState<WorkoutLogEntry[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isMutating, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [mutationError, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState<WorkoutFilters>({
     sortBy: 'date',
     sortOrder: 'desc',
   });
 
-  // Load workouts on mount
-  useEffect(() => {
-    loadWorkouts();
-  }, []);
+  // Live refreshes reload every page shown so far, not just the first
+  const loadedCountRef = useRef(PAGE_SIZE);
+
+  // Newest workouts first; older pages are fetched on demand with loadMore
+  const loadHistory = useCallback(
+    () => workoutRepository.getHistoryPage({ limit: Math.max(loadedCountRef.current, PAGE_SIZE) }),
+    []
+  );
+  const {
+    data: history,
+    setData: setHistory,
+    isLoading: isQueryLoading,
+    error: loadError,
+    refresh,
+  } = useLiveQuery(loadHistory, EMPTY_HISTORY, { stores: ['workouts'] });
+
+  const workouts = history.items;
+  const nextCursor = history.nextCursor;
+  const isLoading = isQueryLoading || isMutating;
+  const error = mutationError ?? loadError;
+
+  const setWorkouts = useCallback((update: (prev: WorkoutLogEntry[]) => WorkoutLogEntry[]) => {
+    setHistory(prev => {
+      const items = update(prev.items);
+      loadedCountRef.current = items.length;
+      return { ...prev, items };
+    });
+  }, [setHistory]);
 
   const loadWorkouts = useCallback(async () => {
-    setIsLoading(true);
+    loadedCountRef.current = PAGE_SIZE;
+    await refresh();
+  }, [refresh]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) {
+      return;
+    }
+
+    setIsLoadingMore(true);
     setError(null);
-    
+
     try {
-      const allWorkouts = await workoutRepository.getAll();
-      setWorkouts(allWorkouts);
+      const page = await workoutRepository.getHistoryPage({
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      setHistory(prev => {
+        const items = [...prev.items, ...page.items];
+        loadedCountRef.current = items.length;
+        return { items, nextCursor: page.nextCursor };
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load workout history");
-      console.error("Failed to load workouts:", err);
+      setError(err instanceof Error ? err.message : "Failed to load more workouts");
+      console.error("Failed to load more workouts:", err);
     } finally {
-      setIsLoading(false);
+      setIsLoadingMore(false);
     }
-  }, []);
+  }, [nextCursor, setHistory]);
 
   const updateFilters = useCallback((newFilters: Partial<WorkoutFilters>) => {
     setFilters(prev => ({ ...prev, ...newFilters }));
@@ -157,15 +205,17 @@ export const useWorkoutHistory = () => {
         return null;
       }
 
-      const strengthEntry = exerciseEntry; // StrengthEntry
+      // Warm-ups would drag the session's numbers down
+      const sets = WorkoutAnalysis.workingSets(exerciseEntry.performed_sets);
+      if (sets.length === 0) {
+        return null;
+      }
       
-      const maxWeight = strengthEntry.type === 'strength' ? Math.max(...strengthEntry.performed_sets.map(set => set.weight_value || 0)) : 0;
-      const maxReps = strengthEntry.type === 'strength' ? Math.max(...strengthEntry.performed_sets.map(set => set.repetitions_done || 0)) : 0;
-      const totalVolume = strengthEntry.type === 'strength' ? strengthEntry.performed_sets.reduce((total: number, set) => 
-        total + (set.weight_value || 0) * (set.repetitions_done || 0), 0) : 0;
-      const averageRpe = strengthEntry.type === 'strength' && strengthEntry.performed_sets.length > 0 
-        ? strengthEntry.performed_sets.reduce((sum: number, set) => sum + (set.rpe_score || 0), 0) / strengthEntry.performed_sets.length
-        : 0;
+      const maxWeight = Math.max(...sets.map(set => set.weight_value || 0));
+      const maxReps = Math.max(...sets.map(set => set.repetitions_done || 0));
+      const totalVolume = sets.reduce((total: number, set) => 
+        total + (set.weight_value || 0) * WorkoutAnalysis.totalRepetitions(set), 0);
+      const averageRpe = sets.reduce((sum: number, set) => sum + (set.rpe_score || 0), 0) / sets.length;
 
       return {
         date: workout.date_time_start.split('T')[0],
@@ -173,7 +223,7 @@ export const useWorkoutHistory = () => {
         maxReps,
         totalVolume,
         averageRpe,
-        setCount: strengthEntry.type === 'strength' ? strengthEntry.performed_sets.length : 0,
+        setCount: sets.length,
       };
     }).filter(Boolean);
 
@@ -181,7 +231,7 @@ export const useWorkoutHistory = () => {
       exerciseId,
       exerciseName: (() => {
         const entry = exerciseWorkouts[0]?.entries.find(e => 'exercise_id' in e && e.exercise_id === exerciseId);
-        return entry && 'exercise_name' in entry ? entry.exercise_name : '';
+        return entry && 'exercise_name' in entry ? entry.exercise_name ?? '' : '';
       })(),
       sessions: sessions.filter(Boolean) as Array<{
         date: string;
@@ -220,7 +270,7 @@ export const useWorkoutHistory = () => {
 
       // Process exercises
       workout.entries.forEach(entry => {
-        if ('exercise_id' in entry) {
+        if (entry.exercise_id !== undefined) {
           exerciseIds.add(entry.exercise_id);
           
           // Count exercise frequency
@@ -228,17 +278,7 @@ export const useWorkoutHistory = () => {
         }
 
         if (entry.type === 'strength') {
-          const strengthEntry = entry; // StrengthEntry
-          strengthEntry.performed_sets?.forEach((set) => {
-            if (set.weight_value && set.repetitions_done) {
-              // Convert to lb if needed
-              let weight = set.weight_value;
-              if (set.weight_unit === 'kg') {
-                weight *= 2.20462;
-              }
-              strengthVolumeLb += weight * set.repetitions_done;
-            }
-          });
+          strengthVolumeLb += WorkoutAnalysis.calculateVolume(entry.performed_sets ?? []);
         } else if (entry.type === 'cardio') {
           const cardioEntry = entry; // CardioEntry
           cardioEntry.segments?.forEach((segment) => {
@@ -279,13 +319,14 @@ export const useWorkoutHistory = () => {
     try {
       await workoutRepository.delete(workoutId);
       setWorkouts(prev => prev.filter(w => w.id !== workoutId));
+      UndoService.offer("Workout deleted", () => workoutRepository.restore(workoutId));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to delete workout");
       console.error("Failed to delete workout:", err);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [setWorkouts]);
 
   const duplicateWorkout = useCallback(async (workout: WorkoutLogEntry): Promise<WorkoutLogEntry> => {
     setIsLoading(true);
@@ -315,13 +356,15 @@ export const useWorkoutHistory = () => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [setWorkouts]);
 
   return {
     // Data
     workouts: filteredWorkouts,
     allWorkouts: workouts,
     isLoading,
+    isLoadingMore,
+    hasMore: nextCursor !== null,
     error,
     
     // Filtering
@@ -331,6 +374,7 @@ export const useWorkoutHistory = () => {
     
     // Actions
     loadWorkouts,
+    loadMore,
     deleteWorkout,
     duplicateWorkout,
     
@@ -6,11 +6,12 @@
 "use client";
 
 import { useState, useCallback, useEffect, useRef } from "react";
-import { workoutRepository } from "@/repositories";
+import { WorkoutService } from "@/services/workoutService";
 import { DateUtils } from "@/utils/dateUtils";
+import { WorkoutAnalysis } from "@/utils/workoutAnalysis";
 import type { 
   ActiveWorkoutSession,
-  WorkoutLogEntry,
+  ExerciseGroup,
   PerformedSet,
   StrengthEntry,
   CardioEntry,
@@ -25,12 +26,13 @@ export const useWorkoutSession = () => {
   const [error, setError] = useState<string | null>(null);
   const sessionTimerRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Auto-save active session periodically
+  // Every change is written to the active-sessions store as it happens, so a
+  // closed tab loses nothing; this only keeps lastActivity fresh while idle
   useEffect(() => {
     if (activeSession && activeSession.sessionStatus === 'active') {
       sessionTimerRef.current = setInterval(() => {
         saveSession();
-      }, 30000); // Auto-save every 30 seconds
+      }, 30000); // Heartbeat every 30 seconds
 
       return () => {
         if (sessionTimerRef.current) {
@@ -46,8 +48,21 @@ export const useWorkoutSession = () => {
     };
   }, [activeSession]);
 
-  const generateId = useCallback(() => {
-    return crypto.randomUUID();
+  // Run a session change and keep the stored result
+  const apply = useCallback(async (
+    change: () => Promise<ActiveWorkoutSession>,
+    fallback: string
+  ): Promise<ActiveWorkoutSession | null> => {
+    setError(null);
+    try {
+      const updated = await change();
+      setActiveSession(updated);
+      return updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      console.error(fallback, err);
+      return null;
+    }
   }, []);
 
   const startSession = useCallback(async (session: Session) => {
@@ -55,122 +70,78 @@ export const useWorkoutSession = () => {
     setError(null);
 
     try {
-      const now = DateUtils.getCurrentDateTime();
-      
-      // Create new workout log entry
-      const newWorkoutLog: WorkoutLogEntry = {
-        id: generateId(),
-        date_time_start: now,
-        session_plan_ref: session.title,
-        session_title: session.title,
-        entries: [],
-        session_notes: "",
-        created_at: now,
-        updated_at: now,
-        version: 1,
-      };
-
-      // Create active session
-      const newActiveSession: ActiveWorkoutSession = {
-        id: generateId(),
-        workoutLog: newWorkoutLog,
-        currentExerciseIndex: 0,
-        sessionStatus: 'active',
-        startTime: now,
-        pauseDuration: 0,
-        isResting: false,
-        restTimeRemaining: 0,
-        lastActivity: now,
-        created_at: now,
-        updated_at: now,
-        version: 1,
-      };
+      // Pick up this session's workout if the tab was closed partway through
+      const unfinished = (await WorkoutService.getUnfinishedSessions())
+        .find(candidate => candidate.workoutLog.session_plan_ref === session.id);
+      if (unfinished) {
+        setActiveSession(unfinished);
+        return;
+      }
 
-      setActiveSession(newActiveSession);
-      
-      // Save initial state
-      await workoutRepository.save(newWorkoutLog);
-      
+      const started = await WorkoutService.startWorkoutSession(session);
+      setActiveSession(await WorkoutService.startExecution(started.id));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to start workout session");
       console.error("Failed to start workout session:", err);
     } finally {
       setIsLoading(false);
     }
-  }, [generateId]);
+  }, []);
 
-  const saveSession = useCallback(async () => {
-    if (!activeSession) return;
+  /**
+   * Load an unfinished session as it was stored, with its exercise index,
+   * pause state and rest countdown
+   */
+  const restoreSession = useCallback(async (sessionId: string) => {
+    setIsLoading(true);
+    setError(null);
 
     try {
-      await workoutRepository.save(activeSession.workoutLog);
-      
-      // Update last activity
-      setActiveSession(prev => prev ? {
-        ...prev,
-        lastActivity: DateUtils.getCurrentDateTime(),
-      } : null);
-      
+      const session = await WorkoutService.getActiveSession(sessionId);
+      if (!session) {
+        throw new Error("This workout is no longer available");
+      }
+      setActiveSession(session);
     } catch (err) {
-      console.error("Failed to save workout session:", err);
+      setError(err instanceof Error ? err.message : "Failed to resume workout session");
+      console.error("Failed to resume workout session:", err);
+    } finally {
+      setIsLoading(false);
     }
-  }, [activeSession]);
+  }, []);
 
-  const completeSet = useCallback(async (exerciseIndex: number, set: PerformedSet) => {
+  const saveSession = useCallback(async () => {
     if (!activeSession) return;
 
-    setError(null);
-
     try {
-      const updatedLog = { ...activeSession.workoutLog };
-      
-      // Ensure entries array exists and has the exercise
-      if (!updatedLog.entries[exerciseIndex]) {
-        console.error("Exercise index not found:", exerciseIndex);
-        return;
-      }
-
-      const exerciseEntry = updatedLog.entries[exerciseIndex];
-      
-      if (exerciseEntry.type === 'strength') {
-        const strengthEntry = exerciseEntry as StrengthEntry;
-        
-        // Add or update the set
-        const existingSetIndex = strengthEntry.performed_sets.findIndex(
-          s => s.set_number === set.set_number
-        );
-        
-        if (existingSetIndex >= 0) {
-          strengthEntry.performed_sets[existingSetIndex] = set;
-        } else {
-          strengthEntry.performed_sets.push(set);
-        }
-        
-        // Sort sets by set number
-        strengthEntry.performed_sets.sort((a, b) => a.set_number - b.set_number);
-      }
-
-      updatedLog.updated_at = DateUtils.getCurrentDateTime();
-      updatedLog.version += 1;
-
-      setActiveSession(prev => prev ? {
-        ...prev,
-        workoutLog: updatedLog,
+      const updated = {
+        ...activeSession,
         lastActivity: DateUtils.getCurrentDateTime(),
-      } : null);
-
-      await workoutRepository.save(updatedLog);
-      
+      };
+      await WorkoutService.updateActiveSession(updated);
+      setActiveSession(updated);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to save set");
-      console.error("Failed to complete set:", err);
+      console.error("Failed to save workout session:", err);
     }
   }, [activeSession]);
 
-  const addExerciseEntry = useCallback((exerciseId: string, exerciseName: string, type: 'strength' | 'cardio') => {
+  // Resolves to the updated session, so the caller can decide what comes next from the new set count
+  const completeSet = useCallback(async (
+    exercise: { exercise_id: string; exercise_name: string; group?: ExerciseGroup },
+    set: PerformedSet
+  ) => {
+    if (!activeSession) return null;
+
+    return apply(
+      () => WorkoutService.logStrengthSet(activeSession.id, exercise.exercise_id, set, exercise.exercise_name, exercise.group),
+      "Failed to save set"
+    );
+  }, [activeSession, apply]);
+
+  const addExerciseEntry = useCallback(async (exerciseId: string, exerciseName: string, type: 'strength' | 'cardio') => {
     if (!activeSession) return;
 
-    const updatedLog = { ...activeSession.workoutLog };
+    const updatedLog = { ...activeSession.workoutLog, entries: [...activeSession.workoutLog.entries] };
     const orderIndex = updatedLog.entries.length;
 
     if (type === 'strength') {
@@ -185,7 +156,9 @@ export const useWorkoutSession = () => {
     } else if (type === 'cardio') {
       const cardioEntry: CardioEntry = {
         type: 'cardio',
-        mode: exerciseName,
+        mode: WorkoutService.cardioModeFor(exerciseName),
+        exercise_id: exerciseId,
+        exercise_name: exerciseName,
         total_duration_seconds: 0,
         segments: [],
       };
@@ -193,13 +166,13 @@ export const useWorkoutSession = () => {
     }
 
     updatedLog.updated_at = DateUtils.getCurrentDateTime();
-    updatedLog.version += 1;
 
-    setActiveSession(prev => prev ? {
-      ...prev,
-      workoutLog: updatedLog,
-    } : null);
-  }, [activeSession]);
+    await apply(async () => {
+      const updated = { ...activeSession, workoutLog: updatedLog, lastActivity: DateUtils.getCurrentDateTime() };
+      await WorkoutService.updateActiveSession(updated);
+      return updated;
+    }, "Failed to add exercise");
+  }, [activeSession, apply]);
 
   const completeExercise = useCallback(async (exerciseIndex: number) => {
     if (!activeSession) return;
@@ -208,15 +181,23 @@ export const useWorkoutSession = () => {
     const nextIndex = exerciseIndex + 1;
     const totalExercises = activeSession.workoutLog.entries.length;
 
-    setActiveSession(prev => prev ? {
-      ...prev,
-      currentExerciseIndex: nextIndex < totalExercises ? nextIndex : exerciseIndex,
-      lastActivity: DateUtils.getCurrentDateTime(),
-    } : null);
+    await apply(async () => {
+      const updated = {
+        ...activeSession,
+        currentExerciseIndex: nextIndex < totalExercises ? nextIndex : exerciseIndex,
+        lastActivity: DateUtils.getCurrentDateTime(),
+      };
+      await WorkoutService.updateActiveSession(updated);
+      return updated;
+    }, "Failed to move to the next exercise");
+  }, [activeSession, apply]);
 
-    await saveSession();
-  }, [activeSession, saveSession]);
+  const goToExercise = useCallback(async (exerciseIndex: number) => {
+    if (!activeSession) return;
+    await apply(() => WorkoutService.moveToExercise(activeSession.id, exerciseIndex), "Failed to move to the next exercise");
+  }, [activeSession, apply]);
 
+  // The finished workout goes to the workout history and the session is removed, in one commit
   const completeSession = useCallback(async (sessionNotes?: string, overallRating?: 1 | 2 | 3 | 4 | 5) => {
     if (!activeSession) return;
 
@@ -224,22 +205,14 @@ export const useWorkoutSession = () => {
     setError(null);
 
     try {
-      const now = DateUtils.getCurrentDateTime();
-      const updatedLog = { ...activeSession.workoutLog };
-      
-      updatedLog.date_time_end = now;
-      updatedLog.session_notes = sessionNotes;
-      updatedLog.overall_rating = overallRating;
-      updatedLog.updated_at = now;
-      updatedLog.version += 1;
-
-      await workoutRepository.save(updatedLog);
+      const completed = await WorkoutService.completeSession(activeSession.id, sessionNotes, overallRating);
 
       setActiveSession(prev => prev ? {
         ...prev,
-        workoutLog: updatedLog,
+        workoutLog: completed,
         sessionStatus: 'completed',
-        lastActivity: now,
+        isResting: false,
+        lastActivity: completed.updated_at,
       } : null);
 
     } catch (err) {
@@ -250,35 +223,27 @@ export const useWorkoutSession = () => {
     }
   }, [activeSession]);
 
-  const pauseSession = useCallback(() => {
+  const pauseSession = useCallback(async () => {
     if (!activeSession || activeSession.sessionStatus !== 'active') return;
+    await apply(() => WorkoutService.pauseSession(activeSession.id), "Failed to pause session");
+  }, [activeSession, apply]);
 
-    const now = DateUtils.getCurrentDateTime();
-    setActiveSession(prev => prev ? {
-      ...prev,
-      sessionStatus: 'paused',
-      pauseTime: now,
-      lastActivity: now,
-    } : null);
-  }, [activeSession]);
-
-  const resumeSession = useCallback(() => {
+  const resumeSession = useCallback(async () => {
     if (!activeSession || activeSession.sessionStatus !== 'paused') return;
+    await apply(() => WorkoutService.resumeSession(activeSession.id), "Failed to resume session");
+  }, [activeSession, apply]);
 
-    const now = DateUtils.getCurrentDateTime();
-    const pauseDuration = activeSession.pauseTime 
-      ? (new Date(now).getTime() - new Date(activeSession.pauseTime).getTime()) / 1000
-      : 0;
+  const startRest = useCallback(async (seconds: number) => {
+    if (!activeSession) return;
+    await apply(() => WorkoutService.startRest(activeSession.id, seconds), "Failed to start rest");
+  }, [activeSession, apply]);
 
-    setActiveSession(prev => prev ? {
-      ...prev,
-      sessionStatus: 'active',
-      pauseTime: undefined,
-      pauseDuration: prev.pauseDuration + pauseDuration,
-      lastActivity: now,
-    } : null);
-  }, [activeSession]);
+  const endRest = useCallback(async () => {
+    if (!activeSession) return;
+    await apply(() => WorkoutService.endRest(activeSession.id), "Failed to end rest");
+  }, [activeSession, apply]);
 
+  // Abandoned sessions stay out of the workout history
   const abandonSession = useCallback(async () => {
     if (!activeSession) return;
 
@@ -286,21 +251,13 @@ export const useWorkoutSession = () => {
     setError(null);
 
     try {
-      const now = DateUtils.getCurrentDateTime();
-      const updatedLog = { ...activeSession.workoutLog };
-      
-      updatedLog.date_time_end = now;
-      updatedLog.session_notes = (updatedLog.session_notes || "") + " [Session abandoned]";
-      updatedLog.updated_at = now;
-      updatedLog.version += 1;
-
-      await workoutRepository.save(updatedLog);
+      await WorkoutService.abandonSession(activeSession.id);
 
       setActiveSession(prev => prev ? {
         ...prev,
-        workoutLog: updatedLog,
         sessionStatus: 'abandoned',
-        lastActivity: now,
+        isResting: false,
+        lastActivity: DateUtils.getCurrentDateTime(),
       } : null);
 
     } catch (err) {
@@ -339,9 +296,7 @@ export const useWorkoutSession = () => {
       }
     });
 
-    const startTime = new Date(activeSession.startTime).getTime();
-    const currentTime = new Date().getTime();
-    const elapsedTime = Math.floor((currentTime - startTime) / 1000) - activeSession.pauseDuration;
+    const elapsedTime = WorkoutService.getElapsedSeconds(activeSession);
     
     // Estimate remaining time (rough calculation)
     const estimatedTimePerExercise = 300; // 5 minutes per exercise
@@ -379,10 +334,10 @@ export const useWorkoutSession = () => {
     entries.forEach(entry => {
       if (entry.type === 'strength') {
         const strengthEntry = entry as StrengthEntry;
-        strengthEntry.performed_sets.forEach(set => {
+        WorkoutAnalysis.workingSets(strengthEntry.performed_sets).forEach(set => {
           const weight = set.weight_value || 0;
-          totalVolume += weight * set.repetitions_done;
-          totalReps += set.repetitions_done;
+          totalVolume += weight * WorkoutAnalysis.totalRepetitions(set);
+          totalReps += WorkoutAnalysis.totalRepetitions(set);
           maxWeight = Math.max(maxWeight, weight);
           
           if (set.rpe_score) {
@@ -396,9 +351,7 @@ export const useWorkoutSession = () => {
       ? rpeValues.reduce((sum, rpe) => sum + rpe, 0) / rpeValues.length 
       : 0;
 
-    const startTime = new Date(activeSession.startTime).getTime();
-    const currentTime = new Date().getTime();
-    const duration = Math.floor((currentTime - startTime) / 1000) - activeSession.pauseDuration;
+    const duration = WorkoutService.getElapsedSeconds(activeSession);
 
     return {
       totalVolume,
@@ -426,6 +379,7 @@ export const useWorkoutSession = () => {
     
     // Session management
     startSession,
+    restoreSession,
     completeSession,
     pauseSession,
     resumeSession,
@@ -433,10 +387,15 @@ export const useWorkoutSession = () => {
     clearSession,
     saveSession,
     
+    // Rest between sets
+    startRest,
+    endRest,
+
     // Exercise management
     addExerciseEntry,
     completeSet,
     completeExercise,
+    goToExercise,
     
     // Progress tracking
     getSessionProgress,
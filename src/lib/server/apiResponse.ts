@@ -0,0 +1,27 @@
+/**
+ * ApiResponse envelope helpers for route handlers
+ */
+
+import { NextResponse } from "next/server";
+import type { ApiResponse, AppError } from "@/types";
+
+export function apiSuccess<T>(data: T, status: number = 200): NextResponse<ApiResponse<T>> {
+  return NextResponse.json(
+    { success: true, data, timestamp: new Date().toISOString() },
+    { status }
+  );
+}
+
+export function apiError(
+  code: string,
+  message: string,
+  status: number,
+  details?: AppError["details"]
+): NextResponse<ApiResponse<never>> {
+  const timestamp = new Date().toISOString();
+  const severity: AppError["severity"] = status >= 500 ? "high" : "low";
+  return NextResponse.json(
+    { success: false, error: { code, message, details, severity, timestamp }, timestamp },
+    { status }
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Shared plumbing for the /api/data route handlers
+ */
+
+import type { NextResponse } from "next/server";
+import { apiError } from "./apiResponse";
+import { dataStore, isDataApiEnabled } from "./dataStore";
+import { UnknownStoreError } from "@/services/memoryStorageAdapter";
+import { VersionConflictError } from "@/services/storageAdapter";
+import type { ApiResponse, DataVersionConflictDetails } from "@/types";
+
+/**
+ * Run a data API handler, mapping store errors onto HTTP statuses
+ */
+export async function handleDataRequest<T>(
+  storeName: string | null,
+  handler: () => Promise<NextResponse<ApiResponse<T>>>
+): Promise<NextResponse<ApiResponse<T>>> {
+  if (!isDataApiEnabled()) {
+    return apiError("DATA_API_DISABLED", "Server storage is not enabled", 404);
+  }
+  if (storeName !== null && !dataStore.hasStore(storeName)) {
+    return apiError("UNKNOWN_STORE", `Unknown store: ${storeName}`, 404);
+  }
+
+  try {
+    return await handler();
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      const details: DataVersionConflictDetails = {
+        store: error.storeName,
+        id: error.id,
+        expected_version: error.expectedVersion,
+        current: error.current,
+      };
+      return apiError("VERSION_CONFLICT", error.message, 409, { ...details });
+    }
+    if (error instanceof UnknownStoreError) {
+      return apiError("UNKNOWN_STORE", error.message, 404);
+    }
+    if (error instanceof SyntaxError) {
+      return apiError("INVALID_REQUEST", "Request body is not valid JSON", 400);
+    }
+
+    console.error("Data API request failed:", error);
+    return apiError("STORAGE_FAILED", "Failed to access server storage", 500);
+  }
+}
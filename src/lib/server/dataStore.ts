@@ -0,0 +1,85 @@
+/**
+ * File-backed record store for the server storage backend
+ * The in-memory adapter mirrors the IndexedDB schema, key ordering and version
+ * checks, so repositories behave the same against either backend.
+ * Server-only: imported by the /api/data route handlers.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  MemoryStorageAdapter,
+  type SnapshotPersistence,
+  type StoreSnapshot,
+} from "@/services/memoryStorageAdapter";
+import type { DataScanRequest, DataScanResponse } from "@/types";
+
+interface DataFile {
+  stores: StoreSnapshot;
+}
+
+// This process is the only writer, so the file is only read on first use
+class JsonFileSnapshot implements SnapshotPersistence {
+  constructor(private readonly filePath: string) {}
+
+  async read(): Promise<StoreSnapshot | null> {
+    try {
+      return (JSON.parse(await fs.readFile(this.filePath, "utf8")) as DataFile).stores;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  // Write to a temporary file and rename so a crash never leaves a torn file
+  async write(stores: StoreSnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    const data: DataFile = { stores };
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+export class FileDataStore extends MemoryStorageAdapter {
+  // Blobs cannot travel as JSON, so media stays in each browser's IndexedDB
+  static readonly DEVICE_LOCAL_STORES = ["media"];
+
+  constructor(filePath: string) {
+    super({
+      persistence: new JsonFileSnapshot(filePath),
+      excludeStores: FileDataStore.DEVICE_LOCAL_STORES,
+    });
+  }
+
+  /**
+   * One page of a scan, with each item's cursor position so clients can
+   * resume after any item they keep
+   */
+  async scanPage<T>(storeName: string, request: DataScanRequest): Promise<DataScanResponse<T>> {
+    const entries = await this.walk<T>(storeName, request);
+    const taken = request.limit !== undefined ? entries.slice(0, request.limit) : entries;
+    const positions = taken.map((entry) => entry.position);
+
+    return {
+      items: taken.map((entry) => entry.record),
+      positions,
+      last: positions[positions.length - 1] ?? null,
+      hasMore: taken.length < entries.length,
+    };
+  }
+}
+
+/**
+ * The data API only answers when the app is configured for the server backend,
+ * so a default deployment does not expose a writable endpoint.
+ */
+export function isDataApiEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_STORAGE_BACKEND === "server";
+}
+
+export const dataStore = new FileDataStore(
+  process.env.DATA_FILE ?? path.join(process.cwd(), ".server-data", "data.json")
+);
@@ -0,0 +1,130 @@
+/**
+ * File-backed store for the reference sync server
+ * Holds the merged state of every record and a server sequence number;
+ * each merge that changes a record stamps it with the next sequence.
+ * Server-only: imported by the /api/sync route handlers.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { SyncMerge } from "@/utils/syncMerge";
+import type {
+  SyncChange,
+  SyncPullResult,
+  SyncPushRequest,
+  SyncPushResult,
+  SyncServerRecord,
+} from "@/types";
+
+interface SyncStoreFile {
+  cursor: number;
+  records: Record<string, SyncServerRecord>;
+}
+
+export class FileSyncStore {
+  static readonly DEFAULT_PULL_LIMIT = 500;
+
+  // Requests are handled one at a time so read-merge-write never interleaves
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Merge pushed changes field by field. Re-pushing the same changes is a no-op.
+   */
+  async push(request: SyncPushRequest): Promise<SyncPushResult> {
+    return this.exclusive(async () => {
+      const data = await this.read();
+      let accepted = 0;
+
+      for (const change of request.changes) {
+        const key = `${change.store}/${change.record_id}`;
+        const existing = data.records[key] ?? null;
+        const merged = SyncMerge.mergeChanges(existing && this.stripSeq(existing), change);
+
+        if (!existing || JSON.stringify(merged) !== JSON.stringify(this.stripSeq(existing))) {
+          data.cursor++;
+          data.records[key] = { ...merged, seq: data.cursor };
+          accepted++;
+        }
+      }
+
+      if (accepted > 0) {
+        await this.write(data);
+      }
+      return { accepted, cursor: data.cursor };
+    });
+  }
+
+  /**
+   * Records merged after `since`, oldest first
+   */
+  async pull(since: number, limit: number = FileSyncStore.DEFAULT_PULL_LIMIT): Promise<SyncPullResult> {
+    return this.exclusive(async () => {
+      const data = await this.read();
+      const pending = Object.values(data.records)
+        .filter((record) => record.seq > since)
+        .sort((a, b) => a.seq - b.seq);
+      const changes = pending.slice(0, limit);
+
+      return {
+        changes,
+        cursor: changes.length > 0 ? changes[changes.length - 1].seq : Math.max(since, 0),
+        has_more: pending.length > limit,
+      };
+    });
+  }
+
+  async getStatus(): Promise<{ cursor: number; records: number }> {
+    return this.exclusive(async () => {
+      const data = await this.read();
+      return { cursor: data.cursor, records: Object.keys(data.records).length };
+    });
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private stripSeq(record: SyncServerRecord): SyncChange {
+    return {
+      store: record.store,
+      record_id: record.record_id,
+      fields: record.fields,
+      deleted: record.deleted,
+    };
+  }
+
+  private async read(): Promise<SyncStoreFile> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8")) as SyncStoreFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { cursor: 0, records: {} };
+      }
+      throw error;
+    }
+  }
+
+  // Write to a temporary file and rename so a crash never leaves a torn file
+  private async write(data: SyncStoreFile): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * The sync routes only answer when the deployment opts in with
+ * SYNC_SERVER_ENABLED, so a default deployment does not accept pushed records.
+ */
+export function isSyncServerEnabled(): boolean {
+  return process.env.SYNC_SERVER_ENABLED === "true";
+}
+
+export const syncStore = new FileSyncStore(
+  process.env.SYNC_DATA_FILE ?? path.join(process.cwd(), ".sync-data", "sync-store.json")
+);
@@ -14,8 +14,9 @@ export {
   validateGlossaryItem,
 } from "@/validators";
 
-import type { AppSettings } from "@/types";
+import type { AppSettings, UserPreferences } from "@/types";
 import { DateUtils } from "@/utils/dateUtils";
+import { LATEST_SCHEMA_VERSION } from "@/services/schemaMigrations";
 
 // Default values
 export const defaultAppSettings: AppSettings = {
@@ -24,12 +25,21 @@ export const defaultAppSettings: AppSettings = {
   theme: "system",
   language: "en",
   privacy_acknowledged: false,
-  data_version: 1,
+  data_version: LATEST_SCHEMA_VERSION,
   created_at: DateUtils.getCurrentDateTime(),
   updated_at: DateUtils.getCurrentDateTime(),
   version: 1,
 };
 
+export const defaultUserPreferences: UserPreferences = {
+  show_beginner_tips: true,
+  default_rest_time_seconds: 90,
+  auto_save_workouts: true,
+  exercise_order_preference: "recent",
+  weight_increment_lb: 5,
+  weight_increment_kg: 2.5,
+};
+
 /**
  * Validates and sanitizes app settings
  */
@@ -60,4 +70,28 @@ export function sanitizeAppSettings(data: unknown): AppSettings {
   
   console.warn("Invalid app settings, using defaults");
   return { ...defaultAppSettings };
-}
\ No newline at end of file
+}
+
+/**
+ * Validates and sanitizes user preferences
+ */
+export function sanitizeUserPreferences(data: unknown): UserPreferences {
+  if (typeof data !== "object" || data === null) {
+    return { ...defaultUserPreferences };
+  }
+
+  const preferences = data as Partial<UserPreferences>;
+  const positive = (value: unknown, fallback: number) =>
+    typeof value === "number" && value > 0 ? value : fallback;
+
+  return {
+    ...defaultUserPreferences,
+    ...preferences,
+    default_rest_time_seconds: positive(
+      preferences.default_rest_time_seconds,
+      defaultUserPreferences.default_rest_time_seconds
+    ),
+    weight_increment_lb: positive(preferences.weight_increment_lb, defaultUserPreferences.weight_increment_lb),
+    weight_increment_kg: positive(preferences.weight_increment_kg, defaultUserPreferences.weight_increment_kg),
+  };
+}
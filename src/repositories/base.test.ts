@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { StorageService } from "@/services/storage";
+import { installIndexedDbStorage, removeIndexedDbStorage } from "@/test/indexedDbStorage";
+import { VersionConflictError } from "@/services/storageAdapter";
+import { GoalsRepository } from "./goalsRepository";
+import { WorkoutRepository } from "./workoutRepository";
+import type { FitnessGoal, WorkoutLogEntry } from "@/types";
+
+function workout(): WorkoutLogEntry {
+  return {
+    id: "workout-1",
+    date_time_start: "2026-03-02T18:00:00.000Z",
+    session_title: "Push day",
+    entries: [
+      {
+        type: "strength",
+        exercise_id: "bench-press",
+        exercise_name: "Bench Press",
+        order_index: 0,
+        performed_sets: [
+          {
+            set_number: 1,
+            repetitions_done: 8,
+            weight_value: 60,
+            weight_unit: "kg",
+            perceived_effort_text: "moderately hard",
+          },
+        ],
+      },
+    ],
+    created_at: "2026-03-02T18:00:00.000Z",
+    updated_at: "2026-03-02T18:00:00.000Z",
+    version: 1,
+  };
+}
+
+function goal(): FitnessGoal {
+  return {
+    id: "goal-1",
+    title: "Bench 100 kg",
+    category: "strength",
+    goal_type: "target_value",
+    target_value: 100,
+    target_unit: "kg",
+    start_date: "2026-01-01",
+    target_date: "2026-06-30",
+    metric_to_track: "bench_press_1rm_kg",
+    measurement_frequency: "weekly",
+    status: "active",
+    completion_percentage: 40,
+    created_at: "2026-01-01T08:00:00.000Z",
+    updated_at: "2026-01-01T08:00:00.000Z",
+    version: 1,
+  };
+}
+
+describe("BaseRepository update", () => {
+  let storage: StorageService;
+  let repository: GoalsRepository;
+
+  beforeEach(async () => {
+    storage = installIndexedDbStorage();
+    repository = new GoalsRepository();
+    await repository.save(goal());
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("updates a record read back from IndexedDB", async () => {
+    const updated = await repository.update("goal-1", { completion_percentage: 55 });
+
+    expect(updated.version).toBe(2);
+    expect(await repository.getById("goal-1")).toMatchObject({
+      completion_percentage: 55,
+      version: 2,
+      timestamp: expect.any(Number),
+    });
+  });
+
+  it("completes a goal from its progress, as a finished session does", async () => {
+    await repository.updateGoalProgress("goal-1", 100);
+    expect(await repository.getById("goal-1")).toMatchObject({ status: "completed", completion_percentage: 100 });
+  });
+
+  it("rejects an update based on a stale copy", async () => {
+    await repository.update("goal-1", { completion_percentage: 50 });
+
+    const conflict = repository.update("goal-1", { completion_percentage: 60 }, undefined, { expectedVersion: 1 });
+    await expect(conflict).rejects.toBeInstanceOf(VersionConflictError);
+    expect(await repository.getById("goal-1")).toMatchObject({ completion_percentage: 50, version: 2 });
+  });
+
+  it("keeps the local edit once it is rebased onto the stored version", async () => {
+    const stale = (await repository.getById("goal-1"))!;
+    await repository.update("goal-1", { title: "Bench 100 kg by summer" });
+
+    const error = await repository
+      .save({ ...stale, completion_percentage: 70, version: stale.version + 1 }, undefined, {
+        expectedVersion: stale.version,
+      })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(VersionConflictError);
+
+    const remote = (error as VersionConflictError<FitnessGoal>).current!;
+    await repository.save({ ...stale, completion_percentage: 70, version: remote.version + 1 }, undefined, {
+      expectedVersion: remote.version,
+    });
+    expect(await repository.getById("goal-1")).toMatchObject({ completion_percentage: 70, version: 3 });
+  });
+});
+
+describe("BaseRepository soft delete", () => {
+  let storage: StorageService;
+  let repository: WorkoutRepository;
+
+  beforeEach(async () => {
+    storage = installIndexedDbStorage();
+    repository = new WorkoutRepository();
+    await repository.save(workout());
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("moves a stored record to the trash and back", async () => {
+    const stored = await repository.getById("workout-1");
+    expect(stored).toMatchObject({ version: 1, timestamp: expect.any(Number) });
+
+    await repository.delete("workout-1");
+    expect(await repository.getById("workout-1")).toBeNull();
+    expect(await repository.getAll()).toEqual([]);
+
+    const [trashed] = await repository.getDeleted();
+    expect(trashed).toMatchObject({ id: "workout-1", version: 2, deleted_at: expect.any(String) });
+
+    const restored = await repository.restore("workout-1");
+    expect(restored.deleted_at).toBeUndefined();
+    expect(await repository.getById("workout-1")).toMatchObject({ session_title: "Push day", version: 3 });
+    expect(await repository.getDeleted()).toEqual([]);
+  });
+
+  it("rejects restoring a record that is not in the trash", async () => {
+    await expect(repository.restore("workout-1")).rejects.toThrow("is not in the trash");
+  });
+
+  it("purges a trashed record for good", async () => {
+    await repository.delete("workout-1");
+    await repository.purge("workout-1");
+
+    expect(await repository.getDeleted()).toEqual([]);
+    expect(await storage.get("workouts", "workout-1")).toBeNull();
+  });
+});
@@ -3,18 +3,69 @@
  * Following cursor rules for repository pattern and error handling
  */
 
-import { storageService } from "@/services/storage";
+import {
+  VersionConflictError,
+  type StorageAdapter,
+  type UnitOfWork,
+  type WriteOptions,
+} from "@/services/storageAdapter";
+import { getStorageAdapter, getTrashStorageAdapter } from "@/services/storageBackend";
+import { stageRevision } from "@/services/revisionLog";
 // ValidationService imported in derived classes
 import { DateUtils } from "@/utils/dateUtils";
-import type { StorageData, QueryFilter, SortOptions, PaginationOptions } from "@/types";
+import { KeyRanges } from "@/utils/keyRanges";
+import type {
+  StorageData,
+  CursorPosition,
+  KeyRange,
+  QueryFilter,
+  SortOptions,
+  PaginationOptions,
+  CursorPaginationOptions,
+  CursorPage,
+  RevisionStore,
+} from "@/types";
+
+/**
+ * How a filter will be executed: an optional index range plus
+ * an in-memory predicate for the fields the index can't cover
+ */
+interface QueryPlan<T> {
+  index?: string;
+  range?: KeyRange;
+  predicate?: (item: T) => boolean;
+  sortedByIndex: boolean;
+}
+
+type PageToken = CursorPosition | { offset: number };
 
 export abstract class BaseRepository<T extends StorageData> {
   protected storeName: string;
   protected validator?: (data: unknown) => T;
+  // Deleted entities go to the trash until restored or purged; false deletes them outright
+  protected readonly softDeletes: boolean = true;
+  // Set to keep a revision snapshot of every save in the revisions store
+  protected readonly revisionStore: RevisionStore | null = null;
+  private readonly injectedStorage?: StorageAdapter;
 
-  constructor(storeName: string, validator?: (data: unknown) => T) {
+  /**
+   * @param storage Adapter to read and write through; defaults to the app-wide one
+   */
+  constructor(storeName: string, validator?: (data: unknown) => T, storage?: StorageAdapter) {
     this.storeName = storeName;
     this.validator = validator;
+    this.injectedStorage = storage;
+  }
+
+  protected get storage(): StorageAdapter {
+    return this.injectedStorage ?? getStorageAdapter();
+  }
+
+  /**
+   * Adapter that also returns entities in the trash
+   */
+  protected get trash(): StorageAdapter {
+    return this.injectedStorage ?? getTrashStorageAdapter();
   }
 
   /**
@@ -44,15 +95,32 @@ export abstract class BaseRepository<T extends StorageData> {
   }
 
   /**
-   * Save an entity (create or update)
+   * Save an entity (create or update).
+   * With a unit of work the write is staged until it commits.
+   * Pass options.expectedVersion to reject the write if the stored copy has moved on.
    */
-  async save(entity: T): Promise<void> {
+  async save(entity: T, unitOfWork?: UnitOfWork, options: WriteOptions = {}): Promise<void> {
     // Validate if validator is provided
     if (this.validator) {
       entity = this.validator(entity);
     }
 
-    await storageService.save(this.storeName, entity);
+    if (this.revisionStore) {
+      const work = unitOfWork ?? this.storage.beginUnitOfWork();
+      work.put(this.storeName, entity, options);
+      stageRevision(work, this.revisionStore, entity);
+      if (!unitOfWork) {
+        await work.commit();
+      }
+      return;
+    }
+
+    if (unitOfWork) {
+      unitOfWork.put(this.storeName, entity, options);
+      return;
+    }
+
+    await this.storage.save(this.storeName, entity, options);
   }
 
   /**
@@ -65,16 +133,27 @@ export abstract class BaseRepository<T extends StorageData> {
   }
 
   /**
-   * Update an existing entity
+   * Update an existing entity. The write only lands if the record is still at
+   * the version read here, so concurrent updates can't silently overwrite each other.
+   * Pass options.expectedVersion to also reject updates based on a stale copy.
    */
-  async update(id: string, updates: Partial<T>): Promise<T> {
+  async update(
+    id: string,
+    updates: Partial<T>,
+    unitOfWork?: UnitOfWork,
+    options: WriteOptions = {}
+  ): Promise<T> {
     const existing = await this.getById(id);
     if (!existing) {
       throw new Error(`Entity with id ${id} not found`);
     }
 
+    if (options.expectedVersion !== undefined && options.expectedVersion !== existing.version) {
+      throw new VersionConflictError(this.storeName, id, options.expectedVersion, existing);
+    }
+
     const updated = this.updateEntity(existing, updates);
-    await this.save(updated);
+    await this.save(updated, unitOfWork, { expectedVersion: existing.version });
     return updated;
   }
 
@@ -82,40 +161,84 @@ export abstract class BaseRepository<T extends StorageData> {
    * Get entity by ID
    */
   async getById(id: string): Promise<T | null> {
-    return storageService.get<T>(this.storeName, id);
+    return this.storage.get<T>(this.storeName, id);
   }
 
   /**
    * Get all entities
    */
   async getAll(): Promise<T[]> {
-    return storageService.getAll<T>(this.storeName);
+    return this.storage.getAll<T>(this.storeName);
   }
 
   /**
-   * Delete entity by ID
+   * Delete entity by ID. It moves to the trash unless this repository
+   * deletes outright; purge() removes it for good.
    */
-  async delete(id: string): Promise<void> {
+  async delete(id: string, unitOfWork?: UnitOfWork): Promise<void> {
     const existing = await this.getById(id);
     if (!existing) {
       throw new Error(`Entity with id ${id} not found`);
     }
 
-    await storageService.delete(this.storeName, id);
+    if (this.softDeletes) {
+      const trashed = this.updateEntity(existing, { deleted_at: DateUtils.getCurrentDateTime() } as Partial<T>);
+      await this.save(trashed, unitOfWork, { expectedVersion: existing.version });
+      return;
+    }
+
+    await this.purge(id, unitOfWork);
+  }
+
+  /**
+   * Entities in the trash, most recently deleted first
+   */
+  async getDeleted(): Promise<T[]> {
+    const records = await this.trash.getAll<T>(this.storeName);
+    return records
+      .filter((record) => record.deleted_at)
+      .sort((a, b) => (b.deleted_at ?? "").localeCompare(a.deleted_at ?? ""));
+  }
+
+  /**
+   * Take an entity back out of the trash
+   */
+  async restore(id: string, unitOfWork?: UnitOfWork): Promise<T> {
+    const existing = await this.trash.get<T>(this.storeName, id);
+    if (!existing?.deleted_at) {
+      throw new Error(`Entity with id ${id} is not in the trash`);
+    }
+
+    const restored = this.updateEntity(existing, {});
+    delete restored.deleted_at;
+    await this.save(restored, unitOfWork, { expectedVersion: existing.version });
+    return restored;
+  }
+
+  /**
+   * Permanently delete an entity, in the trash or not
+   */
+  async purge(id: string, unitOfWork?: UnitOfWork): Promise<void> {
+    if (unitOfWork) {
+      unitOfWork.delete(this.storeName, id);
+      return;
+    }
+
+    await this.storage.delete(this.storeName, id);
   }
 
   /**
    * Get multiple entities by IDs
    */
   async getMultiple(ids: string[]): Promise<T[]> {
-    return storageService.getMultiple<T>(this.storeName, ids);
+    return this.storage.getMultiple<T>(this.storeName, ids);
   }
 
   /**
    * Count total entities
    */
   async count(): Promise<number> {
-    return storageService.count(this.storeName);
+    return this.storage.count(this.storeName);
   }
 
   /**
@@ -127,50 +250,187 @@ export abstract class BaseRepository<T extends StorageData> {
       entities = entities.map(this.validator);
     }
 
-    await storageService.saveBatch(this.storeName, entities);
+    await this.storage.saveBatch(this.storeName, entities);
   }
 
   /**
    * Clear all entities (use with caution)
    */
   async clear(): Promise<void> {
-    await storageService.clear(this.storeName);
+    await this.storage.clear(this.storeName);
   }
 
   /**
-   * Query entities with filtering
-   * Note: This is a simplified implementation - for complex queries,
-   * consider implementing specific methods in derived classes
+   * Query entities with filtering.
+   * Uses the index matching a filtered field when one exists and
+   * falls back to a full scan otherwise.
    */
   async query(filter?: QueryFilter<T>): Promise<T[]> {
-    const allItems = await this.getAll();
-    
     if (!filter) {
-      return allItems;
-    }
-
-    return allItems.filter((item) => {
-      return Object.entries(filter).every(([key, value]) => {
-        const itemValue = (item as Record<string, unknown>)[key];
-        
-        if (Array.isArray(value)) {
-          // Match any of the values
-          return value.includes(itemValue);
-        } else if (typeof value === "object" && value !== null && "min" in value) {
-          // Range query
-          const range = value as { min?: unknown; max?: unknown };
-          const compareValue = itemValue as string | number | Date;
-          if (range.min !== undefined && compareValue < (range.min as string | number | Date)) return false;
-          if (range.max !== undefined && compareValue > (range.max as string | number | Date)) return false;
-          return true;
-        } else {
-          // Exact match
-          return itemValue === value;
-        }
+      return this.getAll();
+    }
+
+    const plan = await this.planQuery(filter);
+    const result = await this.storage.scan<T>(this.storeName, plan);
+    return result.items;
+  }
+
+  /**
+   * Get one page of entities using an opaque cursor.
+   * Pass the returned nextCursor back in to fetch the following page.
+   */
+  async findPage(
+    filter?: QueryFilter<T>,
+    sort?: SortOptions<T>,
+    pagination: CursorPaginationOptions = { limit: 20 }
+  ): Promise<CursorPage<T>> {
+    const plan = await this.planQuery(filter, sort);
+    const token = this.decodeCursor(pagination.cursor);
+
+    // Sort field is indexed: stream the page straight from the cursor
+    if (!sort || plan.sortedByIndex) {
+      const result = await this.storage.scan<T>(this.storeName, {
+        ...plan,
+        direction: sort?.direction === "desc" ? "prev" : "next",
+        limit: pagination.limit,
+        after: token && "key" in token ? token : undefined,
       });
+
+      return {
+        items: result.items,
+        nextCursor: result.hasMore && result.last ? this.encodeCursor(result.last) : null,
+      };
+    }
+
+    // No index for the sort field: sort in memory and page by offset
+    const { items: matches } = await this.storage.scan<T>(this.storeName, plan);
+    const sorted = this.sortEntities(matches, sort);
+    const offset = token && "offset" in token ? token.offset : 0;
+    const end = offset + pagination.limit;
+
+    return {
+      items: sorted.slice(offset, end),
+      nextCursor: end < sorted.length ? this.encodeCursor({ offset: end }) : null,
+    };
+  }
+
+  /**
+   * Decide which index (if any) serves a filter and sort.
+   * An indexed sort field wins so pages can stream in order; records
+   * missing that field are not part of the index and are skipped.
+   */
+  protected async planQuery(
+    filter?: QueryFilter<T>,
+    sort?: SortOptions<T>
+  ): Promise<QueryPlan<T>> {
+    const conditions = filter
+      ? Object.entries(filter).filter(([, value]) => value !== undefined)
+      : [];
+
+    let index: string | undefined;
+    let range: KeyRange | undefined;
+    let sortedByIndex = false;
+
+    if (sort && (await this.storage.hasIndex(this.storeName, String(sort.field)))) {
+      index = String(sort.field);
+      sortedByIndex = true;
+      const condition = conditions.find(([field]) => field === index);
+      range = condition ? this.toKeyRange(condition[1]) ?? undefined : undefined;
+    } else {
+      for (const [field, value] of conditions) {
+        const candidate = this.toKeyRange(value);
+        if (candidate && (await this.storage.hasIndex(this.storeName, field))) {
+          index = field;
+          range = candidate;
+          break;
+        }
+      }
+    }
+
+    // Whatever the index range doesn't cover is checked per record
+    const residual = conditions.filter(([field]) => !(field === index && range));
+
+    return {
+      index,
+      range,
+      sortedByIndex,
+      predicate: residual.length > 0
+        ? (item: T) => this.matchesConditions(item, residual)
+        : undefined,
+    };
+  }
+
+  /**
+   * Convert a filter value into a key range, or null when it can't be one
+   */
+  private toKeyRange(value: unknown): KeyRange | null {
+    if (Array.isArray(value)) {
+      return null;
+    }
+
+    if (this.isRangeValue(value)) {
+      const { min, max } = value;
+      const hasMin = min !== undefined && KeyRanges.isValidKey(min);
+      const hasMax = max !== undefined && KeyRanges.isValidKey(max);
+
+      if ((min !== undefined && !hasMin) || (max !== undefined && !hasMax)) return null;
+      if (hasMin && hasMax) return KeyRanges.bound(min, max);
+      if (hasMin) return KeyRanges.lowerBound(min);
+      if (hasMax) return KeyRanges.upperBound(max);
+      return null;
+    }
+
+    return KeyRanges.isValidKey(value) ? KeyRanges.only(value) : null;
+  }
+
+  private isRangeValue(value: unknown): value is { min?: unknown; max?: unknown } {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      !(value instanceof Date) &&
+      ("min" in value || "max" in value)
+    );
+  }
+
+  /**
+   * In-memory filter for conditions that weren't served by an index
+   */
+  private matchesConditions(item: T, conditions: Array<[string, unknown]>): boolean {
+    return conditions.every(([key, value]) => {
+      const itemValue = (item as Record<string, unknown>)[key];
+
+      if (Array.isArray(value)) {
+        // Match any of the values
+        return value.includes(itemValue);
+      } else if (this.isRangeValue(value)) {
+        // Range query
+        const compareValue = itemValue as string | number | Date;
+        if (value.min !== undefined && compareValue < (value.min as string | number | Date)) return false;
+        if (value.max !== undefined && compareValue > (value.max as string | number | Date)) return false;
+        return true;
+      } else {
+        // Exact match
+        return itemValue === value;
+      }
     });
   }
 
+  private encodeCursor(token: PageToken): string {
+    return JSON.stringify(token);
+  }
+
+  private decodeCursor(cursor?: string | null): PageToken | null {
+    if (!cursor) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(cursor) as PageToken;
+    } catch {
+      throw new Error("Invalid page cursor");
+    }
+  }
+
   /**
    * Sort entities
    */
@@ -213,12 +473,34 @@ export abstract class BaseRepository<T extends StorageData> {
     sort?: SortOptions<T>,
     pagination?: PaginationOptions
   ): Promise<{ items: T[]; total: number }> {
-    let items = await this.query(filter);
-    const total = items.length;
-    
-    items = this.sortEntities(items, sort);
-    items = this.paginateEntities(items, pagination);
-    
+    const plan = await this.planQuery(filter, sort);
+
+    if (sort && !plan.sortedByIndex) {
+      let { items } = await this.storage.scan<T>(this.storeName, plan);
+      const total = items.length;
+
+      items = this.sortEntities(items, sort);
+      items = this.paginateEntities(items, pagination);
+
+      return { items, total };
+    }
+
+    // Index order already matches the sort, so only read up to the requested page
+    const [result, total] = await Promise.all([
+      this.storage.scan<T>(this.storeName, {
+        ...plan,
+        direction: sort?.direction === "desc" ? "prev" : "next",
+        limit: pagination ? pagination.page * pagination.limit : undefined,
+      }),
+      plan.predicate
+        ? this.storage.scan<T>(this.storeName, plan).then((all) => all.items.length)
+        : this.storage.count(this.storeName, plan.index, plan.range),
+    ]);
+
+    const items = pagination
+      ? result.items.slice((pagination.page - 1) * pagination.limit)
+      : result.items;
+
     return { items, total };
   }
 
@@ -234,22 +516,21 @@ export abstract class BaseRepository<T extends StorageData> {
    * Get entities created within date range
    */
   async getByDateRange(startDate: string, endDate: string): Promise<T[]> {
-    const allItems = await this.getAll();
-    
-    return allItems.filter((item) => {
-      const createdAt = item.created_at.split("T")[0]; // Get date part
-      return createdAt >= startDate && createdAt <= endDate;
-    });
+    // created_at is a full timestamp, so the upper bound covers the whole end day
+    return this.query({
+      created_at: { min: startDate, max: `${endDate}\uffff` },
+    } as QueryFilter<T>);
   }
 
   /**
    * Get recent entities
    */
   async getRecent(limit: number = 10): Promise<T[]> {
-    const allItems = await this.getAll();
-    
-    return allItems
-      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-      .slice(0, limit);
+    const page = await this.findPage(
+      undefined,
+      { field: "created_at", direction: "desc" },
+      { limit }
+    );
+    return page.items;
   }
 }
@@ -4,13 +4,14 @@
  */
 
 import { BaseRepository } from "./base";
+import type { StorageAdapter } from "@/services/storageAdapter";
 import { ValidationService } from "@/validators";
 import { DateUtils } from "@/utils/dateUtils";
 import type { BaselineTestEntry } from "@/types";
 
 export class BaselineRepository extends BaseRepository<BaselineTestEntry> {
-  constructor() {
-    super("baselines", ValidationService.validateBaselineTest);
+  constructor(storage?: StorageAdapter) {
+    super("baselines", ValidationService.validateBaselineTest, storage);
   }
 
   /**
@@ -4,13 +4,14 @@
  */
 
 import { BaseRepository } from "./base";
+import type { StorageAdapter } from "@/services/storageAdapter";
 import { ValidationService } from "@/validators";
 import { DateUtils } from "@/utils/dateUtils";
 import type { BodyMeasurement, ProgressPhoto } from "@/types";
 
 export class BodyMeasurementsRepository extends BaseRepository<BodyMeasurement> {
-  constructor() {
-    super("body-measurements", ValidationService.validateBodyMeasurement);
+  constructor(storage?: StorageAdapter) {
+    super("body-measurements", ValidationService.validateBodyMeasurement, storage);
   }
 
   /**
@@ -279,8 +280,8 @@ export class BodyMeasurementsRepository extends BaseRepository<BodyMeasurement>
  * Progress Photos Repository
  */
 export class ProgressPhotosRepository extends BaseRepository<ProgressPhoto> {
-  constructor() {
-    super("progress-photos", ValidationService.validateProgressPhoto);
+  constructor(storage?: StorageAdapter) {
+    super("progress-photos", ValidationService.validateProgressPhoto, storage);
   }
 
   /**
@@ -4,12 +4,13 @@
  */
 
 import { BaseRepository } from "./base";
+import type { StorageAdapter } from "@/services/storageAdapter";
 import { ValidationService } from "@/validators";
 import type { ExerciseCatalogItem } from "@/types";
 
 export class ExerciseRepository extends BaseRepository<ExerciseCatalogItem> {
-  constructor() {
-    super("exercises", ValidationService.validateExercise);
+  constructor(storage?: StorageAdapter) {
+    super("exercises", ValidationService.validateExercise, storage);
   }
 
   /**
@@ -3,7 +3,8 @@
  * Following cursor rules for type safety and error handling
  */
 
-import { storageService } from "@/services/storage";
+import type { StorageAdapter } from "@/services/storageAdapter";
+import { getStorageAdapter, getTrashStorageAdapter } from "@/services/storageBackend";
 import { ValidationService } from "@/validators";
 import { DateUtils } from "@/utils/dateUtils";
 import type { GlossaryItem, GlossarySearchFilters } from "@/types";
@@ -11,6 +12,20 @@ import type { GlossaryItem, GlossarySearchFilters } from "@/types";
 export class GlossaryRepository {
   private static readonly STORE_NAME = "glossary";
 
+  /**
+   * @param injectedStorage Adapter to read and write through; defaults to the app-wide one
+   */
+  constructor(private readonly injectedStorage?: StorageAdapter) {}
+
+  private get storage(): StorageAdapter {
+    return this.injectedStorage ?? getStorageAdapter();
+  }
+
+  // Also returns terms in the trash
+  private get trash(): StorageAdapter {
+    return this.injectedStorage ?? getTrashStorageAdapter();
+  }
+
   /**
    * Save a glossary item
    */
@@ -27,7 +42,7 @@ export class GlossaryRepository {
         version: item.version + 1,
       };
       
-      await storageService.save(GlossaryRepository.STORE_NAME, itemToSave);
+      await this.storage.save(GlossaryRepository.STORE_NAME, itemToSave);
     } catch (error) {
       console.error("Failed to save glossary item:", error);
       throw error;
@@ -41,7 +56,7 @@ export class GlossaryRepository {
     try {
       for (const item of items) {
         ValidationService.validateGlossaryItem(item);
-        await storageService.save(GlossaryRepository.STORE_NAME, item);
+        await this.storage.save(GlossaryRepository.STORE_NAME, item);
       }
     } catch (error) {
       console.error("Failed to save batch glossary items:", error);
@@ -54,7 +69,7 @@ export class GlossaryRepository {
    */
   async getById(id: string): Promise<GlossaryItem | null> {
     try {
-      return await storageService.get<GlossaryItem>(GlossaryRepository.STORE_NAME, id);
+      return await this.storage.get<GlossaryItem>(GlossaryRepository.STORE_NAME, id);
     } catch (error) {
       console.error("Failed to get glossary item:", error);
       return null;
@@ -66,7 +81,7 @@ export class GlossaryRepository {
    */
   async getAll(): Promise<GlossaryItem[]> {
     try {
-      return await storageService.getAll<GlossaryItem>(GlossaryRepository.STORE_NAME);
+      return await this.storage.getAll<GlossaryItem>(GlossaryRepository.STORE_NAME);
     } catch (error) {
       console.error("Failed to get all glossary items:", error);
       return [];
@@ -118,17 +133,68 @@ export class GlossaryRepository {
   }
 
   /**
-   * Delete a glossary item
+   * Move a glossary item to the trash
    */
   async delete(id: string): Promise<void> {
     try {
-      await storageService.delete(GlossaryRepository.STORE_NAME, id);
+      const item = await this.getById(id);
+      if (!item) {
+        throw new Error(`Glossary item with ID ${id} not found`);
+      }
+
+      await this.save({ ...item, deleted_at: DateUtils.getCurrentDateTime() });
     } catch (error) {
       console.error("Failed to delete glossary item:", error);
       throw error;
     }
   }
 
+  /**
+   * Glossary items in the trash, most recently deleted first
+   */
+  async getDeleted(): Promise<GlossaryItem[]> {
+    try {
+      const items = await this.trash.getAll<GlossaryItem>(GlossaryRepository.STORE_NAME);
+      return items
+        .filter((item) => item.deleted_at)
+        .sort((a, b) => (b.deleted_at ?? "").localeCompare(a.deleted_at ?? ""));
+    } catch (error) {
+      console.error("Failed to get deleted glossary items:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Take a glossary item back out of the trash
+   */
+  async restore(id: string): Promise<void> {
+    try {
+      const item = await this.trash.get<GlossaryItem>(GlossaryRepository.STORE_NAME, id);
+      if (!item?.deleted_at) {
+        throw new Error(`Glossary item with ID ${id} is not in the trash`);
+      }
+
+      const restored = { ...item };
+      delete restored.deleted_at;
+      await this.save(restored);
+    } catch (error) {
+      console.error("Failed to restore glossary item:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete a glossary item, in the trash or not
+   */
+  async purge(id: string): Promise<void> {
+    try {
+      await this.storage.delete(GlossaryRepository.STORE_NAME, id);
+    } catch (error) {
+      console.error("Failed to purge glossary item:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get glossary items by category
    */
@@ -164,7 +230,7 @@ export class GlossaryRepository {
    */
   async count(): Promise<number> {
     try {
-      return await storageService.count(GlossaryRepository.STORE_NAME);
+      return await this.storage.count(GlossaryRepository.STORE_NAME);
     } catch (error) {
       console.error("Failed to count glossary items:", error);
       return 0;
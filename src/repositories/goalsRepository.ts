@@ -4,13 +4,14 @@
  */
 
 import { BaseRepository } from "./base";
+import type { StorageAdapter } from "@/services/storageAdapter";
 import { ValidationService } from "@/validators";
 import { DateUtils } from "@/utils/dateUtils";
 import type { FitnessGoal } from "@/types";
 
 export class GoalsRepository extends BaseRepository<FitnessGoal> {
-  constructor() {
-    super("goals", ValidationService.validateGoal);
+  constructor(storage?: StorageAdapter) {
+    super("goals", ValidationService.validateGoal, storage);
   }
 
   /**
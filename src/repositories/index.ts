@@ -13,6 +13,9 @@ export { GlossaryRepository } from "./glossaryRepository";
 export { PlanRepository } from "./planRepository";
 export { GoalsRepository } from "./goalsRepository";
 export { BodyMeasurementsRepository, ProgressPhotosRepository } from "./bodyMeasurementsRepository";
+export { ProfileRepository } from "./profileRepository";
+export { PreferencesRepository } from "./preferencesRepository";
+export { RevisionRepository } from "./revisionRepository";
 
 // Import for instances
 import { ExerciseRepository } from "./exerciseRepository";
@@ -24,6 +27,9 @@ import { GlossaryRepository } from "./glossaryRepository";
 import { PlanRepository } from "./planRepository";
 import { GoalsRepository } from "./goalsRepository";
 import { BodyMeasurementsRepository, ProgressPhotosRepository } from "./bodyMeasurementsRepository";
+import { ProfileRepository } from "./profileRepository";
+import { PreferencesRepository } from "./preferencesRepository";
+import { RevisionRepository } from "./revisionRepository";
 
 // Repository instances for singleton usage
 export const exerciseRepository = new ExerciseRepository();
@@ -36,3 +42,6 @@ export const planRepository = new PlanRepository();
 export const goalsRepository = new GoalsRepository();
 export const bodyMeasurementsRepository = new BodyMeasurementsRepository();
 export const progressPhotosRepository = new ProgressPhotosRepository();
+export const profileRepository = new ProfileRepository();
+export const preferencesRepository = new PreferencesRepository();
+export const revisionRepository = new RevisionRepository();
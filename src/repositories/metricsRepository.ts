@@ -4,13 +4,14 @@
  */
 
 import { BaseRepository } from "./base";
+import type { StorageAdapter } from "@/services/storageAdapter";
 import { ValidationService } from "@/validators";
 import { DateUtils } from "@/utils/dateUtils";
 import type { BodyMetricEntry } from "@/types";
 
 export class MetricsRepository extends BaseRepository<BodyMetricEntry> {
-  constructor() {
-    super("metrics", ValidationService.validateBodyMetricEntry);
+  constructor(storage?: StorageAdapter) {
+    super("metrics", ValidationService.validateBodyMetricEntry, storage);
   }
 
   /**
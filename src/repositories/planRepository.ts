@@ -3,7 +3,9 @@
  * Following cursor rules for type safety and error handling
  */
 
-import { storageService } from "@/services/storage";
+import type { StorageAdapter, UnitOfWork, WriteOptions } from "@/services/storageAdapter";
+import { getStorageAdapter, getTrashStorageAdapter } from "@/services/storageBackend";
+import { stageRevision } from "@/services/revisionLog";
 import { DateUtils } from "@/utils/dateUtils";
 import type { 
   ProgramPlan, 
@@ -20,9 +22,30 @@ export class PlanRepository {
   private static readonly COMPLETED_SESSIONS_STORE = "completed_sessions";
 
   /**
-   * Save a plan
+   * @param injectedStorage Adapter to read and write through; defaults to the app-wide one
    */
-  async save(plan: ProgramPlan): Promise<void> {
+  constructor(private readonly injectedStorage?: StorageAdapter) {}
+
+  private get storage(): StorageAdapter {
+    return this.injectedStorage ?? getStorageAdapter();
+  }
+
+  // Also returns plans and completed sessions in the trash
+  private get trash(): StorageAdapter {
+    return this.injectedStorage ?? getTrashStorageAdapter();
+  }
+
+  /**
+   * Save a plan and return the stored copy with its bumped version.
+   * With a unit of work the write is staged until it commits.
+   * Pass options.expectedVersion (usually plan.version as loaded) to reject
+   * the save with a VersionConflictError if the plan changed in the meantime.
+   */
+  async save(
+    plan: ProgramPlan,
+    unitOfWork?: UnitOfWork,
+    options: WriteOptions = {}
+  ): Promise<ProgramPlan> {
     try {
       // TODO: Add plan validation
       
@@ -33,8 +56,16 @@ export class PlanRepository {
         updated_at: now,
         version: plan.version + 1,
       };
-      
-      await storageService.save(PlanRepository.STORE_NAME, planToSave);
+
+      // Every saved version is kept in the revision history with the plan itself
+      const work = unitOfWork ?? this.storage.beginUnitOfWork();
+      work.put(PlanRepository.STORE_NAME, planToSave, options);
+      stageRevision(work, "plans", planToSave);
+
+      if (!unitOfWork) {
+        await work.commit();
+      }
+      return planToSave;
     } catch (error) {
       console.error("Failed to save plan:", error);
       throw error;
@@ -48,7 +79,7 @@ export class PlanRepository {
     try {
       for (const plan of plans) {
         // TODO: Add plan validation
-        await storageService.save(PlanRepository.STORE_NAME, plan);
+        await this.storage.save(PlanRepository.STORE_NAME, plan);
       }
     } catch (error) {
       console.error("Failed to save batch plans:", error);
@@ -61,7 +92,7 @@ export class PlanRepository {
    */
   async getById(id: string): Promise<ProgramPlan | null> {
     try {
-      return await storageService.get<ProgramPlan>(PlanRepository.STORE_NAME, id);
+      return await this.storage.get<ProgramPlan>(PlanRepository.STORE_NAME, id);
     } catch (error) {
       console.error("Failed to get plan:", error);
       return null;
@@ -73,7 +104,7 @@ export class PlanRepository {
    */
   async getAll(): Promise<ProgramPlan[]> {
     try {
-      return await storageService.getAll<ProgramPlan>(PlanRepository.STORE_NAME);
+      return await this.storage.getAll<ProgramPlan>(PlanRepository.STORE_NAME);
     } catch (error) {
       console.error("Failed to get all plans:", error);
       return [];
@@ -165,17 +196,78 @@ export class PlanRepository {
   }
 
   /**
-   * Delete a plan
+   * Move a plan to the trash. Pass deletedAt to stamp several records as
+   * one deletion so they can be restored together.
    */
-  async delete(id: string): Promise<void> {
+  async delete(
+    id: string,
+    unitOfWork?: UnitOfWork,
+    deletedAt: string = DateUtils.getCurrentDateTime()
+  ): Promise<void> {
     try {
-      await storageService.delete(PlanRepository.STORE_NAME, id);
+      const plan = await this.getById(id);
+      if (!plan) {
+        throw new Error(`Plan with ID ${id} not found`);
+      }
+
+      await this.save({ ...plan, deleted_at: deletedAt }, unitOfWork, { expectedVersion: plan.version });
     } catch (error) {
       console.error("Failed to delete plan:", error);
       throw error;
     }
   }
 
+  /**
+   * Plans in the trash, most recently deleted first
+   */
+  async getDeleted(): Promise<ProgramPlan[]> {
+    try {
+      const plans = await this.trash.getAll<ProgramPlan>(PlanRepository.STORE_NAME);
+      return plans
+        .filter((plan) => plan.deleted_at)
+        .sort((a, b) => (b.deleted_at ?? "").localeCompare(a.deleted_at ?? ""));
+    } catch (error) {
+      console.error("Failed to get deleted plans:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Take a plan back out of the trash
+   */
+  async restore(id: string, unitOfWork?: UnitOfWork): Promise<ProgramPlan> {
+    try {
+      const plan = await this.trash.get<ProgramPlan>(PlanRepository.STORE_NAME, id);
+      if (!plan?.deleted_at) {
+        throw new Error(`Plan with ID ${id} is not in the trash`);
+      }
+
+      const restored = { ...plan };
+      delete restored.deleted_at;
+      return await this.save(restored, unitOfWork, { expectedVersion: plan.version });
+    } catch (error) {
+      console.error("Failed to restore plan:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete a plan, in the trash or not
+   */
+  async purge(id: string, unitOfWork?: UnitOfWork): Promise<void> {
+    try {
+      if (unitOfWork) {
+        unitOfWork.delete(PlanRepository.STORE_NAME, id);
+        return;
+      }
+
+      await this.storage.delete(PlanRepository.STORE_NAME, id);
+    } catch (error) {
+      console.error("Failed to purge plan:", error);
+      throw error;
+    }
+  }
+
   /**
    * Duplicate a plan
    */
@@ -190,6 +282,7 @@ export class PlanRepository {
       const duplicatedPlan: ProgramPlan = {
         ...originalPlan,
         id: crypto.randomUUID(),
+        profile_id: undefined, // Duplicates of shared templates belong to the active profile
         title: newTitle,
         is_template: false,
         created_at: now,
@@ -236,7 +329,7 @@ export class PlanRepository {
    */
   async count(): Promise<number> {
     try {
-      return await storageService.count(PlanRepository.STORE_NAME);
+      return await this.storage.count(PlanRepository.STORE_NAME);
     } catch (error) {
       console.error("Failed to count plans:", error);
       return 0;
@@ -246,10 +339,18 @@ export class PlanRepository {
   /**
    * Mark session as completed
    */
-  async markSessionCompleted(completedSession: CompletedSession): Promise<void> {
+  async markSessionCompleted(
+    completedSession: CompletedSession,
+    unitOfWork?: UnitOfWork
+  ): Promise<void> {
     try {
       // TODO: Add completed session validation
-      await storageService.save(PlanRepository.COMPLETED_SESSIONS_STORE, completedSession);
+      if (unitOfWork) {
+        unitOfWork.put(PlanRepository.COMPLETED_SESSIONS_STORE, completedSession);
+        return;
+      }
+
+      await this.storage.save(PlanRepository.COMPLETED_SESSIONS_STORE, completedSession);
     } catch (error) {
       console.error("Failed to mark session completed:", error);
       throw error;
@@ -261,16 +362,101 @@ export class PlanRepository {
    */
   async getCompletedSessions(planId: string): Promise<CompletedSession[]> {
     try {
-      const allCompleted = await storageService.getAll<CompletedSession>(
-        PlanRepository.COMPLETED_SESSIONS_STORE
+      return await this.storage.query<CompletedSession>(
+        PlanRepository.COMPLETED_SESSIONS_STORE,
+        { index: "plan_id", value: planId }
       );
-      return allCompleted.filter(session => session.plan_id === planId);
     } catch (error) {
       console.error("Failed to get completed sessions:", error);
       return [];
     }
   }
 
+  /**
+   * Move a completed session record to the trash
+   */
+  async removeCompletedSession(
+    id: string,
+    unitOfWork?: UnitOfWork,
+    deletedAt: string = DateUtils.getCurrentDateTime()
+  ): Promise<void> {
+    try {
+      const completed = await this.storage.get<CompletedSession>(PlanRepository.COMPLETED_SESSIONS_STORE, id);
+      if (completed) {
+        await this.saveCompletedSession({ ...completed, deleted_at: deletedAt }, completed.version, unitOfWork);
+      }
+    } catch (error) {
+      console.error("Failed to remove completed session:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Completed sessions of a plan that are in the trash
+   */
+  async getDeletedCompletedSessions(planId: string): Promise<CompletedSession[]> {
+    try {
+      const sessions = await this.trash.query<CompletedSession>(
+        PlanRepository.COMPLETED_SESSIONS_STORE,
+        { index: "plan_id", value: planId }
+      );
+      return sessions.filter((completed) => completed.deleted_at);
+    } catch (error) {
+      console.error("Failed to get deleted completed sessions:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Take a completed session record back out of the trash
+   */
+  async restoreCompletedSession(completed: CompletedSession, unitOfWork?: UnitOfWork): Promise<void> {
+    try {
+      const restored = { ...completed };
+      delete restored.deleted_at;
+      await this.saveCompletedSession(restored, completed.version, unitOfWork);
+    } catch (error) {
+      console.error("Failed to restore completed session:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete a completed session record
+   */
+  async purgeCompletedSession(id: string, unitOfWork?: UnitOfWork): Promise<void> {
+    try {
+      if (unitOfWork) {
+        unitOfWork.delete(PlanRepository.COMPLETED_SESSIONS_STORE, id);
+        return;
+      }
+
+      await this.storage.delete(PlanRepository.COMPLETED_SESSIONS_STORE, id);
+    } catch (error) {
+      console.error("Failed to purge completed session:", error);
+      throw error;
+    }
+  }
+
+  private async saveCompletedSession(
+    completed: CompletedSession,
+    expectedVersion: number,
+    unitOfWork?: UnitOfWork
+  ): Promise<void> {
+    const toSave: CompletedSession = {
+      ...completed,
+      updated_at: DateUtils.getCurrentDateTime(),
+      version: completed.version + 1,
+    };
+
+    if (unitOfWork) {
+      unitOfWork.put(PlanRepository.COMPLETED_SESSIONS_STORE, toSave, { expectedVersion });
+      return;
+    }
+
+    await this.storage.save(PlanRepository.COMPLETED_SESSIONS_STORE, toSave, { expectedVersion });
+  }
+
   /**
    * Calculate plan progress
    */
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { StorageService } from "@/services/storage";
+import { setActiveProfileId } from "@/services/activeProfile";
+import { installIndexedDbStorage, removeIndexedDbStorage } from "@/test/indexedDbStorage";
+import { defaultUserPreferences } from "@/lib/validations";
+import { PreferencesRepository } from "./preferencesRepository";
+
+describe("PreferencesRepository", () => {
+  let storage: StorageService;
+  let repository: PreferencesRepository;
+
+  beforeEach(() => {
+    storage = installIndexedDbStorage();
+    repository = new PreferencesRepository();
+    setActiveProfileId("alice");
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("starts from the defaults", async () => {
+    expect(await repository.getPreferences()).toEqual(defaultUserPreferences);
+  });
+
+  it("keeps each change in the preferences store and reads it back", async () => {
+    await repository.updatePreference("weight_increment_kg", 1.25);
+    await repository.updatePreference("default_rest_time_seconds", 120);
+
+    expect(await repository.getPreferences()).toEqual({
+      ...defaultUserPreferences,
+      weight_increment_kg: 1.25,
+      default_rest_time_seconds: 120,
+    });
+    expect(await storage.get("preferences", "alice")).toMatchObject({
+      profile_id: "alice",
+      weight_increment_kg: 1.25,
+      version: 2,
+    });
+  });
+
+  it("keeps each profile's preferences apart", async () => {
+    await repository.updatePreference("weight_increment_lb", 2.5);
+
+    setActiveProfileId("bob");
+    expect(await repository.getPreferences()).toEqual(defaultUserPreferences);
+    await repository.updatePreference("weight_increment_lb", 10);
+
+    setActiveProfileId("alice");
+    expect((await repository.getPreferences()).weight_increment_lb).toBe(2.5);
+  });
+
+  it("falls back to the default for an increment that isn't positive", async () => {
+    await repository.updatePreference("weight_increment_kg", 0);
+    expect((await repository.getPreferences()).weight_increment_kg).toBe(defaultUserPreferences.weight_increment_kg);
+  });
+});
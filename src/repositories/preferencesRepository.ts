@@ -0,0 +1,94 @@
+/**
+ * Preferences repository for each profile's workout logging preferences
+ * Following cursor rules for repository pattern
+ */
+
+import { BaseRepository } from "./base";
+import type { StorageAdapter } from "@/services/storageAdapter";
+import { ValidationService } from "@/validators";
+import { getActiveProfileId } from "@/services/activeProfile";
+import {
+  defaultUserPreferences,
+  sanitizeUserPreferences,
+} from "@/lib/validations";
+import type { UserPreferences, UserPreferencesRecord } from "@/types";
+
+export class PreferencesRepository extends BaseRepository<UserPreferencesRecord> {
+  // Preferences are reset rather than trashed
+  protected readonly softDeletes = false;
+
+  constructor(storage?: StorageAdapter) {
+    super("preferences", ValidationService.validateUserPreferences, storage);
+  }
+
+  /**
+   * Get the active profile's preferences, with defaults for anything not yet chosen
+   */
+  async getPreferences(): Promise<UserPreferences> {
+    const stored = await this.getById(this.preferencesId());
+    return stored
+      ? PreferencesRepository.toPreferences(stored)
+      : { ...defaultUserPreferences };
+  }
+
+  /**
+   * Create the active profile's record or update the given preferences
+   */
+  async savePreferences(
+    preferences: Partial<UserPreferences>
+  ): Promise<UserPreferences> {
+    const preferencesId = this.preferencesId();
+    const existing = await this.getById(preferencesId);
+
+    if (existing) {
+      const merged = sanitizeUserPreferences({
+        ...PreferencesRepository.toPreferences(existing),
+        ...preferences,
+      });
+      return PreferencesRepository.toPreferences(
+        await this.update(preferencesId, merged)
+      );
+    }
+
+    const newPreferences = this.createEntity(
+      sanitizeUserPreferences(preferences)
+    );
+    newPreferences.id = preferencesId;
+    await this.save(newPreferences);
+    return PreferencesRepository.toPreferences(newPreferences);
+  }
+
+  /**
+   * Update a single preference
+   */
+  async updatePreference<K extends keyof UserPreferences>(
+    key: K,
+    value: UserPreferences[K]
+  ): Promise<UserPreferences> {
+    return this.savePreferences({ [key]: value } as Partial<UserPreferences>);
+  }
+
+  /**
+   * Go back to the default preferences
+   */
+  async resetToDefaults(): Promise<UserPreferences> {
+    return this.savePreferences(defaultUserPreferences);
+  }
+
+  // One record per profile, keyed like the profile itself
+  private preferencesId(): string {
+    return getActiveProfileId();
+  }
+
+  // The preferences without the record's bookkeeping fields
+  private static toPreferences(record: UserPreferencesRecord): UserPreferences {
+    return {
+      show_beginner_tips: record.show_beginner_tips,
+      default_rest_time_seconds: record.default_rest_time_seconds,
+      auto_save_workouts: record.auto_save_workouts,
+      exercise_order_preference: record.exercise_order_preference,
+      weight_increment_lb: record.weight_increment_lb,
+      weight_increment_kg: record.weight_increment_kg,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Profile repository for the local profiles on this device and their personal details
+ * Following cursor rules for repository pattern
+ */
+
+import { BaseRepository } from "./base";
+import type { StorageAdapter } from "@/services/storageAdapter";
+import { ValidationService } from "@/validators";
+import { DateUtils } from "@/utils/dateUtils";
+import { getActiveProfileId } from "@/services/activeProfile";
+import type { ProfileInputs, StorageData, UserProfile } from "@/types";
+
+export class ProfileRepository extends BaseRepository<UserProfile> {
+  // Profiles are deleted together with their records by ProfileService
+  protected readonly softDeletes = false;
+
+  constructor(storage?: StorageAdapter) {
+    super("profile", ValidationService.validateUserProfile, storage);
+  }
+
+  /**
+   * Get the active profile's details
+   */
+  async getProfile(): Promise<UserProfile | null> {
+    return this.getById(getActiveProfileId());
+  }
+
+  /**
+   * Create the active profile's record or update the given fields
+   */
+  async saveProfile(profile: Partial<Omit<UserProfile, keyof StorageData>>): Promise<UserProfile> {
+    const profileId = getActiveProfileId();
+    const existing = await this.getById(profileId);
+
+    if (existing) {
+      return this.update(profileId, profile);
+    }
+
+    const newProfile = this.createEntity(profile);
+    newProfile.id = profileId;
+    await this.save(newProfile);
+    return newProfile;
+  }
+
+  /**
+   * Every profile on this device, oldest first
+   */
+  async listProfiles(): Promise<UserProfile[]> {
+    const profiles = await this.getAll();
+    return profiles.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  /**
+   * Add a profile. It starts with nothing but the shared catalog.
+   */
+  async createProfile(displayName: string, id: string = crypto.randomUUID()): Promise<UserProfile> {
+    const profile = this.createEntity({ display_name: displayName });
+    profile.id = id;
+    await this.save(profile);
+    return profile;
+  }
+
+  /**
+   * Resolve the stored profile into calculation inputs
+   */
+  async getProfileInputs(): Promise<ProfileInputs> {
+    return ProfileRepository.toInputs(await this.getProfile());
+  }
+
+  /**
+   * Age from the birth date, sex for the standards tables, height and
+   * activity level. Fields the profile doesn't have stay undefined.
+   */
+  static toInputs(profile: UserProfile | null): ProfileInputs {
+    return {
+      age: profile?.birth_date ? DateUtils.calculateAge(profile.birth_date) : undefined,
+      gender: profile?.sex_for_standards,
+      height_cm: profile?.height_cm,
+      activity_level: profile?.activity_level,
+    };
+  }
+}
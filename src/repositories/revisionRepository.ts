@@ -0,0 +1,52 @@
+/**
+ * Revision repository for the saved versions of plans and workout logs
+ * Following cursor rules for repository pattern
+ *
+ * Revisions are written by the plan and workout repositories as they save;
+ * this repository reads them back and removes them with their record.
+ */
+
+import { BaseRepository } from "./base";
+import type { StorageAdapter, UnitOfWork } from "@/services/storageAdapter";
+import { REVISIONS_STORE, revisionId } from "@/services/revisionLog";
+import type { EntityRevision, RevisionStore } from "@/types";
+
+export class RevisionRepository extends BaseRepository<EntityRevision> {
+  // History is removed outright together with the record it belongs to
+  protected readonly softDeletes = false;
+
+  constructor(storage?: StorageAdapter) {
+    super(REVISIONS_STORE, undefined, storage);
+  }
+
+  /**
+   * Saved versions of a record, oldest first
+   */
+  async getHistory(store: RevisionStore, entityId: string): Promise<EntityRevision[]> {
+    const revisions = await this.storage.query<EntityRevision>(this.storeName, {
+      index: "entity_id",
+      value: entityId,
+    });
+    return revisions
+      .filter((revision) => revision.store === store)
+      .sort((a, b) => a.entity_version - b.entity_version);
+  }
+
+  /**
+   * One saved version of a record, if it is still kept
+   */
+  async getRevision(store: RevisionStore, entityId: string, entityVersion: number): Promise<EntityRevision | null> {
+    const revision = await this.getById(revisionId(store, entityId, entityVersion));
+    return revision?.entity_version === entityVersion ? revision : null;
+  }
+
+  /**
+   * Delete every saved version of a record
+   */
+  async deleteHistory(store: RevisionStore, entityId: string, unitOfWork?: UnitOfWork): Promise<void> {
+    const revisions = await this.getHistory(store, entityId);
+    for (const revision of revisions) {
+      await this.purge(revision.id, unitOfWork);
+    }
+  }
+}
@@ -4,14 +4,18 @@
  */
 
 import { BaseRepository } from "./base";
+import type { StorageAdapter } from "@/services/storageAdapter";
 import { ValidationService } from "@/validators";
+import { LATEST_SCHEMA_VERSION } from "@/services/schemaMigrations";
 import type { AppSettings, StorageData } from "@/types";
 
 export class SettingsRepository extends BaseRepository<AppSettings> {
   private static readonly SETTINGS_ID = "app-settings-v1";
+  // Settings are reset rather than trashed
+  protected readonly softDeletes = false;
 
-  constructor() {
-    super("settings", ValidationService.validateAppSettings);
+  constructor(storage?: StorageAdapter) {
+    super("settings", ValidationService.validateAppSettings, storage);
   }
 
   /**
@@ -63,7 +67,7 @@ export class SettingsRepository extends BaseRepository<AppSettings> {
       unit_system: "imperial",
       theme: "system",
       language: "en",
-      data_version: 1,
+      data_version: LATEST_SCHEMA_VERSION,
       privacy_acknowledged: false,
     };
 
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { StorageService } from "@/services/storage";
+import { installIndexedDbStorage, removeIndexedDbStorage } from "@/test/indexedDbStorage";
+import { WorkoutRepository } from "./workoutRepository";
+import type { PerformedSet, WorkoutLogEntry } from "@/types";
+
+function set(fields: Partial<PerformedSet>): PerformedSet {
+  return { set_number: 1, repetitions_done: 10, perceived_effort_text: "hard", ...fields };
+}
+
+describe("WorkoutRepository summary", () => {
+  let storage: StorageService;
+  let repository: WorkoutRepository;
+
+  beforeEach(() => {
+    storage = installIndexedDbStorage();
+    repository = new WorkoutRepository();
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("counts working sets in lb and skips weights logged without a unit", async () => {
+    const workout: WorkoutLogEntry = {
+      id: "workout-1",
+      date_time_start: "2026-04-06T18:00:00.000Z",
+      entries: [
+        {
+          type: "strength",
+          exercise_id: "bench-press",
+          exercise_name: "Bench Press",
+          order_index: 0,
+          performed_sets: [
+            set({ set_type: "warm_up", weight_value: 45, weight_unit: "lb" }),
+            set({ weight_value: 100, weight_unit: "lb" }),
+            set({ weight_value: 50 }),
+            set({
+              set_type: "drop_set",
+              weight_value: 20,
+              weight_unit: "kg",
+              repetitions_done: 1,
+              sub_sets: [{ repetitions_done: 1, weight_value: 10 }],
+            }),
+          ],
+        },
+      ],
+      created_at: "2026-04-06T18:00:00.000Z",
+      updated_at: "2026-04-06T18:00:00.000Z",
+      version: 1,
+    };
+    await repository.save(workout);
+
+    const summary = await repository.getWorkoutSummary();
+
+    expect(summary.strength_volume_lb).toBeCloseTo(1000 + 30 * 2.20462);
+  });
+});
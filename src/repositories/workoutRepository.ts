@@ -4,26 +4,43 @@
  */
 
 import { BaseRepository } from "./base";
+import type { StorageAdapter } from "@/services/storageAdapter";
 import { ValidationService } from "@/validators";
 import { DateUtils } from "@/utils/dateUtils";
-import type { WorkoutLogEntry, ExerciseEntry, WorkoutSummary } from "@/types";
+import { WorkoutAnalysis } from "@/utils/workoutAnalysis";
+import type {
+  WorkoutLogEntry,
+  ExerciseEntry,
+  WorkoutSummary,
+  QueryFilter,
+  CursorPage,
+  CursorPaginationOptions,
+} from "@/types";
 
 export class WorkoutRepository extends BaseRepository<WorkoutLogEntry> {
-  constructor() {
-    super("workouts", ValidationService.validateWorkoutLog);
+  protected readonly revisionStore = "workouts";
+
+  constructor(storage?: StorageAdapter) {
+    super("workouts", ValidationService.validateWorkoutLog, storage);
   }
 
   /**
    * Get workouts by exercise ID
    */
   async getByExercise(exerciseId: string): Promise<WorkoutLogEntry[]> {
-    const allWorkouts = await this.getAll();
-    
-    return allWorkouts.filter((workout) =>
-      workout.entries.some((entry) => 
-        (entry.type === "strength" || entry.type === "flexibility") && 
-        entry.exercise_id === exerciseId
-      )
+    const { items } = await this.storage.scan<WorkoutLogEntry>(this.storeName, {
+      predicate: (workout) => this.includesExercise(workout, exerciseId),
+    });
+    return items;
+  }
+
+  /**
+   * Check whether a workout logged the given exercise
+   */
+  private includesExercise(workout: WorkoutLogEntry, exerciseId: string): boolean {
+    return workout.entries.some((entry) =>
+      (entry.type === "strength" || entry.type === "flexibility") &&
+      entry.exercise_id === exerciseId
     );
   }
 
@@ -31,11 +48,9 @@ export class WorkoutRepository extends BaseRepository<WorkoutLogEntry> {
    * Get workouts by date range
    */
   async getByDateRange(startDate: string, endDate: string): Promise<WorkoutLogEntry[]> {
-    const allWorkouts = await this.getAll();
-    
-    return allWorkouts.filter((workout) => {
-      const workoutDate = workout.date_time_start.split("T")[0];
-      return workoutDate >= startDate && workoutDate <= endDate;
+    // Served by the date_time_start index; the upper bound covers the whole end day
+    return this.query({
+      date_time_start: { min: startDate, max: `${endDate}\uffff` },
     });
   }
 
@@ -43,13 +58,22 @@ export class WorkoutRepository extends BaseRepository<WorkoutLogEntry> {
    * Get recent workout sessions
    */
   async getRecentSessions(limit: number = 10): Promise<WorkoutLogEntry[]> {
-    const allWorkouts = await this.getAll();
-    
-    return allWorkouts
-      .sort((a, b) => 
-        new Date(b.date_time_start).getTime() - new Date(a.date_time_start).getTime()
-      )
-      .slice(0, limit);
+    const page = await this.getHistoryPage({ limit });
+    return page.items;
+  }
+
+  /**
+   * Get workouts newest first, one page at a time
+   */
+  async getHistoryPage(
+    pagination: CursorPaginationOptions,
+    filter?: QueryFilter<WorkoutLogEntry>
+  ): Promise<CursorPage<WorkoutLogEntry>> {
+    return this.findPage(
+      filter,
+      { field: "date_time_start", direction: "desc" },
+      pagination
+    );
   }
 
   /**
@@ -65,11 +89,9 @@ export class WorkoutRepository extends BaseRepository<WorkoutLogEntry> {
    * Get workouts by rating
    */
   async getByRating(minRating: number): Promise<WorkoutLogEntry[]> {
-    const allWorkouts = await this.getAll();
-    
-    return allWorkouts.filter((workout) =>
-      workout.overall_rating && workout.overall_rating >= minRating
-    );
+    return this.query({
+      overall_rating: { min: minRating as WorkoutLogEntry["overall_rating"] },
+    });
   }
 
   /**
@@ -160,17 +182,11 @@ export class WorkoutRepository extends BaseRepository<WorkoutLogEntry> {
           }
         }
 
-        // Calculate strength volume
+        // Calculate strength volume; a weight logged without a unit can't be converted, so it's skipped
         if (entry.type === "strength") {
-          entry.performed_sets.forEach((set) => {
-            if (set.weight_value && set.weight_unit) {
-              let weightInLb = set.weight_value;
-              if (set.weight_unit === "kg") {
-                weightInLb = set.weight_value * 2.205; // Convert to lb
-              }
-              summary.strength_volume_lb += weightInLb * set.repetitions_done;
-            }
-          });
+          summary.strength_volume_lb += WorkoutAnalysis.calculateVolume(
+            entry.performed_sets.filter((set) => set.weight_unit)
+          );
         }
 
         // Calculate cardio distance
@@ -253,25 +269,27 @@ export class WorkoutRepository extends BaseRepository<WorkoutLogEntry> {
     workout: WorkoutLogEntry;
     entry: ExerciseEntry;
   }>> {
-    const workouts = await this.getByExercise(exerciseId);
-    
+    // Walk the date index newest first and stop once enough sessions are found
+    const { items: workouts } = await this.storage.scan<WorkoutLogEntry>(this.storeName, {
+      index: "date_time_start",
+      direction: "prev",
+      limit,
+      predicate: (workout) => this.includesExercise(workout, exerciseId),
+    });
+
     const history: Array<{ workout: WorkoutLogEntry; entry: ExerciseEntry }> = [];
-    
-    workouts
-      .sort((a, b) => 
-        new Date(b.date_time_start).getTime() - new Date(a.date_time_start).getTime()
-      )
-      .forEach((workout) => {
-        const entry = workout.entries.find((e) => 
-          (e.type === "strength" || e.type === "flexibility") && 
-          e.exercise_id === exerciseId
-        );
-        if (entry) {
-          history.push({ workout, entry });
-        }
-      });
 
-    return history.slice(0, limit);
+    workouts.forEach((workout) => {
+      const entry = workout.entries.find((e) => 
+        (e.type === "strength" || e.type === "flexibility") && 
+        e.exercise_id === exerciseId
+      );
+      if (entry) {
+        history.push({ workout, entry });
+      }
+    });
+
+    return history;
   }
 
   /**
@@ -290,7 +308,7 @@ export class WorkoutRepository extends BaseRepository<WorkoutLogEntry> {
 
     history.forEach(({ workout, entry }) => {
       if (entry.type === "strength") {
-        entry.performed_sets.forEach((set) => {
+        WorkoutAnalysis.workingSets(entry.performed_sets).forEach((set) => {
           const date = workout.date_time_start.split("T")[0];
           
           // Check max weight
@@ -320,12 +338,7 @@ export class WorkoutRepository extends BaseRepository<WorkoutLogEntry> {
 
           // Check max volume for this set
           if (set.weight_value) {
-            let weightInLb = set.weight_value;
-            if (set.weight_unit === "kg") {
-              weightInLb = set.weight_value * 2.205;
-            }
-            
-            const volume = weightInLb * set.repetitions_done;
+            const volume = WorkoutAnalysis.calculateVolume([set]);
             if (!maxVolume || volume > maxVolume.value) {
               maxVolume = { value: volume, date };
             }
@@ -0,0 +1,100 @@
+/**
+ * Which local profile this device reads and writes as
+ * Every record outside the device-level stores belongs to one profile through
+ * its profile_id. The starter catalog belongs to SHARED_PROFILE_ID and is
+ * visible to every profile. Records written before profiles existed have no
+ * profile_id and belong to DEFAULT_PROFILE_ID.
+ */
+
+// The id the single user profile had before a device could hold several
+export const DEFAULT_PROFILE_ID = "user-profile-v1";
+export const SHARED_PROFILE_ID = "shared";
+
+// Stores whose records belong to the device rather than to a profile. Media
+// blobs belong to whichever profiles' records reference them.
+export const UNSCOPED_STORES = ["profile", "settings", "media"];
+
+const ACTIVE_PROFILE_KEY = "fitness-tracker-active-profile";
+
+type ActiveProfileListener = (profileId: string) => void;
+
+let activeProfileId: string | null = null;
+const listeners = new Set<ActiveProfileListener>();
+let listeningToOtherTabs = false;
+
+/**
+ * Profile the device currently reads and writes as
+ */
+export function getActiveProfileId(): string {
+  if (activeProfileId === null) {
+    activeProfileId =
+      (typeof localStorage !== "undefined" && localStorage.getItem(ACTIVE_PROFILE_KEY)) || DEFAULT_PROFILE_ID;
+  }
+  return activeProfileId;
+}
+
+/**
+ * Switch profiles. Listeners here hear about it immediately, other tabs
+ * through the storage event.
+ */
+export function setActiveProfileId(profileId: string): void {
+  if (profileId === getActiveProfileId()) {
+    return;
+  }
+
+  activeProfileId = profileId;
+  if (typeof localStorage !== "undefined") {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+  }
+  notify(profileId);
+}
+
+/**
+ * Listen for profile switches made in this or another tab
+ */
+export function subscribeActiveProfile(listener: ActiveProfileListener): () => void {
+  listeners.add(listener);
+
+  if (!listeningToOtherTabs && typeof window !== "undefined") {
+    listeningToOtherTabs = true;
+    window.addEventListener("storage", (event) => {
+      if (event.key === ACTIVE_PROFILE_KEY && event.newValue && event.newValue !== activeProfileId) {
+        activeProfileId = event.newValue;
+        notify(event.newValue);
+      }
+    });
+  }
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isScopedStore(storeName: string): boolean {
+  return !UNSCOPED_STORES.includes(storeName);
+}
+
+/**
+ * Profile a record belongs to
+ */
+export function ownerOf(record: { profile_id?: unknown }): string {
+  return typeof record.profile_id === "string" ? record.profile_id : DEFAULT_PROFILE_ID;
+}
+
+/**
+ * Whether a profile sees a record: its own, or the shared catalog
+ */
+export function isVisibleTo(record: { profile_id?: unknown }, profileId: string): boolean {
+  const owner = ownerOf(record);
+  return owner === profileId || owner === SHARED_PROFILE_ID;
+}
+
+function notify(profileId: string): void {
+  listeners.forEach((listener) => {
+    try {
+      listener(profileId);
+    } catch (error) {
+      console.error("Active profile listener failed:", error);
+    }
+  });
+}
@@ -0,0 +1,531 @@
+/**
+ * Cardio session import from GPS watch and bike computer files
+ * Following cursor rules for error handling and type safety
+ *
+ * Reads GPX and TCX (XML) and FIT (binary) activity files into a common
+ * track, splits it into segments by lap, distance or time, and saves the
+ * summary as a cardio entry in a new or existing workout log.
+ */
+
+import { workoutRepository } from "@/repositories";
+import { DateUtils } from "@/utils/dateUtils";
+import { FitDecoder, type FitMessage } from "@/utils/fit";
+import type {
+  ActivityFileFormat,
+  ActivityImportOptions,
+  ActivityImportResult,
+  ActivityLap,
+  ActivitySplit,
+  ActivityTrackPoint,
+  CardioEntry,
+  CardioSegment,
+  ParsedActivity,
+  WorkoutLogEntry,
+} from "@/types";
+
+type DistanceUnit = NonNullable<ActivityImportOptions["distanceUnit"]>;
+
+// A point with its time and cumulative distance resolved
+interface TimedPoint extends ActivityTrackPoint {
+  seconds: number; // From the start of the activity
+  distance: number; // Meters from the start
+}
+
+const METERS_PER_UNIT: Record<DistanceUnit, number> = {
+  kilometers: 1000,
+  miles: 1609.344,
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// FIT global message numbers and the fields read from them
+const FIT_SESSION = 18;
+const FIT_LAP = 19;
+const FIT_RECORD = 20;
+const FIT_TIMESTAMP = 253;
+
+// FIT sport enum values, named the way TCX and GPX files name them
+const FIT_SPORTS: Record<number, string> = {
+  1: "running",
+  2: "cycling",
+  5: "swimming",
+  11: "walking",
+  17: "hiking",
+};
+
+export class ActivityImportService {
+  static readonly FORMAT_LABELS: Record<ActivityFileFormat, string> = {
+    gpx: "GPX",
+    tcx: "TCX",
+    fit: "FIT",
+  };
+
+  /**
+   * Recognize a file by its content, falling back to the file extension
+   */
+  static detectFormat(buffer: ArrayBuffer, fileName = ""): ActivityFileFormat | null {
+    if (FitDecoder.isFit(buffer)) {
+      return "fit";
+    }
+
+    const head = new TextDecoder().decode(buffer.slice(0, 2048));
+    if (/<TrainingCenterDatabase/i.test(head)) return "tcx";
+    if (/<gpx[\s>]/i.test(head)) return "gpx";
+
+    const extension = fileName.toLowerCase().split(".").pop();
+    return extension === "gpx" || extension === "tcx" || extension === "fit" ? extension : null;
+  }
+
+  /**
+   * Parse an activity file into track points and laps
+   */
+  static parse(buffer: ArrayBuffer, fileName?: string): ParsedActivity {
+    const format = this.detectFormat(buffer, fileName);
+    if (!format) {
+      throw new Error("Unrecognized activity file: expected a GPX, TCX or FIT file");
+    }
+
+    const activity =
+      format === "fit"
+        ? this.parseFit(buffer)
+        : format === "tcx"
+          ? this.parseTcx(this.parseXml(buffer))
+          : this.parseGpx(this.parseXml(buffer));
+
+    if (activity.points.length < 2) {
+      throw new Error("The file has no recorded track");
+    }
+    return activity;
+  }
+
+  /**
+   * Summarize an activity as a cardio entry. Segments follow options.split,
+   * defaulting to the file's laps, or one segment when it has none.
+   */
+  static toCardioEntry(activity: ParsedActivity, options: ActivityImportOptions = {}): CardioEntry {
+    const unit = options.distanceUnit ?? "kilometers";
+    const points = this.resolvePoints(activity);
+    const split = options.split ?? { by: "lap" };
+    const ranges = this.splitPoints(points, activity.laps, split);
+
+    const segments = ranges.map(({ from, to, lap }, index) =>
+      this.toSegment(points.slice(from, to + 1), index + 1, this.segmentLabel(split, index + 1, activity.laps.length), unit, lap)
+    );
+    const heartRate = this.heartRateStats(points);
+
+    return {
+      type: "cardio",
+      mode: options.mode ?? this.guessMode(activity.sport),
+      total_duration_seconds: segments.reduce((sum, segment) => sum + segment.duration_seconds, 0),
+      segments,
+      average_heart_rate_bpm: heartRate.average,
+      max_heart_rate_bpm: heartRate.max,
+      notes: `Imported from ${this.FORMAT_LABELS[activity.format]} file${activity.name ? `: ${activity.name}` : ""}`,
+    };
+  }
+
+  /**
+   * Import an activity file, or with options.dryRun report what importing
+   * would do. The entry is added to options.workoutId when given, otherwise
+   * to a new workout starting when the activity did.
+   */
+  static async importFile(
+    buffer: ArrayBuffer,
+    fileName?: string,
+    options: ActivityImportOptions = {}
+  ): Promise<ActivityImportResult> {
+    const activity = this.parse(buffer, fileName);
+    const entry = this.toCardioEntry(activity, options);
+    const dryRun = options.dryRun ?? false;
+
+    if (options.workoutId) {
+      const existing = await workoutRepository.getById(options.workoutId);
+      if (!existing) {
+        throw new Error(`Workout ${options.workoutId} not found`);
+      }
+
+      const workout = dryRun
+        ? { ...existing, entries: [...existing.entries, entry] }
+        : await workoutRepository.update(existing.id, { entries: [...existing.entries, entry] });
+      return { format: activity.format, workout, entry, created_workout: false, dry_run: dryRun };
+    }
+
+    const duplicates = await workoutRepository.getByDateRange(activity.start_time, activity.start_time);
+    if (duplicates.some((workout) => workout.date_time_start === activity.start_time)) {
+      throw new Error("A workout starting at the same time is already in your log");
+    }
+
+    const workout = this.createWorkout(activity, entry);
+    if (!dryRun) {
+      await workoutRepository.save(workout);
+    }
+    return { format: activity.format, workout, entry, created_workout: true, dry_run: dryRun };
+  }
+
+  /**
+   * Workouts on the activity's day that overlap it, to offer as a place
+   * to attach the entry instead of creating a new workout
+   */
+  static async findOverlappingWorkouts(activity: ParsedActivity): Promise<WorkoutLogEntry[]> {
+    const start = new Date(activity.start_time).getTime();
+    const last = activity.points[activity.points.length - 1];
+    const end = new Date(last.time).getTime();
+    const day = activity.start_time.slice(0, 10);
+
+    const workouts = await workoutRepository.getByDateRange(day, day);
+    return workouts.filter((workout) => {
+      const workoutStart = new Date(workout.date_time_start).getTime();
+      const workoutEnd = workout.date_time_end ? new Date(workout.date_time_end).getTime() : workoutStart;
+      return workoutStart <= end && workoutEnd >= start;
+    });
+  }
+
+  private static createWorkout(activity: ParsedActivity, entry: CardioEntry): WorkoutLogEntry {
+    const now = DateUtils.getCurrentDateTime();
+    const last = activity.points[activity.points.length - 1];
+    const hasPosition = activity.points.some((point) => point.latitude !== undefined);
+
+    return {
+      id: crypto.randomUUID(),
+      date_time_start: activity.start_time,
+      date_time_end: last.time,
+      session_title: activity.name || `Imported ${entry.mode.replace(/_/g, " ")}`,
+      entries: [entry],
+      environment: hasPosition ? "outdoor" : undefined,
+      created_at: now,
+      updated_at: now,
+      version: 1,
+    };
+  }
+
+  /**
+   * Resolve point times to seconds from the start and fill in cumulative
+   * distance from coordinates where the device didn't record it
+   */
+  private static resolvePoints(activity: ParsedActivity): TimedPoint[] {
+    const start = new Date(activity.start_time).getTime();
+    const recorded = activity.points.some((point) => point.distance_meters !== undefined);
+    let distance = 0;
+
+    return activity.points.map((point, index, all) => {
+      if (recorded) {
+        distance = point.distance_meters ?? distance;
+      } else if (index > 0) {
+        distance += this.haversine(all[index - 1], point);
+      }
+      return {
+        ...point,
+        seconds: Math.max(0, (new Date(point.time).getTime() - start) / 1000),
+        distance,
+      };
+    });
+  }
+
+  private static haversine(a: ActivityTrackPoint, b: ActivityTrackPoint): number {
+    if (a.latitude === undefined || a.longitude === undefined || b.latitude === undefined || b.longitude === undefined) {
+      return 0;
+    }
+
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+  }
+
+  /**
+   * Index ranges of points, one per segment. Neighbouring ranges share their
+   * boundary point so no time or distance falls between segments.
+   */
+  private static splitPoints(
+    points: TimedPoint[],
+    laps: ActivityLap[],
+    split: ActivitySplit
+  ): Array<{ from: number; to: number; lap?: ActivityLap }> {
+    const last = points.length - 1;
+
+    if (split.by === "lap") {
+      if (laps.length < 2) {
+        return [{ from: 0, to: last, lap: laps[0] }];
+      }
+
+      const starts = laps.map((lap) => new Date(lap.start_time).getTime());
+      const boundaries = starts.map((start) =>
+        Math.max(0, points.findIndex((point) => new Date(point.time).getTime() >= start))
+      );
+      return laps
+        .map((lap, index) => ({
+          from: boundaries[index],
+          to: index + 1 < laps.length ? boundaries[index + 1] : last,
+          lap,
+        }))
+        .filter((range) => range.to > range.from);
+    }
+
+    const size = split.by === "distance" ? split.meters : split.seconds;
+    if (!(size > 0)) {
+      throw new Error("Split size must be greater than zero");
+    }
+
+    const ranges: Array<{ from: number; to: number }> = [];
+    let from = 0;
+    let next = size;
+    points.forEach((point, index) => {
+      const position = split.by === "distance" ? point.distance : point.seconds;
+      if (index > from && position >= next) {
+        ranges.push({ from, to: index });
+        from = index;
+        next = Math.max(next + size, position + Number.EPSILON);
+      }
+    });
+    if (from < last) {
+      ranges.push({ from, to: last });
+    }
+    return ranges;
+  }
+
+  private static segmentLabel(split: ActivitySplit, number: number, lapCount: number): string {
+    if (split.by === "lap") {
+      return lapCount > 1 ? `Lap ${number}` : "Activity";
+    }
+    return `Split ${number}`;
+  }
+
+  private static toSegment(
+    points: TimedPoint[],
+    number: number,
+    label: string,
+    unit: DistanceUnit,
+    lap?: ActivityLap
+  ): CardioSegment {
+    const first = points[0];
+    const last = points[points.length - 1];
+    // Lap totals are moving time and device distance, so prefer them over the track
+    const duration = Math.round(lap?.duration_seconds ?? last.seconds - first.seconds);
+    const meters = lap?.distance_meters ?? last.distance - first.distance;
+    const distance = meters / METERS_PER_UNIT[unit];
+    const heartRate = this.heartRateStats(points);
+    const elevation = this.elevationChange(points);
+
+    return {
+      segment_number: number,
+      label,
+      duration_seconds: duration,
+      distance_value: meters > 0 ? Math.round(distance * 100) / 100 : undefined,
+      distance_unit: meters > 0 ? unit : undefined,
+      speed_mph_or_kph: meters > 0 && duration > 0 ? Math.round((distance / (duration / 3600)) * 10) / 10 : undefined,
+      pace_seconds_per_unit: meters > 0 && duration > 0 ? Math.round(duration / distance) : undefined,
+      average_heart_rate_bpm: heartRate.average,
+      max_heart_rate_bpm: heartRate.max,
+      elevation_gain_meters: elevation?.gain,
+      elevation_loss_meters: elevation?.loss,
+    };
+  }
+
+  private static heartRateStats(points: ActivityTrackPoint[]): { average?: number; max?: number } {
+    const samples = points
+      .map((point) => point.heart_rate_bpm)
+      .filter((bpm): bpm is number => bpm !== undefined && bpm > 0);
+    if (samples.length === 0) {
+      return {};
+    }
+    return {
+      average: Math.round(samples.reduce((sum, bpm) => sum + bpm, 0) / samples.length),
+      max: Math.max(...samples),
+    };
+  }
+
+  private static elevationChange(points: ActivityTrackPoint[]): { gain: number; loss: number } | undefined {
+    const elevations = points
+      .map((point) => point.elevation_meters)
+      .filter((meters): meters is number => meters !== undefined);
+    if (elevations.length < 2) {
+      return undefined;
+    }
+
+    let gain = 0;
+    let loss = 0;
+    for (let i = 1; i < elevations.length; i++) {
+      const change = elevations[i] - elevations[i - 1];
+      if (change > 0) gain += change;
+      else loss -= change;
+    }
+    return { gain: Math.round(gain), loss: Math.round(loss) };
+  }
+
+  private static guessMode(sport?: string): string {
+    const lower = (sport ?? "").toLowerCase();
+    if (/run/.test(lower)) return "outdoor_run";
+    if (/bik|cycl|ride/.test(lower)) return "bike";
+    if (/hik/.test(lower)) return "hike";
+    if (/walk/.test(lower)) return "outdoor_walk";
+    if (/swim/.test(lower)) return "swim";
+    return "other";
+  }
+
+  private static parseXml(buffer: ArrayBuffer): Document {
+    const document = new DOMParser().parseFromString(new TextDecoder().decode(buffer), "application/xml");
+    if (document.getElementsByTagName("parsererror").length > 0) {
+      throw new Error("The activity file is not valid XML");
+    }
+    return document;
+  }
+
+  // Namespace prefixes vary between exporters, so elements are found by local name
+  private static elements(parent: Document | Element, name: string): Element[] {
+    return Array.from(parent.getElementsByTagNameNS("*", name));
+  }
+
+  private static childText(parent: Element, name: string): string | undefined {
+    const child = Array.from(parent.children).find((element) => element.localName === name);
+    return child?.textContent?.trim() || undefined;
+  }
+
+  private static toNumber(value?: string | null): number | undefined {
+    if (value === undefined || value === null || value === "") return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  private static toISO(value?: string): string | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  // GPX: trk > trkseg > trkpt[lat, lon] > ele, time, extensions > TrackPointExtension > hr
+  private static parseGpx(document: Document): ParsedActivity {
+    const [track] = this.elements(document, "trk");
+    const points = this.elements(document, "trkpt").flatMap((element): ActivityTrackPoint[] => {
+      const time = this.toISO(this.childText(element, "time"));
+      if (!time) return [];
+      const [hr] = this.elements(element, "hr");
+      return [
+        {
+          time,
+          latitude: this.toNumber(element.getAttribute("lat")),
+          longitude: this.toNumber(element.getAttribute("lon")),
+          elevation_meters: this.toNumber(this.childText(element, "ele")),
+          heart_rate_bpm: this.toNumber(hr?.textContent?.trim()),
+        },
+      ];
+    });
+
+    return {
+      format: "gpx",
+      name: track ? this.childText(track, "name") : undefined,
+      sport: track ? this.childText(track, "type") : undefined,
+      start_time: points[0]?.time ?? "",
+      points,
+      laps: [],
+    };
+  }
+
+  // TCX: Activity[Sport] > Lap[StartTime] > Track > Trackpoint > Time, Position, AltitudeMeters, DistanceMeters, HeartRateBpm
+  private static parseTcx(document: Document): ParsedActivity {
+    const [activity] = this.elements(document, "Activity");
+    if (!activity) {
+      throw new Error("The TCX file has no activity");
+    }
+
+    const laps: ActivityLap[] = [];
+    const points: ActivityTrackPoint[] = [];
+    this.elements(activity, "Lap").forEach((lap) => {
+      const start = this.toISO(lap.getAttribute("StartTime") ?? undefined);
+      if (start) {
+        laps.push({
+          start_time: start,
+          duration_seconds: this.toNumber(this.childText(lap, "TotalTimeSeconds")),
+          distance_meters: this.toNumber(this.childText(lap, "DistanceMeters")),
+        });
+      }
+
+      this.elements(lap, "Trackpoint").forEach((element) => {
+        const time = this.toISO(this.childText(element, "Time"));
+        if (!time) return;
+        const [position] = this.elements(element, "Position");
+        const [heartRate] = this.elements(element, "HeartRateBpm");
+        points.push({
+          time,
+          latitude: position ? this.toNumber(this.childText(position, "LatitudeDegrees")) : undefined,
+          longitude: position ? this.toNumber(this.childText(position, "LongitudeDegrees")) : undefined,
+          elevation_meters: this.toNumber(this.childText(element, "AltitudeMeters")),
+          distance_meters: this.toNumber(this.childText(element, "DistanceMeters")),
+          heart_rate_bpm: heartRate ? this.toNumber(this.childText(heartRate, "Value")) : undefined,
+        });
+      });
+    });
+
+    return {
+      format: "tcx",
+      name: this.childText(activity, "Notes"),
+      sport: activity.getAttribute("Sport") ?? undefined,
+      start_time: this.toISO(this.childText(activity, "Id")) ?? laps[0]?.start_time ?? points[0]?.time ?? "",
+      points,
+      laps,
+    };
+  }
+
+  // FIT: record messages for the track, lap messages for laps, session for the sport
+  private static parseFit(buffer: ArrayBuffer): ParsedActivity {
+    const messages = FitDecoder.decode(buffer);
+    const number = (message: FitMessage, field: number) => {
+      const value = message.fields[field];
+      return typeof value === "number" ? value : undefined;
+    };
+
+    const points = messages
+      .filter((message) => message.global === FIT_RECORD)
+      .flatMap((message): ActivityTrackPoint[] => {
+        const timestamp = number(message, FIT_TIMESTAMP);
+        if (timestamp === undefined) return [];
+        const latitude = number(message, 0);
+        const longitude = number(message, 1);
+        // enhanced_altitude (78) supersedes altitude (2); both are scale 5, offset 500
+        const altitude = number(message, 78) ?? number(message, 2);
+        const distance = number(message, 5);
+        return [
+          {
+            time: FitDecoder.toISOString(timestamp),
+            latitude: latitude !== undefined ? FitDecoder.toDegrees(latitude) : undefined,
+            longitude: longitude !== undefined ? FitDecoder.toDegrees(longitude) : undefined,
+            elevation_meters: altitude !== undefined ? altitude / 5 - 500 : undefined,
+            distance_meters: distance !== undefined ? distance / 100 : undefined,
+            heart_rate_bpm: number(message, 3),
+          },
+        ];
+      });
+
+    const laps = messages
+      .filter((message) => message.global === FIT_LAP)
+      .flatMap((message): ActivityLap[] => {
+        const start = number(message, 2);
+        if (start === undefined) return [];
+        const timerTime = number(message, 8);
+        const distance = number(message, 9);
+        return [
+          {
+            start_time: FitDecoder.toISOString(start),
+            duration_seconds: timerTime !== undefined ? timerTime / 1000 : undefined,
+            distance_meters: distance !== undefined ? distance / 100 : undefined,
+          },
+        ];
+      })
+      .sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+    const session = messages.find((message) => message.global === FIT_SESSION);
+    const sport = session ? number(session, 5) : undefined;
+    const sessionStart = session ? number(session, 2) : undefined;
+
+    return {
+      format: "fit",
+      sport: sport !== undefined ? FIT_SPORTS[sport] : undefined,
+      start_time:
+        sessionStart !== undefined ? FitDecoder.toISOString(sessionStart) : laps[0]?.start_time ?? points[0]?.time ?? "",
+      points,
+      laps,
+    };
+  }
+}
@@ -0,0 +1,484 @@
+/**
+ * Backup service for full-fidelity archives of every object store
+ * Following cursor rules for error handling and type safety
+ *
+ * Archive layout:
+ *   8 bytes   magic "FTBACKUP"
+ *   4 bytes   manifest length (uint32, little endian)
+ *   manifest  UTF-8 JSON describing store sections and binary entries
+ *   payload   store sections (UTF-8 JSON arrays) followed by raw media blobs
+ *
+ * With a passphrase the whole archive is wrapped by CryptoService.sealFile.
+ */
+
+import { storageService } from "./storage";
+import type { UnitOfWork } from "./storageAdapter";
+import { CryptoService } from "./cryptoService";
+import { EncryptionService } from "./encryptionService";
+import { ProfileService } from "./profileService";
+import { getActiveProfileId, isScopedStore, isVisibleTo, ownerOf } from "./activeProfile";
+import { ValidationService } from "@/validators";
+import type {
+  AppSettings,
+  BackupArchive,
+  BackupBinaryEntry,
+  BackupConflict,
+  BackupManifest,
+  BackupOptions,
+  BackupStoreSection,
+  RestoreOptions,
+  RestoreReport,
+  RestoreStoreSummary,
+  StorageData,
+} from "@/types";
+
+type StoredRecord = Record<string, unknown>;
+
+export class BackupService {
+  static readonly FORMAT = "fitness-tracker-backup";
+  static readonly FORMAT_VERSION = 1;
+  static readonly FILE_EXTENSION = ".ftbackup";
+  static readonly MIME_TYPE = "application/octet-stream";
+
+  private static readonly MAGIC = "FTBACKUP";
+  private static readonly HEADER_SIZE = 12;
+  private static readonly MEDIA_STORE = "media";
+  private static readonly PROFILE_STORE = "profile";
+
+  // Stores whose records have a full Ajv schema; others get a structural check
+  private static readonly VALIDATORS: Record<string, (data: unknown) => unknown> = {
+    settings: (data) => ValidationService.validateAppSettings(data),
+    exercises: (data) => ValidationService.validateExercise(data),
+    workouts: (data) => ValidationService.validateWorkoutLog(data),
+    metrics: (data) => ValidationService.validateBodyMetricEntry(data),
+    baselines: (data) => ValidationService.validateBaselineTest(data),
+    glossary: (data) => ValidationService.validateGlossaryItem(data),
+    goals: (data) => ValidationService.validateGoal(data),
+    "body-measurements": (data) => ValidationService.validateBodyMeasurement(data),
+    "progress-photos": (data) => ValidationService.validateProgressPhoto(data),
+    profile: (data) => ValidationService.validateUserProfile(data),
+    preferences: (data) => ValidationService.validateUserPreferences(data),
+  };
+
+  /**
+   * Build an archive of every store, or with options.profileId of one
+   * profile. Blob fields are written as binary entries instead of being
+   * inlined into the JSON sections.
+   */
+  static async createArchive(options: BackupOptions = {}): Promise<Blob> {
+    try {
+      // Encrypted stores must decode (or fail while locked) rather than export sealed records
+      await EncryptionService.initialize();
+      const sections = new Map<string, StoredRecord[]>();
+      for (const name of await storageService.getStoreNames()) {
+        sections.set(name, await storageService.getAll<StoredRecord>(name));
+      }
+      if (options.profileId) {
+        this.scopeToProfile(sections, options.profileId);
+      }
+      const encoder = new TextEncoder();
+
+      const parts: BlobPart[] = [];
+      const stores: BackupStoreSection[] = [];
+      const binaries: BackupBinaryEntry[] = [];
+      const blobs: Blob[] = [];
+      let offset = 0;
+
+      for (const [name, records] of sections) {
+        const serializable = records.map((record) => {
+          const copy: StoredRecord = { ...record };
+
+          for (const [field, value] of Object.entries(record)) {
+            if (value instanceof Blob) {
+              delete copy[field];
+              binaries.push({
+                store: name,
+                id: String(record.id),
+                field,
+                mime_type: value.type,
+                offset: 0, // Assigned once the JSON sections are laid out
+                length: value.size,
+              });
+              blobs.push(value);
+            }
+          }
+
+          return copy;
+        });
+
+        const bytes = encoder.encode(JSON.stringify(serializable));
+        stores.push({ name, count: records.length, offset, length: bytes.byteLength });
+        parts.push(bytes);
+        offset += bytes.byteLength;
+      }
+
+      binaries.forEach((entry, index) => {
+        entry.offset = offset;
+        offset += blobs[index].size;
+      });
+
+      const manifest: BackupManifest = {
+        format: this.FORMAT,
+        format_version: this.FORMAT_VERSION,
+        created_at: new Date().toISOString(),
+        schema_version: storageService.getSchemaVersion(),
+        data_version: await this.getDataVersion(),
+        stores,
+        binaries,
+        app_settings: options.appSettings,
+        profile_id: options.profileId,
+      };
+
+      const manifestBytes = encoder.encode(JSON.stringify(manifest));
+      const header = new Uint8Array(this.HEADER_SIZE);
+      header.set(encoder.encode(this.MAGIC), 0);
+      new DataView(header.buffer).setUint32(8, manifestBytes.byteLength, true);
+
+      const archive = new Blob([header, manifestBytes, ...parts, ...blobs], {
+        type: this.MIME_TYPE,
+      });
+
+      return options.passphrase ? await CryptoService.sealFile(archive, options.passphrase) : archive;
+    } catch (error) {
+      console.error("Failed to create backup archive:", error);
+      throw new Error(`Backup creation failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Create an archive and trigger a browser download
+   */
+  static async downloadArchive(options: BackupOptions = {}): Promise<void> {
+    const archive = await this.createArchive(options);
+    const url = URL.createObjectURL(archive);
+    const date = new Date().toISOString().split("T")[0];
+
+    const linkElement = document.createElement("a");
+    linkElement.setAttribute("href", url);
+    linkElement.setAttribute("download", `fitness-tracker-backup-${date}${this.FILE_EXTENSION}`);
+    linkElement.click();
+
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * Check whether an archive needs a passphrase before it can be read
+   */
+  static async isEncrypted(file: Blob): Promise<boolean> {
+    return CryptoService.isSealedFile(await file.slice(0, 64).arrayBuffer());
+  }
+
+  /**
+   * Parse an archive back into store records with media blobs reattached.
+   * Encrypted archives throw PassphraseRequiredError or WrongPassphraseError.
+   */
+  static async readArchive(file: Blob, passphrase?: string): Promise<BackupArchive> {
+    let buffer = await file.arrayBuffer();
+    const encrypted = CryptoService.isSealedFile(buffer);
+    if (encrypted) {
+      buffer = await CryptoService.openFile(buffer, passphrase);
+    }
+    const decoder = new TextDecoder();
+
+    if (
+      buffer.byteLength < this.HEADER_SIZE ||
+      decoder.decode(buffer.slice(0, this.MAGIC.length)) !== this.MAGIC
+    ) {
+      throw new Error("Not a fitness tracker backup file");
+    }
+
+    const manifestLength = new DataView(buffer).getUint32(8, true);
+    const payloadStart = this.HEADER_SIZE + manifestLength;
+    if (payloadStart > buffer.byteLength) {
+      throw new Error("Backup file is truncated");
+    }
+
+    let manifest: BackupManifest;
+    try {
+      manifest = JSON.parse(decoder.decode(buffer.slice(this.HEADER_SIZE, payloadStart)));
+    } catch {
+      throw new Error("Backup manifest is corrupted");
+    }
+
+    if (manifest.format !== this.FORMAT) {
+      throw new Error("Not a fitness tracker backup file");
+    }
+    if (manifest.format_version > this.FORMAT_VERSION) {
+      throw new Error(
+        `Backup format v${manifest.format_version} is newer than this app supports (v${this.FORMAT_VERSION})`
+      );
+    }
+
+    const slice = (offset: number, length: number): ArrayBuffer => {
+      const start = payloadStart + offset;
+      if (offset < 0 || start + length > buffer.byteLength) {
+        throw new Error("Backup file is truncated");
+      }
+      return buffer.slice(start, start + length);
+    };
+
+    const stores: Record<string, StoredRecord[]> = {};
+    for (const section of manifest.stores) {
+      try {
+        stores[section.name] = JSON.parse(decoder.decode(slice(section.offset, section.length)));
+      } catch (error) {
+        throw new Error(`Backup section ${section.name} is corrupted: ${(error as Error).message}`);
+      }
+    }
+
+    for (const entry of manifest.binaries) {
+      const record = stores[entry.store]?.find((item) => item.id === entry.id);
+      if (record) {
+        record[entry.field] = new Blob([slice(entry.offset, entry.length)], {
+          type: entry.mime_type,
+        });
+      }
+    }
+
+    return { manifest, encrypted, stores };
+  }
+
+  /**
+   * Restore an archive. Merge mode keeps local records that are not in the
+   * backup and settles conflicts per options.conflictStrategy; replace mode
+   * clears every store in the backup first. A single-profile archive is
+   * restored into the active profile, and replace mode then only clears that
+   * profile's records. All writes land in one transaction.
+   */
+  static async restoreArchive(file: Blob, options: RestoreOptions): Promise<RestoreReport> {
+    const { manifest, encrypted, stores } = await this.readArchive(file, options.passphrase);
+    const strategy = options.conflictStrategy ?? "newest";
+
+    const localSchemaVersion = storageService.getSchemaVersion();
+    if (manifest.schema_version > localSchemaVersion) {
+      throw new Error(
+        `Backup was made with schema v${manifest.schema_version}; update the app before restoring`
+      );
+    }
+
+    await EncryptionService.initialize();
+    const localStores = new Set(await storageService.getStoreNames());
+    const mediaKeys = new Set(manifest.binaries.map((entry) => `${entry.store}:${entry.id}`));
+    const sourceProfileId = manifest.profile_id;
+    const profileId = getActiveProfileId();
+
+    const report: RestoreReport = {
+      mode: options.mode,
+      dry_run: options.dryRun ?? false,
+      encrypted,
+      created_at: manifest.created_at,
+      stores: [],
+      conflicts: [],
+      invalid: [],
+      unknown_stores: [],
+      media_restored: 0,
+      app_settings: manifest.app_settings,
+      profile_id: sourceProfileId ? profileId : undefined,
+    };
+
+    const unitOfWork = storageService.beginUnitOfWork();
+
+    for (const [storeName, records] of Object.entries(stores)) {
+      if (!localStores.has(storeName)) {
+        report.unknown_stores.push(storeName);
+        continue;
+      }
+
+      const summary: RestoreStoreSummary = {
+        store: storeName,
+        total: records.length,
+        restored: 0,
+        skipped: 0,
+      };
+
+      if (options.mode === "replace") {
+        await this.stageClear(unitOfWork, storeName, sourceProfileId ? profileId : null);
+      }
+
+      for (const archived of records) {
+        const record = sourceProfileId
+          ? this.intoProfile(storeName, archived, sourceProfileId, profileId)
+          : archived;
+        const errors = this.validateRecord(storeName, record);
+        if (errors.length > 0) {
+          report.invalid.push({ store: storeName, id: String(record.id ?? "unknown"), errors });
+          summary.skipped++;
+          continue;
+        }
+
+        const local =
+          options.mode === "merge" || sourceProfileId
+            ? await storageService.get<StoredRecord>(storeName, String(record.id))
+            : null;
+        if (sourceProfileId && local && isScopedStore(storeName) && !isVisibleTo(local, profileId)) {
+          // Same id as a record of another profile on this device; restoring would take it over
+          report.invalid.push({ store: storeName, id: String(record.id), errors: ["Belongs to another profile"] });
+          summary.skipped++;
+          continue;
+        }
+
+        if (options.mode === "merge") {
+          if (local) {
+            const conflict = this.resolveConflict(storeName, local, record, strategy);
+            if (conflict) {
+              report.conflicts.push(conflict);
+              if (conflict.resolution === "kept-local") {
+                summary.skipped++;
+                continue;
+              }
+            }
+          }
+        }
+
+        unitOfWork.put(storeName, record as unknown as StorageData);
+        summary.restored++;
+        if (mediaKeys.has(`${storeName}:${record.id}`)) {
+          report.media_restored++;
+        }
+      }
+
+      report.stores.push(summary);
+    }
+
+    if (!report.dry_run) {
+      try {
+        await unitOfWork.commit();
+      } catch (error) {
+        console.error("Failed to restore backup:", error);
+        throw new Error(`Restore failed: ${(error as Error).message}`);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Keep one profile's records, the shared catalog and the media those
+   * reference. Device settings stay in.
+   */
+  private static scopeToProfile(sections: Map<string, StoredRecord[]>, profileId: string): void {
+    const referencedMedia = new Set<string>();
+
+    for (const [name, records] of sections) {
+      if (name === this.PROFILE_STORE) {
+        sections.set(name, records.filter((record) => record.id === profileId));
+      } else if (isScopedStore(name)) {
+        const kept = records.filter((record) => isVisibleTo(record, profileId));
+        kept.forEach((record) => ProfileService.mediaReferences(record).forEach((id) => referencedMedia.add(id)));
+        sections.set(name, kept);
+      }
+    }
+
+    const media = sections.get(this.MEDIA_STORE);
+    if (media) {
+      sections.set(this.MEDIA_STORE, media.filter((record) => referencedMedia.has(String(record.id))));
+    }
+  }
+
+  /**
+   * Hand a record from a single-profile archive to the profile it's restored into
+   */
+  private static intoProfile(
+    storeName: string,
+    record: StoredRecord,
+    sourceProfileId: string,
+    profileId: string
+  ): StoredRecord {
+    if (storeName === this.PROFILE_STORE) {
+      return { ...record, id: profileId };
+    }
+    if (isScopedStore(storeName) && ownerOf(record) === sourceProfileId) {
+      return { ...record, profile_id: profileId };
+    }
+    return record;
+  }
+
+  /**
+   * Stage replace mode's clearing of a store: all of it, or with a profile
+   * only that profile's records. Device-level stores aren't cleared for a
+   * single profile since other profiles rely on them.
+   */
+  private static async stageClear(
+    unitOfWork: UnitOfWork,
+    storeName: string,
+    profileId: string | null
+  ): Promise<void> {
+    if (!profileId) {
+      unitOfWork.clear(storeName);
+      return;
+    }
+    if (!isScopedStore(storeName)) {
+      return;
+    }
+
+    const records = await storageService.getAll<StorageData>(storeName);
+    records
+      .filter((record) => ownerOf(record) === profileId)
+      .forEach((record) => unitOfWork.delete(storeName, record.id));
+  }
+
+  /**
+   * Validate a record against its store schema, returning error messages
+   */
+  private static validateRecord(storeName: string, record: StoredRecord): string[] {
+    if (typeof record.id !== "string" || record.id.length === 0) {
+      return ["id is required"];
+    }
+
+    const validator = this.VALIDATORS[storeName];
+    if (!validator) {
+      return [];
+    }
+
+    try {
+      validator(record);
+      return [];
+    } catch (error) {
+      return [(error as Error).message];
+    }
+  }
+
+  /**
+   * Decide which copy wins when a record exists locally and in the backup.
+   * Returns null when both copies are the same revision.
+   */
+  private static resolveConflict(
+    storeName: string,
+    local: StoredRecord,
+    incoming: StoredRecord,
+    strategy: NonNullable<RestoreOptions["conflictStrategy"]>
+  ): BackupConflict | null {
+    const localUpdated = String(local.updated_at ?? "");
+    const backupUpdated = String(incoming.updated_at ?? "");
+
+    if (localUpdated === backupUpdated && local.version === incoming.version) {
+      return null;
+    }
+
+    let useBackup: boolean;
+    if (strategy === "use-backup") {
+      useBackup = true;
+    } else if (strategy === "keep-local") {
+      useBackup = false;
+    } else {
+      useBackup =
+        backupUpdated === localUpdated
+          ? Number(incoming.version ?? 0) > Number(local.version ?? 0)
+          : backupUpdated > localUpdated;
+    }
+
+    return {
+      store: storeName,
+      id: String(incoming.id),
+      local_updated_at: localUpdated,
+      backup_updated_at: backupUpdated,
+      resolution: useBackup ? "used-backup" : "kept-local",
+    };
+  }
+
+  private static async getDataVersion(): Promise<number> {
+    const settings = await storageService.get<AppSettings>("settings", "app-settings-v1");
+    return settings?.data_version ?? 0;
+  }
+}
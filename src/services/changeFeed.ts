@@ -0,0 +1,94 @@
+/**
+ * Delivers committed writes to listeners in this tab and, when given a
+ * channel name, to the same adapter in other tabs via BroadcastChannel
+ */
+
+import type {
+  ChangeRecord,
+  StorageChange,
+  StorageChangeListener,
+  WriteOperation,
+} from "./storageAdapter";
+
+export class ChangeFeed {
+  private readonly listeners = new Set<StorageChangeListener>();
+  private channel: BroadcastChannel | null = null;
+
+  /**
+   * @param onRemote Runs before listeners hear about another tab's changes,
+   * e.g. to reload state those changes invalidated
+   */
+  constructor(
+    private readonly channelName: string | null,
+    private readonly onRemote?: (changes: ChangeRecord[]) => Promise<void> | void
+  ) {}
+
+  /**
+   * Listen for committed writes. Each call receives every change from one write or transaction.
+   */
+  subscribe(listener: StorageChangeListener): () => void {
+    this.listeners.add(listener);
+    this.connect();
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start receiving other tabs' changes even before anyone subscribes
+   */
+  connect(): void {
+    if (this.channel || !this.channelName || typeof BroadcastChannel === "undefined") {
+      return;
+    }
+
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (event: MessageEvent<ChangeRecord[]>) => {
+      Promise.resolve(this.onRemote?.(event.data))
+        .catch((error) => console.error("Failed to apply changes from another tab:", error))
+        .then(() => this.notify(event.data.map((change) => ({ ...change, origin: "remote" }))));
+    };
+  }
+
+  /**
+   * Announce committed writes to listeners here and in other tabs
+   */
+  emit(changes: ChangeRecord[]): void {
+    if (changes.length === 0) {
+      return;
+    }
+
+    this.notify(changes.map((change) => ({ ...change, origin: "local" })));
+    this.connect();
+    this.channel?.postMessage(changes);
+  }
+
+  /**
+   * Describe the changes a committed list of writes made
+   */
+  static changesFor(operations: WriteOperation[]): ChangeRecord[] {
+    return operations.map((operation) => ({
+      store: operation.storeName,
+      id: operation.type === "put"
+        ? operation.data.id
+        : operation.type === "delete" ? operation.id : null,
+      operation: operation.type,
+    }));
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  private notify(changes: StorageChange[]): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(changes);
+      } catch (error) {
+        console.error("Storage change listener failed:", error);
+      }
+    });
+  }
+}
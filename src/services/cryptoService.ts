@@ -0,0 +1,166 @@
+/**
+ * Passphrase-based encryption helpers using WebCrypto
+ * PBKDF2 (SHA-256) derives an AES-GCM key; GCM authentication detects wrong passphrases
+ */
+
+export class WrongPassphraseError extends Error {
+  constructor(message: string = "Incorrect passphrase") {
+    super(message);
+    this.name = "WrongPassphraseError";
+  }
+}
+
+export class PassphraseRequiredError extends Error {
+  constructor(message: string = "A passphrase is required to open this file") {
+    super(message);
+    this.name = "PassphraseRequiredError";
+  }
+}
+
+export interface SealedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export class CryptoService {
+  static readonly PBKDF2_ITERATIONS = 310000;
+  static readonly MIN_PASSPHRASE_LENGTH = 8;
+
+  private static readonly SALT_BYTES = 16;
+  private static readonly IV_BYTES = 12;
+
+  // Sealed file layout: magic, iterations (uint32 LE), salt, iv, ciphertext
+  private static readonly FILE_MAGIC = "FTCRYPT1";
+  private static readonly FILE_HEADER_SIZE = 8 + 4 + 16 + 12;
+
+  /**
+   * Check that WebCrypto is available (secure contexts only)
+   */
+  static isSupported(): boolean {
+    return typeof crypto !== "undefined" && typeof crypto.subtle !== "undefined";
+  }
+
+  static generateSalt(): Uint8Array<ArrayBuffer> {
+    return crypto.getRandomValues(new Uint8Array(this.SALT_BYTES));
+  }
+
+  /**
+   * Reject passphrases too short to resist guessing
+   */
+  static assertPassphrase(passphrase: string): void {
+    if (passphrase.length < this.MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${this.MIN_PASSPHRASE_LENGTH} characters`);
+    }
+  }
+
+  /**
+   * Derive a non-extractable AES-GCM key from a passphrase
+   */
+  static async deriveKey(
+    passphrase: string,
+    salt: Uint8Array<ArrayBuffer>,
+    iterations: number = this.PBKDF2_ITERATIONS
+  ): Promise<CryptoKey> {
+    if (!this.isSupported()) {
+      throw new Error("Encryption is not supported in this browser");
+    }
+
+    const material = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(passphrase),
+      "PBKDF2",
+      false,
+      ["deriveKey"]
+    );
+
+    return crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+      material,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  static async encrypt(key: CryptoKey, plaintext: BufferSource): Promise<SealedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(this.IV_BYTES));
+    const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+    return { iv, data };
+  }
+
+  /**
+   * Decrypt a sealed value. A failed GCM tag check means the key
+   * came from a different passphrase (or the data was tampered with).
+   */
+  static async decrypt(key: CryptoKey, sealed: SealedValue): Promise<ArrayBuffer> {
+    try {
+      return await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: sealed.iv as Uint8Array<ArrayBuffer> },
+        key,
+        sealed.data
+      );
+    } catch (error) {
+      if ((error as Error).name === "OperationError") {
+        throw new WrongPassphraseError();
+      }
+      throw error;
+    }
+  }
+
+  static async encryptJson(key: CryptoKey, value: unknown): Promise<SealedValue> {
+    return this.encrypt(key, new TextEncoder().encode(JSON.stringify(value)));
+  }
+
+  static async decryptJson<T>(key: CryptoKey, sealed: SealedValue): Promise<T> {
+    const plaintext = await this.decrypt(key, sealed);
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  }
+
+  /**
+   * Check whether file contents were produced by sealFile
+   */
+  static isSealedFile(buffer: ArrayBuffer): boolean {
+    return (
+      buffer.byteLength >= this.FILE_HEADER_SIZE &&
+      new TextDecoder().decode(buffer.slice(0, this.FILE_MAGIC.length)) === this.FILE_MAGIC
+    );
+  }
+
+  /**
+   * Encrypt a whole file with its own salt so it can be opened on any device
+   */
+  static async sealFile(file: Blob, passphrase: string): Promise<Blob> {
+    this.assertPassphrase(passphrase);
+
+    const salt = this.generateSalt();
+    const key = await this.deriveKey(passphrase, salt);
+    const { iv, data } = await this.encrypt(key, await file.arrayBuffer());
+
+    const header = new Uint8Array(this.FILE_HEADER_SIZE);
+    header.set(new TextEncoder().encode(this.FILE_MAGIC), 0);
+    new DataView(header.buffer).setUint32(8, this.PBKDF2_ITERATIONS, true);
+    header.set(salt, 12);
+    header.set(iv, 12 + this.SALT_BYTES);
+
+    return new Blob([header, data], { type: file.type });
+  }
+
+  /**
+   * Decrypt a file produced by sealFile
+   */
+  static async openFile(buffer: ArrayBuffer, passphrase?: string): Promise<ArrayBuffer> {
+    if (!this.isSealedFile(buffer)) {
+      throw new Error("File is not encrypted");
+    }
+    if (!passphrase) {
+      throw new PassphraseRequiredError();
+    }
+
+    const iterations = new DataView(buffer).getUint32(8, true);
+    const salt = new Uint8Array(buffer.slice(12, 12 + this.SALT_BYTES));
+    const iv = new Uint8Array(buffer.slice(12 + this.SALT_BYTES, this.FILE_HEADER_SIZE));
+    const key = await this.deriveKey(passphrase, salt, iterations);
+
+    return this.decrypt(key, { iv, data: buffer.slice(this.FILE_HEADER_SIZE) });
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Analysis-friendly exports of training and body data
+ * Following cursor rules for error handling and type safety
+ *
+ * Unlike the backup archive these files are flat: one row per performed set,
+ * cardio segment, body metric entry or baseline test, written as CSV or JSON
+ * Lines so spreadsheets and coaching tools can read them directly.
+ */
+
+import { baselineRepository, metricsRepository, workoutRepository } from "@/repositories";
+import { CsvParser } from "@/utils/csv";
+import { UnitConverter } from "@/utils/units";
+import type {
+  BaselineTestEntry,
+  BodyMetricEntry,
+  CardioEntry,
+  CardioSegment,
+  DataExportDataset,
+  DataExportFile,
+  DataExportOptions,
+  DataExportRow,
+  DataExportValue,
+  PerformedSet,
+  StrengthEntry,
+  WorkoutLogEntry,
+} from "@/types";
+
+type Column<T> = [name: string, value: (record: T, options: DataExportOptions) => DataExportValue | undefined];
+
+interface SetRecord {
+  workout: WorkoutLogEntry;
+  entry: StrengthEntry;
+  set: PerformedSet;
+}
+
+interface SegmentRecord {
+  workout: WorkoutLogEntry;
+  entry: CardioEntry;
+  segment: CardioSegment;
+}
+
+const workoutColumns = <T extends { workout: WorkoutLogEntry }>(): Column<T>[] => [
+  ["workout_id", ({ workout }) => workout.id],
+  ["date", ({ workout }) => workout.date_time_start.slice(0, 10)],
+  ["started_at", ({ workout }) => workout.date_time_start],
+  ["session_title", ({ workout }) => workout.session_title],
+];
+
+const SET_COLUMNS: Column<SetRecord>[] = [
+  ...workoutColumns<SetRecord>(),
+  ["exercise_id", ({ entry }) => entry.exercise_id],
+  ["exercise_name", ({ entry }) => entry.exercise_name],
+  ["exercise_order", ({ entry }) => entry.order_index + 1],
+  ["set_number", ({ set }) => set.set_number],
+  ["set_type", ({ set }) => set.set_type ?? "working"],
+  ["repetitions", ({ set }) => set.repetitions_done],
+  ["extra_repetitions", ({ set }) => set.sub_sets?.map((subSet) => subSet.repetitions_done).join("+")],
+  ["weight", ({ set }, { weightUnit }) =>
+    set.weight_value !== undefined && set.weight_unit && weightUnit
+      ? UnitConverter.convertWeight(set.weight_value, set.weight_unit, weightUnit)
+      : set.weight_value],
+  ["weight_unit", ({ set }, { weightUnit }) => (set.weight_value !== undefined ? weightUnit ?? set.weight_unit : undefined)],
+  ["rpe", ({ set }) => set.rpe_score],
+  ["perceived_effort", ({ set }) => set.perceived_effort_text],
+  ["rest_seconds", ({ set }) => set.rest_seconds_observed],
+  ["form_breakdown", ({ set }) => set.form_breakdown],
+  ["pain_back", ({ set }) => set.pain_back_0_to_10],
+  ["pain_knee", ({ set }) => set.pain_knee_0_to_10],
+  ["pain_shoulder", ({ set }) => set.pain_shoulder_0_to_10],
+  ["pain_other_location", ({ set }) => set.pain_other_location],
+  ["pain_other", ({ set }) => set.pain_other_0_to_10],
+  ["tempo_notes", ({ set }) => set.tempo_notes],
+  ["notes", ({ set }) => set.notes],
+];
+
+const SEGMENT_COLUMNS: Column<SegmentRecord>[] = [
+  ...workoutColumns<SegmentRecord>(),
+  ["exercise_id", ({ entry }) => entry.exercise_id],
+  ["exercise_name", ({ entry }) => entry.exercise_name],
+  ["mode", ({ entry }) => entry.mode],
+  ["segment_number", ({ segment }) => segment.segment_number],
+  ["label", ({ segment }) => segment.label],
+  ["duration_seconds", ({ segment }) => segment.duration_seconds],
+  ["distance", ({ segment }) => segment.distance_value],
+  ["distance_unit", ({ segment }) => segment.distance_unit],
+  ["speed", ({ segment }) => segment.speed_mph_or_kph],
+  ["pace_seconds_per_unit", ({ segment }) => segment.pace_seconds_per_unit],
+  ["incline_percent", ({ segment }) => segment.incline_percent],
+  ["resistance_level", ({ segment }) => segment.resistance_level],
+  ["average_heart_rate_bpm", ({ segment }) => segment.average_heart_rate_bpm],
+  ["max_heart_rate_bpm", ({ segment }) => segment.max_heart_rate_bpm],
+  ["elevation_gain_meters", ({ segment }) => segment.elevation_gain_meters],
+  ["elevation_loss_meters", ({ segment }) => segment.elevation_loss_meters],
+  ["perceived_effort", ({ segment }) => segment.perceived_effort],
+  ["notes", ({ segment }) => segment.notes],
+];
+
+const METRIC_COLUMNS: Column<BodyMetricEntry>[] = [
+  ["id", (metric) => metric.id],
+  ["date", (metric) => metric.date],
+  ["measurement_time", (metric) => metric.measurement_time],
+  ["body_weight", (metric, { weightUnit }) =>
+    weightUnit ? UnitConverter.convertWeight(metric.body_weight, metric.weight_unit, weightUnit) : metric.body_weight],
+  ["weight_unit", (metric, { weightUnit }) => weightUnit ?? metric.weight_unit],
+  ["body_fat_percent", (metric) => metric.body_fat_percent],
+  ["body_muscle_percent", (metric) => metric.body_muscle_percent],
+  ["hydration_percent", (metric) => metric.hydration_percent],
+  ["bone_mass", (metric) => metric.bone_mass],
+  ["visceral_fat_rating", (metric) => metric.visceral_fat_rating],
+  ["metabolic_age", (metric) => metric.metabolic_age],
+  ["measurement_device", (metric) => metric.measurement_device],
+  ["notes", (metric) => metric.notes],
+];
+
+// Baseline 1RMs are always recorded in pounds, as their field names say
+const BASELINE_COLUMNS: Column<BaselineTestEntry>[] = [
+  ["id", (test) => test.id],
+  ["month", (test) => test.month],
+  ["test_date", (test) => test.test_date],
+  ["rockport_time_mm_ss", (test) => test.rockport_time_mm_ss],
+  ["rockport_finish_heart_rate_bpm", (test) => test.rockport_finish_heart_rate_bpm],
+  ["twelve_minute_distance", (test) => test.twelve_minute_distance],
+  ["twelve_minute_distance_unit", (test) => test.twelve_minute_distance_unit],
+  ["twelve_minute_average_heart_rate_bpm", (test) => test.twelve_minute_average_heart_rate_bpm],
+  ["longest_continuous_jog_minutes", (test) => test.longest_continuous_jog_minutes],
+  ["best_one_minute_heart_rate_drop_bpm", (test) => test.best_one_minute_heart_rate_drop_bpm],
+  ["resting_heart_rate_bpm", (test) => test.resting_heart_rate_bpm],
+  ["blood_pressure_systolic", (test) => test.blood_pressure_systolic],
+  ["blood_pressure_diastolic", (test) => test.blood_pressure_diastolic],
+  ["bench_press_1rm_lb", (test) => test.bench_press_1rm_lb],
+  ["squat_1rm_lb", (test) => test.squat_1rm_lb],
+  ["deadlift_1rm_lb", (test) => test.deadlift_1rm_lb],
+  ["overhead_press_1rm_lb", (test) => test.overhead_press_1rm_lb],
+  ["pull_up_max_reps", (test) => test.pull_up_max_reps],
+  ["push_up_max_reps", (test) => test.push_up_max_reps],
+  ["plank_max_seconds", (test) => test.plank_max_seconds],
+  ["sit_and_reach_inches", (test) => test.sit_and_reach_inches],
+  ["overhead_reach_test_pass", (test) => test.overhead_reach_test_pass],
+  ["temperature_f", (test) => test.test_conditions?.temperature_f],
+  ["humidity_percent", (test) => test.test_conditions?.humidity_percent],
+  ["time_of_day", (test) => test.test_conditions?.time_of_day],
+  ["pre_test_nutrition", (test) => test.test_conditions?.pre_test_nutrition],
+  ["sleep_hours_previous_night", (test) => test.test_conditions?.sleep_hours_previous_night],
+  ["notes", (test) => test.notes],
+];
+
+export class DataExportService {
+  static readonly DATASET_LABELS: Record<DataExportDataset, string> = {
+    sets: "Strength sets",
+    cardio_segments: "Cardio segments",
+    body_metrics: "Body metrics",
+    baselines: "Baseline tests",
+  };
+
+  static readonly COLUMNS: Record<DataExportDataset, string[]> = {
+    sets: SET_COLUMNS.map(([name]) => name),
+    cardio_segments: SEGMENT_COLUMNS.map(([name]) => name),
+    body_metrics: METRIC_COLUMNS.map(([name]) => name),
+    baselines: BASELINE_COLUMNS.map(([name]) => name),
+  };
+
+  /**
+   * Build the rows of a dataset, oldest first, limited to the date range
+   * and the chosen columns
+   */
+  static async getRows(options: DataExportOptions): Promise<{ columns: string[]; rows: DataExportRow[] }> {
+    switch (options.dataset) {
+      case "sets":
+        return this.project(SET_COLUMNS, await this.getSetRecords(options), options);
+      case "cardio_segments":
+        return this.project(SEGMENT_COLUMNS, await this.getSegmentRecords(options), options);
+      case "body_metrics": {
+        const [start, end] = this.dateBounds(options);
+        const metrics = await metricsRepository.getByDateRange(start, end);
+        return this.project(METRIC_COLUMNS, this.sortBy(metrics, (metric) => metric.date), options);
+      }
+      case "baselines": {
+        const [start, end] = this.dateBounds(options);
+        const tests = await baselineRepository.getByDateRange(start, end);
+        return this.project(BASELINE_COLUMNS, this.sortBy(tests, (test) => test.test_date), options);
+      }
+    }
+  }
+
+  /**
+   * Export a dataset as CSV or JSON Lines text
+   */
+  static async createFile(options: DataExportOptions): Promise<DataExportFile> {
+    try {
+      const { columns, rows } = await this.getRows(options);
+      const content =
+        options.format === "csv"
+          ? CsvParser.stringify([columns, ...rows.map((row) => columns.map((column) => row[column]))])
+          : rows.map((row) => JSON.stringify(row)).join("\n");
+
+      const range = [options.startDate, options.endDate].filter(Boolean).join("_to_");
+      const name = `fitness-tracker-${options.dataset.replace(/_/g, "-")}${range ? `-${range}` : ""}`;
+
+      return {
+        file_name: `${name}.${options.format}`,
+        mime_type: options.format === "csv" ? "text/csv" : "application/x-ndjson",
+        content,
+        rows: rows.length,
+        columns,
+      };
+    } catch (error) {
+      throw new Error(`Export failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Export a dataset and trigger a browser download
+   */
+  static async downloadFile(options: DataExportOptions): Promise<DataExportFile> {
+    const file = await this.createFile(options);
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mime_type }));
+
+    const linkElement = document.createElement("a");
+    linkElement.setAttribute("href", url);
+    linkElement.setAttribute("download", file.file_name);
+    linkElement.click();
+
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return file;
+  }
+
+  private static async getWorkouts(options: DataExportOptions): Promise<WorkoutLogEntry[]> {
+    const [start, end] = this.dateBounds(options);
+    const workouts = await workoutRepository.getByDateRange(start, end);
+    return this.sortBy(workouts, (workout) => workout.date_time_start);
+  }
+
+  private static async getSetRecords(options: DataExportOptions): Promise<SetRecord[]> {
+    return (await this.getWorkouts(options)).flatMap((workout) =>
+      workout.entries
+        .filter((entry): entry is StrengthEntry => entry.type === "strength")
+        .flatMap((entry) => entry.performed_sets.map((set) => ({ workout, entry, set })))
+    );
+  }
+
+  private static async getSegmentRecords(options: DataExportOptions): Promise<SegmentRecord[]> {
+    return (await this.getWorkouts(options)).flatMap((workout) =>
+      workout.entries
+        .filter((entry): entry is CardioEntry => entry.type === "cardio")
+        .flatMap((entry) => entry.segments.map((segment) => ({ workout, entry, segment })))
+    );
+  }
+
+  private static project<T>(
+    definitions: Column<T>[],
+    records: T[],
+    options: DataExportOptions
+  ): { columns: string[]; rows: DataExportRow[] } {
+    const selected = options.columns?.length
+      ? options.columns.map((name) => {
+          const column = definitions.find(([columnName]) => columnName === name);
+          if (!column) {
+            throw new Error(`Unknown column "${name}" for ${this.DATASET_LABELS[options.dataset].toLowerCase()}`);
+          }
+          return column;
+        })
+      : definitions;
+
+    return {
+      columns: selected.map(([name]) => name),
+      rows: records.map((record) =>
+        Object.fromEntries(selected.map(([name, value]) => [name, value(record, options) ?? null]))
+      ),
+    };
+  }
+
+  // Open-ended ranges still go through the indexed date queries
+  private static dateBounds(options: DataExportOptions): [string, string] {
+    return [options.startDate || "0000-01-01", options.endDate || "9999-12-31"];
+  }
+
+  private static sortBy<T>(records: T[], key: (record: T) => string): T[] {
+    return [...records].sort((a, b) => key(a).localeCompare(key(b)));
+  }
+}
@@ -5,6 +5,10 @@
 
 import { exerciseRepository, settingsRepository, planRepository } from "@/repositories";
 import { storageService } from "./storage";
+import { getStorageAdapter, getUnscopedStorageAdapter } from "./storageBackend";
+import { SHARED_PROFILE_ID } from "./activeProfile";
+import { MigrationService } from "./migration";
+import { EncryptionService } from "./encryptionService";
 import { ValidationService } from "@/validators";
 import { starterExercises } from "@/data/starterExercises";
 import { starterGlossary } from "@/data/starterGlossary";
@@ -24,17 +28,12 @@ export class DataInitService {
   }> {
     try {
       // Ensure storage is initialized first
-      await storageService.initialize();
+      await getStorageAdapter().initialize();
+      await this.shareStarterCatalog();
 
-      // Check if database is ready
-      if (!storageService.isReady()) {
-        console.warn("Database not ready for initialization");
-        throw new Error("Database not ready");
-      }
-
-      // Check if we've already initialized
+      // Check if we've already initialized (the catalog is shared, so once per device)
       const existingExercises = await exerciseRepository.count();
-      const existingGlossary = await storageService.count("glossary");
+      const existingGlossary = await getStorageAdapter().count("glossary");
       const existingPlans = await planRepository.count();
 
       if (existingExercises > 0 || existingGlossary > 0 || existingPlans > 0) {
@@ -70,6 +69,40 @@ export class DataInitService {
     }
   }
 
+  /**
+   * Share starter catalog records saved before a device could hold several
+   * profiles with every profile. Custom exercises, terms and plans stay with
+   * the profile that made them.
+   */
+  private static async shareStarterCatalog(): Promise<void> {
+    const storage = getUnscopedStorageAdapter();
+    const exerciseNames = new Set(starterExercises.map((exercise) => exercise.name));
+    const terms = new Set(starterGlossary.map((item) => item.term));
+    const templateTitles = new Set(starterPlanTemplates.map((template) => template.title));
+
+    const [exercises, glossary, plans] = await Promise.all([
+      storage.getAll<ExerciseCatalogItem>("exercises"),
+      storage.getAll<GlossaryItem>("glossary"),
+      storage.getAll<ProgramPlan>("plans"),
+    ]);
+
+    const unitOfWork = storage.beginUnitOfWork();
+    const share = <T extends ExerciseCatalogItem | GlossaryItem | ProgramPlan>(
+      storeName: string,
+      records: T[],
+      isStarter: (record: T) => boolean
+    ) => {
+      records
+        .filter((record) => !record.profile_id && isStarter(record))
+        .forEach((record) => unitOfWork.put(storeName, { ...record, profile_id: SHARED_PROFILE_ID }));
+    };
+
+    share("exercises", exercises, (exercise) => exerciseNames.has(exercise.name));
+    share("glossary", glossary, (item) => terms.has(item.term));
+    share("plans", plans, (plan) => plan.is_template && templateTitles.has(plan.title));
+    await unitOfWork.commit();
+  }
+
   /**
    * Initialize starter exercises
    */
@@ -82,6 +115,7 @@ export class DataInitService {
         const exercise: ExerciseCatalogItem = {
           ...exerciseData,
           id: crypto.randomUUID(),
+          profile_id: SHARED_PROFILE_ID,
           created_at: now,
           updated_at: now,
           version: 1,
@@ -112,6 +146,7 @@ export class DataInitService {
         const glossaryItem: GlossaryItem = {
           ...glossaryData,
           id: crypto.randomUUID(),
+          profile_id: SHARED_PROFILE_ID,
           created_at: now,
           updated_at: now,
           version: 1,
@@ -120,7 +155,7 @@ export class DataInitService {
         // Validate before saving
         ValidationService.validateGlossaryItem(glossaryItem);
         
-        await storageService.save("glossary", glossaryItem);
+        await getStorageAdapter().save("glossary", glossaryItem);
         addedCount++;
       } catch (error) {
         console.error(`Failed to add glossary term ${glossaryData.term}:`, error);
@@ -142,6 +177,7 @@ export class DataInitService {
         const template: ProgramPlan = {
           ...templateData,
           id: crypto.randomUUID(),
+          profile_id: SHARED_PROFILE_ID,
           created_at: now,
           updated_at: now,
           version: 1,
@@ -182,9 +218,9 @@ export class DataInitService {
     glossaryAdded: number;
   }> {
     try {
-      // Clear existing data
-      await storageService.clear("exercises");
-      await storageService.clear("glossary");
+      // Clear existing data for every profile, since the catalog is shared
+      await getUnscopedStorageAdapter().clear("exercises");
+      await getUnscopedStorageAdapter().clear("glossary");
 
       // Re-initialize
       const exercisesAdded = await this.initializeExercises();
@@ -207,20 +243,10 @@ export class DataInitService {
   }> {
     try {
       // Ensure storage is initialized first
-      await storageService.initialize();
-
-      // Check if database is ready
-      if (!storageService.isReady()) {
-        console.warn("Database not ready, returning safe defaults");
-        return {
-          exerciseCount: 0,
-          glossaryCount: 0,
-          isInitialized: false,
-        };
-      }
+      await getStorageAdapter().initialize();
 
       const exerciseCount = await exerciseRepository.count();
-      const glossaryCount = await storageService.count("glossary");
+      const glossaryCount = await getStorageAdapter().count("glossary");
 
       return {
         exerciseCount,
@@ -243,7 +269,15 @@ export class DataInitService {
    */
   static async ensureStorageInitialized(): Promise<void> {
     try {
-      await storageService.initialize();
+      await getStorageAdapter().initialize();
+
+      // Device-local stores (media, keyring, sync state) live in IndexedDB
+      // whichever adapter holds the records; outside the browser there are none
+      if (typeof indexedDB !== "undefined") {
+        await storageService.initialize();
+        await MigrationService.autoMigrate();
+        await EncryptionService.initialize();
+      }
     } catch (error) {
       console.error("Failed to initialize storage:", error);
       throw error;
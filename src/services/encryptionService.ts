@@ -0,0 +1,244 @@
+/**
+ * Opt-in at-rest encryption for sensitive stores
+ * Records keep their id, timestamps and index keys in clear so queries still work;
+ * every other field is sealed with a key derived from the user's passphrase.
+ * The key lives in memory only and must be unlocked once per session.
+ */
+
+import { storageService, type RecordCodec } from "./storage";
+import type { UnitOfWork } from "./storageAdapter";
+import { KEYRING_STORE } from "./schemaMigrations";
+import { CryptoService, WrongPassphraseError, type SealedValue } from "./cryptoService";
+import type { StorageData } from "@/types";
+
+export class EncryptedDataLockedError extends Error {
+  constructor(storeName: string) {
+    super(`Encrypted data (${storeName}) is locked. Unlock it with your passphrase in Settings.`);
+    this.name = "EncryptedDataLockedError";
+  }
+}
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  unlocked: boolean;
+  stores: string[];
+}
+
+interface KeyringRecord extends StorageData {
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  verifier: SealedValue; // Known plaintext used to check a passphrase
+  stores: string[];
+}
+
+type SealedRecord = StorageData & { sealed?: SealedValue };
+
+export class EncryptionService {
+  private static readonly KEYRING_ID = "at-rest-v1";
+  private static readonly VERIFIER_TEXT = "fitness-tracker";
+
+  // Fields kept in clear per store: index key paths the repositories query on
+  private static readonly CLEAR_FIELDS: Record<string, string[]> = {
+    "progress-photos": ["date", "photo_type", "measurements_id"],
+    metrics: ["date", "weight_unit"],
+  };
+  // The owner and trash stamps stay readable for the count indexes
+  private static readonly META_FIELDS = [
+    "id",
+    "created_at",
+    "updated_at",
+    "version",
+    "timestamp",
+    "profile_id",
+    "deleted_at",
+  ];
+
+  static readonly ENCRYPTED_STORES = Object.keys(EncryptionService.CLEAR_FIELDS);
+
+  private static key: CryptoKey | null = null;
+
+  /**
+   * Install codecs for stores that were encrypted in a previous session.
+   * Until unlock() succeeds their reads fail with EncryptedDataLockedError.
+   */
+  static async initialize(): Promise<void> {
+    const keyring = await this.getKeyring();
+    if (keyring) {
+      this.installCodecs(keyring.stores);
+    }
+  }
+
+  static async getStatus(): Promise<EncryptionStatus> {
+    const keyring = await this.getKeyring();
+    return {
+      enabled: keyring !== null,
+      unlocked: keyring !== null && this.key !== null,
+      stores: keyring?.stores ?? [],
+    };
+  }
+
+  /**
+   * Encrypt the sensitive stores in place. Existing records are rewritten
+   * in the same transaction that stores the keyring.
+   */
+  static async enable(passphrase: string): Promise<void> {
+    CryptoService.assertPassphrase(passphrase);
+    if (await this.getKeyring()) {
+      throw new Error("Encryption is already enabled");
+    }
+
+    const salt = CryptoService.generateSalt();
+    const key = await CryptoService.deriveKey(passphrase, salt);
+    const now = new Date().toISOString();
+    const keyring: KeyringRecord = {
+      id: this.KEYRING_ID,
+      salt,
+      iterations: CryptoService.PBKDF2_ITERATIONS,
+      verifier: await CryptoService.encryptJson(key, this.VERIFIER_TEXT),
+      stores: this.ENCRYPTED_STORES,
+      created_at: now,
+      updated_at: now,
+      version: 1,
+    };
+
+    // Read while the stores are still plain, then seal on the way back in
+    const existing = await this.readStores(keyring.stores);
+
+    this.key = key;
+    this.installCodecs(keyring.stores);
+
+    try {
+      await this.rewriteStores(existing, (unitOfWork) => unitOfWork.put(KEYRING_STORE, keyring));
+    } catch (error) {
+      this.key = null;
+      this.removeCodecs(keyring.stores);
+      throw error;
+    }
+  }
+
+  /**
+   * Unlock encrypted stores for this session
+   */
+  static async unlock(passphrase: string): Promise<void> {
+    const keyring = await this.getKeyring();
+    if (!keyring) {
+      throw new Error("Encryption is not enabled");
+    }
+
+    const key = await CryptoService.deriveKey(passphrase, keyring.salt, keyring.iterations);
+    try {
+      const text = await CryptoService.decryptJson<string>(key, keyring.verifier);
+      if (text !== this.VERIFIER_TEXT) {
+        throw new WrongPassphraseError();
+      }
+    } catch (error) {
+      if (error instanceof WrongPassphraseError) {
+        throw error;
+      }
+      throw new WrongPassphraseError();
+    }
+
+    this.key = key;
+    this.installCodecs(keyring.stores);
+  }
+
+  /**
+   * Forget the session key; encrypted stores become unreadable until unlocked again
+   */
+  static lock(): void {
+    this.key = null;
+  }
+
+  static isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Decrypt the stores in place and remove the keyring
+   */
+  static async disable(passphrase: string): Promise<void> {
+    await this.unlock(passphrase);
+    const keyring = (await this.getKeyring())!;
+
+    const existing = await this.readStores(keyring.stores);
+    this.removeCodecs(keyring.stores);
+
+    try {
+      await this.rewriteStores(existing, (unitOfWork) =>
+        unitOfWork.delete(KEYRING_STORE, keyring.id)
+      );
+      this.key = null;
+    } catch (error) {
+      this.installCodecs(keyring.stores);
+      throw error;
+    }
+  }
+
+  private static async getKeyring(): Promise<KeyringRecord | null> {
+    return storageService.get<KeyringRecord>(KEYRING_STORE, this.KEYRING_ID);
+  }
+
+  private static async readStores(stores: string[]): Promise<Map<string, StorageData[]>> {
+    const records = new Map<string, StorageData[]>();
+    for (const store of stores) {
+      records.set(store, await storageService.getAll<StorageData>(store));
+    }
+    return records;
+  }
+
+  private static async rewriteStores(
+    records: Map<string, StorageData[]>,
+    stage: (unitOfWork: UnitOfWork) => void
+  ): Promise<void> {
+    const unitOfWork = storageService.beginUnitOfWork();
+    records.forEach((items, store) => {
+      items.forEach((item) => unitOfWork.put(store, item));
+    });
+    stage(unitOfWork);
+    await unitOfWork.commit();
+  }
+
+  private static installCodecs(stores: string[]): void {
+    stores.forEach((store) => storageService.setRecordCodec(store, this.createCodec(store)));
+  }
+
+  private static removeCodecs(stores: string[]): void {
+    stores.forEach((store) => storageService.setRecordCodec(store, null));
+  }
+
+  private static createCodec(storeName: string): RecordCodec {
+    const clearFields = new Set([...this.META_FIELDS, ...(this.CLEAR_FIELDS[storeName] ?? [])]);
+
+    return {
+      encode: async (record) => {
+        if (!this.key) {
+          throw new EncryptedDataLockedError(storeName);
+        }
+
+        const clear: Record<string, unknown> = {};
+        const secret: Record<string, unknown> = {};
+        Object.entries(record).forEach(([field, value]) => {
+          (clearFields.has(field) ? clear : secret)[field] = value;
+        });
+
+        return {
+          ...(clear as unknown as StorageData),
+          sealed: await CryptoService.encryptJson(this.key, secret),
+        } as SealedRecord;
+      },
+
+      decode: async (record) => {
+        const { sealed, ...clear } = record as SealedRecord;
+        if (!sealed) {
+          return record; // Written before encryption was enabled
+        }
+        if (!this.key) {
+          throw new EncryptedDataLockedError(storeName);
+        }
+
+        const secret = await CryptoService.decryptJson<Record<string, unknown>>(this.key, sealed);
+        return { ...secret, ...clear } as StorageData;
+      },
+    };
+  }
+}
@@ -4,7 +4,8 @@ import type {
   StrengthStandard, 
   CardioStandard, 
   FitnessLevel, 
-  BaselineTestEntry 
+  BaselineTestEntry,
+  ProfileInputs
 } from '@/types';
 
 /**
@@ -405,6 +406,21 @@ export class FitnessStandardsService {
     return { overall, strength, cardio };
   }
 
+  /**
+   * Comprehensive assessment with age and sex from the user profile,
+   * or null while the profile is missing either
+   */
+  static getProfileFitnessLevel(
+    baseline: BaselineTestEntry,
+    bodyWeightLb: number,
+    profile: ProfileInputs
+  ): ReturnType<typeof FitnessStandardsService.getComprehensiveFitnessLevel> | null {
+    if (!profile.age || !profile.gender) {
+      return null;
+    }
+    return this.getComprehensiveFitnessLevel(baseline, bodyWeightLb, profile.age, profile.gender);
+  }
+
   /**
    * Private helper methods
    */
@@ -0,0 +1,327 @@
+/**
+ * Body metrics import from Apple Health and Google Fit
+ * Following cursor rules for error handling and type safety
+ *
+ * Reads Apple Health's export.xml and Google Takeout Fit JSON files, keeps
+ * the first weigh-in of each day as a body metric entry and folds resting
+ * heart rate into the monthly baseline. Days already in the log are skipped.
+ */
+
+import { baselineRepository, metricsRepository } from "@/repositories";
+import { DateUtils } from "@/utils/dateUtils";
+import { UnitConverter } from "@/utils/units";
+import type {
+  BaselineTestEntry,
+  BodyMetricEntry,
+  HealthImportOptions,
+  HealthImportReport,
+  HealthImportSkipped,
+  HealthImportSource,
+  HealthMetric,
+  HealthSample,
+} from "@/types";
+
+interface ParsedHealthExport {
+  source: HealthImportSource;
+  samples: HealthSample[];
+  skipped: HealthImportSkipped[];
+  ignored: number;
+}
+
+const APPLE_TYPES: Record<string, HealthMetric> = {
+  HKQuantityTypeIdentifierBodyMass: "body_weight",
+  HKQuantityTypeIdentifierBodyFatPercentage: "body_fat_percent",
+  HKQuantityTypeIdentifierRestingHeartRate: "resting_heart_rate",
+};
+
+const GOOGLE_FIT_TYPES: Record<string, HealthMetric> = {
+  "com.google.weight": "body_weight",
+  "com.google.body.fat.percentage": "body_fat_percent",
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+// Google Takeout has written both shapes over the years
+interface GoogleFitPoint {
+  dataTypeName?: string;
+  startTimeNanos?: string | number;
+  fitValue?: Array<{ value?: { fpVal?: number; intVal?: number } }>;
+  value?: Array<{ fpVal?: number; intVal?: number }>;
+}
+
+export class HealthImportService {
+  static readonly SOURCE_LABELS: Record<HealthImportSource, string> = {
+    apple_health: "Apple Health",
+    google_fit: "Google Fit",
+  };
+
+  /**
+   * Recognize an export by its content
+   */
+  static detectSource(text: string): HealthImportSource | null {
+    const head = text.slice(0, 4096);
+    if (/<HealthData[\s>]/.test(head)) return "apple_health";
+    if (/"(Data Points|point|dataSourceId|Data Source)"/.test(head)) return "google_fit";
+    return null;
+  }
+
+  /**
+   * Parse one export file into samples of the metrics this import reads
+   */
+  static parse(text: string): ParsedHealthExport {
+    const source = this.detectSource(text);
+    if (!source) {
+      throw new Error("Unrecognized export: expected Apple Health export.xml or a Google Fit JSON file");
+    }
+    return source === "apple_health" ? this.parseAppleHealth(text) : this.parseGoogleFit(text);
+  }
+
+  /**
+   * Import one or more export files, or with options.dryRun report what
+   * importing would do. Importing the same export twice adds nothing.
+   */
+  static async importExports(
+    texts: string[],
+    options: HealthImportOptions = {}
+  ): Promise<HealthImportReport> {
+    const parsed = texts.map((text) => this.parse(text));
+    const samples = parsed.flatMap((file) => file.samples);
+    const skipped = parsed.flatMap((file) => file.skipped);
+    const dryRun = options.dryRun ?? false;
+
+    const metrics = await this.buildMetricEntries(samples, options.weightUnit ?? "kg", skipped);
+    const baselines = await this.buildBaselines(
+      samples.filter((sample) => sample.metric === "resting_heart_rate"),
+      skipped
+    );
+
+    if (!dryRun) {
+      if (metrics.length > 0) {
+        await metricsRepository.saveBatch(metrics);
+      }
+      if (baselines.created.length > 0) {
+        await baselineRepository.saveBatch(baselines.created);
+      }
+      for (const baseline of baselines.updated) {
+        await baselineRepository.update(baseline.id, {
+          resting_heart_rate_bpm: baseline.resting_heart_rate_bpm,
+        });
+      }
+    }
+
+    const dates = metrics.map((metric) => metric.date).sort();
+    return {
+      sources: Array.from(new Set(parsed.map((file) => file.source))),
+      dry_run: dryRun,
+      metric_entries: metrics.length,
+      baselines_created: baselines.created.length,
+      baselines_updated: baselines.updated.length,
+      first_date: dates[0] ?? null,
+      last_date: dates[dates.length - 1] ?? null,
+      skipped,
+      ignored_records: parsed.reduce((sum, file) => sum + file.ignored, 0),
+    };
+  }
+
+  /**
+   * One entry per day from its first weigh-in, with body fat from the same
+   * day. Days that already have an entry are left alone.
+   */
+  private static async buildMetricEntries(
+    samples: HealthSample[],
+    weightUnit: "kg" | "lb",
+    skipped: HealthImportSkipped[]
+  ): Promise<BodyMetricEntry[]> {
+    const byDay = new Map<string, { weight?: HealthSample; bodyFat?: HealthSample }>();
+    const earliest = (current: HealthSample | undefined, sample: HealthSample) => {
+      if (!current) return sample;
+      const [kept, dropped] = (sample.time ?? "") < (current.time ?? "") ? [sample, current] : [current, sample];
+      skipped.push({ date: dropped.date, metric: dropped.metric, reason: "An earlier reading that day was used" });
+      return kept;
+    };
+
+    samples.forEach((sample) => {
+      if (sample.metric === "resting_heart_rate") return;
+      const day = byDay.get(sample.date) ?? {};
+      if (sample.metric === "body_weight") {
+        day.weight = earliest(day.weight, sample);
+      } else {
+        day.bodyFat = earliest(day.bodyFat, sample);
+      }
+      byDay.set(sample.date, day);
+    });
+
+    const now = DateUtils.getCurrentDateTime();
+    const entries: BodyMetricEntry[] = [];
+    for (const [date, { weight, bodyFat }] of Array.from(byDay.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      if (!weight) {
+        skipped.push({ date, metric: "body_fat_percent", reason: "No body weight recorded that day" });
+        continue;
+      }
+      if (await metricsRepository.existsForDate(date)) {
+        skipped.push({ date, metric: "body_weight", reason: "Already in your body metrics" });
+        continue;
+      }
+
+      entries.push({
+        id: crypto.randomUUID(),
+        date,
+        body_weight: UnitConverter.convertWeight(weight.value, "kg", weightUnit),
+        weight_unit: weightUnit,
+        body_fat_percent: bodyFat ? Math.round(bodyFat.value * 10) / 10 : undefined,
+        measurement_device: weight.device,
+        measurement_time: weight.time,
+        created_at: now,
+        updated_at: now,
+        version: 1,
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Average resting heart rate per month into that month's baseline entry,
+   * creating the entry when the month has none. Months whose baseline already
+   * has a resting heart rate keep it.
+   */
+  private static async buildBaselines(
+    samples: HealthSample[],
+    skipped: HealthImportSkipped[]
+  ): Promise<{ created: BaselineTestEntry[]; updated: BaselineTestEntry[] }> {
+    const byMonth = new Map<string, HealthSample[]>();
+    samples.forEach((sample) => {
+      const month = sample.date.slice(0, 7);
+      byMonth.set(month, [...(byMonth.get(month) ?? []), sample]);
+    });
+
+    const now = DateUtils.getCurrentDateTime();
+    const created: BaselineTestEntry[] = [];
+    const updated: BaselineTestEntry[] = [];
+    for (const [month, monthSamples] of byMonth) {
+      const average = Math.round(monthSamples.reduce((sum, sample) => sum + sample.value, 0) / monthSamples.length);
+      const lastDate = monthSamples.map((sample) => sample.date).sort()[monthSamples.length - 1];
+      const existing = await baselineRepository.getByMonth(month);
+
+      if (existing?.resting_heart_rate_bpm !== undefined) {
+        skipped.push({ date: lastDate, metric: "resting_heart_rate", reason: `The ${month} baseline already has a resting heart rate` });
+      } else if (existing) {
+        updated.push({ ...existing, resting_heart_rate_bpm: average });
+      } else {
+        created.push({
+          id: crypto.randomUUID(),
+          month,
+          test_date: lastDate,
+          resting_heart_rate_bpm: average,
+          notes: `Resting heart rate averaged over ${monthSamples.length} days of imported health data`,
+          created_at: now,
+          updated_at: now,
+          version: 1,
+        });
+      }
+    }
+    return { created, updated };
+  }
+
+  // Apple Health: <Record type="HKQuantityTypeIdentifierBodyMass" unit="kg" startDate="2024-03-15 07:12:00 +0100" value="72.4" .../>
+  // The export can run to hundreds of megabytes, so records are scanned rather than parsed into a DOM
+  private static parseAppleHealth(text: string): ParsedHealthExport {
+    const samples: HealthSample[] = [];
+    const skipped: HealthImportSkipped[] = [];
+    let ignored = 0;
+
+    for (const [tag] of text.matchAll(/<Record\s[^>]*>/g)) {
+      const attributes = this.attributes(tag);
+      const metric = APPLE_TYPES[attributes.type];
+      if (!metric) {
+        ignored++;
+        continue;
+      }
+
+      // Dates carry the device's offset, so the first characters are already the local day and time
+      const dateTime = attributes.startDate?.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})/);
+      const value = Number(attributes.value);
+      if (!dateTime || !Number.isFinite(value)) {
+        ignored++;
+        continue;
+      }
+
+      const [, date, time] = dateTime;
+      const converted = this.appleValue(metric, value, attributes.unit);
+      if (converted === null) {
+        skipped.push({ date, metric, reason: `Unsupported unit "${attributes.unit}"` });
+        continue;
+      }
+      samples.push({ metric, date, time, value: converted, device: attributes.sourceName || undefined });
+    }
+
+    return { source: "apple_health", samples, skipped, ignored };
+  }
+
+  private static appleValue(metric: HealthMetric, value: number, unit?: string): number | null {
+    if (metric === "body_weight") {
+      if (unit === "kg") return value;
+      if (unit === "lb") return UnitConverter.poundsToKg(value);
+      if (unit === "g") return value / 1000;
+      return null;
+    }
+    if (metric === "body_fat_percent") {
+      // Apple stores body fat as a fraction with unit "%"
+      return value <= 1 ? value * 100 : value;
+    }
+    return value;
+  }
+
+  private static attributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const [, name, value] of tag.matchAll(/(\w+)="([^"]*)"/g)) {
+      attributes[name] = value.replace(/&(#\d+|\w+);/g, (entity, code: string) =>
+        code.startsWith("#") ? String.fromCharCode(Number(code.slice(1))) : XML_ENTITIES[code] ?? entity
+      );
+    }
+    return attributes;
+  }
+
+  // Google Fit: {"Data Source": ..., "Data Points": [{ dataTypeName, startTimeNanos, fitValue: [{ value: { fpVal } }] }]}
+  private static parseGoogleFit(text: string): ParsedHealthExport {
+    let json: { "Data Points"?: GoogleFitPoint[]; point?: GoogleFitPoint[]; "Data Source"?: string };
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error("The Google Fit file is not valid JSON");
+    }
+
+    const samples: HealthSample[] = [];
+    let ignored = 0;
+    (json["Data Points"] ?? json.point ?? []).forEach((point) => {
+      const metric = GOOGLE_FIT_TYPES[point.dataTypeName ?? ""];
+      const raw = point.fitValue?.[0]?.value ?? point.value?.[0];
+      const value = raw?.fpVal ?? raw?.intVal;
+      const nanos = Number(point.startTimeNanos);
+      if (!metric || value === undefined || !Number.isFinite(nanos)) {
+        ignored++;
+        return;
+      }
+
+      const taken = new Date(nanos / 1e6);
+      samples.push({
+        metric,
+        date: this.localDate(taken),
+        time: `${String(taken.getHours()).padStart(2, "0")}:${String(taken.getMinutes()).padStart(2, "0")}`,
+        value,
+        device: "Google Fit",
+      });
+    });
+
+    return { source: "google_fit", samples, skipped: [], ignored };
+  }
+
+  private static localDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+  }
+}
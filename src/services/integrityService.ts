@@ -0,0 +1,490 @@
+/**
+ * Cross-store referential integrity checks and repairs
+ * Following cursor rules for error handling and type safety
+ *
+ * MigrationService.validateDataIntegrity checks each record's shape; this
+ * checks that the references between records resolve. Repairs are applied
+ * in one unit of work, so a failed repair leaves the data as it was.
+ */
+
+import { getStorageAdapter } from "./storageBackend";
+import { MediaService } from "./mediaService";
+import { DateUtils } from "@/utils/dateUtils";
+import type {
+  BodyMeasurement,
+  CompletedSession,
+  ExerciseCatalogItem,
+  GlossaryItem,
+  IntegrityCategory,
+  IntegrityIssue,
+  IntegrityRepair,
+  IntegrityRepairChoice,
+  IntegrityRepairResult,
+  IntegrityReport,
+  MediaItem,
+  ProgramPlan,
+  ProgressPhoto,
+  Session,
+  SessionPath,
+  StorageData,
+  WorkoutLogEntry,
+} from "@/types";
+
+type StoredRecord = StorageData & Record<string, unknown>;
+
+interface Snapshot {
+  exercises: ExerciseCatalogItem[];
+  workouts: WorkoutLogEntry[];
+  plans: ProgramPlan[];
+  completedSessions: CompletedSession[];
+  glossary: GlossaryItem[];
+  measurements: BodyMeasurement[];
+  photos: ProgressPhoto[];
+  mediaIds: Set<string>;
+}
+
+type Reference = Omit<IntegrityIssue, "id" | "store" | "record_id" | "record_label">;
+
+const STORES = {
+  exercises: "exercises",
+  workouts: "workouts",
+  plans: "plans",
+  completedSessions: "completed_sessions",
+  glossary: "glossary",
+  measurements: "body-measurements",
+  photos: "progress-photos",
+} as const;
+
+export class IntegrityService {
+  static readonly CATEGORY_LABELS: Record<IntegrityCategory, string> = {
+    exercise: "Missing exercises",
+    plan_session: "Workouts linked to missing plan sessions",
+    completed_session: "Completed sessions outside their plan",
+    media: "Missing exercise and glossary media",
+    progress_photo: "Missing progress photos",
+    glossary_term: "Unknown related glossary terms",
+  };
+
+  static readonly REPAIR_LABELS: Record<IntegrityRepair, string> = {
+    relink: "Relink by name",
+    remove: "Remove dangling reference",
+    create_stub: "Recreate missing record",
+  };
+
+  /**
+   * Scan every store for references that don't resolve
+   */
+  static async scan(): Promise<IntegrityReport> {
+    const snapshot = await this.loadSnapshot();
+    const exerciseIds = new Set(snapshot.exercises.map((exercise) => exercise.id));
+    const exerciseNames = this.nameIndex(snapshot.exercises);
+    const planSessions = this.sessionIndex(snapshot.plans);
+    const plansById = new Map(snapshot.plans.map((plan) => [plan.id, plan]));
+    const terms = new Map(snapshot.glossary.map((item) => [this.normalize(item.term), item.term]));
+    const photoIds = new Set(snapshot.photos.map((photo) => photo.id));
+    const issues: IntegrityIssue[] = [];
+
+    const report = (store: string, record: StorageData, label: string, references: Reference[]) => {
+      references.forEach((reference) => {
+        issues.push({
+          id: `${store}:${record.id}:${reference.path.join(".")}`,
+          store,
+          record_id: record.id,
+          record_label: label,
+          ...reference,
+        });
+      });
+    };
+
+    snapshot.workouts.forEach((workout) => {
+      const references: Reference[] = [];
+      workout.entries.forEach((entry, index) => {
+        // Imported cardio has no catalog exercise to point at
+        if (entry.exercise_id === undefined || exerciseIds.has(entry.exercise_id)) return;
+        const match = exerciseNames.get(this.normalize(entry.exercise_name ?? ""));
+        references.push({
+          category: "exercise",
+          path: ["entries", index, "exercise_id"],
+          reference: entry.exercise_id,
+          repairs: match ? ["relink", "create_stub", "remove"] : ["create_stub", "remove"],
+          relink: match ? { value: match.id, label: match.name } : undefined,
+        });
+      });
+
+      if (workout.session_plan_ref && !planSessions.byId.has(workout.session_plan_ref)) {
+        // Older sessions stored the session title instead of its id
+        const match = planSessions.byTitle.get(this.normalize(workout.session_plan_ref));
+        references.push({
+          category: "plan_session",
+          path: ["session_plan_ref"],
+          reference: workout.session_plan_ref,
+          repairs: match ? ["relink", "remove"] : ["remove"],
+          relink: match ? { value: match.id, label: match.title } : undefined,
+        });
+      }
+
+      report(STORES.workouts, workout, `Workout on ${workout.date_time_start.slice(0, 10)}`, references);
+    });
+
+    snapshot.plans.forEach((plan) => {
+      const references: Reference[] = [];
+      this.forEachSession(plan, (session, path) => {
+        session.exercises.forEach((prescription, index) => {
+          if (exerciseIds.has(prescription.exercise_id)) return;
+          references.push({
+            category: "exercise",
+            path: [...this.sessionLocation(path), "exercises", index, "exercise_id"],
+            reference: prescription.exercise_id,
+            repairs: ["create_stub", "remove"],
+          });
+        });
+      });
+      report(STORES.plans, plan, plan.title, references);
+    });
+
+    snapshot.completedSessions.forEach((completed) => {
+      const plan = plansById.get(completed.plan_id);
+      const session = plan ? this.sessionAt(plan, completed.session_path) : undefined;
+      if (session?.id === completed.session_id) return;
+
+      const moved = plan ? planSessions.byId.get(completed.session_id) : undefined;
+      const relinked = moved && moved.planId === plan!.id ? moved : undefined;
+      report(STORES.completedSessions, completed, `Session completed ${completed.completion_date.slice(0, 10)}`, [
+        {
+          category: "completed_session",
+          path: plan ? ["session_path"] : ["plan_id"],
+          reference: plan ? completed.session_id : completed.plan_id,
+          repairs: relinked ? ["relink", "remove"] : ["remove"],
+          relink: relinked ? { value: relinked.path, label: relinked.title } : undefined,
+        },
+      ]);
+    });
+
+    const checkMedia = (media: MediaItem[]): Reference[] =>
+      media.flatMap((item, index): Reference[] =>
+        this.isStoredMedia(item.source) && !snapshot.mediaIds.has(item.source)
+          ? [{ category: "media", path: ["media", index, "source"], reference: item.source, repairs: ["remove"] }]
+          : []
+      );
+    snapshot.exercises.forEach((exercise) => {
+      report(STORES.exercises, exercise, exercise.name, checkMedia(exercise.media ?? []));
+    });
+
+    snapshot.glossary.forEach((item) => {
+      const references = checkMedia(item.media ?? []);
+      item.related_terms.forEach((term, index) => {
+        const canonical = terms.get(this.normalize(term));
+        if (canonical === term) return;
+        references.push({
+          category: "glossary_term",
+          path: ["related_terms", index],
+          reference: term,
+          repairs: canonical ? ["relink", "remove"] : ["remove", "create_stub"],
+          relink: canonical ? { value: canonical, label: canonical } : undefined,
+        });
+      });
+      report(STORES.glossary, item, item.term, references);
+    });
+
+    snapshot.measurements.forEach((measurement) => {
+      const references = (measurement.progress_photo_ids ?? []).flatMap((photoId, index): Reference[] =>
+        photoIds.has(photoId) || snapshot.mediaIds.has(photoId)
+          ? []
+          : [{ category: "progress_photo", path: ["progress_photo_ids", index], reference: photoId, repairs: ["remove"] }]
+      );
+      report(STORES.measurements, measurement, `Measurements on ${measurement.date}`, references);
+    });
+
+    return {
+      scanned_at: DateUtils.getCurrentDateTime(),
+      records_scanned: {
+        [STORES.exercises]: snapshot.exercises.length,
+        [STORES.workouts]: snapshot.workouts.length,
+        [STORES.plans]: snapshot.plans.length,
+        [STORES.completedSessions]: snapshot.completedSessions.length,
+        [STORES.glossary]: snapshot.glossary.length,
+        [STORES.measurements]: snapshot.measurements.length,
+        [STORES.photos]: snapshot.photos.length,
+        media: snapshot.mediaIds.size,
+      },
+      issues,
+    };
+  }
+
+  /**
+   * Apply repairs atomically. Each record is re-read first, and the write
+   * only lands if nothing changed it since, so a repair planned from an
+   * older scan can't clobber newer edits.
+   */
+  static async repair(choices: IntegrityRepairChoice[]): Promise<IntegrityRepairResult> {
+    const storage = getStorageAdapter();
+    const result: IntegrityRepairResult = {
+      repaired: 0,
+      records_updated: 0,
+      records_deleted: 0,
+      stubs_created: 0,
+      skipped: [],
+    };
+
+    const byRecord = new Map<string, IntegrityRepairChoice[]>();
+    choices.forEach((choice) => {
+      if (!choice.issue.repairs.includes(choice.repair)) {
+        result.skipped.push({ issue_id: choice.issue.id, reason: `${choice.repair} does not apply to this issue` });
+        return;
+      }
+      const key = `${choice.issue.store}:${choice.issue.record_id}`;
+      byRecord.set(key, [...(byRecord.get(key) ?? []), choice]);
+    });
+
+    const now = DateUtils.getCurrentDateTime();
+    const unitOfWork = storage.beginUnitOfWork();
+    const stubs = new Map<string, { store: string; record: StoredRecord }>();
+
+    for (const recordChoices of byRecord.values()) {
+      const { store, record_id } = recordChoices[0].issue;
+      const record = await storage.get<StoredRecord>(store, record_id);
+      if (!record) {
+        recordChoices.forEach(({ issue }) => result.skipped.push({ issue_id: issue.id, reason: "Record no longer exists" }));
+        continue;
+      }
+
+      // The completed session itself is the dangling reference
+      if (recordChoices.some(({ issue, repair }) => issue.category === "completed_session" && repair === "remove")) {
+        unitOfWork.delete(store, record_id);
+        result.records_deleted++;
+        result.repaired += recordChoices.length;
+        continue;
+      }
+
+      const copy = structuredClone(record);
+      const removals: Array<Array<string | number>> = [];
+      let changed = false;
+      for (const { issue, repair } of recordChoices) {
+        if (this.isStale(record, issue)) {
+          result.skipped.push({ issue_id: issue.id, reason: "Changed since the scan" });
+          continue;
+        }
+
+        result.repaired++;
+        if (repair === "create_stub") {
+          const stub = this.createStub(issue, record, now);
+          const key = issue.category === "glossary_term" ? this.normalize(issue.reference) : issue.reference;
+          stubs.set(`${stub.store}:${key}`, stub);
+          continue;
+        }
+
+        changed = true;
+        if (repair === "relink") {
+          this.setAt(copy, issue.path, issue.relink!.value);
+          // Workout entries cache the exercise name next to its id
+          if (issue.category === "exercise" && issue.store === STORES.workouts) {
+            this.setAt(copy, [...issue.path.slice(0, -1), "exercise_name"], issue.relink!.label);
+          }
+        } else {
+          removals.push(this.removalPath(issue.path));
+        }
+      }
+
+      if (!changed) {
+        continue;
+      }
+
+      // Remove from the back so earlier array indexes stay valid
+      removals
+        .sort((a, b) => this.comparePaths(b, a))
+        .forEach((path) => this.removeAt(copy, path));
+      unitOfWork.put(
+        store,
+        { ...copy, updated_at: now, version: record.version + 1 },
+        { expectedVersion: record.version }
+      );
+      result.records_updated++;
+    }
+
+    for (const { store, record } of stubs.values()) {
+      if (!(await storage.get(store, record.id))) {
+        unitOfWork.put(store, record);
+        result.stubs_created++;
+      }
+    }
+
+    await unitOfWork.commit();
+    return result;
+  }
+
+  private static async loadSnapshot(): Promise<Snapshot> {
+    const storage = getStorageAdapter();
+    const [exercises, workouts, plans, completedSessions, glossary, measurements, photos, media] = await Promise.all([
+      storage.getAll<ExerciseCatalogItem>(STORES.exercises),
+      storage.getAll<WorkoutLogEntry>(STORES.workouts),
+      storage.getAll<ProgramPlan>(STORES.plans),
+      storage.getAll<CompletedSession>(STORES.completedSessions),
+      storage.getAll<GlossaryItem>(STORES.glossary),
+      storage.getAll<BodyMeasurement>(STORES.measurements),
+      storage.getAll<ProgressPhoto>(STORES.photos),
+      MediaService.getAllMedia(),
+    ]);
+
+    return {
+      exercises,
+      workouts,
+      plans,
+      completedSessions,
+      glossary,
+      measurements,
+      photos,
+      mediaIds: new Set(media.map((item) => item.id)),
+    };
+  }
+
+  private static normalize(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  }
+
+  // Catalog lookup by name, falling back to aliases
+  private static nameIndex(exercises: ExerciseCatalogItem[]): Map<string, ExerciseCatalogItem> {
+    const index = new Map<string, ExerciseCatalogItem>();
+    exercises.forEach((exercise) => index.set(this.normalize(exercise.name), exercise));
+    exercises.forEach((exercise) => {
+      exercise.aliases.forEach((alias) => {
+        const key = this.normalize(alias);
+        if (!index.has(key)) index.set(key, exercise);
+      });
+    });
+    return index;
+  }
+
+  private static sessionIndex(plans: ProgramPlan[]) {
+    type Located = { id: string; title: string; planId: string; path: SessionPath };
+    const byId = new Map<string, Located>();
+    const byTitle = new Map<string, Located>();
+    plans.forEach((plan) => {
+      this.forEachSession(plan, (session, path) => {
+        const located = { id: session.id, title: session.title, planId: plan.id, path };
+        byId.set(session.id, located);
+        if (!byTitle.has(this.normalize(session.title))) {
+          byTitle.set(this.normalize(session.title), located);
+        }
+      });
+    });
+    return { byId, byTitle };
+  }
+
+  private static forEachSession(plan: ProgramPlan, visit: (session: Session, path: SessionPath) => void): void {
+    plan.phases.forEach((phase, phaseIndex) => {
+      phase.weeks.forEach((week, weekIndex) => {
+        week.days.forEach((day, dayIndex) => {
+          day.sessions.forEach((session, sessionIndex) => {
+            visit(session, { phaseIndex, weekIndex, dayIndex, sessionIndex });
+          });
+        });
+      });
+    });
+  }
+
+  private static sessionAt(plan: ProgramPlan, path: SessionPath): Session | undefined {
+    return plan.phases[path.phaseIndex]?.weeks[path.weekIndex]?.days[path.dayIndex]?.sessions[path.sessionIndex];
+  }
+
+  private static sessionLocation(path: SessionPath): Array<string | number> {
+    return ["phases", path.phaseIndex, "weeks", path.weekIndex, "days", path.dayIndex, "sessions", path.sessionIndex];
+  }
+
+  // Ids in the media store; URLs, data URIs and app paths aren't stored media
+  private static isStoredMedia(source: string): boolean {
+    return Boolean(source) && !/^([a-z][a-z0-9+.-]*:|\/)/i.test(source);
+  }
+
+  private static createStub(
+    issue: IntegrityIssue,
+    record: StoredRecord,
+    now: string
+  ): { store: string; record: StoredRecord } {
+    const meta = { created_at: now, updated_at: now, version: 1 };
+
+    if (issue.category === "glossary_term") {
+      const stub: GlossaryItem = {
+        id: crypto.randomUUID(),
+        term: issue.reference,
+        category: (record as unknown as GlossaryItem).category,
+        plain_definition: `Placeholder for "${issue.reference}", recreated by the integrity check.`,
+        why_it_matters: "Not written yet.",
+        how_to_do_it_safely: ["Not written yet."],
+        media: [],
+        related_terms: [(record as unknown as GlossaryItem).term],
+        difficulty_level: "beginner",
+        ...meta,
+      };
+      return { store: STORES.glossary, record: stub as unknown as StoredRecord };
+    }
+
+    // A workout entry still caches the exercise's name; a plan prescription only describes it
+    const entry = this.valueAt(record, issue.path.slice(0, -1)) as {
+      type?: string;
+      exercise_name?: string;
+      clear_description?: string;
+    };
+    const name = entry.exercise_name || entry.clear_description || "Recovered exercise";
+    const stub: ExerciseCatalogItem = {
+      id: issue.reference,
+      name,
+      aliases: [],
+      movement_pattern: "core",
+      primary_muscles: ["unspecified"],
+      equipment: [],
+      step_by_step_instructions: ["Recreated by the integrity check. Edit this exercise to add instructions."],
+      safety_notes: [],
+      media: [],
+      beginner_friendly_name: name,
+      difficulty_level: "beginner",
+      exercise_type: entry.type === "flexibility" ? "flexibility" : "strength",
+      ...meta,
+    };
+    return { store: STORES.exercises, record: stub as unknown as StoredRecord };
+  }
+
+  // Whether the record no longer holds the reference the scan reported
+  private static isStale(record: StoredRecord, issue: IntegrityIssue): boolean {
+    if (issue.category === "completed_session") {
+      return record.session_id !== issue.reference && record.plan_id !== issue.reference;
+    }
+    return this.valueAt(record, issue.path) !== issue.reference;
+  }
+
+  // Array elements are removed whole; a plain field is deleted
+  private static removalPath(path: Array<string | number>): Array<string | number> {
+    return path.length > 1 && typeof path[path.length - 2] === "number" ? path.slice(0, -1) : path;
+  }
+
+  private static comparePaths(a: Array<string | number>, b: Array<string | number>): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] === b[i]) continue;
+      return typeof a[i] === "number" && typeof b[i] === "number"
+        ? (a[i] as number) - (b[i] as number)
+        : String(a[i]).localeCompare(String(b[i]));
+    }
+    return a.length - b.length;
+  }
+
+  private static valueAt(target: unknown, path: Array<string | number>): unknown {
+    return path.reduce<unknown>(
+      (current, key) => (current as Record<string | number, unknown> | undefined)?.[key],
+      target
+    );
+  }
+
+  private static setAt(target: unknown, path: Array<string | number>, value: unknown): void {
+    const parent = this.valueAt(target, path.slice(0, -1)) as Record<string | number, unknown>;
+    parent[path[path.length - 1]] = value;
+  }
+
+  private static removeAt(target: unknown, path: Array<string | number>): void {
+    const parent = this.valueAt(target, path.slice(0, -1));
+    const key = path[path.length - 1];
+    if (Array.isArray(parent) && typeof key === "number") {
+      parent.splice(key, 1);
+    } else if (parent && typeof parent === "object") {
+      delete (parent as Record<string | number, unknown>)[key];
+    }
+  }
+}
@@ -4,7 +4,8 @@
  */
 
 import { storageService } from "./storage";
-import type { ExerciseCatalogItem, GlossaryItem } from "@/types";
+import { ProfileService } from "./profileService";
+import { getUnscopedStorageAdapter } from "./storageBackend";
 
 export interface MediaBlob {
   id: string;
@@ -29,6 +30,9 @@ export class MediaService {
   ];
   private static readonly THUMBNAIL_SIZE = 200;
 
+  // Stores whose records point at media, checked across every profile and the trash
+  private static readonly REFERENCING_STORES = ["exercises", "glossary", "body-measurements"];
+
   /**
    * Store media file in IndexedDB
    */
@@ -82,16 +86,18 @@ export class MediaService {
   }
 
   /**
-   * Get thumbnail URL for display
+   * Get thumbnail URL for display, drawing the thumbnail from the full image
+   * if it was dropped to save space
    */
   static async getThumbnailUrl(mediaId: string): Promise<string> {
     const mediaBlob = await storageService.get<MediaBlob>(this.MEDIA_STORE, mediaId);
     
-    if (!mediaBlob || !mediaBlob.thumbnailBlob) {
+    if (!mediaBlob) {
       throw new Error(`Thumbnail not found: ${mediaId}`);
     }
 
-    return URL.createObjectURL(mediaBlob.thumbnailBlob);
+    const thumbnail = mediaBlob.thumbnailBlob ?? (await this.createThumbnail(mediaBlob.blob));
+    return URL.createObjectURL(thumbnail);
   }
 
   /**
@@ -178,7 +184,7 @@ export class MediaService {
   /**
    * Create thumbnail for image
    */
-  private static async createThumbnail(file: File): Promise<Blob> {
+  private static async createThumbnail(file: Blob): Promise<Blob> {
     return new Promise((resolve, reject) => {
       const canvas = document.createElement("canvas");
       const ctx = canvas.getContext("2d");
@@ -268,43 +274,17 @@ export class MediaService {
   }
 
   /**
-   * Clean up orphaned media (media not referenced by any exercise or glossary item)
+   * Clean up orphaned media (media not referenced by any exercise, glossary
+   * item or body measurement)
    */
   static async cleanupOrphanedMedia(): Promise<{ removed: number; savedSpace: number }> {
-    // Get all media
-    const allMedia = await storageService.getAll<MediaBlob>(this.MEDIA_STORE);
-    
-    // Get all exercises and glossary items to find referenced media
-    const exercises = await storageService.getAll<ExerciseCatalogItem>("exercises");
-    const glossaryItems = await storageService.getAll<GlossaryItem>("glossary");
-    
-    const referencedMediaIds = new Set<string>();
-    
-    // Collect referenced media IDs
-    exercises.forEach((exercise) => {
-      exercise.media?.forEach((media) => {
-        if (media.source) {
-          referencedMediaIds.add(media.source);
-        }
-      });
-    });
-    
-    glossaryItems.forEach((item) => {
-      item.media?.forEach((media) => {
-        if (media.source) {
-          referencedMediaIds.add(media.source);
-        }
-      });
-    });
-
-    // Find orphaned media
-    const orphanedMedia = allMedia.filter(media => !referencedMediaIds.has(media.id));
+    const orphanedMedia = await this.findOrphanedMedia();
     
     let savedSpace = 0;
     
     // Remove orphaned media
     for (const media of orphanedMedia) {
-      savedSpace += media.size;
+      savedSpace += this.storedSize(media);
       await this.removeMedia(media.id);
     }
 
@@ -314,6 +294,72 @@ export class MediaService {
     };
   }
 
+  /**
+   * Orphaned media that cleanupOrphanedMedia would remove
+   */
+  static async getOrphanedMediaStats(): Promise<{ files: number; size: number }> {
+    const orphanedMedia = await this.findOrphanedMedia();
+    return {
+      files: orphanedMedia.length,
+      size: orphanedMedia.reduce((sum, media) => sum + this.storedSize(media), 0),
+    };
+  }
+
+  /**
+   * Stored thumbnails, which getThumbnailUrl can draw again from the full image
+   */
+  static async getThumbnailStats(): Promise<{ files: number; size: number }> {
+    const allMedia = await storageService.getAll<MediaBlob>(this.MEDIA_STORE);
+    const thumbnails = allMedia.flatMap((media) => (media.thumbnailBlob ? [media.thumbnailBlob] : []));
+    return {
+      files: thumbnails.length,
+      size: thumbnails.reduce((sum, thumbnail) => sum + thumbnail.size, 0),
+    };
+  }
+
+  /**
+   * Remove stored thumbnails to save space
+   */
+  static async dropThumbnails(): Promise<{ removed: number; savedSpace: number }> {
+    const allMedia = await storageService.getAll<MediaBlob>(this.MEDIA_STORE);
+    const withThumbnails = allMedia.filter((media) => media.thumbnailBlob);
+    const unitOfWork = storageService.beginUnitOfWork();
+    let savedSpace = 0;
+
+    for (const media of withThumbnails) {
+      savedSpace += media.thumbnailBlob?.size ?? 0;
+      const stripped: MediaBlob = {
+        ...media,
+        updated_at: new Date().toISOString(),
+        version: media.version + 1,
+      };
+      delete stripped.thumbnailBlob;
+      unitOfWork.put(this.MEDIA_STORE, stripped, { expectedVersion: media.version });
+    }
+
+    if (withThumbnails.length > 0) {
+      await unitOfWork.commit();
+    }
+    return { removed: withThumbnails.length, savedSpace };
+  }
+
+  private static async findOrphanedMedia(): Promise<MediaBlob[]> {
+    const allMedia = await storageService.getAll<MediaBlob>(this.MEDIA_STORE);
+    const storage = getUnscopedStorageAdapter();
+    const referencedMediaIds = new Set<string>();
+
+    for (const store of this.REFERENCING_STORES) {
+      const records = await storage.getAll<Record<string, unknown>>(store);
+      records.forEach((record) => ProfileService.mediaReferences(record).forEach((id) => referencedMediaIds.add(id)));
+    }
+
+    return allMedia.filter((media) => !referencedMediaIds.has(media.id));
+  }
+
+  private static storedSize(media: MediaBlob): number {
+    return media.size + (media.thumbnailBlob?.size ?? 0);
+  }
+
   /**
    * Get storage usage statistics
    */
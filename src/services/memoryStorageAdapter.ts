@@ -0,0 +1,303 @@
+/**
+ * In-memory storage adapter
+ * Mirrors the IndexedDB schema (stores, indexes, key ordering and version
+ * checks) without any browser API, so repositories and services run during
+ * SSR, in Node scripts and in tests. Pass a SnapshotPersistence to keep the
+ * records between sessions.
+ */
+
+import { ChangeFeed } from "./changeFeed";
+import { getSchemaIndexes, INTERNAL_STORES, type IndexDefinition } from "./schemaMigrations";
+import {
+  UnitOfWork,
+  VersionConflictError,
+  type ScanOptions,
+  type ScanResult,
+  type StorageAdapter,
+  type StorageChangeListener,
+  type StoreQuery,
+  type WriteOperation,
+  type WriteOptions,
+} from "./storageAdapter";
+import { KeyRanges } from "@/utils/keyRanges";
+import type { CursorPosition, KeyRange, StorageData, StorageKey } from "@/types";
+
+// Records of each store by primary key
+export type StoreSnapshot = Record<string, Record<string, StorageData>>;
+
+/**
+ * Where a memory adapter keeps its records between sessions
+ */
+export interface SnapshotPersistence {
+  read(): Promise<StoreSnapshot | null>; // null when nothing has been saved yet
+  write(snapshot: StoreSnapshot): Promise<void>;
+  // Serialize commits across every tab or process sharing the snapshot
+  lock?<T>(task: () => Promise<T>): Promise<T>;
+}
+
+export interface MemoryStorageOptions {
+  persistence?: SnapshotPersistence;
+  excludeStores?: string[]; // Schema stores this adapter doesn't hold
+  channelName?: string; // Share change events with other tabs on this channel
+}
+
+export interface ScanEntry<T> {
+  position: CursorPosition;
+  record: T;
+}
+
+export class UnknownStoreError extends Error {
+  constructor(storeName: string) {
+    super(`Unknown store: ${storeName}`);
+    this.name = "UnknownStoreError";
+  }
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private readonly indexes: Record<string, IndexDefinition[]>;
+  private readonly changes: ChangeFeed;
+  private readonly persistence: SnapshotPersistence | null;
+  private data: StoreSnapshot = {};
+  private loading: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: MemoryStorageOptions = {}) {
+    this.persistence = options.persistence ?? null;
+    const excluded = [...INTERNAL_STORES, ...(options.excludeStores ?? [])];
+    this.indexes = Object.fromEntries(
+      Object.entries(getSchemaIndexes()).filter(([store]) => !excluded.includes(store))
+    );
+    this.changes = new ChangeFeed(options.channelName ?? null, () => this.exclusive(() => this.reload()));
+  }
+
+  /**
+   * Load persisted records once; later calls reuse the first load
+   */
+  async initialize(): Promise<void> {
+    if (!this.loading) {
+      // Hear about other tabs' commits from the start so reads never go stale
+      this.changes.connect();
+      this.loading = this.reload().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  subscribe(listener: StorageChangeListener): () => void {
+    return this.changes.subscribe(listener);
+  }
+
+  hasStore(storeName: string): boolean {
+    return storeName in this.indexes;
+  }
+
+  async get<T>(storeName: string, id: string): Promise<T | null> {
+    const records = await this.readStore(storeName);
+    return records[id] ? (structuredClone(records[id]) as T) : null;
+  }
+
+  async getAll<T>(storeName: string): Promise<T[]> {
+    return (await this.walk<T>(storeName)).map((entry) => entry.record);
+  }
+
+  async getMultiple<T>(storeName: string, ids: string[]): Promise<T[]> {
+    const records = await this.readStore(storeName);
+    return ids.flatMap((id) => (records[id] ? [structuredClone(records[id]) as T] : []));
+  }
+
+  async query<T>(storeName: string, filter?: StoreQuery): Promise<T[]> {
+    if (!filter?.index) {
+      return this.getAll<T>(storeName);
+    }
+
+    const range = filter.range ?? (filter.value !== undefined ? KeyRanges.only(filter.value) : undefined);
+    return (await this.walk<T>(storeName, { index: filter.index, range })).map((entry) => entry.record);
+  }
+
+  async scan<T>(storeName: string, options: ScanOptions<T> = {}): Promise<ScanResult<T>> {
+    const { predicate, limit } = options;
+    const matches = (await this.walk<T>(storeName, options)).filter(
+      (entry) => !predicate || predicate(entry.record)
+    );
+    const taken = limit !== undefined ? matches.slice(0, limit) : matches;
+
+    return {
+      items: taken.map((entry) => entry.record),
+      last: taken[taken.length - 1]?.position ?? null,
+      hasMore: taken.length < matches.length,
+    };
+  }
+
+  async count(storeName: string, index?: string, range?: KeyRange): Promise<number> {
+    return (await this.walk(storeName, { index, range })).length;
+  }
+
+  async hasIndex(storeName: string, index: string): Promise<boolean> {
+    return (this.indexes[storeName] ?? []).some((definition) => definition.name === index);
+  }
+
+  async save<T extends StorageData>(storeName: string, data: T, options: WriteOptions = {}): Promise<void> {
+    return this.commitOperations([
+      { type: "put", storeName, data, expectedVersion: options.expectedVersion },
+    ]);
+  }
+
+  async saveBatch<T extends StorageData>(storeName: string, items: T[]): Promise<void> {
+    return this.commitOperations(items.map((data) => ({ type: "put" as const, storeName, data })));
+  }
+
+  async delete(storeName: string, id: string): Promise<void> {
+    return this.commitOperations([{ type: "delete", storeName, id }]);
+  }
+
+  async clear(storeName: string): Promise<void> {
+    return this.commitOperations([{ type: "clear", storeName }]);
+  }
+
+  beginUnitOfWork(): UnitOfWork {
+    return new UnitOfWork(this);
+  }
+
+  /**
+   * Apply writes atomically. Version checks run against the state before
+   * any write, as in an IndexedDB transaction that reads first.
+   */
+  async commitOperations(operations: WriteOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+    operations.forEach((operation) => this.assertStore(operation.storeName));
+
+    await this.exclusive(() =>
+      this.withWriteLock(async () => {
+        await this.initialize();
+
+        for (const operation of operations) {
+          if (operation.type === "put" && operation.expectedVersion !== undefined) {
+            const current = this.data[operation.storeName]?.[operation.data.id] ?? null;
+            if ((current?.version ?? null) !== operation.expectedVersion) {
+              throw new VersionConflictError(
+                operation.storeName,
+                operation.data.id,
+                operation.expectedVersion,
+                current && structuredClone(current)
+              );
+            }
+          }
+        }
+
+        // Build the next state aside so a failed write leaves the current one intact
+        const stores = { ...this.data };
+        for (const operation of operations) {
+          const records = { ...(stores[operation.storeName] ?? {}) };
+          switch (operation.type) {
+            case "put":
+              records[operation.data.id] = structuredClone({
+                ...operation.data,
+                timestamp: operation.data.timestamp || Date.now(),
+                version: operation.data.version || 1,
+              });
+              break;
+            case "delete":
+              delete records[operation.id];
+              break;
+            case "clear":
+              stores[operation.storeName] = {};
+              continue;
+          }
+          stores[operation.storeName] = records;
+        }
+
+        await this.persistence?.write(stores);
+        this.data = stores;
+      })
+    );
+
+    this.changes.emit(ChangeFeed.changesFor(operations));
+  }
+
+  /**
+   * Walk a store or index in key order, resuming after a cursor position.
+   * Records without a valid index key are left out, as in IndexedDB.
+   */
+  protected async walk<T>(
+    storeName: string,
+    options: Pick<ScanOptions<T>, "index" | "range" | "direction" | "after"> = {}
+  ): Promise<ScanEntry<T>[]> {
+    const records = Object.values(await this.readStore(storeName));
+    const index = options.index
+      ? this.indexes[storeName]?.find((definition) => definition.name === options.index)
+      : undefined;
+    const sign = options.direction === "prev" ? -1 : 1;
+
+    const entries = records.flatMap((record): Array<{ position: CursorPosition; record: StorageData }> => {
+      if (!index) {
+        return [{ position: { key: record.id, primaryKey: record.id }, record }];
+      }
+
+      const key = Array.isArray(index.keyPath)
+        ? index.keyPath.map((keyPath) => this.valueAt(record, keyPath))
+        : this.valueAt(record, index.keyPath);
+
+      if (index.multiEntry && Array.isArray(key)) {
+        return Array.from(new Set(key.filter((value) => KeyRanges.isValidKey(value)))).map((value) => ({
+          position: { key: value as StorageKey, primaryKey: record.id },
+          record,
+        }));
+      }
+
+      return KeyRanges.isValidKey(key) ? [{ position: { key, primaryKey: record.id }, record }] : [];
+    });
+
+    return entries
+      .filter((entry) => KeyRanges.includes(options.range, entry.position.key))
+      .filter((entry) => !options.after || KeyRanges.comparePositions(entry.position, options.after) * sign > 0)
+      .sort((a, b) => KeyRanges.comparePositions(a.position, b.position) * sign)
+      .map((entry) => ({ position: entry.position, record: structuredClone(entry.record) as T }));
+  }
+
+  /**
+   * Run a commit under the persistence lock, starting from the latest saved
+   * state in case another tab or process committed since it was loaded
+   */
+  private async withWriteLock<T>(task: () => Promise<T>): Promise<T> {
+    const persistence = this.persistence;
+    if (!persistence?.lock) {
+      return task();
+    }
+
+    return persistence.lock(async () => {
+      await this.reload();
+      return task();
+    });
+  }
+
+  private async reload(): Promise<void> {
+    this.data = (await this.persistence?.read()) ?? {};
+  }
+
+  private async readStore(storeName: string): Promise<Record<string, StorageData>> {
+    await this.initialize();
+    return this.hasStore(storeName) ? this.data[storeName] ?? {} : {};
+  }
+
+  private assertStore(storeName: string): void {
+    if (!this.hasStore(storeName)) {
+      throw new UnknownStoreError(storeName);
+    }
+  }
+
+  private valueAt(record: StorageData, keyPath: string): unknown {
+    return keyPath
+      .split(".")
+      .reduce<unknown>((value, field) => (value as Record<string, unknown> | undefined)?.[field], record);
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
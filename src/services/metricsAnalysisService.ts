@@ -5,7 +5,8 @@ import type {
   BodyMeasurement, 
   MetricsTrend, 
   HealthIndicators,
-  FitnessGoal 
+  FitnessGoal,
+  ProfileInputs
 } from '@/types';
 
 /**
@@ -299,6 +300,50 @@ export class MetricsAnalysisService {
     return indicators;
   }
 
+  /**
+   * Health indicators with height, age and sex from the user profile.
+   * Height is converted to match the unit the weight was logged in.
+   */
+  static getProfileHealthIndicators(
+    latestMetrics: BodyMetricEntry,
+    profile: ProfileInputs,
+    latestMeasurements?: BodyMeasurement
+  ): HealthIndicators {
+    const units = latestMetrics.weight_unit === 'kg' ? 'metric' : 'imperial';
+    const height = profile.height_cm === undefined
+      ? undefined
+      : units === 'metric' ? profile.height_cm / 100 : profile.height_cm / 2.54;
+
+    return this.getHealthIndicators(
+      latestMetrics,
+      latestMeasurements,
+      height,
+      profile.age,
+      profile.gender,
+      units
+    );
+  }
+
+  /**
+   * Daily calorie needs (TDEE) from the user profile, or null while the
+   * profile is missing age, sex, height or activity level
+   */
+  static getProfileCalorieNeeds(metrics: BodyMetricEntry, profile: ProfileInputs): number | null {
+    if (!profile.age || !profile.gender || !profile.height_cm || !profile.activity_level) {
+      return null;
+    }
+
+    const units = metrics.weight_unit === 'kg' ? 'metric' : 'imperial';
+    return this.calculateCalorieNeeds(
+      metrics,
+      units === 'metric' ? profile.height_cm : profile.height_cm / 2.54,
+      profile.age,
+      profile.gender,
+      profile.activity_level,
+      units
+    );
+  }
+
   /**
    * Calculate goal progress percentage
    */
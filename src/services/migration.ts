@@ -4,11 +4,13 @@
  */
 
 import { storageService } from "./storage";
+import { LATEST_SCHEMA_VERSION, type SchemaMigrationRecord } from "./schemaMigrations";
+import { BackupService } from "./backupService";
 import { ValidationService } from "@/validators";
-import type { AppSettings } from "@/types";
+import type { AppSettings, RestoreReport } from "@/types";
 
 export class MigrationService {
-  private static readonly CURRENT_VERSION = 1;
+  private static readonly CURRENT_VERSION = LATEST_SCHEMA_VERSION;
 
   /**
    * Check if migration is needed
@@ -28,23 +30,20 @@ export class MigrationService {
   }
 
   /**
-   * Perform migration from one version to another
+   * Perform migration from one version to another.
+   * Schema steps run while the database opens; this confirms the database
+   * reached toVersion before data_version is advanced.
    */
   static async migrate(fromVersion: number, toVersion: number): Promise<void> {
     console.log(`Migrating data from version ${fromVersion} to ${toVersion}`);
 
     try {
-      // Migration logic would go here
-      // For now, this is a placeholder for future migrations
-      
-      if (fromVersion < 1 && toVersion >= 1) {
-        await this.migrateToV1();
-      }
+      await storageService.initialize();
 
-      // Add future migration steps here
-      // if (fromVersion < 2 && toVersion >= 2) {
-      //   await this.migrateToV2();
-      // }
+      const schemaVersion = storageService.getSchemaVersion();
+      if (schemaVersion < toVersion) {
+        throw new Error(`Database schema is at v${schemaVersion}, expected v${toVersion}`);
+      }
 
       console.log("Migration completed successfully");
     } catch (error) {
@@ -54,11 +53,15 @@ export class MigrationService {
   }
 
   /**
-   * Migration to version 1 (baseline)
+   * Get the schema migrations that have been applied, oldest first
    */
-  private static async migrateToV1(): Promise<void> {
-    // This is the initial version, no migration needed
-    console.log("Setting up initial data structure for v1");
+  static async getMigrationHistory(): Promise<SchemaMigrationRecord[]> {
+    try {
+      return await storageService.getAppliedMigrations();
+    } catch (error) {
+      console.warn("Error reading migration history:", error);
+      return [];
+    }
   }
 
   /**
@@ -184,22 +187,12 @@ export class MigrationService {
   }
 
   /**
-   * Backup data before migration
+   * Backup data before migration, optionally encrypted with a passphrase
    */
-  static async createBackup(): Promise<string> {
+  static async createBackup(passphrase?: string): Promise<string> {
     try {
-      const allData = await storageService.exportAllData();
-      const backup = {
-        version: await this.getCurrentDataVersion(),
-        timestamp: new Date().toISOString(),
-        data: allData,
-      };
-
-      const backupJson = JSON.stringify(backup, null, 2);
-      const blob = new Blob([backupJson], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      
-      return url;
+      const archive = await BackupService.createArchive({ passphrase });
+      return URL.createObjectURL(archive);
     } catch (error) {
       console.error("Failed to create backup:", error);
       throw new Error(`Backup creation failed: ${(error as Error).message}`);
@@ -207,26 +200,11 @@ export class MigrationService {
   }
 
   /**
-   * Restore data from backup
+   * Restore data from a backup archive, replacing the stores it contains
    */
-  static async restoreFromBackup(backupData: string): Promise<void> {
+  static async restoreFromBackup(backup: Blob, passphrase?: string): Promise<RestoreReport> {
     try {
-      const backup = JSON.parse(backupData);
-      
-      if (!backup.data || !backup.version) {
-        throw new Error("Invalid backup format");
-      }
-
-      // Clear existing data
-      const stores = ["settings", "exercises", "workouts", "metrics", "baselines", "plans", "glossary", "preferences"];
-      for (const store of stores) {
-        await storageService.clear(store);
-      }
-
-      // Restore data
-      await storageService.importAllData(backup.data);
-      
-      console.log(`Data restored from backup (version ${backup.version})`);
+      return await BackupService.restoreArchive(backup, { mode: "replace", passphrase });
     } catch (error) {
       console.error("Failed to restore from backup:", error);
       throw new Error(`Restore failed: ${(error as Error).message}`);
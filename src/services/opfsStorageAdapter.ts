@@ -0,0 +1,62 @@
+/**
+ * Storage adapter backed by the Origin Private File System
+ * Records live in memory and in one JSON file that each commit replaces
+ * atomically. Tabs commit under a Web Lock and reload when another tab writes.
+ */
+
+import { MemoryStorageAdapter, type SnapshotPersistence, type StoreSnapshot } from "./memoryStorageAdapter";
+
+class OpfsSnapshotFile implements SnapshotPersistence {
+  constructor(private readonly fileName: string) {}
+
+  async read(): Promise<StoreSnapshot | null> {
+    const root = await this.root();
+    try {
+      const file = await (await root.getFileHandle(this.fileName)).getFile();
+      return JSON.parse(await file.text()) as StoreSnapshot;
+    } catch (error) {
+      if ((error as DOMException).name === "NotFoundError") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // A writable stream fills a swap file that only replaces the original on close()
+  async write(snapshot: StoreSnapshot): Promise<void> {
+    const handle = await (await this.root()).getFileHandle(this.fileName, { create: true });
+    const writable = await handle.createWritable();
+    try {
+      await writable.write(JSON.stringify(snapshot));
+      await writable.close();
+    } catch (error) {
+      await writable.abort().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async lock<T>(task: () => Promise<T>): Promise<T> {
+    if (!navigator.locks) {
+      return task();
+    }
+    return navigator.locks.request(`${this.fileName}:commit`, task);
+  }
+
+  private async root(): Promise<FileSystemDirectoryHandle> {
+    if (typeof navigator === "undefined" || typeof navigator.storage?.getDirectory !== "function") {
+      throw new Error("This browser does not support the Origin Private File System");
+    }
+    return navigator.storage.getDirectory();
+  }
+}
+
+export class OpfsStorageAdapter extends MemoryStorageAdapter {
+  constructor(fileName = "fitness-tracker.json") {
+    super({
+      persistence: new OpfsSnapshotFile(fileName),
+      // Blobs cannot be stored as JSON, so media stays in IndexedDB
+      excludeStores: ["media"],
+      channelName: "fitness-tracker-opfs-changes",
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { StorageService } from "./storage";
+import { PlanService } from "./planService";
+import { setActiveProfileId } from "./activeProfile";
+import { planRepository } from "@/repositories";
+import { installIndexedDbStorage, removeIndexedDbStorage } from "@/test/indexedDbStorage";
+import type { ExerciseCatalogItem, ProgramPlan, SessionPath } from "@/types";
+
+function exercise(id: string): ExerciseCatalogItem {
+  return {
+    id,
+    name: id,
+    aliases: [],
+    movement_pattern: "press",
+    primary_muscles: ["chest"],
+    equipment: [],
+    step_by_step_instructions: [],
+    safety_notes: [],
+    media: [],
+    beginner_friendly_name: id,
+    difficulty_level: "beginner",
+    exercise_type: "strength",
+    created_at: "2026-01-01T08:00:00.000Z",
+    updated_at: "2026-01-01T08:00:00.000Z",
+    version: 1,
+  };
+}
+
+describe("PlanService.findSession", () => {
+  let storage: StorageService;
+
+  beforeEach(() => {
+    storage = installIndexedDbStorage();
+    setActiveProfileId("alice");
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("finds a session in the user's copy of a template before the template", async () => {
+    const template = { ...(await PlanService.createNewPlan("Template")), is_template: true };
+    await planRepository.save(template);
+    const copy = await PlanService.createNewPlan("My copy", template);
+    const [{ session, path }] = PlanService.getAllSessionsWithPaths(copy);
+
+    const found = await PlanService.findSession(session.id);
+
+    expect(found?.plan.id).toBe(copy.id);
+    expect(found?.session).toEqual(session);
+    expect(found?.path).toEqual(path);
+  });
+
+  it("finds nothing for a session no plan holds", async () => {
+    await PlanService.createNewPlan("Plan");
+
+    expect(await PlanService.findSession("missing-session")).toBeNull();
+  });
+});
+
+describe("PlanService exercise groups", () => {
+  let storage: StorageService;
+  let plan: ProgramPlan;
+  let path: SessionPath;
+
+  const exercisesOf = (updated: ProgramPlan) => PlanService.getSessionByPath(updated, path)!.exercises;
+
+  beforeEach(async () => {
+    storage = installIndexedDbStorage();
+    setActiveProfileId("alice");
+    plan = await PlanService.createNewPlan("Plan");
+    path = PlanService.getAllSessionsWithPaths(plan)[0].path;
+    for (const id of ["push-up", "row", "squat", "plank"]) {
+      await PlanService.addExerciseToSession(plan.id, path, id, exercise(id));
+    }
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("groups neighbouring exercises with one set per round", async () => {
+    const updated = await PlanService.groupExercises(plan.id, path, [1, 0], {
+      group_type: "superset",
+      rounds: 4,
+      rest_after_round_seconds: 90,
+    });
+
+    const [pushUp, row, squat] = exercisesOf(updated);
+    expect(pushUp.group).toEqual(row.group);
+    expect(pushUp.group).toMatchObject({ group_type: "superset", rounds: 4, rest_after_round_seconds: 90 });
+    expect(pushUp.sets?.map((set) => set.set_number)).toEqual([1, 2, 3, 4]);
+    expect(squat.group).toBeUndefined();
+  });
+
+  it("only groups exercises that come one after another", async () => {
+    await expect(
+      PlanService.groupExercises(plan.id, path, [0, 2], { group_type: "superset", rounds: 3 })
+    ).rejects.toThrow("next to each other");
+  });
+
+  it("changes and removes a group on every exercise in it", async () => {
+    const grouped = await PlanService.groupExercises(plan.id, path, [0, 1, 2], { group_type: "giant_set", rounds: 3 });
+    const groupId = exercisesOf(grouped)[0].group!.group_id;
+
+    const changed = await PlanService.updateExerciseGroup(plan.id, path, groupId, { group_type: "circuit", rounds: 2 });
+    expect(exercisesOf(changed).slice(0, 3).map((prescription) => prescription.group?.group_type)).toEqual([
+      "circuit",
+      "circuit",
+      "circuit",
+    ]);
+    expect(exercisesOf(changed)[2].sets).toHaveLength(2);
+
+    const ungrouped = await PlanService.ungroupExercises(plan.id, path, groupId);
+    expect(exercisesOf(ungrouped).every((prescription) => prescription.group === undefined)).toBe(true);
+  });
+
+  it("dissolves a group that regrouping splits in two", async () => {
+    await PlanService.groupExercises(plan.id, path, [0, 1, 2, 3], { group_type: "circuit", rounds: 3 });
+    const updated = await PlanService.groupExercises(plan.id, path, [1, 2], { group_type: "superset", rounds: 3 });
+
+    const [pushUp, row, squat, plank] = exercisesOf(updated);
+    expect(pushUp.group).toBeUndefined();
+    expect(plank.group).toBeUndefined();
+    expect(row.group?.group_type).toBe("superset");
+    expect(squat.group).toEqual(row.group);
+  });
+});
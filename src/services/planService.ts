@@ -3,7 +3,9 @@
  * Following cursor rules for type safety and error handling
  */
 
-import { planRepository } from "@/repositories";
+import { planRepository, revisionRepository } from "@/repositories";
+import type { UnitOfWork } from "@/services/storageAdapter";
+import { getStorageAdapter } from "@/services/storageBackend";
 import { DateUtils } from "@/utils/dateUtils";
 import { FriendlySentenceGenerator } from "@/utils/friendlySentences";
 import type { 
@@ -15,7 +17,9 @@ import type {
   ExercisePrescription,
   SetPrescription,
   CardioBlock,
-  ExerciseCatalogItem
+  ExerciseCatalogItem,
+  ExerciseGroup,
+  ExerciseGroupSettings
 } from "@/types";
 
 export class PlanService {
@@ -33,6 +37,7 @@ export class PlanService {
       const newPlan: ProgramPlan = {
         ...template,
         id: crypto.randomUUID(),
+        profile_id: undefined, // Owned by the active profile, not shared like the template
         title,
         is_template: false,
         created_at: now,
@@ -165,6 +170,87 @@ export class PlanService {
     };
   }
 
+  /**
+   * Load a plan, apply a mutation and commit it in one transaction.
+   * The mutation may stage extra writes on the unit of work so related
+   * records are saved or rolled back together with the plan.
+   */
+  private static async mutatePlan(
+    planId: string,
+    mutate: (plan: ProgramPlan, unitOfWork: UnitOfWork) => void
+  ): Promise<ProgramPlan> {
+    const plan = await planRepository.getById(planId);
+    if (!plan) {
+      throw new Error(`Plan with ID ${planId} not found`);
+    }
+
+    // Fails with VersionConflictError if another write lands between the read and commit
+    const expectedVersion = plan.version;
+    const unitOfWork = getStorageAdapter().beginUnitOfWork();
+    mutate(plan, unitOfWork);
+    await planRepository.save(plan, unitOfWork, { expectedVersion });
+    await unitOfWork.commit();
+
+    return plan;
+  }
+
+  /**
+   * Move a plan to the trash together with its completed session history
+   */
+  static async deletePlan(planId: string): Promise<void> {
+    const completedSessions = await planRepository.getCompletedSessions(planId);
+    const unitOfWork = getStorageAdapter().beginUnitOfWork();
+    const deletedAt = DateUtils.getCurrentDateTime();
+
+    await planRepository.delete(planId, unitOfWork, deletedAt);
+    for (const completed of completedSessions) {
+      await planRepository.removeCompletedSession(completed.id, unitOfWork, deletedAt);
+    }
+
+    await unitOfWork.commit();
+  }
+
+  /**
+   * Restore a plan from the trash with the session history deleted along with it
+   */
+  static async restorePlan(planId: string): Promise<ProgramPlan> {
+    const deleted = await planRepository.getDeleted();
+    const plan = deleted.find((candidate) => candidate.id === planId);
+    if (!plan) {
+      throw new Error(`Plan with ID ${planId} is not in the trash`);
+    }
+
+    const completedSessions = await planRepository.getDeletedCompletedSessions(planId);
+    const unitOfWork = getStorageAdapter().beginUnitOfWork();
+
+    const restored = await planRepository.restore(planId, unitOfWork);
+    for (const completed of completedSessions.filter((session) => session.deleted_at === plan.deleted_at)) {
+      await planRepository.restoreCompletedSession(completed, unitOfWork);
+    }
+
+    await unitOfWork.commit();
+    return restored;
+  }
+
+  /**
+   * Permanently delete a plan with its completed session and revision history
+   */
+  static async purgePlan(planId: string): Promise<void> {
+    const completedSessions = [
+      ...(await planRepository.getCompletedSessions(planId)),
+      ...(await planRepository.getDeletedCompletedSessions(planId)),
+    ];
+    const unitOfWork = getStorageAdapter().beginUnitOfWork();
+
+    await planRepository.purge(planId, unitOfWork);
+    for (const completed of completedSessions) {
+      await planRepository.purgeCompletedSession(completed.id, unitOfWork);
+    }
+    await revisionRepository.deleteHistory("plans", planId, unitOfWork);
+
+    await unitOfWork.commit();
+  }
+
   /**
    * Duplicate an existing plan
    */
@@ -180,51 +266,41 @@ export class PlanService {
     phaseName: "Base" | "Build" | "Peak",
     durationWeeks: number = 4
   ): Promise<void> {
-    const plan = await planRepository.getById(planId);
-    if (!plan) {
-      throw new Error(`Plan with ID ${planId} not found`);
-    }
-
-    const newPhase: Phase = {
-      name: phaseName,
-      description: `${phaseName} phase`,
-      duration_weeks: durationWeeks,
-      weeks: [],
-    };
+    await this.mutatePlan(planId, (plan) => {
+      const newPhase: Phase = {
+        name: phaseName,
+        description: `${phaseName} phase`,
+        duration_weeks: durationWeeks,
+        weeks: [],
+      };
 
-    // Create weeks for the phase
-    for (let i = 1; i <= durationWeeks; i++) {
-      newPhase.weeks.push(this.createDefaultWeek(i, i === durationWeeks)); // Last week is deload
-    }
+      // Create weeks for the phase
+      for (let i = 1; i <= durationWeeks; i++) {
+        newPhase.weeks.push(this.createDefaultWeek(i, i === durationWeeks)); // Last week is deload
+      }
 
-    plan.phases.push(newPhase);
-    plan.duration_weeks += durationWeeks;
-    
-    await planRepository.save(plan);
+      plan.phases.push(newPhase);
+      plan.duration_weeks += durationWeeks;
+    });
   }
 
   /**
    * Add a week to a specific phase
    */
   static async addWeekToPhase(planId: string, phaseIndex: number): Promise<void> {
-    const plan = await planRepository.getById(planId);
-    if (!plan) {
-      throw new Error(`Plan with ID ${planId} not found`);
-    }
+    await this.mutatePlan(planId, (plan) => {
+      if (!plan.phases[phaseIndex]) {
+        throw new Error(`Phase ${phaseIndex} not found`);
+      }
 
-    if (!plan.phases[phaseIndex]) {
-      throw new Error(`Phase ${phaseIndex} not found`);
-    }
+      const phase = plan.phases[phaseIndex];
+      const newWeekIndex = phase.weeks.length + 1;
+      const newWeek = this.createDefaultWeek(newWeekIndex);
 
-    const phase = plan.phases[phaseIndex];
-    const newWeekIndex = phase.weeks.length + 1;
-    const newWeek = this.createDefaultWeek(newWeekIndex);
-    
-    phase.weeks.push(newWeek);
-    phase.duration_weeks += 1;
-    plan.duration_weeks += 1;
-    
-    await planRepository.save(plan);
+      phase.weeks.push(newWeek);
+      phase.duration_weeks += 1;
+      plan.duration_weeks += 1;
+    });
   }
 
   /**
@@ -235,22 +311,17 @@ export class PlanService {
     sessionPath: SessionPath,
     date: Date
   ): Promise<void> {
-    const plan = await planRepository.getById(planId);
-    if (!plan) {
-      throw new Error(`Plan with ID ${planId} not found`);
-    }
+    await this.mutatePlan(planId, (plan) => {
+      const { phaseIndex, weekIndex, dayIndex } = sessionPath;
 
-    const { phaseIndex, weekIndex, dayIndex } = sessionPath;
-    
-    if (!plan.phases[phaseIndex] || 
-        !plan.phases[phaseIndex].weeks[weekIndex] ||
-        !plan.phases[phaseIndex].weeks[weekIndex].days[dayIndex]) {
-      throw new Error("Invalid session path");
-    }
+      if (!plan.phases[phaseIndex] || 
+          !plan.phases[phaseIndex].weeks[weekIndex] ||
+          !plan.phases[phaseIndex].weeks[weekIndex].days[dayIndex]) {
+        throw new Error("Invalid session path");
+      }
 
-    plan.phases[phaseIndex].weeks[weekIndex].days[dayIndex].date = date.toISOString().split("T")[0];
-    
-    await planRepository.save(plan);
+      plan.phases[phaseIndex].weeks[weekIndex].days[dayIndex].date = date.toISOString().split("T")[0];
+    });
   }
 
   /**
@@ -261,23 +332,18 @@ export class PlanService {
     sessionPath: SessionPath,
     exercises: ExercisePrescription[]
   ): Promise<void> {
-    const plan = await planRepository.getById(planId);
-    if (!plan) {
-      throw new Error(`Plan with ID ${planId} not found`);
-    }
-
-    const { phaseIndex, weekIndex, dayIndex, sessionIndex } = sessionPath;
-    
-    if (!plan.phases[phaseIndex] || 
-        !plan.phases[phaseIndex].weeks[weekIndex] ||
-        !plan.phases[phaseIndex].weeks[weekIndex].days[dayIndex] ||
-        !plan.phases[phaseIndex].weeks[weekIndex].days[dayIndex].sessions[sessionIndex]) {
-      throw new Error("Invalid session path");
-    }
+    await this.mutatePlan(planId, (plan) => {
+      const { phaseIndex, weekIndex, dayIndex, sessionIndex } = sessionPath;
+
+      if (!plan.phases[phaseIndex] || 
+          !plan.phases[phaseIndex].weeks[weekIndex] ||
+          !plan.phases[phaseIndex].weeks[weekIndex].days[dayIndex] ||
+          !plan.phases[phaseIndex].weeks[weekIndex].days[dayIndex].sessions[sessionIndex]) {
+        throw new Error("Invalid session path");
+      }
 
-    plan.phases[phaseIndex].weeks[weekIndex].days[dayIndex].sessions[sessionIndex].exercises = exercises;
-    
-    await planRepository.save(plan);
+      plan.phases[phaseIndex].weeks[weekIndex].days[dayIndex].sessions[sessionIndex].exercises = exercises;
+    });
   }
 
   /**
@@ -289,27 +355,22 @@ export class PlanService {
     exerciseId: string,
     exercise: ExerciseCatalogItem
   ): Promise<void> {
-    const plan = await planRepository.getById(planId);
-    if (!plan) {
-      throw new Error(`Plan with ID ${planId} not found`);
-    }
-
-    const session = this.getSessionByPath(plan, sessionPath);
-    if (!session) {
-      throw new Error("Session not found");
-    }
+    await this.mutatePlan(planId, (plan) => {
+      const session = this.getSessionByPath(plan, sessionPath);
+      if (!session) {
+        throw new Error("Session not found");
+      }
 
-    // Create default prescription based on exercise type
-    const prescription: ExercisePrescription = {
-      exercise_id: exerciseId,
-      clear_description: "", // Will be auto-generated
-      order_index: session.exercises.length,
-      ...this.createDefaultPrescription(exercise, session.session_type)
-    };
+      // Create default prescription based on exercise type
+      const prescription: ExercisePrescription = {
+        exercise_id: exerciseId,
+        clear_description: "", // Will be auto-generated
+        order_index: session.exercises.length,
+        ...this.createDefaultPrescription(exercise, session.session_type)
+      };
 
-    session.exercises.push(prescription);
-    
-    await planRepository.save(plan);
+      session.exercises.push(prescription);
+    });
   }
 
   /**
@@ -367,24 +428,19 @@ export class PlanService {
     sessionPath: SessionPath,
     exerciseIndex: number
   ): Promise<void> {
-    const plan = await planRepository.getById(planId);
-    if (!plan) {
-      throw new Error(`Plan with ID ${planId} not found`);
-    }
+    await this.mutatePlan(planId, (plan) => {
+      const session = this.getSessionByPath(plan, sessionPath);
+      if (!session) {
+        throw new Error("Session not found");
+      }
 
-    const session = this.getSessionByPath(plan, sessionPath);
-    if (!session) {
-      throw new Error("Session not found");
-    }
+      session.exercises.splice(exerciseIndex, 1);
 
-    session.exercises.splice(exerciseIndex, 1);
-    
-    // Reorder indices
-    session.exercises.forEach((ex, index) => {
-      ex.order_index = index;
+      // Reorder indices
+      session.exercises.forEach((ex, index) => {
+        ex.order_index = index;
+      });
     });
-    
-    await planRepository.save(plan);
   }
 
   /**
@@ -396,28 +452,146 @@ export class PlanService {
     startIndex: number,
     endIndex: number
   ): Promise<void> {
-    const plan = await planRepository.getById(planId);
-    if (!plan) {
-      throw new Error(`Plan with ID ${planId} not found`);
+    await this.mutatePlan(planId, (plan) => {
+      const session = this.getSessionByPath(plan, sessionPath);
+      if (!session) {
+        throw new Error("Session not found");
+      }
+
+      const exercises = [...session.exercises];
+      const [removed] = exercises.splice(startIndex, 1);
+      exercises.splice(endIndex, 0, removed);
+
+      // Update order indices
+      exercises.forEach((ex, index) => {
+        ex.order_index = index;
+      });
+
+      session.exercises = exercises;
+    });
+  }
+
+  /**
+   * Group exercises that sit next to each other in a session so they are done
+   * back to back. Exercises taken from another group leave it, and a group
+   * left with a single exercise, or split in two, is dissolved.
+   */
+  static async groupExercises(
+    planId: string,
+    sessionPath: SessionPath,
+    exerciseIndices: number[],
+    settings: ExerciseGroupSettings
+  ): Promise<ProgramPlan> {
+    const indices = [...new Set(exerciseIndices)].sort((a, b) => a - b);
+    if (indices.length < 2) {
+      throw new Error("A group needs at least two exercises");
+    }
+    if (indices.some((index, position) => position > 0 && index !== indices[position - 1] + 1)) {
+      throw new Error("Only exercises next to each other can be grouped");
     }
+    this.checkGroupSettings(settings);
 
-    const session = this.getSessionByPath(plan, sessionPath);
-    if (!session) {
-      throw new Error("Session not found");
+    return this.mutatePlan(planId, (plan) => {
+      const session = this.getSessionByPath(plan, sessionPath);
+      if (!session) {
+        throw new Error("Session not found");
+      }
+      if (indices[indices.length - 1] >= session.exercises.length) {
+        throw new Error("Exercise not found");
+      }
+
+      const group = { group_id: crypto.randomUUID(), ...settings };
+      indices.forEach((index) => this.joinGroup(session.exercises[index], group));
+      this.dissolveBrokenGroups(session);
+    });
+  }
+
+  /**
+   * Change a group's type, rounds or rest after each round
+   */
+  static async updateExerciseGroup(
+    planId: string,
+    sessionPath: SessionPath,
+    groupId: string,
+    settings: ExerciseGroupSettings
+  ): Promise<ProgramPlan> {
+    this.checkGroupSettings(settings);
+
+    return this.mutatePlan(planId, (plan) => {
+      const session = this.getSessionByPath(plan, sessionPath);
+      const members = session?.exercises.filter((exercise) => exercise.group?.group_id === groupId) ?? [];
+      if (members.length === 0) {
+        throw new Error("Group not found");
+      }
+
+      members.forEach((exercise) => this.joinGroup(exercise, { group_id: groupId, ...settings }));
+    });
+  }
+
+  /**
+   * Split a group back into exercises done one after another. Their sets are
+   * left as they are.
+   */
+  static async ungroupExercises(
+    planId: string,
+    sessionPath: SessionPath,
+    groupId: string
+  ): Promise<ProgramPlan> {
+    return this.mutatePlan(planId, (plan) => {
+      const session = this.getSessionByPath(plan, sessionPath);
+      if (!session) {
+        throw new Error("Session not found");
+      }
+
+      session.exercises.forEach((exercise) => {
+        if (exercise.group?.group_id === groupId) {
+          delete exercise.group;
+        }
+      });
+    });
+  }
+
+  private static checkGroupSettings(settings: ExerciseGroupSettings): void {
+    if (!Number.isInteger(settings.rounds) || settings.rounds < 1) {
+      throw new Error("Rounds must be a whole number of at least 1");
+    }
+    if (settings.rest_after_round_seconds !== undefined && !(settings.rest_after_round_seconds >= 0)) {
+      throw new Error("Rest after a round can't be negative");
     }
+  }
 
-    const exercises = [...session.exercises];
-    const [removed] = exercises.splice(startIndex, 1);
-    exercises.splice(endIndex, 0, removed);
-    
-    // Update order indices
-    exercises.forEach((ex, index) => {
-      ex.order_index = index;
+  /**
+   * Put an exercise in a group. A grouped exercise does one set per round, so
+   * its sets are trimmed or extended, repeating the last one, to match.
+   */
+  private static joinGroup(exercise: ExercisePrescription, group: ExerciseGroup): void {
+    exercise.group = { ...group };
+    const sets = exercise.sets;
+    if (!sets?.length) {
+      return;
+    }
+
+    const last = sets[sets.length - 1];
+    exercise.sets = Array.from({ length: group.rounds }, (_, index) => ({
+      ...(sets[index] ?? last),
+      set_number: index + 1,
+    }));
+  }
+
+  // A group is worked through as one run of exercises, so it needs two or more in a row
+  private static dissolveBrokenGroups(session: Session): void {
+    const positions = new Map<string, number[]>();
+    session.exercises.forEach((exercise, index) => {
+      if (exercise.group) {
+        positions.set(exercise.group.group_id, [...(positions.get(exercise.group.group_id) ?? []), index]);
+      }
+    });
+    session.exercises.forEach((exercise) => {
+      const indices = exercise.group && positions.get(exercise.group.group_id);
+      if (indices && (indices.length < 2 || indices[indices.length - 1] - indices[0] !== indices.length - 1)) {
+        delete exercise.group;
+      }
     });
-    
-    session.exercises = exercises;
-    
-    await planRepository.save(plan);
   }
 
   /**
@@ -484,6 +658,29 @@ export class PlanService {
     return sessions;
   }
 
+  /**
+   * Find a planned session by id, looking through the user's plans before the
+   * templates. Copies of a template keep its session ids, so the most recently
+   * updated plan holding the session wins.
+   */
+  static async findSession(
+    sessionId: string
+  ): Promise<{ plan: ProgramPlan; session: Session; path: SessionPath } | null> {
+    const [userPlans, templates] = await Promise.all([
+      planRepository.getUserPlans(),
+      planRepository.getTemplates(),
+    ]);
+    const byRecency = (a: ProgramPlan, b: ProgramPlan) => b.updated_at.localeCompare(a.updated_at);
+
+    for (const plan of [...userPlans.sort(byRecency), ...templates]) {
+      const match = this.getAllSessionsWithPaths(plan).find(({ session }) => session.id === sessionId);
+      if (match) {
+        return { plan, session: match.session, path: match.path };
+      }
+    }
+    return null;
+  }
+
   /**
    * Calculate next recommended session date
    */
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { StorageService } from "./storage";
+import { ProfileScopedStorageAdapter } from "./profileScopedStorageAdapter";
+import { DEFAULT_PROFILE_ID, SHARED_PROFILE_ID, setActiveProfileId } from "./activeProfile";
+import { removeIndexedDbStorage } from "@/test/indexedDbStorage";
+import type { StorageData } from "@/types";
+
+const NOW = "2026-04-01T08:00:00.000Z";
+
+function metric(id: string, date = "2026-04-01"): StorageData {
+  return { id, date, created_at: NOW, updated_at: NOW, version: 1 } as StorageData;
+}
+
+describe("ProfileScopedStorageAdapter", () => {
+  let storage: StorageService;
+  let scoped: ProfileScopedStorageAdapter;
+
+  beforeEach(async () => {
+    storage = new StorageService();
+    scoped = new ProfileScopedStorageAdapter(storage);
+    setActiveProfileId("alice");
+    await scoped.save("metrics", metric("alice-weight"));
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("stamps writes with the active profile and hides them from other profiles", async () => {
+    expect(await storage.get("metrics", "alice-weight")).toMatchObject({ profile_id: "alice" });
+
+    setActiveProfileId("bob");
+    expect(await scoped.get("metrics", "alice-weight")).toBeNull();
+    expect(await scoped.getAll("metrics")).toEqual([]);
+  });
+
+  it("does not let another profile delete a record by id", async () => {
+    setActiveProfileId("bob");
+    await scoped.delete("metrics", "alice-weight");
+
+    const unitOfWork = scoped.beginUnitOfWork();
+    unitOfWork.delete("metrics", "alice-weight");
+    await unitOfWork.commit();
+
+    expect(await storage.get("metrics", "alice-weight")).not.toBeNull();
+  });
+
+  it("deletes the active profile's own records", async () => {
+    await scoped.delete("metrics", "alice-weight");
+    expect(await storage.get("metrics", "alice-weight")).toBeNull();
+  });
+
+  it("clears only the active profile's records", async () => {
+    setActiveProfileId("bob");
+    await scoped.save("metrics", metric("bob-weight"));
+    await scoped.clear("metrics");
+
+    expect((await storage.getAll<StorageData>("metrics")).map((record) => record.id)).toEqual(["alice-weight"]);
+  });
+
+  it("counts the active profile's and shared records on the owner index", async () => {
+    await scoped.save("metrics", metric("alice-march", "2026-03-01"));
+    await storage.save("metrics", { ...metric("shared-weight"), profile_id: SHARED_PROFILE_ID });
+    setActiveProfileId("bob");
+    await scoped.save("metrics", metric("bob-weight"));
+    setActiveProfileId("alice");
+
+    const getAll = vi.spyOn(storage, "getAll");
+    const scan = vi.spyOn(storage, "scan");
+    expect(await scoped.count("metrics")).toBe(3);
+    expect(await scoped.count("metrics", "date", { lower: "2026-03-15" })).toBe(2);
+    expect(await scoped.count("metrics", "date", { upper: "2026-04-01", upperOpen: true })).toBe(1);
+    expect(getAll).not.toHaveBeenCalled();
+    expect(scan).not.toHaveBeenCalled();
+  });
+
+  it("counts by loading records while some have no owner stamp", async () => {
+    await storage.save("metrics", metric("unowned-weight"));
+
+    expect(await scoped.count("metrics")).toBe(1);
+    setActiveProfileId(DEFAULT_PROFILE_ID);
+    expect(await scoped.count("metrics")).toBe(1);
+  });
+});
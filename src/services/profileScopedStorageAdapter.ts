@@ -0,0 +1,219 @@
+/**
+ * Storage adapter that scopes another adapter to the active local profile
+ * Reads only return the active profile's records and the shared catalog;
+ * writes stamp new records with the active profile id; clearing a store
+ * removes only the active profile's records. Device-level stores
+ * (UNSCOPED_STORES) pass straight through.
+ */
+
+import { ChangeFeed } from "./changeFeed";
+import { getSchemaIndexes, INTERNAL_STORES } from "./schemaMigrations";
+import {
+  getActiveProfileId,
+  isScopedStore,
+  isVisibleTo,
+  ownerOf,
+  SHARED_PROFILE_ID,
+  subscribeActiveProfile,
+} from "./activeProfile";
+import {
+  UnitOfWork,
+  type ScanOptions,
+  type ScanResult,
+  type StorageAdapter,
+  type StorageChangeListener,
+  type StoreQuery,
+  type WriteOperation,
+  type WriteOptions,
+} from "./storageAdapter";
+import { KeyRanges } from "@/utils/keyRanges";
+import type { KeyRange, StorageData } from "@/types";
+
+export class ProfileScopedStorageAdapter implements StorageAdapter {
+  // Profile switches, announced as every store being cleared so live queries reload
+  private readonly switches = new ChangeFeed(null);
+
+  constructor(private readonly inner: StorageAdapter) {
+    subscribeActiveProfile(() => {
+      this.switches.emit(
+        Object.keys(getSchemaIndexes())
+          .filter((store) => !INTERNAL_STORES.includes(store))
+          .map((store) => ({ store, id: null, operation: "clear" }))
+      );
+    });
+  }
+
+  /**
+   * The adapter underneath, which sees every profile's records
+   */
+  get unscoped(): StorageAdapter {
+    return this.inner;
+  }
+
+  initialize(): Promise<void> {
+    return this.inner.initialize();
+  }
+
+  subscribe(listener: StorageChangeListener): () => void {
+    const unsubscribeWrites = this.inner.subscribe(listener);
+    const unsubscribeSwitches = this.switches.subscribe(listener);
+    return () => {
+      unsubscribeWrites();
+      unsubscribeSwitches();
+    };
+  }
+
+  async get<T>(storeName: string, id: string): Promise<T | null> {
+    const record = await this.inner.get<T>(storeName, id);
+    return record && this.isVisible(storeName, record) ? record : null;
+  }
+
+  async getAll<T>(storeName: string): Promise<T[]> {
+    return this.visible(storeName, await this.inner.getAll<T>(storeName));
+  }
+
+  async getMultiple<T>(storeName: string, ids: string[]): Promise<T[]> {
+    return this.visible(storeName, await this.inner.getMultiple<T>(storeName, ids));
+  }
+
+  async query<T>(storeName: string, filter?: StoreQuery): Promise<T[]> {
+    return this.visible(storeName, await this.inner.query<T>(storeName, filter));
+  }
+
+  scan<T>(storeName: string, options: ScanOptions<T> = {}): Promise<ScanResult<T>> {
+    if (!isScopedStore(storeName)) {
+      return this.inner.scan(storeName, options);
+    }
+
+    // Filtering inside the scan keeps limits and cursors counting visible records only
+    const { predicate } = options;
+    return this.inner.scan<T>(storeName, {
+      ...options,
+      predicate: (item) => this.isVisible(storeName, item) && (!predicate || predicate(item)),
+    });
+  }
+
+  /**
+   * Counts the active profile's and the shared catalog's slices of the
+   * [profile_id, ...] index, or scans while some records have no owner stamp
+   */
+  async count(storeName: string, index?: string, range?: KeyRange): Promise<number> {
+    if (!isScopedStore(storeName)) {
+      return this.inner.count(storeName, index, range);
+    }
+    if (!(await this.canCountByOwner(storeName, index))) {
+      return (await this.scan(storeName, { index, range })).items.length;
+    }
+
+    const owners = Array.from(new Set([getActiveProfileId(), SHARED_PROFILE_ID]));
+    const counts = await Promise.all(
+      owners.map((owner) =>
+        this.inner.count(storeName, ProfileScopedStorageAdapter.ownerIndex(index), KeyRanges.withPrefix([owner], range))
+      )
+    );
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  // Compound names like "date+deleted_at" are never fields; they only exist
+  // behind the owner prefix, where count() can serve them
+  async hasIndex(storeName: string, index: string): Promise<boolean> {
+    if (await this.inner.hasIndex(storeName, index)) {
+      return true;
+    }
+    return index.includes("+") && (await this.canCountByOwner(storeName, index));
+  }
+
+  save<T extends StorageData>(storeName: string, data: T, options?: WriteOptions): Promise<void> {
+    return this.inner.save(storeName, this.stamp(storeName, data), options);
+  }
+
+  saveBatch<T extends StorageData>(storeName: string, items: T[]): Promise<void> {
+    return this.inner.saveBatch(storeName, items.map((item) => this.stamp(storeName, item)));
+  }
+
+  async delete(storeName: string, id: string): Promise<void> {
+    if (await this.canDelete(storeName, id)) {
+      await this.inner.delete(storeName, id);
+    }
+  }
+
+  clear(storeName: string): Promise<void> {
+    return this.commitOperations([{ type: "clear", storeName }]);
+  }
+
+  beginUnitOfWork(): UnitOfWork {
+    return new UnitOfWork(this);
+  }
+
+  async commitOperations(operations: WriteOperation[]): Promise<void> {
+    const profileId = getActiveProfileId();
+    const scoped: WriteOperation[] = [];
+
+    for (const operation of operations) {
+      if (!isScopedStore(operation.storeName)) {
+        scoped.push(operation);
+      } else if (operation.type === "put") {
+        scoped.push({ ...operation, data: this.stamp(operation.storeName, operation.data) });
+      } else if (operation.type === "delete") {
+        if (await this.canDelete(operation.storeName, operation.id)) {
+          scoped.push(operation);
+        }
+      } else {
+        // The rest of the store belongs to other profiles or the shared catalog
+        const records = await this.inner.getAll<StorageData>(operation.storeName);
+        records
+          .filter((record) => ownerOf(record) === profileId)
+          .forEach((record) => scoped.push({ type: "delete", storeName: operation.storeName, id: record.id }));
+      }
+    }
+
+    if (scoped.length > 0) {
+      await this.inner.commitOperations(scoped);
+    }
+  }
+
+  private static ownerIndex(index?: string): string {
+    return `profile_id+${index ?? "id"}`;
+  }
+
+  // Records without profile_id belong to the default profile but are missing from the owner indexes
+  private async canCountByOwner(storeName: string, index?: string): Promise<boolean> {
+    if (
+      !isScopedStore(storeName) ||
+      !(await this.inner.hasIndex(storeName, ProfileScopedStorageAdapter.ownerIndex(index)))
+    ) {
+      return false;
+    }
+
+    const [total, owned] = await Promise.all([
+      this.inner.count(storeName),
+      this.inner.count(storeName, ProfileScopedStorageAdapter.ownerIndex()),
+    ]);
+    return owned === total;
+  }
+
+  // Records keep their owner when updated, so editing the shared catalog leaves it shared
+  private stamp<T extends StorageData>(storeName: string, data: T): T {
+    if (!isScopedStore(storeName) || data.profile_id) {
+      return data;
+    }
+    return { ...data, profile_id: getActiveProfileId() };
+  }
+
+  // A record the active profile can't read is as good as missing, so deleting it does nothing
+  private async canDelete(storeName: string, id: string): Promise<boolean> {
+    if (!isScopedStore(storeName)) {
+      return true;
+    }
+    const record = await this.inner.get(storeName, id);
+    return !record || this.isVisible(storeName, record);
+  }
+
+  private isVisible(storeName: string, record: unknown): boolean {
+    return !isScopedStore(storeName) || isVisibleTo(record as { profile_id?: unknown }, getActiveProfileId());
+  }
+
+  private visible<T>(storeName: string, records: T[]): T[] {
+    return isScopedStore(storeName) ? records.filter((record) => this.isVisible(storeName, record)) : records;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Local profile management for devices several people share
+ * Following cursor rules for error handling and type safety
+ *
+ * Each profile sees its own logs, plans, metrics and goals plus the shared
+ * starter catalog. Deleting a profile deletes everything it owns.
+ */
+
+import { profileRepository } from "@/repositories";
+import { storageService } from "./storage";
+import { getUnscopedStorageAdapter } from "./storageBackend";
+import { getSchemaIndexes, INTERNAL_STORES } from "./schemaMigrations";
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfileId,
+  isScopedStore,
+  ownerOf,
+  setActiveProfileId,
+} from "./activeProfile";
+import type { ProfileDeletionReport, StorageData, UserProfile } from "@/types";
+
+type StoredRecord = StorageData & Record<string, unknown>;
+
+export class ProfileService {
+  private static readonly MEDIA_STORE = "media";
+  private static readonly DEFAULT_PROFILE_NAME = "Me";
+
+  /**
+   * Every profile on this device, oldest first. A device without any gets
+   * the default profile, which owns everything recorded before profiles existed.
+   */
+  static async listProfiles(): Promise<UserProfile[]> {
+    const profiles = await profileRepository.listProfiles();
+    if (profiles.length > 0) {
+      return profiles;
+    }
+    return [await profileRepository.createProfile(this.DEFAULT_PROFILE_NAME, DEFAULT_PROFILE_ID)];
+  }
+
+  /**
+   * Make sure the active profile still exists, e.g. after another tab deleted
+   * it, falling back to the oldest profile
+   */
+  static async ensureActiveProfile(): Promise<UserProfile[]> {
+    const profiles = await this.listProfiles();
+    if (!profiles.some((profile) => profile.id === getActiveProfileId())) {
+      setActiveProfileId(profiles[0].id);
+    }
+    return profiles;
+  }
+
+  /**
+   * Add a profile with the given name
+   */
+  static async createProfile(displayName: string): Promise<UserProfile> {
+    const name = displayName.trim();
+    if (!name) {
+      throw new Error("Profile name is required");
+    }
+
+    const profiles = await this.listProfiles();
+    if (profiles.some((profile) => this.nameOf(profile).toLowerCase() === name.toLowerCase())) {
+      throw new Error(`A profile named "${name}" already exists`);
+    }
+
+    return profileRepository.createProfile(name);
+  }
+
+  /**
+   * Read and write as another profile from now on
+   */
+  static async switchProfile(profileId: string): Promise<void> {
+    const profiles = await this.listProfiles();
+    if (!profiles.some((profile) => profile.id === profileId)) {
+      throw new Error(`Profile not found: ${profileId}`);
+    }
+    setActiveProfileId(profileId);
+  }
+
+  /**
+   * Delete a profile and every record it owns in one transaction, then the
+   * media only its records referenced. The shared catalog is kept.
+   */
+  static async deleteProfile(profileId: string): Promise<ProfileDeletionReport> {
+    const profiles = await this.listProfiles();
+    const remaining = profiles.filter((profile) => profile.id !== profileId);
+    if (remaining.length === profiles.length) {
+      throw new Error(`Profile not found: ${profileId}`);
+    }
+    if (remaining.length === 0) {
+      throw new Error("The last profile on this device cannot be deleted");
+    }
+
+    const storage = getUnscopedStorageAdapter();
+    const unitOfWork = storage.beginUnitOfWork();
+    const recordsDeleted: Record<string, number> = {};
+    const deletedMedia = new Set<string>();
+    const keptMedia = new Set<string>();
+
+    for (const storeName of this.getProfileStores()) {
+      const records = await storage.getAll<StoredRecord>(storeName);
+      let deleted = 0;
+
+      for (const record of records) {
+        const references = this.mediaReferences(record);
+        if (ownerOf(record) === profileId) {
+          unitOfWork.delete(storeName, record.id);
+          references.forEach((id) => deletedMedia.add(id));
+          deleted++;
+        } else {
+          references.forEach((id) => keptMedia.add(id));
+        }
+      }
+
+      if (deleted > 0) {
+        recordsDeleted[storeName] = deleted;
+      }
+    }
+
+    unitOfWork.delete("profile", profileId);
+    await unitOfWork.commit();
+
+    if (profileId === getActiveProfileId()) {
+      setActiveProfileId(remaining[0].id);
+    }
+
+    return {
+      profile_id: profileId,
+      records_deleted: recordsDeleted,
+      media_deleted: await this.deleteMedia(Array.from(deletedMedia).filter((id) => !keptMedia.has(id))),
+    };
+  }
+
+  /**
+   * Name to show for a profile
+   */
+  static nameOf(profile: UserProfile): string {
+    return profile.display_name?.trim() || this.DEFAULT_PROFILE_NAME;
+  }
+
+  /**
+   * Media store ids a record points at: exercise and glossary media and
+   * progress photos linked from body measurements
+   */
+  static mediaReferences(record: Record<string, unknown>): string[] {
+    const media = Array.isArray(record.media)
+      ? record.media.map((item: { source?: unknown } | null) => item?.source)
+      : [];
+    const photos = Array.isArray(record.progress_photo_ids) ? record.progress_photo_ids : [];
+    return [...media, ...photos].filter((id): id is string => typeof id === "string" && id.length > 0);
+  }
+
+  /**
+   * Stores whose records belong to a profile
+   */
+  private static getProfileStores(): string[] {
+    return Object.keys(getSchemaIndexes()).filter(
+      (store) => !INTERNAL_STORES.includes(store) && isScopedStore(store)
+    );
+  }
+
+  // Media blobs stay in IndexedDB whichever adapter holds the records; outside the browser there are none
+  private static async deleteMedia(ids: string[]): Promise<number> {
+    if (ids.length === 0 || typeof indexedDB === "undefined") {
+      return 0;
+    }
+
+    const existing = await storageService.getMultiple<StorageData>(this.MEDIA_STORE, ids);
+    if (existing.length === 0) {
+      return 0;
+    }
+
+    const unitOfWork = storageService.beginUnitOfWork();
+    existing.forEach((item) => unitOfWork.delete(this.MEDIA_STORE, item.id));
+    await unitOfWork.commit();
+    return existing.length;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Snapshots written alongside every save of a plan or workout log
+ * Repositories stage the snapshot on the same unit of work as the record, so
+ * a revision exists exactly when the save it describes landed.
+ */
+
+import type { UnitOfWork } from "./storageAdapter";
+import type { EntityRevision, RevisionStore, StorageData } from "@/types";
+
+export const REVISIONS_STORE = "revisions";
+
+// Revisions kept per record. Slots are keyed by version modulo this, so each
+// save overwrites the revision from MAX_REVISIONS saves ago without a read.
+export const MAX_REVISIONS = 50;
+
+export function revisionId(store: RevisionStore, entityId: string, entityVersion: number): string {
+  return `${store}:${entityId}:${entityVersion % MAX_REVISIONS}`;
+}
+
+/**
+ * Stage a snapshot of a record as it is about to be saved
+ */
+export function stageRevision(
+  unitOfWork: UnitOfWork,
+  store: RevisionStore,
+  entity: StorageData
+): void {
+  const revision: EntityRevision = {
+    id: revisionId(store, entity.id, entity.version),
+    store,
+    entity_id: entity.id,
+    entity_version: entity.version,
+    snapshot: entity as EntityRevision["snapshot"],
+    profile_id: entity.profile_id,
+    created_at: entity.updated_at,
+    updated_at: entity.updated_at,
+    version: 1,
+  };
+  unitOfWork.put(REVISIONS_STORE, revision);
+}
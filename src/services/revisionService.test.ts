@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { StorageService } from "./storage";
+import { RevisionService } from "./revisionService";
+import { workoutRepository } from "@/repositories";
+import { installIndexedDbStorage, removeIndexedDbStorage } from "@/test/indexedDbStorage";
+import type { WorkoutLogEntry } from "@/types";
+
+const workout: WorkoutLogEntry = {
+  id: "workout-1",
+  date_time_start: "2026-02-10T17:30:00.000Z",
+  session_title: "Leg day",
+  entries: [
+    {
+      type: "strength",
+      exercise_id: "back-squat",
+      exercise_name: "Back Squat",
+      order_index: 0,
+      performed_sets: [
+        {
+          set_number: 1,
+          repetitions_done: 5,
+          weight_value: 100,
+          weight_unit: "kg",
+          perceived_effort_text: "hard",
+        },
+      ],
+    },
+  ],
+  created_at: "2026-02-10T17:30:00.000Z",
+  updated_at: "2026-02-10T17:30:00.000Z",
+  version: 1,
+};
+
+describe("RevisionService for workout logs", () => {
+  let storage: StorageService;
+
+  beforeEach(async () => {
+    storage = installIndexedDbStorage();
+    await workoutRepository.save(workout);
+    await workoutRepository.update("workout-1", { session_title: "Heavy leg day" });
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("lists each saved version with what changed", async () => {
+    const history = await RevisionService.getHistory("workouts", "workout-1");
+
+    expect(history.map((entry) => entry.entity_version)).toEqual([2, 1]);
+    expect(history[0].change_count).toBe(1);
+    expect(history[1].summary).toBe("Created");
+  });
+
+  it("restores a stored workout to an earlier version as a new version", async () => {
+    const restored = await RevisionService.restore("workouts", "workout-1", 1);
+
+    expect(restored).toMatchObject({ session_title: "Leg day", version: 3 });
+    expect(await workoutRepository.getById("workout-1")).toMatchObject({
+      session_title: "Leg day",
+      version: 3,
+      timestamp: expect.any(Number),
+    });
+    expect((await RevisionService.getHistory("workouts", "workout-1"))[0].entity_version).toBe(3);
+  });
+
+  it("forks an earlier version into a new workout and leaves the original alone", async () => {
+    const forked = await RevisionService.fork("workouts", "workout-1", 1);
+
+    expect(forked.id).not.toBe("workout-1");
+    expect(await workoutRepository.getById(forked.id)).toMatchObject({
+      session_title: "Leg day (version 1)",
+      version: 1,
+    });
+    expect(await workoutRepository.getById("workout-1")).toMatchObject({ session_title: "Heavy leg day" });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Revision history for plans and workout logs
+ * Following cursor rules for error handling and type safety
+ *
+ * The repositories snapshot every save; this lists the snapshots with what
+ * changed in each, compares any two, and restores or forks an old one.
+ */
+
+import { exerciseRepository, planRepository, revisionRepository, workoutRepository } from "@/repositories";
+import { DateUtils } from "@/utils/dateUtils";
+import { StructuralDiff, type StructuralDiffOptions } from "@/utils/structuralDiff";
+import type {
+  EntityRevision,
+  ProgramPlan,
+  RevisionChange,
+  RevisionHistoryEntry,
+  RevisionStore,
+  WorkoutLogEntry,
+} from "@/types";
+
+type PlainObject = Record<string, unknown>;
+
+export class RevisionService {
+  // Fields that change with every save or move, which say nothing about the edit itself
+  private static readonly IGNORED_FIELDS = [
+    "id",
+    "created_at",
+    "updated_at",
+    "version",
+    "timestamp",
+    "profile_id",
+    "order_index",
+  ];
+
+  private static readonly DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+  /**
+   * Saved versions of a record, newest first, each with what changed since
+   * the version before it
+   */
+  static async getHistory(store: RevisionStore, entityId: string): Promise<RevisionHistoryEntry[]> {
+    const revisions = await revisionRepository.getHistory(store, entityId);
+    const options = await this.diffOptions();
+
+    return revisions
+      .map((revision, index): RevisionHistoryEntry => {
+        const previous = revisions[index - 1];
+        const isAdjacent = previous?.entity_version === revision.entity_version - 1;
+        const changes = isAdjacent ? this.diff(previous.snapshot, revision.snapshot, options) : [];
+
+        return {
+          revision_id: revision.id,
+          entity_version: revision.entity_version,
+          saved_at: revision.created_at,
+          summary: isAdjacent
+            ? StructuralDiff.summarize(changes)
+            : revision.entity_version === 1
+              ? "Created"
+              : "Oldest kept version",
+          change_count: changes.length,
+        };
+      })
+      .reverse();
+  }
+
+  /**
+   * Everything that differs between two saved versions of a record
+   */
+  static async compare(
+    store: RevisionStore,
+    entityId: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<RevisionChange[]> {
+    const [from, to] = await Promise.all([
+      this.requireRevision(store, entityId, fromVersion),
+      this.requireRevision(store, entityId, toVersion),
+    ]);
+    return this.diff(from.snapshot, to.snapshot, await this.diffOptions());
+  }
+
+  /**
+   * Put a record back the way it was at an earlier version. The restore is
+   * saved as a new version, so it can itself be undone from the history.
+   */
+  static async restore(
+    store: RevisionStore,
+    entityId: string,
+    entityVersion: number
+  ): Promise<ProgramPlan | WorkoutLogEntry> {
+    const revision = await this.requireRevision(store, entityId, entityVersion);
+
+    if (store === "plans") {
+      const current = await planRepository.getById(entityId);
+      if (!current) {
+        throw new Error("Restore the plan from the trash before restoring an older version");
+      }
+      return planRepository.save(this.revert(revision.snapshot as ProgramPlan, current), undefined, {
+        expectedVersion: current.version,
+      });
+    }
+
+    const current = await workoutRepository.getById(entityId);
+    if (!current) {
+      throw new Error("Restore the workout from the trash before restoring an older version");
+    }
+    const restored = this.revert(revision.snapshot as WorkoutLogEntry, current);
+    const saved = { ...restored, updated_at: DateUtils.getCurrentDateTime(), version: current.version + 1 };
+    await workoutRepository.save(saved, undefined, { expectedVersion: current.version });
+    return saved;
+  }
+
+  /**
+   * Start a new record from an earlier version, leaving the original as it is
+   */
+  static async fork(
+    store: RevisionStore,
+    entityId: string,
+    entityVersion: number
+  ): Promise<ProgramPlan | WorkoutLogEntry> {
+    const revision = await this.requireRevision(store, entityId, entityVersion);
+    const now = DateUtils.getCurrentDateTime();
+    const fresh = {
+      id: crypto.randomUUID(),
+      profile_id: undefined, // A fork of a shared template belongs to the active profile
+      deleted_at: undefined,
+      created_at: now,
+      updated_at: now,
+      version: 1,
+      timestamp: undefined, // The storage layer stamps the fork's first write
+    };
+
+    if (store === "plans") {
+      const snapshot = revision.snapshot as ProgramPlan;
+      return planRepository.save({
+        ...snapshot,
+        ...fresh,
+        title: `${snapshot.title} (version ${entityVersion})`,
+        is_template: false,
+      });
+    }
+
+    const snapshot = revision.snapshot as WorkoutLogEntry;
+    const forked: WorkoutLogEntry = {
+      ...snapshot,
+      ...fresh,
+      session_title: `${snapshot.session_title ?? "Workout"} (version ${entityVersion})`,
+    };
+    await workoutRepository.save(forked);
+    return forked;
+  }
+
+  private static async requireRevision(
+    store: RevisionStore,
+    entityId: string,
+    entityVersion: number
+  ): Promise<EntityRevision> {
+    const revision = await revisionRepository.getRevision(store, entityId, entityVersion);
+    if (!revision) {
+      throw new Error(`Version ${entityVersion} is no longer in the history`);
+    }
+    return revision;
+  }
+
+  // The old content under the current identity and ownership, without the storage layer's write stamp
+  private static revert<T extends ProgramPlan | WorkoutLogEntry>(snapshot: T, current: T): T {
+    const reverted: T = {
+      ...snapshot,
+      id: current.id,
+      profile_id: current.profile_id,
+      created_at: current.created_at,
+      version: current.version,
+    };
+    delete reverted.deleted_at;
+    delete (reverted as { timestamp?: number }).timestamp;
+    return reverted;
+  }
+
+  private static diff(before: unknown, after: unknown, options: StructuralDiffOptions): RevisionChange[] {
+    return StructuralDiff.compare(before, after, options).map((change) => {
+      // The trash stamp reads better as what it means
+      if (change.path.length === 1 && change.path[0] === "Deleted at" && change.kind !== "changed") {
+        return { ...change, description: change.kind === "added" ? "Moved to trash" : "Restored from trash" };
+      }
+      return change;
+    });
+  }
+
+  // Names plan and log parts the way the app shows them, e.g. "Base phase › Week 2 › Bench Press"
+  private static async diffOptions(): Promise<StructuralDiffOptions> {
+    const exercises = await exerciseRepository.getAll();
+    const exerciseNames = new Map(exercises.map((exercise) => [exercise.id, exercise.name]));
+
+    return {
+      ignore: this.IGNORED_FIELDS,
+      keyOf: (item) => this.text(item.id) ?? this.text(item.exercise_id),
+      labelOf: (item: PlainObject) => {
+        if (this.text(item.title)) return this.text(item.title);
+        if (this.text(item.exercise_name)) return this.text(item.exercise_name);
+        if (this.text(item.exercise_id)) return exerciseNames.get(item.exercise_id as string) ?? "Exercise";
+        if (this.text(item.name)) return `${item.name} phase`;
+        if (typeof item.index === "number" && Array.isArray(item.days)) return `Week ${item.index}`;
+        if (typeof item.day_of_week === "number") return this.DAY_NAMES[item.day_of_week];
+        if (this.text(item.mode)) return (item.mode as string).replace(/_/g, " ");
+        if (this.text(item.label)) return this.text(item.label);
+        if (typeof item.set_number === "number") return `Set ${item.set_number}`;
+        if (typeof item.interval_number === "number") return `Interval ${item.interval_number}`;
+        return undefined;
+      },
+    };
+  }
+
+  private static text(value: unknown): string | undefined {
+    return typeof value === "string" && value.length > 0 ? value : undefined;
+  }
+}
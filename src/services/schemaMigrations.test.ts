@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { StorageService } from "./storage";
+import { applySchemaMigrations, getSchemaIndexes, LATEST_SCHEMA_VERSION } from "./schemaMigrations";
+import { DEFAULT_PROFILE_ID } from "./activeProfile";
+
+const DB_NAME = "FitnessTracker";
+
+// A database as an older release left it
+function openAtVersion(version: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = (event) => {
+      applySchemaMigrations(request.result, request.transaction!, event.oldVersion, version);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function put(db: IDBDatabase, storeName: string, record: object): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], "readwrite");
+    transaction.objectStore(storeName).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+describe("schema migrations", () => {
+  let storage: StorageService | null = null;
+
+  afterEach(async () => {
+    storage?.close();
+    storage = null;
+    await new Promise((resolve) => {
+      const request = indexedDB.deleteDatabase(DB_NAME);
+      request.onsuccess = request.onerror = resolve;
+    });
+  });
+
+  it("creates every store and index in a fresh database and logs each migration", async () => {
+    storage = new StorageService();
+    await storage.initialize();
+
+    expect(storage.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+    for (const [store, indexes] of Object.entries(getSchemaIndexes())) {
+      for (const index of indexes) {
+        expect(await storage.hasIndex(store, index.name)).toBe(true);
+      }
+    }
+
+    const applied = await storage.getAppliedMigrations();
+    expect(applied.map((migration) => migration.schema_version)).toEqual(
+      Array.from({ length: LATEST_SCHEMA_VERSION }, (_, i) => i + 1)
+    );
+    expect(applied.every((migration) => migration.from_version === 0)).toBe(true);
+  });
+
+  it("upgrades an old database in place without losing records", async () => {
+    const old = await openAtVersion(1);
+    const workout = {
+      id: "workout-1",
+      date_time_start: "2026-01-05T09:00:00.000Z",
+      entries: [],
+      created_at: "2026-01-05T09:00:00.000Z",
+      updated_at: "2026-01-05T09:00:00.000Z",
+      version: 1,
+    };
+    await put(old, "workouts", workout);
+    old.close();
+
+    storage = new StorageService();
+    await storage.initialize();
+
+    // Records from before profiles are stamped with the profile they always belonged to
+    expect(await storage.get("workouts", "workout-1")).toEqual({ ...workout, profile_id: DEFAULT_PROFILE_ID });
+    expect(await storage.count("workouts", "profile_id+id")).toBe(1);
+    expect(await storage.hasIndex("workouts", "created_at")).toBe(true);
+    expect(await storage.getStoreNames()).toContain("revisions");
+
+    const upgrades = (await storage.getAppliedMigrations()).filter((migration) => migration.schema_version > 1);
+    expect(upgrades).toHaveLength(LATEST_SCHEMA_VERSION - 1);
+    expect(upgrades.every((migration) => migration.from_version === 1)).toBe(true);
+  });
+
+  it("moves catalog exercise ids out of cardio modes", async () => {
+    const old = await openAtVersion(8);
+    const exerciseId = "0b6f4a8e-3c1d-4e2f-9a7b-5d8c6e1f2a3b";
+    const segment = { segment_number: 1, label: "Segment 1", duration_seconds: 600 };
+    await put(old, "workouts", {
+      id: "workout-1",
+      date_time_start: "2026-01-05T09:00:00.000Z",
+      entries: [
+        { type: "cardio", mode: exerciseId, total_duration_seconds: 600, segments: [segment] },
+        { type: "cardio", mode: "outdoor_run", total_duration_seconds: 600, segments: [segment] },
+      ],
+      profile_id: DEFAULT_PROFILE_ID,
+      created_at: "2026-01-05T09:00:00.000Z",
+      updated_at: "2026-01-05T09:00:00.000Z",
+      version: 1,
+    });
+    old.close();
+
+    storage = new StorageService();
+    await storage.initialize();
+
+    const workout = await storage.get<{ id: string; entries: unknown[] }>("workouts", "workout-1");
+    expect(workout?.entries).toEqual([
+      { type: "cardio", mode: "other", exercise_id: exerciseId, total_duration_seconds: 600, segments: [segment] },
+      { type: "cardio", mode: "outdoor_run", total_duration_seconds: 600, segments: [segment] },
+    ]);
+  });
+});
@@ -0,0 +1,529 @@
+/**
+ * Declarative IndexedDB schema migrations
+ * Each entry describes the structural and record changes for one database version
+ */
+
+import { DEFAULT_PROFILE_ID } from "./activeProfile";
+import type { StorageData } from "@/types";
+
+export interface IndexDefinition {
+  name: string;
+  keyPath: string | string[];
+  unique?: boolean;
+  multiEntry?: boolean;
+}
+
+export type SchemaStep =
+  | {
+      type: "createStore";
+      store: string;
+      keyPath: string;
+      indexes?: IndexDefinition[];
+    }
+  | {
+      type: "createIndex";
+      store: string;
+      index: IndexDefinition;
+    }
+  | {
+      type: "deleteIndex";
+      store: string;
+      name: string;
+    }
+  | {
+      type: "transform";
+      store: string;
+      // Return the updated record, or null to delete it
+      transform: (record: Record<string, unknown>) => Record<string, unknown> | null;
+    };
+
+type TransformStep = Extract<SchemaStep, { type: "transform" }>;
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  steps: SchemaStep[];
+}
+
+export interface SchemaMigrationRecord extends StorageData {
+  schema_version: number;
+  description: string;
+  from_version: number;
+  applied_at: string;
+}
+
+export const MIGRATIONS_STORE = "schema_migrations";
+export const KEYRING_STORE = "encryption_keys";
+export const SYNC_STATE_STORE = "sync_state";
+export const SYNC_OUTBOX_STORE = "sync_outbox";
+
+// Device-local bookkeeping stores that are never exported or restored
+export const INTERNAL_STORES = [MIGRATIONS_STORE, KEYRING_STORE, SYNC_STATE_STORE, SYNC_OUTBOX_STORE];
+
+// Repository stores and the fields they count on, as of schema v8. Each gets
+// [profile_id, field] and [profile_id, field, deleted_at] indexes; the second
+// only holds trashed records, since a record missing a key path isn't indexed.
+const OWNER_COUNT_FIELDS: Record<string, string[]> = {
+  exercises: ["id", "name", "movement_pattern", "difficulty_level", "exercise_type", "created_at"],
+  workouts: ["id", "date_time_start", "session_plan_ref", "environment", "overall_rating", "created_at"],
+  metrics: ["id", "date", "weight_unit", "created_at"],
+  baselines: ["id", "month", "test_date", "created_at"],
+  plans: ["id", "title", "difficulty_level", "is_template", "created_at", "updated_at"],
+  glossary: ["id", "term", "category", "difficulty_level", "created_at"],
+  goals: ["id", "status", "category", "target_date", "created_at"],
+  "body-measurements": ["id", "date", "created_at"],
+  "progress-photos": ["id", "date", "photo_type", "measurements_id", "created_at"],
+};
+
+// Catalog ids are UUIDs, which no cardio mode looks like
+const CATALOG_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Cardio entries logged against a catalog exercise used to keep its id in
+ * mode. Move it to exercise_id; the real mode was never recorded. Sealed
+ * logs have no readable entries and are returned as they are.
+ */
+function splitCardioExerciseIds(log: Record<string, unknown>): Record<string, unknown> {
+  if (!Array.isArray(log.entries)) return log;
+  return {
+    ...log,
+    entries: log.entries.map((entry: Record<string, unknown>) =>
+      entry?.type === "cardio" && typeof entry.mode === "string" && CATALOG_ID.test(entry.mode)
+        ? { ...entry, mode: "other", exercise_id: entry.mode }
+        : entry
+    ),
+  };
+}
+
+/**
+ * Ordered list of schema migrations. Never edit a released entry -
+ * append a new version instead so existing databases upgrade in place.
+ */
+export const schemaMigrations: SchemaMigration[] = [
+  {
+    version: 1,
+    description: "Initial stores for settings, catalog, logs, metrics, plans and media",
+    steps: [
+      { type: "createStore", store: "settings", keyPath: "id" },
+      {
+        type: "createStore",
+        store: "exercises",
+        keyPath: "id",
+        indexes: [
+          { name: "name", keyPath: "name" },
+          { name: "movement_pattern", keyPath: "movement_pattern" },
+          { name: "primary_muscles", keyPath: "primary_muscles", multiEntry: true },
+          { name: "equipment", keyPath: "equipment", multiEntry: true },
+          { name: "difficulty_level", keyPath: "difficulty_level" },
+          { name: "exercise_type", keyPath: "exercise_type" },
+        ],
+      },
+      {
+        type: "createStore",
+        store: "workouts",
+        keyPath: "id",
+        indexes: [
+          { name: "date_time_start", keyPath: "date_time_start" },
+          { name: "session_plan_ref", keyPath: "session_plan_ref" },
+          { name: "environment", keyPath: "environment" },
+          { name: "overall_rating", keyPath: "overall_rating" },
+        ],
+      },
+      {
+        type: "createStore",
+        store: "metrics",
+        keyPath: "id",
+        indexes: [
+          { name: "date", keyPath: "date" },
+          { name: "weight_unit", keyPath: "weight_unit" },
+        ],
+      },
+      {
+        type: "createStore",
+        store: "baselines",
+        keyPath: "id",
+        indexes: [
+          { name: "month", keyPath: "month" },
+          { name: "test_date", keyPath: "test_date" },
+        ],
+      },
+      {
+        type: "createStore",
+        store: "plans",
+        keyPath: "id",
+        indexes: [
+          { name: "title", keyPath: "title" },
+          { name: "difficulty_level", keyPath: "difficulty_level" },
+          { name: "is_template", keyPath: "is_template" },
+          { name: "created_at", keyPath: "created_at" },
+          { name: "updated_at", keyPath: "updated_at" },
+        ],
+      },
+      {
+        type: "createStore",
+        store: "completed_sessions",
+        keyPath: "id",
+        indexes: [
+          { name: "session_id", keyPath: "session_id" },
+          { name: "plan_id", keyPath: "plan_id" },
+          { name: "completion_date", keyPath: "completion_date" },
+        ],
+      },
+      {
+        type: "createStore",
+        store: "glossary",
+        keyPath: "id",
+        indexes: [
+          { name: "term", keyPath: "term" },
+          { name: "category", keyPath: "category" },
+          { name: "difficulty_level", keyPath: "difficulty_level" },
+        ],
+      },
+      { type: "createStore", store: "preferences", keyPath: "id" },
+      {
+        type: "createStore",
+        store: "media",
+        keyPath: "id",
+        indexes: [
+          { name: "filename", keyPath: "filename" },
+          { name: "mimeType", keyPath: "mimeType" },
+          { name: "created_at", keyPath: "created_at" },
+        ],
+      },
+    ],
+  },
+  {
+    version: 2,
+    description: "Add goals, body measurement, progress photo and active session stores",
+    steps: [
+      {
+        type: "createStore",
+        store: "goals",
+        keyPath: "id",
+        indexes: [
+          { name: "status", keyPath: "status" },
+          { name: "category", keyPath: "category" },
+          { name: "target_date", keyPath: "target_date" },
+        ],
+      },
+      {
+        type: "createStore",
+        store: "body-measurements",
+        keyPath: "id",
+        indexes: [{ name: "date", keyPath: "date" }],
+      },
+      {
+        type: "createStore",
+        store: "progress-photos",
+        keyPath: "id",
+        indexes: [
+          { name: "date", keyPath: "date" },
+          { name: "photo_type", keyPath: "photo_type" },
+          { name: "measurements_id", keyPath: "measurements_id" },
+        ],
+      },
+      {
+        type: "createStore",
+        store: "active-sessions",
+        keyPath: "id",
+        indexes: [
+          { name: "sessionStatus", keyPath: "sessionStatus" },
+          { name: "lastActivity", keyPath: "lastActivity" },
+        ],
+      },
+    ],
+  },
+  {
+    version: 3,
+    description: "Index created_at on repository stores for date range and recency queries",
+    steps: [
+      "exercises",
+      "workouts",
+      "metrics",
+      "baselines",
+      "glossary",
+      "goals",
+      "body-measurements",
+      "progress-photos",
+    ].map((store): SchemaStep => ({
+      type: "createIndex",
+      store,
+      index: { name: "created_at", keyPath: "created_at" },
+    })),
+  },
+  {
+    version: 4,
+    description: "Add keyring store for at-rest encryption",
+    steps: [{ type: "createStore", store: KEYRING_STORE, keyPath: "id" }],
+  },
+  {
+    version: 5,
+    description: "Add per-record sync state and outbox stores for device sync",
+    steps: [
+      {
+        type: "createStore",
+        store: SYNC_STATE_STORE,
+        keyPath: "id",
+        indexes: [{ name: "store", keyPath: "store" }],
+      },
+      { type: "createStore", store: SYNC_OUTBOX_STORE, keyPath: "id" },
+    ],
+  },
+  {
+    version: 6,
+    description: "Add user profile store for personalized calculations",
+    steps: [{ type: "createStore", store: "profile", keyPath: "id" }],
+  },
+  {
+    version: 7,
+    description: "Add revision history store for plans and workout logs",
+    steps: [
+      {
+        type: "createStore",
+        store: "revisions",
+        keyPath: "id",
+        indexes: [
+          { name: "entity_id", keyPath: "entity_id" },
+          { name: "created_at", keyPath: "created_at" },
+        ],
+      },
+    ],
+  },
+  {
+    version: 8,
+    description: "Index records by owning profile and trash state so scoped counts stay on indexes",
+    steps: [
+      ...[
+        "exercises",
+        "workouts",
+        "metrics",
+        "baselines",
+        "plans",
+        "completed_sessions",
+        "glossary",
+        "preferences",
+        "goals",
+        "body-measurements",
+        "progress-photos",
+        "active-sessions",
+        "revisions",
+      ].map((store): SchemaStep => ({
+        type: "transform",
+        store,
+        // Records from before profiles belong to the default profile. Sealed
+        // records keep their owner in the ciphertext, so they are left alone.
+        transform: (record) =>
+          record.profile_id !== undefined || record.sealed !== undefined
+            ? record
+            : { ...record, profile_id: DEFAULT_PROFILE_ID },
+      })),
+      ...Object.entries(OWNER_COUNT_FIELDS).flatMap(([store, fields]) =>
+        fields.flatMap((field): SchemaStep[] => [
+          {
+            type: "createIndex",
+            store,
+            index: { name: `profile_id+${field}`, keyPath: ["profile_id", field] },
+          },
+          {
+            type: "createIndex",
+            store,
+            index: { name: `profile_id+${field}+deleted_at`, keyPath: ["profile_id", field, "deleted_at"] },
+          },
+        ])
+      ),
+    ],
+  },
+  {
+    version: 9,
+    description: "Move catalog exercise ids out of cardio entry modes",
+    steps: [
+      {
+        type: "transform",
+        store: "workouts",
+        transform: splitCardioExerciseIds,
+      },
+      {
+        type: "transform",
+        store: "active-sessions",
+        transform: (record) => {
+          const workoutLog = record.workoutLog as Record<string, unknown> | undefined;
+          return workoutLog ? { ...record, workoutLog: splitCardioExerciseIds(workoutLog) } : record;
+        },
+      },
+    ],
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = schemaMigrations[schemaMigrations.length - 1].version;
+
+/**
+ * Indexes of every store at the latest schema version, derived by replaying
+ * the structural steps. Lets backends without IndexedDB mirror the schema.
+ */
+export function getSchemaIndexes(): Record<string, IndexDefinition[]> {
+  const stores: Record<string, IndexDefinition[]> = {};
+  const addIndexes = (store: string, indexes: IndexDefinition[]) => {
+    const existing = stores[store] ?? [];
+    stores[store] = [
+      ...existing,
+      ...indexes.filter((index) => !existing.some((current) => current.name === index.name)),
+    ];
+  };
+
+  for (const migration of schemaMigrations) {
+    for (const step of migration.steps) {
+      switch (step.type) {
+        case "createStore":
+          addIndexes(step.store, step.indexes ?? []);
+          break;
+        case "createIndex":
+          addIndexes(step.store, [step.index]);
+          break;
+        case "deleteIndex":
+          stores[step.store] = (stores[step.store] ?? []).filter((index) => index.name !== step.name);
+          break;
+      }
+    }
+  }
+
+  return stores;
+}
+
+/**
+ * Apply every migration newer than oldVersion inside the versionchange transaction.
+ * Called from the IndexedDB onupgradeneeded handler.
+ */
+export function applySchemaMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number
+): void {
+  const pending = schemaMigrations.filter(
+    (migration) => migration.version > oldVersion && migration.version <= newVersion
+  );
+
+  // The log store lives outside the versioned steps so every migration can be recorded
+  if (!db.objectStoreNames.contains(MIGRATIONS_STORE)) {
+    db.createObjectStore(MIGRATIONS_STORE, { keyPath: "id" });
+  }
+
+  // Cursors on one store interleave, so a store's transforms are chained in a
+  // single pass; otherwise a later pass would write back what an earlier one read
+  const transforms = new Map<string, TransformStep["transform"][]>();
+  for (const migration of pending) {
+    migration.steps.forEach((step) => {
+      if (step.type === "transform") {
+        transforms.set(step.store, [...(transforms.get(step.store) ?? []), step.transform]);
+      } else {
+        applyStep(db, transaction, step);
+      }
+    });
+    recordMigration(transaction, migration, oldVersion);
+  }
+  transforms.forEach((chain, store) => applyTransforms(db, transaction, store, chain));
+}
+
+/**
+ * Apply a single schema step. Steps are idempotent so a partially
+ * created database can be upgraded safely.
+ */
+function applyStep(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  step: Exclude<SchemaStep, TransformStep>
+): void {
+  switch (step.type) {
+    case "createStore": {
+      const store = db.objectStoreNames.contains(step.store)
+        ? transaction.objectStore(step.store)
+        : db.createObjectStore(step.store, { keyPath: step.keyPath });
+      step.indexes?.forEach((index) => createIndex(store, index));
+      break;
+    }
+
+    case "createIndex": {
+      if (!db.objectStoreNames.contains(step.store)) {
+        throw new Error(`Cannot add index ${step.index.name}: store ${step.store} does not exist`);
+      }
+      createIndex(transaction.objectStore(step.store), step.index);
+      break;
+    }
+
+    case "deleteIndex": {
+      if (!db.objectStoreNames.contains(step.store)) {
+        return;
+      }
+      const store = transaction.objectStore(step.store);
+      if (store.indexNames.contains(step.name)) {
+        store.deleteIndex(step.name);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Run a store's transforms over every record in one cursor pass, in order.
+ * A record a transform deletes is not handed to the ones after it.
+ */
+function applyTransforms(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  store: string,
+  chain: TransformStep["transform"][]
+): void {
+  if (!db.objectStoreNames.contains(store)) {
+    return;
+  }
+  const request = transaction.objectStore(store).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const updated = chain.reduce<Record<string, unknown> | null>(
+      (record, transform) => (record === null ? null : transform(record)),
+      cursor.value as Record<string, unknown>
+    );
+    if (updated === null) {
+      cursor.delete();
+    } else {
+      cursor.update(updated);
+    }
+    cursor.continue();
+  };
+}
+
+function createIndex(store: IDBObjectStore, index: IndexDefinition): void {
+  if (store.indexNames.contains(index.name)) {
+    return;
+  }
+
+  store.createIndex(index.name, index.keyPath, {
+    unique: index.unique ?? false,
+    multiEntry: index.multiEntry ?? false,
+  });
+}
+
+/**
+ * Record an applied migration in the log store
+ */
+function recordMigration(
+  transaction: IDBTransaction,
+  migration: SchemaMigration,
+  fromVersion: number
+): void {
+  const now = new Date().toISOString();
+  const record: SchemaMigrationRecord = {
+    id: `schema-v${migration.version}`,
+    schema_version: migration.version,
+    description: migration.description,
+    from_version: fromVersion,
+    applied_at: now,
+    created_at: now,
+    updated_at: now,
+    version: 1,
+  };
+
+  transaction.objectStore(MIGRATIONS_STORE).put(record);
+}
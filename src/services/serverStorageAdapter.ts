@@ -0,0 +1,198 @@
+/**
+ * Storage adapter backed by the app's own /api/data route handlers
+ * Following cursor rules for error handling and type safety
+ *
+ * Lets self-hosters keep records on their own server. Writes are announced
+ * to this tab and other tabs so live queries refresh exactly as with IndexedDB.
+ */
+
+import { ChangeFeed } from "./changeFeed";
+import { getSchemaIndexes } from "./schemaMigrations";
+import {
+  UnitOfWork,
+  VersionConflictError,
+  type ScanOptions,
+  type ScanResult,
+  type StorageAdapter,
+  type StorageChangeListener,
+  type StoreQuery,
+  type WriteOperation,
+  type WriteOptions,
+} from "./storageAdapter";
+import { KeyRanges } from "@/utils/keyRanges";
+import type {
+  ApiResponse,
+  DataScanRequest,
+  DataScanResponse,
+  DataVersionConflictDetails,
+  KeyRange,
+  StorageData,
+} from "@/types";
+
+export class ServerStorageAdapter implements StorageAdapter {
+  private readonly indexes = getSchemaIndexes();
+  private readonly changes = new ChangeFeed("fitness-tracker-server-changes");
+
+  constructor(private readonly baseUrl: string) {}
+
+  // The server is always ready; there is no connection to open
+  async initialize(): Promise<void> {}
+
+  subscribe(listener: StorageChangeListener): () => void {
+    return this.changes.subscribe(listener);
+  }
+
+  async get<T>(storeName: string, id: string): Promise<T | null> {
+    return this.request<T>(this.recordUrl(storeName, id), {}, { allowNotFound: true });
+  }
+
+  async getAll<T>(storeName: string): Promise<T[]> {
+    return (await this.request<T[]>(this.storeUrl(storeName))) ?? [];
+  }
+
+  async getMultiple<T>(storeName: string, ids: string[]): Promise<T[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const query = ids.map((id) => `id=${encodeURIComponent(id)}`).join("&");
+    return (await this.request<T[]>(`${this.storeUrl(storeName)}?${query}`)) ?? [];
+  }
+
+  async query<T>(storeName: string, filter?: StoreQuery): Promise<T[]> {
+    if (!filter?.index) {
+      return this.getAll<T>(storeName);
+    }
+
+    const range = filter.range ?? (filter.value !== undefined ? KeyRanges.only(filter.value) : undefined);
+    const result = await this.scan<T>(storeName, { index: filter.index, range });
+    return result.items;
+  }
+
+  /**
+   * The server walks the range; a predicate can't be sent over the wire, so with
+   * one the whole range is fetched and filtered here before applying the limit.
+   */
+  async scan<T>(storeName: string, options: ScanOptions<T> = {}): Promise<ScanResult<T>> {
+    const { predicate, limit } = options;
+    const body: DataScanRequest = {
+      index: options.index,
+      range: options.range,
+      direction: options.direction,
+      limit: predicate ? undefined : limit,
+      after: options.after,
+    };
+
+    const page = await this.request<DataScanResponse<T>>(`${this.storeUrl(storeName)}/scan`, {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+    if (!page) {
+      return { items: [], last: null, hasMore: false };
+    }
+    if (!predicate) {
+      return { items: page.items, last: page.last, hasMore: page.hasMore };
+    }
+
+    const matches = page.items.flatMap((item, i) => (predicate(item) ? [i] : []));
+    const taken = limit !== undefined ? matches.slice(0, limit) : matches;
+    const lastMatch = taken[taken.length - 1];
+
+    return {
+      items: taken.map((i) => page.items[i]),
+      last: lastMatch !== undefined ? page.positions[lastMatch] : null,
+      hasMore: taken.length < matches.length,
+    };
+  }
+
+  async count(storeName: string, index?: string, range?: KeyRange): Promise<number> {
+    const result = await this.request<{ count: number }>(`${this.storeUrl(storeName)}/count`, {
+      method: "POST",
+      body: JSON.stringify({ index, range }),
+    });
+    return result?.count ?? 0;
+  }
+
+  async hasIndex(storeName: string, index: string): Promise<boolean> {
+    return (this.indexes[storeName] ?? []).some((definition) => definition.name === index);
+  }
+
+  async save<T extends StorageData>(storeName: string, data: T, options: WriteOptions = {}): Promise<void> {
+    return this.commitOperations([
+      { type: "put", storeName, data, expectedVersion: options.expectedVersion },
+    ]);
+  }
+
+  async saveBatch<T extends StorageData>(storeName: string, items: T[]): Promise<void> {
+    return this.commitOperations(items.map((data) => ({ type: "put" as const, storeName, data })));
+  }
+
+  async delete(storeName: string, id: string): Promise<void> {
+    return this.commitOperations([{ type: "delete", storeName, id }]);
+  }
+
+  async clear(storeName: string): Promise<void> {
+    return this.commitOperations([{ type: "clear", storeName }]);
+  }
+
+  beginUnitOfWork(): UnitOfWork {
+    return new UnitOfWork(this);
+  }
+
+  /**
+   * Apply writes in one server transaction; a stale expectedVersion
+   * rejects all of them with VersionConflictError.
+   */
+  async commitOperations(operations: WriteOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    await this.request(`${this.baseUrl}/transaction`, {
+      method: "POST",
+      body: JSON.stringify({ operations }),
+    });
+
+    this.changes.emit(ChangeFeed.changesFor(operations));
+  }
+
+  private storeUrl(storeName: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(storeName)}`;
+  }
+
+  private recordUrl(storeName: string, id: string): string {
+    return `${this.storeUrl(storeName)}/${encodeURIComponent(id)}`;
+  }
+
+  /**
+   * Call the data API and unwrap its ApiResponse envelope
+   */
+  private async request<T>(
+    url: string,
+    init: RequestInit = {},
+    { allowNotFound = false }: { allowNotFound?: boolean } = {}
+  ): Promise<T | null> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json", ...init.headers },
+      });
+    } catch {
+      throw new Error(`Storage server is unreachable at ${this.baseUrl}`);
+    }
+
+    if (response.status === 404 && allowNotFound) {
+      return null;
+    }
+
+    const body = (await response.json().catch(() => null)) as ApiResponse<T> | null;
+    if (response.status === 409 && body?.error?.details) {
+      const details = body.error.details as unknown as DataVersionConflictDetails;
+      throw new VersionConflictError(details.store, details.id, details.expected_version, details.current);
+    }
+    if (!response.ok || !body?.success) {
+      throw new Error(body?.error?.message ?? `Storage server responded with ${response.status}`);
+    }
+    return (body.data ?? null) as T | null;
+  }
+}
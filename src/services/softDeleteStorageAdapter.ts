@@ -0,0 +1,118 @@
+/**
+ * Storage adapter that hides records in the trash
+ * Repositories soft delete by stamping deleted_at; every read through this
+ * adapter leaves those records out, so standard queries never see them.
+ * Writes pass straight through, and the trash reads through withDeleted.
+ */
+
+import {
+  UnitOfWork,
+  type ScanOptions,
+  type ScanResult,
+  type StorageAdapter,
+  type StorageChangeListener,
+  type StoreQuery,
+  type WriteOperation,
+  type WriteOptions,
+} from "./storageAdapter";
+import type { KeyRange, StorageData } from "@/types";
+
+export class SoftDeleteStorageAdapter implements StorageAdapter {
+  constructor(private readonly inner: StorageAdapter) {}
+
+  /**
+   * The adapter underneath, which also returns records in the trash
+   */
+  get withDeleted(): StorageAdapter {
+    return this.inner;
+  }
+
+  /**
+   * Whether a record is in the trash
+   */
+  static isDeleted(record: unknown): boolean {
+    return Boolean((record as { deleted_at?: unknown } | null)?.deleted_at);
+  }
+
+  initialize(): Promise<void> {
+    return this.inner.initialize();
+  }
+
+  subscribe(listener: StorageChangeListener): () => void {
+    return this.inner.subscribe(listener);
+  }
+
+  async get<T>(storeName: string, id: string): Promise<T | null> {
+    const record = await this.inner.get<T>(storeName, id);
+    return record && !SoftDeleteStorageAdapter.isDeleted(record) ? record : null;
+  }
+
+  async getAll<T>(storeName: string): Promise<T[]> {
+    return this.live(await this.inner.getAll<T>(storeName));
+  }
+
+  async getMultiple<T>(storeName: string, ids: string[]): Promise<T[]> {
+    return this.live(await this.inner.getMultiple<T>(storeName, ids));
+  }
+
+  async query<T>(storeName: string, filter?: StoreQuery): Promise<T[]> {
+    return this.live(await this.inner.query<T>(storeName, filter));
+  }
+
+  scan<T>(storeName: string, options: ScanOptions<T> = {}): Promise<ScanResult<T>> {
+    const { predicate } = options;
+    return this.inner.scan<T>(storeName, {
+      ...options,
+      predicate: (item) => !SoftDeleteStorageAdapter.isDeleted(item) && (!predicate || predicate(item)),
+    });
+  }
+
+  /**
+   * Everything in the range less what's in the trash. "<index>+deleted_at"
+   * only holds trashed records, so both counts stay on indexes.
+   */
+  async count(storeName: string, index?: string, range?: KeyRange): Promise<number> {
+    const trashIndex = `${index ?? "id"}+deleted_at`;
+    if (!(await this.inner.hasIndex(storeName, trashIndex))) {
+      return (await this.scan(storeName, { index, range })).items.length;
+    }
+
+    const [all, trashed] = await Promise.all([
+      this.inner.count(storeName, index, range),
+      this.inner.count(storeName, trashIndex, range),
+    ]);
+    return all - trashed;
+  }
+
+  hasIndex(storeName: string, index: string): Promise<boolean> {
+    return this.inner.hasIndex(storeName, index);
+  }
+
+  save<T extends StorageData>(storeName: string, data: T, options?: WriteOptions): Promise<void> {
+    return this.inner.save(storeName, data, options);
+  }
+
+  saveBatch<T extends StorageData>(storeName: string, items: T[]): Promise<void> {
+    return this.inner.saveBatch(storeName, items);
+  }
+
+  delete(storeName: string, id: string): Promise<void> {
+    return this.inner.delete(storeName, id);
+  }
+
+  clear(storeName: string): Promise<void> {
+    return this.inner.clear(storeName);
+  }
+
+  beginUnitOfWork(): UnitOfWork {
+    return new UnitOfWork(this);
+  }
+
+  commitOperations(operations: WriteOperation[]): Promise<void> {
+    return this.inner.commitOperations(operations);
+  }
+
+  private live<T>(records: T[]): T[] {
+    return records.filter((record) => !SoftDeleteStorageAdapter.isDeleted(record));
+  }
+}
@@ -1,16 +1,46 @@
 "use client";
 
-import type { StorageData } from "@/types";
+import type { CursorPosition, KeyRange, StorageData, StorageKey } from "@/types";
+import { ChangeFeed } from "./changeFeed";
+import {
+  applySchemaMigrations,
+  INTERNAL_STORES,
+  LATEST_SCHEMA_VERSION,
+  MIGRATIONS_STORE,
+  type SchemaMigrationRecord,
+} from "./schemaMigrations";
+import {
+  UnitOfWork,
+  VersionConflictError,
+  type ScanOptions,
+  type ScanResult,
+  type StorageAdapter,
+  type StorageChangeListener,
+  type StoreQuery,
+  type WriteOperation,
+  type WriteOptions,
+} from "./storageAdapter";
+
+/**
+ * Transforms records on their way into and out of a store, e.g. to
+ * encrypt fields at rest. Index key paths must survive encoding.
+ */
+export interface RecordCodec {
+  encode(record: StorageData): Promise<StorageData>;
+  decode(record: StorageData): Promise<StorageData>;
+}
 
 /**
  * IndexedDB wrapper service for local data storage
  * Provides type-safe operations for storing and retrieving fitness data
  */
-export class StorageService {
+export class StorageService implements StorageAdapter {
   private db: IDBDatabase | null = null;
   private readonly dbName = "FitnessTracker";
-  private readonly dbVersion = 1;
+  private readonly dbVersion = LATEST_SCHEMA_VERSION;
   private initPromise: Promise<void> | null = null;
+  private readonly codecs = new Map<string, RecordCodec>();
+  private readonly changes = new ChangeFeed("fitness-tracker-changes");
 
   /**
    * Check if database is ready for operations
@@ -19,6 +49,88 @@ export class StorageService {
     return this.db !== null && this.db.objectStoreNames.length > 0;
   }
 
+  /**
+   * Get the schema version of the open database
+   */
+  getSchemaVersion(): number {
+    return this.db?.version ?? 0;
+  }
+
+  /**
+   * Listen for committed writes from this tab and, via BroadcastChannel, from
+   * other tabs. Each call receives every change from one write or transaction.
+   */
+  subscribe(listener: StorageChangeListener): () => void {
+    return this.changes.subscribe(listener);
+  }
+
+  private toIDBKeyRange(range?: KeyRange): IDBKeyRange | undefined {
+    if (!range) {
+      return undefined;
+    }
+
+    const { lower, upper, lowerOpen = false, upperOpen = false } = range;
+    if (lower !== undefined && upper !== undefined) {
+      return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+    }
+    if (lower !== undefined) {
+      return IDBKeyRange.lowerBound(lower, lowerOpen);
+    }
+    if (upper !== undefined) {
+      return IDBKeyRange.upperBound(upper, upperOpen);
+    }
+    return undefined;
+  }
+
+  /**
+   * Install or remove the codec applied to every record of a store
+   */
+  setRecordCodec(storeName: string, codec: RecordCodec | null): void {
+    if (codec) {
+      this.codecs.set(storeName, codec);
+    } else {
+      this.codecs.delete(storeName);
+    }
+  }
+
+  private async encodeRecord<T>(storeName: string, record: T): Promise<T> {
+    const codec = this.codecs.get(storeName);
+    return codec ? ((await codec.encode(record as StorageData)) as T) : record;
+  }
+
+  private async decodeRecords<T>(storeName: string, records: T[]): Promise<T[]> {
+    const codec = this.codecs.get(storeName);
+    if (!codec) {
+      return records;
+    }
+    return Promise.all(
+      records.map(async (record) => (await codec.decode(record as StorageData)) as T)
+    );
+  }
+
+  /**
+   * Get the names of the data stores, excluding internal bookkeeping stores
+   */
+  async getStoreNames(): Promise<string[]> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (!this.db) {
+      throw new Error("Database not initialized after attempt");
+    }
+
+    return Array.from(this.db.objectStoreNames).filter((name) => !INTERNAL_STORES.includes(name));
+  }
+
+  /**
+   * Get the log of schema migrations applied to this database
+   */
+  async getAppliedMigrations(): Promise<SchemaMigrationRecord[]> {
+    const records = await this.getAll<SchemaMigrationRecord>(MIGRATIONS_STORE);
+    return records.sort((a, b) => a.schema_version - b.schema_version);
+  }
+
   /**
    * Initialize the IndexedDB connection
    */
@@ -41,98 +153,49 @@ export class StorageService {
       request.onsuccess = () => {
         this.db = request.result;
         this.initPromise = null;
+
+        // Let newer tabs upgrade the schema instead of blocking them
+        this.db.onversionchange = () => {
+          this.close();
+        };
+
         // Small delay to ensure database is fully ready
         setTimeout(() => resolve(), 10);
       };
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Settings store
-        if (!db.objectStoreNames.contains("settings")) {
-          db.createObjectStore("settings", { keyPath: "id" });
-        }
-
-        // Exercise catalog store
-        if (!db.objectStoreNames.contains("exercises")) {
-          const exerciseStore = db.createObjectStore("exercises", { keyPath: "id" });
-          exerciseStore.createIndex("name", "name", { unique: false });
-          exerciseStore.createIndex("movement_pattern", "movement_pattern", { unique: false });
-          exerciseStore.createIndex("primary_muscles", "primary_muscles", { unique: false, multiEntry: true });
-          exerciseStore.createIndex("equipment", "equipment", { unique: false, multiEntry: true });
-          exerciseStore.createIndex("difficulty_level", "difficulty_level", { unique: false });
-          exerciseStore.createIndex("exercise_type", "exercise_type", { unique: false });
-        }
-
-        // Workout logs store
-        if (!db.objectStoreNames.contains("workouts")) {
-          const workoutStore = db.createObjectStore("workouts", { keyPath: "id" });
-          workoutStore.createIndex("date_time_start", "date_time_start", { unique: false });
-          workoutStore.createIndex("session_plan_ref", "session_plan_ref", { unique: false });
-          workoutStore.createIndex("environment", "environment", { unique: false });
-          workoutStore.createIndex("overall_rating", "overall_rating", { unique: false });
-        }
-
-        // Body metrics store
-        if (!db.objectStoreNames.contains("metrics")) {
-          const metricsStore = db.createObjectStore("metrics", { keyPath: "id" });
-          metricsStore.createIndex("date", "date", { unique: false });
-          metricsStore.createIndex("weight_unit", "weight_unit", { unique: false });
-        }
-
-        // Baseline tests store
-        if (!db.objectStoreNames.contains("baselines")) {
-          const baselineStore = db.createObjectStore("baselines", { keyPath: "id" });
-          baselineStore.createIndex("month", "month", { unique: false });
-          baselineStore.createIndex("test_date", "test_date", { unique: false });
-        }
-
-        // Program plans store
-        if (!db.objectStoreNames.contains("plans")) {
-          const planStore = db.createObjectStore("plans", { keyPath: "id" });
-          planStore.createIndex("title", "title", { unique: false });
-          planStore.createIndex("difficulty_level", "difficulty_level", { unique: false });
-          planStore.createIndex("is_template", "is_template", { unique: false });
-          planStore.createIndex("created_at", "created_at", { unique: false });
-          planStore.createIndex("updated_at", "updated_at", { unique: false });
-        }
-
-        // Completed sessions store for tracking progress
-        if (!db.objectStoreNames.contains("completed_sessions")) {
-          const completedStore = db.createObjectStore("completed_sessions", { keyPath: "id" });
-          completedStore.createIndex("session_id", "session_id", { unique: false });
-          completedStore.createIndex("plan_id", "plan_id", { unique: false });
-          completedStore.createIndex("completion_date", "completion_date", { unique: false });
-        }
-
-        // Glossary store
-        if (!db.objectStoreNames.contains("glossary")) {
-          const glossaryStore = db.createObjectStore("glossary", { keyPath: "id" });
-          glossaryStore.createIndex("term", "term", { unique: false });
-          glossaryStore.createIndex("category", "category", { unique: false });
-          glossaryStore.createIndex("difficulty_level", "difficulty_level", { unique: false });
-        }
+      request.onblocked = () => {
+        console.warn("Database upgrade blocked by another open tab");
+      };
 
-        // User preferences store (separate from app settings)
-        if (!db.objectStoreNames.contains("preferences")) {
-          db.createObjectStore("preferences", { keyPath: "id" });
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction;
+        if (!transaction) {
+          throw new Error("Missing upgrade transaction");
         }
 
-        // Media store for storing images/videos locally
-        if (!db.objectStoreNames.contains("media")) {
-          const mediaStore = db.createObjectStore("media", { keyPath: "id" });
-          mediaStore.createIndex("filename", "filename", { unique: false });
-          mediaStore.createIndex("mimeType", "mimeType", { unique: false });
-          mediaStore.createIndex("created_at", "created_at", { unique: false });
-        }
+        applySchemaMigrations(db, transaction, event.oldVersion, event.newVersion ?? this.dbVersion);
       };
     });
+
+    return this.initPromise;
   }
 
   /**
    * Save data to a specific store
    */
-  async save<T extends StorageData>(storeName: string, data: T): Promise<void> {
+  async save<T extends StorageData>(
+    storeName: string,
+    data: T,
+    options: WriteOptions = {}
+  ): Promise<void> {
+    // Version checks need a read and write in one transaction
+    if (options.expectedVersion !== undefined) {
+      return this.commitOperations([
+        { type: "put", storeName, data, expectedVersion: options.expectedVersion },
+      ]);
+    }
+
     // Ensure database is initialized before proceeding
     if (!this.db) {
       await this.initialize();
@@ -143,17 +206,17 @@ export class StorageService {
       throw new Error("Database not initialized after attempt");
     }
 
+    // Add timestamp and version if not present
+    const dataWithMeta = await this.encodeRecord(storeName, {
+      ...data,
+      timestamp: data.timestamp || Date.now(),
+      version: data.version || 1,
+    });
+
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([storeName], "readwrite");
       const store = transaction.objectStore(storeName);
 
-      // Add timestamp and version if not present
-      const dataWithMeta = {
-        ...data,
-        timestamp: data.timestamp || Date.now(),
-        version: data.version || 1,
-      };
-
       const request = store.put(dataWithMeta);
 
       request.onerror = () => {
@@ -161,6 +224,7 @@ export class StorageService {
       };
 
       request.onsuccess = () => {
+        this.changes.emit([{ store: storeName, id: data.id, operation: "put" }]);
         resolve();
       };
     });
@@ -186,7 +250,7 @@ export class StorageService {
       return null;
     }
 
-    return new Promise((resolve, reject) => {
+    const record = await new Promise<T | null>((resolve, reject) => {
       try {
         const transaction = this.db!.transaction([storeName], "readonly");
         const store = transaction.objectStore(storeName);
@@ -204,19 +268,14 @@ export class StorageService {
         resolve(null);
       }
     });
+
+    return record ? (await this.decodeRecords(storeName, [record]))[0] : null;
   }
 
   /**
    * Query data from a specific store with optional filtering
    */
-  async query<T>(
-    storeName: string,
-    filter?: {
-      index?: string;
-      value?: IDBValidKey;
-      range?: IDBKeyRange;
-    }
-  ): Promise<T[]> {
+  async query<T>(storeName: string, filter?: StoreQuery): Promise<T[]> {
     // Ensure database is initialized before proceeding
     if (!this.db) {
       await this.initialize();
@@ -233,7 +292,7 @@ export class StorageService {
       return [];
     }
 
-    return new Promise((resolve, reject) => {
+    const records = await new Promise<T[]>((resolve, reject) => {
       try {
       const transaction = this.db!.transaction([storeName], "readonly");
       const store = transaction.objectStore(storeName);
@@ -243,7 +302,7 @@ export class StorageService {
       if (filter?.index && store.indexNames.contains(filter.index)) {
         const index = store.index(filter.index);
         if (filter.range) {
-          request = index.getAll(filter.range);
+          request = index.getAll(this.toIDBKeyRange(filter.range));
         } else if (filter.value !== undefined) {
           request = index.getAll(filter.value);
         } else {
@@ -265,6 +324,8 @@ export class StorageService {
         resolve([]);
       }
     });
+
+    return this.decodeRecords(storeName, records);
   }
 
   /**
@@ -298,6 +359,7 @@ export class StorageService {
         };
 
         request.onsuccess = () => {
+          this.changes.emit([{ store: storeName, id, operation: "delete" }]);
           resolve();
         };
       } catch (error) {
@@ -338,6 +400,7 @@ export class StorageService {
         };
 
         request.onsuccess = () => {
+          this.changes.emit([{ store: storeName, id: null, operation: "clear" }]);
           resolve();
         };
       } catch (error) {
@@ -370,6 +433,16 @@ export class StorageService {
       return;
     }
 
+    const itemsWithMeta = await Promise.all(
+      items.map((item) =>
+        this.encodeRecord(storeName, {
+          ...item,
+          timestamp: item.timestamp || Date.now(),
+          version: item.version || 1,
+        })
+      )
+    );
+
     return new Promise((resolve, reject) => {
       try {
         const transaction = this.db!.transaction([storeName], "readwrite");
@@ -380,16 +453,14 @@ export class StorageService {
         };
 
         transaction.oncomplete = () => {
+          this.changes.emit(
+            items.map((item) => ({ store: storeName, id: item.id, operation: "put" as const }))
+          );
           resolve();
         };
 
-        items.forEach((item) => {
-          const dataWithMeta = {
-            ...item,
-            timestamp: item.timestamp || Date.now(),
-            version: item.version || 1,
-          };
-          store.put(dataWithMeta);
+        itemsWithMeta.forEach((item) => {
+          store.put(item);
         });
       } catch (error) {
         console.warn(`Error accessing store ${storeName}, cannot save batch:`, error);
@@ -398,6 +469,143 @@ export class StorageService {
     });
   }
 
+  /**
+   * Start a unit of work spanning any number of stores
+   */
+  beginUnitOfWork(): UnitOfWork {
+    return new UnitOfWork(this);
+  }
+
+  /**
+   * Apply a list of writes in one readwrite transaction.
+   * Any failing request aborts the transaction and rolls back every write,
+   * as does a put whose expectedVersion no longer matches (VersionConflictError).
+   */
+  async commitOperations(operations: WriteOperation[]): Promise<void> {
+    // Ensure database is initialized before proceeding
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    // Double-check database is ready
+    if (!this.db) {
+      throw new Error("Database not initialized after attempt");
+    }
+
+    const storeNames = Array.from(new Set(operations.map((operation) => operation.storeName)));
+
+    // Unlike single writes, a missing store fails the whole unit of work
+    const missing = storeNames.filter((name) => !this.db!.objectStoreNames.contains(name));
+    if (missing.length > 0) {
+      throw new Error(`Object store(s) not found: ${missing.join(", ")}`);
+    }
+
+    // Encode before the transaction opens: it would auto-commit while awaiting
+    const encoded = await Promise.all(
+      operations.map(async (operation): Promise<WriteOperation> =>
+        operation.type === "put"
+          ? {
+              ...operation,
+              data: await this.encodeRecord(operation.storeName, {
+                ...operation.data,
+                timestamp: operation.data.timestamp || Date.now(),
+                version: operation.data.version || 1,
+              }),
+            }
+          : operation
+      )
+    );
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(storeNames, "readwrite");
+
+      transaction.oncomplete = () => {
+        this.changes.emit(ChangeFeed.changesFor(operations));
+        resolve();
+      };
+
+      let conflict: {
+        operation: WriteOperation & { type: "put" };
+        current: StorageData | null;
+      } | null = null;
+
+      transaction.onabort = () => {
+        if (!conflict) {
+          reject(new Error(`Transaction rolled back: ${transaction.error?.message ?? "aborted"}`));
+          return;
+        }
+
+        const { operation, current } = conflict;
+        const decoded = current
+          ? this.decodeRecords(operation.storeName, [current])
+          : Promise.resolve([null]);
+        decoded
+          .then(([record]) => {
+            reject(
+              new VersionConflictError(
+                operation.storeName,
+                operation.data.id,
+                operation.expectedVersion!,
+                record
+              )
+            );
+          })
+          .catch(reject);
+      };
+
+      const writeAll = () => {
+        encoded.forEach((operation) => {
+          const store = transaction.objectStore(operation.storeName);
+
+          if (operation.type === "put") {
+            store.put(operation.data);
+          } else if (operation.type === "delete") {
+            store.delete(operation.id);
+          } else {
+            store.clear();
+          }
+        });
+      };
+
+      try {
+        const checked = encoded.filter(
+          (operation): operation is WriteOperation & { type: "put" } =>
+            operation.type === "put" && operation.expectedVersion !== undefined
+        );
+
+        if (checked.length === 0) {
+          writeAll();
+          return;
+        }
+
+        // Read every checked record first, then write in the original order
+        let pending = checked.length;
+        checked.forEach((operation) => {
+          const request = transaction.objectStore(operation.storeName).get(operation.data.id);
+          request.onsuccess = () => {
+            const current = (request.result as StorageData | undefined) ?? null;
+            if (!conflict && (current?.version ?? null) !== operation.expectedVersion) {
+              conflict = { operation, current };
+            }
+
+            pending--;
+            if (pending > 0) {
+              return;
+            }
+            if (conflict) {
+              transaction.abort();
+            } else {
+              writeAll();
+            }
+          };
+        });
+      } catch (error) {
+        transaction.abort();
+        reject(new Error(`Failed to stage writes: ${(error as Error).message}`));
+      }
+    });
+  }
+
   /**
    * Get multiple items by IDs
    */
@@ -418,7 +626,7 @@ export class StorageService {
       return [];
     }
 
-    return new Promise((resolve, reject) => {
+    const records = await new Promise<T[]>((resolve, reject) => {
       try {
         const transaction = this.db!.transaction([storeName], "readonly");
         const store = transaction.objectStore(storeName);
@@ -451,12 +659,14 @@ export class StorageService {
         resolve([]);
       }
     });
+
+    return this.decodeRecords(storeName, records);
   }
 
   /**
-   * Count items in a store
+   * Count items in a store, optionally within a range of an index
    */
-  async count(storeName: string): Promise<number> {
+  async count(storeName: string, index?: string, range?: KeyRange): Promise<number> {
     // Ensure database is initialized before proceeding
     if (!this.db) {
       await this.initialize();
@@ -477,7 +687,8 @@ export class StorageService {
       try {
         const transaction = this.db!.transaction([storeName], "readonly");
         const store = transaction.objectStore(storeName);
-        const request = store.count();
+        const source = index && store.indexNames.contains(index) ? store.index(index) : store;
+        const request = source.count(this.toIDBKeyRange(range));
 
         request.onerror = () => {
           reject(new Error(`Failed to count items in ${storeName}`));
@@ -493,6 +704,142 @@ export class StorageService {
     });
   }
 
+  /**
+   * Check whether a store declares an index
+   */
+  async hasIndex(storeName: string, index: string): Promise<boolean> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (!this.db || !this.db.objectStoreNames.contains(storeName)) {
+      return false;
+    }
+
+    const transaction = this.db.transaction([storeName], "readonly");
+    return transaction.objectStore(storeName).indexNames.contains(index);
+  }
+
+  /**
+   * Walk a store or index with a cursor, stopping once `limit` matches are found.
+   * Only records inside `range` are visited; `predicate` filters the rest.
+   */
+  async scan<T>(storeName: string, options: ScanOptions<T> = {}): Promise<ScanResult<T>> {
+    // Ensure database is initialized before proceeding
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    // Double-check database is ready
+    if (!this.db) {
+      throw new Error("Database not initialized after attempt");
+    }
+
+    // Check if the store exists
+    if (!this.db.objectStoreNames.contains(storeName)) {
+      console.warn(`Object store '${storeName}' does not exist yet, returning empty result`);
+      return { items: [], last: null, hasMore: false };
+    }
+
+    const { index, direction = "next", after } = options;
+    const range = this.toIDBKeyRange(options.range);
+    const directionSign = direction === "next" ? 1 : -1;
+
+    // Encoded records can only be filtered once decoded, so walk the whole range first
+    const codec = this.codecs.get(storeName);
+    const predicate = codec ? undefined : options.predicate;
+    const limit = codec ? undefined : options.limit;
+    const positions: CursorPosition[] = [];
+
+    const result = await new Promise<ScanResult<T>>((resolve, reject) => {
+      try {
+        const transaction = this.db!.transaction([storeName], "readonly");
+        const store = transaction.objectStore(storeName);
+        const useIndex = index !== undefined && store.indexNames.contains(index);
+        const request = useIndex
+          ? store.index(index).openCursor(range, direction)
+          : store.openCursor(range, direction);
+
+        const items: T[] = [];
+        let last: CursorPosition | null = null;
+        let positioned = !after;
+
+        request.onerror = () => {
+          reject(new Error(`Failed to scan ${storeName}`));
+        };
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            resolve({ items, last, hasMore: false });
+            return;
+          }
+
+          if (after) {
+            const keyOrder = indexedDB.cmp(after.key, cursor.key) * directionSign;
+            const primaryOrder = indexedDB.cmp(after.primaryKey, cursor.primaryKey) * directionSign;
+
+            // Jump straight to the resume position instead of stepping through earlier records
+            if (!positioned) {
+              positioned = true;
+              if (keyOrder > 0 || (keyOrder === 0 && primaryOrder > 0)) {
+                if (useIndex) {
+                  (cursor as IDBCursorWithValue).continuePrimaryKey(after.key, after.primaryKey);
+                } else {
+                  cursor.continue(after.key);
+                }
+                return;
+              }
+            }
+
+            // Skip the record the previous page ended on
+            if (keyOrder === 0 && primaryOrder === 0) {
+              cursor.continue();
+              return;
+            }
+          }
+
+          const item = cursor.value as T;
+          if (!predicate || predicate(item)) {
+            if (limit !== undefined && items.length === limit) {
+              resolve({ items, last, hasMore: true });
+              return;
+            }
+            items.push(item);
+            last = { key: cursor.key as StorageKey, primaryKey: cursor.primaryKey as StorageKey };
+            if (codec) {
+              positions.push(last);
+            }
+          }
+
+          cursor.continue();
+        };
+      } catch (error) {
+        console.warn(`Error accessing store ${storeName}, returning empty result:`, error);
+        resolve({ items: [], last: null, hasMore: false });
+      }
+    });
+
+    if (!codec) {
+      return result;
+    }
+
+    const decoded = await this.decodeRecords(storeName, result.items);
+    const matches: number[] = [];
+    decoded.forEach((item, i) => {
+      if (!options.predicate || options.predicate(item)) {
+        matches.push(i);
+      }
+    });
+
+    const taken = options.limit !== undefined ? matches.slice(0, options.limit) : matches;
+    return {
+      items: taken.map((i) => decoded[i]),
+      last: taken.length > 0 ? positions[taken[taken.length - 1]] : null,
+      hasMore: taken.length < matches.length,
+    };
+  }
+
   /**
    * Get storage usage information
    */
@@ -517,18 +864,7 @@ export class StorageService {
    * Export all data for backup
    */
   async exportAllData(): Promise<Record<string, unknown[]>> {
-    const stores = [
-      "settings",
-      "exercises", 
-      "workouts",
-      "metrics",
-      "baselines",
-      "plans",
-      "glossary",
-      "preferences",
-      "media",
-      "completed_sessions",
-    ];
+    const stores = await this.getStoreNames();
 
     const exportData: Record<string, unknown[]> = {};
 
@@ -580,7 +916,7 @@ export class StorageService {
       return [];
     }
 
-    return new Promise((resolve, reject) => {
+    const records = await new Promise<T[]>((resolve, reject) => {
       try {
         const transaction = this.db!.transaction([storeName], "readonly");
         const store = transaction.objectStore(storeName);
@@ -598,12 +934,16 @@ export class StorageService {
         resolve([]);
       }
     });
+
+    return this.decodeRecords(storeName, records);
   }
 
   /**
    * Close the database connection
    */
   close(): void {
+    this.changes.close();
+
     if (this.db) {
       this.db.close();
       this.db = null;
@@ -0,0 +1,162 @@
+/**
+ * Storage adapter contract shared by every backend
+ * Free of browser APIs so adapters can run during SSR, in Node scripts and in tests.
+ */
+
+import type { CursorPosition, KeyRange, StorageData, StorageKey } from "@/types";
+
+export interface ScanOptions<T> {
+  index?: string; // Omit to walk the store in primary key order
+  range?: KeyRange;
+  direction?: "next" | "prev";
+  limit?: number;
+  after?: CursorPosition; // Resume after this position
+  predicate?: (item: T) => boolean; // Residual filter for fields without an index
+}
+
+export interface ScanResult<T> {
+  items: T[];
+  last: CursorPosition | null; // Position of the last returned item
+  hasMore: boolean;
+}
+
+export interface StorageChange {
+  store: string;
+  id: string | null; // null when the whole store was cleared
+  operation: "put" | "delete" | "clear";
+  origin: "local" | "remote"; // remote changes were made in another tab
+}
+
+export type StorageChangeListener = (changes: StorageChange[]) => void;
+
+export type ChangeRecord = Omit<StorageChange, "origin">;
+
+export interface WriteOptions {
+  // Reject the write unless the stored record is at this version
+  expectedVersion?: number;
+}
+
+/**
+ * Thrown when a write's expected version no longer matches the stored record,
+ * i.e. someone else (usually another tab) saved it first
+ */
+export class VersionConflictError<T extends StorageData = StorageData> extends Error {
+  constructor(
+    readonly storeName: string,
+    readonly id: string,
+    readonly expectedVersion: number,
+    readonly current: T | null // null when the record was deleted
+  ) {
+    super(
+      current
+        ? `${storeName} record ${id} was changed elsewhere (expected version ${expectedVersion}, found ${current.version})`
+        : `${storeName} record ${id} was deleted elsewhere`
+    );
+    this.name = "VersionConflictError";
+  }
+}
+
+export type WriteOperation =
+  | { type: "put"; storeName: string; data: StorageData; expectedVersion?: number }
+  | { type: "delete"; storeName: string; id: string }
+  | { type: "clear"; storeName: string };
+
+/**
+ * Collects writes across several stores and commits them in a single
+ * transaction: either every write lands or none do.
+ * Do reads before staging writes; nothing is written until commit().
+ */
+export class UnitOfWork {
+  private readonly operations: WriteOperation[] = [];
+  private committed = false;
+
+  constructor(private readonly storage: StorageAdapter) {}
+
+  /**
+   * Stage a create or update
+   */
+  put<T extends StorageData>(storeName: string, data: T, options: WriteOptions = {}): this {
+    this.assertOpen();
+    this.operations.push({
+      type: "put",
+      storeName,
+      data,
+      expectedVersion: options.expectedVersion,
+    });
+    return this;
+  }
+
+  /**
+   * Stage a delete
+   */
+  delete(storeName: string, id: string): this {
+    this.assertOpen();
+    this.operations.push({ type: "delete", storeName, id });
+    return this;
+  }
+
+  /**
+   * Stage removal of every record in a store. Puts staged afterwards still land.
+   */
+  clear(storeName: string): this {
+    this.assertOpen();
+    this.operations.push({ type: "clear", storeName });
+    return this;
+  }
+
+  /**
+   * Number of staged writes
+   */
+  get size(): number {
+    return this.operations.length;
+  }
+
+  /**
+   * Commit all staged writes atomically
+   */
+  async commit(): Promise<void> {
+    this.assertOpen();
+    this.committed = true;
+
+    if (this.operations.length === 0) {
+      return;
+    }
+
+    await this.storage.commitOperations(this.operations);
+  }
+
+  private assertOpen(): void {
+    if (this.committed) {
+      throw new Error("Unit of work has already been committed");
+    }
+  }
+}
+
+export interface StoreQuery {
+  index?: string;
+  value?: StorageKey;
+  range?: KeyRange;
+}
+
+/**
+ * Record operations every storage backend provides. Repositories and domain
+ * services read and write through this; device-local bookkeeping (media blobs,
+ * keyring, sync state, backups) always uses storageService directly.
+ */
+export interface StorageAdapter {
+  initialize(): Promise<void>;
+  subscribe(listener: StorageChangeListener): () => void;
+  get<T>(storeName: string, id: string): Promise<T | null>;
+  getAll<T>(storeName: string): Promise<T[]>;
+  getMultiple<T>(storeName: string, ids: string[]): Promise<T[]>;
+  query<T>(storeName: string, filter?: StoreQuery): Promise<T[]>;
+  scan<T>(storeName: string, options?: ScanOptions<T>): Promise<ScanResult<T>>;
+  count(storeName: string, index?: string, range?: KeyRange): Promise<number>;
+  hasIndex(storeName: string, index: string): Promise<boolean>;
+  save<T extends StorageData>(storeName: string, data: T, options?: WriteOptions): Promise<void>;
+  saveBatch<T extends StorageData>(storeName: string, items: T[]): Promise<void>;
+  delete(storeName: string, id: string): Promise<void>;
+  clear(storeName: string): Promise<void>;
+  beginUnitOfWork(): UnitOfWork;
+  commitOperations(operations: WriteOperation[]): Promise<void>;
+}
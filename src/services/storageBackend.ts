@@ -0,0 +1,85 @@
+/**
+ * Storage backend selection
+ * NEXT_PUBLIC_STORAGE_BACKEND picks the adapter at build time: "indexeddb"
+ * (default), "opfs", "memory", or "server" to keep records on a self-hosted
+ * server (see /api/data). Where IndexedDB or OPFS don't exist (SSR, Node
+ * scripts, tests) records live in memory instead. Whichever backend holds
+ * them, repositories see the active local profile's records only, minus
+ * those in the trash.
+ */
+
+import { storageService } from "./storage";
+import type { StorageAdapter } from "./storageAdapter";
+import { MemoryStorageAdapter } from "./memoryStorageAdapter";
+import { OpfsStorageAdapter } from "./opfsStorageAdapter";
+import { ServerStorageAdapter } from "./serverStorageAdapter";
+import { ProfileScopedStorageAdapter } from "./profileScopedStorageAdapter";
+import { SoftDeleteStorageAdapter } from "./softDeleteStorageAdapter";
+
+export type StorageBackend = "indexeddb" | "opfs" | "memory" | "server";
+
+const BACKENDS: StorageBackend[] = ["indexeddb", "opfs", "memory", "server"];
+
+export const STORAGE_BACKEND: StorageBackend = BACKENDS.includes(
+  process.env.NEXT_PUBLIC_STORAGE_BACKEND as StorageBackend
+)
+  ? (process.env.NEXT_PUBLIC_STORAGE_BACKEND as StorageBackend)
+  : "indexeddb";
+
+let currentAdapter: StorageAdapter | null = null;
+
+function createAdapter(backend: StorageBackend): StorageAdapter {
+  switch (backend) {
+    case "server":
+      return new ServerStorageAdapter(process.env.NEXT_PUBLIC_STORAGE_SERVER_URL || "/api/data");
+    case "opfs":
+      return typeof navigator !== "undefined" && typeof navigator.storage?.getDirectory === "function"
+        ? new OpfsStorageAdapter()
+        : new MemoryStorageAdapter();
+    case "memory":
+      return new MemoryStorageAdapter();
+    case "indexeddb":
+      return typeof indexedDB !== "undefined" ? storageService : new MemoryStorageAdapter();
+  }
+}
+
+/**
+ * Adapter that repositories and domain services read and write through
+ * unless one was injected into them
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (!currentAdapter) {
+    currentAdapter = new SoftDeleteStorageAdapter(
+      new ProfileScopedStorageAdapter(createAdapter(STORAGE_BACKEND))
+    );
+  }
+  return currentAdapter;
+}
+
+/**
+ * The shared adapter without profile scoping or the trash filter, for work
+ * that spans every profile such as deleting one along with its records
+ */
+export function getUnscopedStorageAdapter(): StorageAdapter {
+  const adapter = getTrashStorageAdapter();
+  return adapter instanceof ProfileScopedStorageAdapter ? adapter.unscoped : adapter;
+}
+
+/**
+ * The shared adapter including records in the trash, still scoped to the
+ * active profile
+ */
+export function getTrashStorageAdapter(): StorageAdapter {
+  const adapter = getStorageAdapter();
+  return adapter instanceof SoftDeleteStorageAdapter ? adapter.withDeleted : adapter;
+}
+
+/**
+ * Replace the shared adapter, e.g. with a MemoryStorageAdapter in scripts and tests.
+ * Call before any reads; nothing is copied from the previous adapter. Wrap it
+ * in a ProfileScopedStorageAdapter to keep records scoped to the active
+ * profile, and that in a SoftDeleteStorageAdapter to hide the trash.
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  currentAdapter = adapter;
+}
@@ -0,0 +1,282 @@
+/**
+ * Storage quota management: how full the device is and what can go to make room
+ * Following cursor rules for error handling and type safety
+ *
+ * Browsers evict or refuse writes once the app's quota is used up, so this
+ * asks for persistent storage, grades usage against the thresholds in
+ * settings, and ranks the cleanup actions by how much space each would free.
+ */
+
+import { MediaService } from "./mediaService";
+import { storageService } from "./storage";
+import { getUnscopedStorageAdapter } from "./storageBackend";
+import { DateUtils } from "@/utils/dateUtils";
+import type {
+  ActiveWorkoutSession,
+  AppSettings,
+  CleanupAction,
+  CleanupActionId,
+  CleanupResult,
+  ProgressPhoto,
+  StorageHealth,
+  StorageStatus,
+} from "@/types";
+
+type QuotaSettings = Pick<AppSettings, "storage_warning_percent" | "storage_critical_percent">;
+
+export class StorageQuotaService {
+  static readonly DEFAULT_WARNING_PERCENT = 80;
+  static readonly DEFAULT_CRITICAL_PERCENT = 95;
+
+  private static readonly ACTIVE_SESSIONS_STORE = "active-sessions";
+  private static readonly PROGRESS_PHOTOS_STORE = "progress-photos";
+
+  // Sessions untouched this long are treated as abandoned, matching WorkoutService.cleanupOldSessions
+  private static readonly STALE_SESSION_DAYS = 7;
+
+  // Photos above this are recompressed; a full-screen comparison needs no more
+  private static readonly PHOTO_TARGET_BYTES = 300 * 1024;
+  private static readonly PHOTO_MAX_DIMENSION = 1600;
+  private static readonly PHOTO_QUALITY = 0.75;
+
+  private static readonly ACTION_LABELS: Record<CleanupActionId, { label: string; description: string }> = {
+    recompress_photos: {
+      label: "Recompress progress photos",
+      description: `Shrinks large photos to at most ${StorageQuotaService.PHOTO_MAX_DIMENSION}px. They stay sharp enough to compare.`,
+    },
+    drop_thumbnails: {
+      label: "Drop media thumbnails",
+      description: "Removes stored thumbnails. They are drawn again from the full image when shown.",
+    },
+    purge_abandoned_sessions: {
+      label: "Remove abandoned workouts",
+      description: `Deletes unfinished workout sessions that were abandoned or untouched for ${StorageQuotaService.STALE_SESSION_DAYS} days. Logged workouts are kept.`,
+    },
+    cleanup_orphaned_media: {
+      label: "Remove unused media",
+      description: "Deletes images no exercise, glossary term or body measurement refers to.",
+    },
+  };
+
+  /**
+   * How much of the quota is used, graded against the thresholds in settings
+   */
+  static async getStatus(settings: QuotaSettings = {}): Promise<StorageStatus> {
+    const { usage, quota, percentUsed } = await storageService.getStorageInfo();
+    const { warning, critical } = this.thresholds(settings);
+
+    return {
+      usage,
+      quota,
+      percent_used: percentUsed,
+      persisted: await this.isPersisted(),
+      health: this.healthOf(percentUsed, warning, critical),
+      warning_percent: warning,
+      critical_percent: critical,
+    };
+  }
+
+  /**
+   * Ask the browser not to evict the app's data under storage pressure.
+   * Returns whether storage is now persistent, or null if the browser can't say.
+   */
+  static async requestPersistence(): Promise<boolean | null> {
+    if (typeof navigator === "undefined" || !navigator.storage?.persist) {
+      return null;
+    }
+    if (await navigator.storage.persisted()) {
+      return true;
+    }
+    return navigator.storage.persist();
+  }
+
+  /**
+   * Cleanup actions that would free space, largest saving first. Actions that
+   * can't run right now are listed last with the reason.
+   */
+  static async getCleanupActions(): Promise<CleanupAction[]> {
+    const estimates = await Promise.all([
+      this.estimate("recompress_photos", () => this.estimatePhotos()),
+      this.estimate("drop_thumbnails", () => MediaService.getThumbnailStats()),
+      this.estimate("purge_abandoned_sessions", () => this.estimateSessions()),
+      this.estimate("cleanup_orphaned_media", () => MediaService.getOrphanedMediaStats()),
+    ]);
+
+    return estimates
+      .filter((action) => action.item_count > 0 || action.unavailable_reason)
+      .sort((a, b) => {
+        if (Boolean(a.unavailable_reason) !== Boolean(b.unavailable_reason)) {
+          return a.unavailable_reason ? 1 : -1;
+        }
+        return b.estimated_bytes - a.estimated_bytes;
+      });
+  }
+
+  /**
+   * Run one cleanup action
+   */
+  static async runCleanup(id: CleanupActionId): Promise<CleanupResult> {
+    switch (id) {
+      case "recompress_photos": {
+        const { count, saved } = await this.recompressPhotos();
+        return { id, items_affected: count, freed_bytes: saved };
+      }
+      case "drop_thumbnails": {
+        const { removed, savedSpace } = await MediaService.dropThumbnails();
+        return { id, items_affected: removed, freed_bytes: savedSpace };
+      }
+      case "purge_abandoned_sessions": {
+        const { count, saved } = await this.purgeAbandonedSessions();
+        return { id, items_affected: count, freed_bytes: saved };
+      }
+      case "cleanup_orphaned_media": {
+        const { removed, savedSpace } = await MediaService.cleanupOrphanedMedia();
+        return { id, items_affected: removed, freed_bytes: savedSpace };
+      }
+    }
+  }
+
+  /**
+   * Byte count for display, e.g. "1.4 MB"
+   */
+  static formatBytes(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+  }
+
+  private static async estimate(
+    id: CleanupActionId,
+    measure: () => Promise<{ files: number; size: number }>
+  ): Promise<CleanupAction> {
+    const action = { id, ...this.ACTION_LABELS[id] };
+    try {
+      const { files, size } = await measure();
+      return { ...action, item_count: files, estimated_bytes: size };
+    } catch (error) {
+      // e.g. encrypted photos while locked; the other actions can still run
+      const reason = error instanceof Error ? error.message : "Not available right now";
+      return { ...action, item_count: 0, estimated_bytes: 0, unavailable_reason: reason };
+    }
+  }
+
+  private static async estimatePhotos(): Promise<{ files: number; size: number }> {
+    const oversized = await this.oversizedPhotos();
+    return {
+      files: oversized.length,
+      size: oversized.reduce((sum, photo) => sum + photo.photo_data.length - this.PHOTO_TARGET_BYTES, 0),
+    };
+  }
+
+  private static async estimateSessions(): Promise<{ files: number; size: number }> {
+    const sessions = await this.abandonedSessions();
+    return { files: sessions.length, size: sessions.reduce((sum, session) => sum + this.sizeOf(session), 0) };
+  }
+
+  // Across every profile and the trash: the quota is the device's, not the profile's
+  private static async oversizedPhotos(): Promise<ProgressPhoto[]> {
+    const photos = await getUnscopedStorageAdapter().getAll<ProgressPhoto>(this.PROGRESS_PHOTOS_STORE);
+    return photos.filter((photo) => photo.photo_data.length > this.PHOTO_TARGET_BYTES);
+  }
+
+  private static async abandonedSessions(): Promise<ActiveWorkoutSession[]> {
+    const sessions = await getUnscopedStorageAdapter().getAll<ActiveWorkoutSession>(this.ACTIVE_SESSIONS_STORE);
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - this.STALE_SESSION_DAYS);
+
+    return sessions.filter(
+      (session) =>
+        session.sessionStatus === "abandoned" ||
+        session.sessionStatus === "completed" ||
+        new Date(session.lastActivity) < cutoff
+    );
+  }
+
+  private static async recompressPhotos(): Promise<{ count: number; saved: number }> {
+    const storage = getUnscopedStorageAdapter();
+    let count = 0;
+    let saved = 0;
+
+    // One photo at a time: decoding several full-size images at once can exhaust a phone's memory
+    for (const photo of await this.oversizedPhotos()) {
+      const recompressed = await this.recompress(photo.photo_data);
+      if (recompressed.length >= photo.photo_data.length) {
+        continue;
+      }
+
+      await storage.save(
+        this.PROGRESS_PHOTOS_STORE,
+        {
+          ...photo,
+          photo_data: recompressed,
+          updated_at: DateUtils.getCurrentDateTime(),
+          version: photo.version + 1,
+        },
+        { expectedVersion: photo.version }
+      );
+      saved += photo.photo_data.length - recompressed.length;
+      count++;
+    }
+
+    return { count, saved };
+  }
+
+  // Keeps the photo's encoding: a data URL stays a data URL, bare base64 stays bare
+  private static async recompress(photoData: string): Promise<string> {
+    const isDataUrl = photoData.startsWith("data:");
+    const source = await (await fetch(isDataUrl ? photoData : `data:image/jpeg;base64,${photoData}`)).blob();
+    const optimized = await MediaService.optimizeImage(
+      new File([source], "progress-photo.jpg", { type: "image/jpeg" }),
+      this.PHOTO_MAX_DIMENSION,
+      this.PHOTO_MAX_DIMENSION,
+      this.PHOTO_QUALITY
+    );
+
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error("Failed to read recompressed photo"));
+      reader.readAsDataURL(optimized);
+    });
+    return isDataUrl ? dataUrl : dataUrl.slice(dataUrl.indexOf(",") + 1);
+  }
+
+  private static async purgeAbandonedSessions(): Promise<{ count: number; saved: number }> {
+    const sessions = await this.abandonedSessions();
+    const unitOfWork = getUnscopedStorageAdapter().beginUnitOfWork();
+    sessions.forEach((session) => unitOfWork.delete(this.ACTIVE_SESSIONS_STORE, session.id));
+
+    if (sessions.length > 0) {
+      await unitOfWork.commit();
+    }
+    return { count: sessions.length, saved: sessions.reduce((sum, session) => sum + this.sizeOf(session), 0) };
+  }
+
+  private static async isPersisted(): Promise<boolean | null> {
+    if (typeof navigator === "undefined" || !navigator.storage?.persisted) {
+      return null;
+    }
+    return navigator.storage.persisted();
+  }
+
+  private static thresholds(settings: QuotaSettings): { warning: number; critical: number } {
+    const critical = settings.storage_critical_percent ?? this.DEFAULT_CRITICAL_PERCENT;
+    const warning = Math.min(settings.storage_warning_percent ?? this.DEFAULT_WARNING_PERCENT, critical);
+    return { warning, critical };
+  }
+
+  private static healthOf(percentUsed: number, warning: number, critical: number): StorageHealth {
+    if (percentUsed >= critical) return "critical";
+    if (percentUsed >= warning) return "warning";
+    return "ok";
+  }
+
+  private static sizeOf(record: unknown): number {
+    return new TextEncoder().encode(JSON.stringify(record)).length;
+  }
+}
@@ -0,0 +1,110 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SyncService } from "./syncService";
+import { EncryptionService } from "./encryptionService";
+import { storageService } from "./storage";
+import { FileSyncStore } from "@/lib/server/syncStore";
+import { removeIndexedDbStorage } from "@/test/indexedDbStorage";
+import type { StorageData, SyncPullResult, SyncPushRequest, SyncServerRecord } from "@/types";
+
+const NOW = "2026-05-04T07:00:00.000Z";
+
+function record(id: string, fields: Record<string, unknown>): StorageData {
+  return { id, ...fields, created_at: NOW, updated_at: NOW, version: 1 };
+}
+
+// Answers the client's push and pull requests from a sync store
+function serve(handle: (url: URL, body: unknown) => Promise<unknown>) {
+  vi.stubGlobal("fetch", async (input: string, init: RequestInit = {}) => {
+    const url = new URL(input, "http://localhost");
+    const data = await handle(url, init.body ? JSON.parse(init.body as string) : null);
+    return new Response(JSON.stringify({ success: true, data }), { status: 200 });
+  });
+}
+
+describe("SyncService", () => {
+  let dir: string;
+  let server: FileSyncStore;
+  let pushed: SyncPushRequest[];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "sync-test-"));
+    server = new FileSyncStore(path.join(dir, "sync-store.json"));
+    pushed = [];
+    serve(async (url, body) => {
+      if (url.pathname.endsWith("/push")) {
+        pushed.push(body as SyncPushRequest);
+        return server.push(body as SyncPushRequest);
+      }
+      return server.pull(Number(url.searchParams.get("since")));
+    });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    EncryptionService.lock();
+    await removeIndexedDbStorage(storageService);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("pushes local records and clears the outbox", async () => {
+    await storageService.save("workouts", record("workout-1", { session_title: "Pull day" }));
+
+    const report = await SyncService.sync();
+
+    expect(report).toMatchObject({ captured: 1, pushed: 1 });
+    expect(await SyncService.getPendingCount()).toBe(0);
+    const { changes } = await server.pull(0);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ store: "workouts", record_id: "workout-1" });
+    expect(changes[0].fields.session_title.value).toBe("Pull day");
+  });
+
+  it("keeps encrypted stores on the device", async () => {
+    await EncryptionService.enable("correct horse battery");
+    await storageService.save("metrics", record("metric-1", { date: "2026-05-04", body_weight: 81.4 }));
+    await storageService.save("workouts", record("workout-1", { session_title: "Pull day" }));
+
+    await SyncService.sync();
+
+    const sent = pushed.flatMap((request) => request.changes);
+    expect(sent.map((change) => change.store)).toEqual(["workouts"]);
+    expect(JSON.stringify(pushed)).not.toContain("81.4");
+  });
+
+  it("applies every change to a record that arrives more than once in a pulled page", async () => {
+    const clock = (updatedAt: string) => ({ updated_at: updatedAt, version: 1, device_id: "other-device" });
+    const page: SyncPullResult = {
+      changes: [
+        {
+          store: "workouts",
+          record_id: "workout-1",
+          fields: { session_title: { value: "Pull day", clock: clock("2026-05-04T06:00:00.000Z") } },
+          deleted: null,
+          seq: 1,
+        },
+        {
+          store: "workouts",
+          record_id: "workout-1",
+          fields: { session_notes: { value: "Grip gave out", clock: clock("2026-05-04T06:05:00.000Z") } },
+          deleted: null,
+          seq: 2,
+        },
+      ] satisfies SyncServerRecord[],
+      cursor: 2,
+      has_more: false,
+    };
+    serve(async (url) => (url.pathname.endsWith("/push") ? { accepted: 0, cursor: 0 } : page));
+
+    const report = await SyncService.sync();
+
+    expect(report).toMatchObject({ pulled: 2, applied: 1, cursor: 2 });
+    expect(await storageService.get("workouts", "workout-1")).toMatchObject({
+      session_title: "Pull day",
+      session_notes: "Grip gave out",
+      updated_at: "2026-05-04T06:05:00.000Z",
+    });
+  });
+});
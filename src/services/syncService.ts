@@ -0,0 +1,472 @@
+/**
+ * Device sync client
+ * Following cursor rules for error handling and type safety
+ *
+ * A sync round has three steps:
+ *   capture  diff every synced store against its per-record sync state and
+ *            queue changed fields (with their clocks) in the outbox
+ *   push     send the outbox to the server, which merges field by field
+ *   pull     fetch records the server merged since our cursor and apply the
+ *            fields whose clocks beat the local ones
+ * Media blobs and in-progress sessions stay on the device that created them.
+ * So do stores under at-rest encryption: capture reads records decrypted, and
+ * the ciphertext is sealed with a key only this device derives, so neither
+ * form may leave it.
+ */
+
+import { storageService } from "./storage";
+import type { UnitOfWork } from "./storageAdapter";
+import { EncryptionService } from "./encryptionService";
+import { STORAGE_BACKEND } from "./storageBackend";
+import { SYNC_OUTBOX_STORE, SYNC_STATE_STORE } from "./schemaMigrations";
+import { SyncMerge } from "@/utils/syncMerge";
+import type {
+  ApiResponse,
+  FieldClock,
+  StorageData,
+  SyncChange,
+  SyncDeviceState,
+  SyncField,
+  SyncOutboxEntry,
+  SyncPullResult,
+  SyncPushResult,
+  SyncRecordState,
+  SyncReport,
+} from "@/types";
+
+type SyncedRecord = StorageData & Record<string, unknown>;
+
+export class SyncService {
+  static readonly DEFAULT_SERVER_URL = "/api/sync";
+  static readonly EXCLUDED_STORES = ["media", "active-sessions"];
+
+  private static readonly DEVICE_STATE_ID = "device";
+  // Rewritten on every save; after a merge they are derived from the field clocks
+  private static readonly UNSYNCED_FIELDS = new Set(["version", "updated_at", "timestamp"]);
+
+  private static inFlight: Promise<SyncReport> | null = null;
+
+  /**
+   * Device id, server URL and pull cursor, created on first use
+   */
+  static async getDeviceState(): Promise<SyncDeviceState> {
+    const existing = await storageService.get<SyncDeviceState>(SYNC_STATE_STORE, this.DEVICE_STATE_ID);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const state: SyncDeviceState = {
+      id: this.DEVICE_STATE_ID,
+      device_id: crypto.randomUUID(),
+      server_url: this.DEFAULT_SERVER_URL,
+      cursor: 0,
+      last_synced_at: null,
+      created_at: now,
+      updated_at: now,
+      version: 1,
+    };
+    await storageService.save(SYNC_STATE_STORE, state);
+    return state;
+  }
+
+  /**
+   * Point this device at a different server. The cursor restarts so the
+   * first round pulls everything the new server has.
+   */
+  static async setServerUrl(serverUrl: string): Promise<SyncDeviceState> {
+    const state = await this.getDeviceState();
+    const url = serverUrl.trim().replace(/\/+$/, "") || this.DEFAULT_SERVER_URL;
+    if (url === state.server_url) {
+      return state;
+    }
+
+    const updated: SyncDeviceState = {
+      ...state,
+      server_url: url,
+      cursor: 0,
+      updated_at: new Date().toISOString(),
+      version: state.version + 1,
+    };
+    await storageService.save(SYNC_STATE_STORE, updated);
+    return updated;
+  }
+
+  /**
+   * Number of records with local changes not yet pushed
+   */
+  static async getPendingCount(): Promise<number> {
+    return storageService.count(SYNC_OUTBOX_STORE);
+  }
+
+  /**
+   * Run a full capture, push and pull round. Concurrent calls share one round.
+   */
+  static async sync(): Promise<SyncReport> {
+    if (!this.inFlight) {
+      this.inFlight = this.runSync().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Queue every field that changed since the last capture or pull
+   */
+  static async captureLocalChanges(): Promise<number> {
+    const { device_id: deviceId } = await this.getDeviceState();
+    const now = new Date().toISOString();
+    const outbox = new Map(
+      (await storageService.getAll<SyncOutboxEntry>(SYNC_OUTBOX_STORE)).map((entry) => [entry.id, entry])
+    );
+    const unitOfWork = storageService.beginUnitOfWork();
+    let captured = 0;
+
+    for (const store of await this.getSyncedStores()) {
+      const records = await storageService.getAll<SyncedRecord>(store);
+      const states = new Map(
+        (await storageService.query<SyncRecordState>(SYNC_STATE_STORE, { index: "store", value: store }))
+          .map((state) => [state.record_id, state])
+      );
+
+      for (const record of records) {
+        const state = states.get(record.id) ?? null;
+        states.delete(record.id);
+
+        const change = this.diffRecord(store, record, state, deviceId, now);
+        if (change) {
+          this.queueChange(unitOfWork, outbox, change, now);
+          unitOfWork.put(SYNC_STATE_STORE, this.applyToState(state, change, now));
+          captured++;
+        }
+      }
+
+      // States left over belong to records deleted on this device
+      states.forEach((state) => {
+        if (state.deleted && SyncMerge.isDeleted(this.stateToChange(state))) {
+          return;
+        }
+
+        const previous = SyncMerge.latestClock([state.deleted, ...Object.values(state.fields)]);
+        const change: SyncChange = {
+          store,
+          record_id: state.record_id,
+          fields: {},
+          deleted: this.nextClock(now, 1, previous, deviceId),
+        };
+        this.queueChange(unitOfWork, outbox, change, now);
+        unitOfWork.put(SYNC_STATE_STORE, this.applyToState(state, change, now));
+        captured++;
+      });
+    }
+
+    await unitOfWork.commit();
+    return captured;
+  }
+
+  private static async runSync(): Promise<SyncReport> {
+    if (STORAGE_BACKEND === "server") {
+      throw new Error("Data is already stored on your server; device sync is not needed");
+    }
+    if (STORAGE_BACKEND !== "indexeddb") {
+      throw new Error("Device sync is only available with IndexedDB storage");
+    }
+
+    const captured = await this.captureLocalChanges();
+    const pushed = await this.push();
+    const pulled = await this.pull();
+
+    const state = await this.getDeviceState();
+    const syncedAt = new Date().toISOString();
+    await storageService.save(SYNC_STATE_STORE, {
+      ...state,
+      last_synced_at: syncedAt,
+      updated_at: syncedAt,
+      version: state.version + 1,
+    });
+
+    return { captured, pushed, ...pulled, cursor: state.cursor, synced_at: syncedAt };
+  }
+
+  private static async push(): Promise<number> {
+    const state = await this.getDeviceState();
+    const entries = await storageService.getAll<SyncOutboxEntry>(SYNC_OUTBOX_STORE);
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const changes: SyncChange[] = entries.map(({ store, record_id, fields, deleted }) => ({
+      store,
+      record_id,
+      fields,
+      deleted,
+    }));
+    await this.request<SyncPushResult>(`${state.server_url}/push`, {
+      method: "POST",
+      body: JSON.stringify({ device_id: state.device_id, changes }),
+    });
+
+    // Keep entries another tab re-queued while the push was in flight
+    const unitOfWork = storageService.beginUnitOfWork();
+    for (const entry of entries) {
+      const current = await storageService.get<SyncOutboxEntry>(SYNC_OUTBOX_STORE, entry.id);
+      if (current?.version === entry.version) {
+        unitOfWork.delete(SYNC_OUTBOX_STORE, entry.id);
+      }
+    }
+    await unitOfWork.commit();
+
+    return entries.length;
+  }
+
+  private static async pull(): Promise<Pick<SyncReport, "pulled" | "applied" | "deleted">> {
+    const syncedStores = new Set(await this.getSyncedStores());
+    const totals = { pulled: 0, applied: 0, deleted: 0 };
+    let hasMore = true;
+
+    while (hasMore) {
+      const state = await this.getDeviceState();
+      const page = await this.request<SyncPullResult>(
+        `${state.server_url}/pull?since=${state.cursor}`
+      );
+      const now = new Date().toISOString();
+      const unitOfWork = storageService.beginUnitOfWork();
+
+      // Staged writes aren't readable until commit, so a record changed several
+      // times in one page is merged first and applied once against local state
+      const changes = new Map<string, SyncChange>();
+      for (const record of page.changes) {
+        totals.pulled++;
+        if (!syncedStores.has(record.store)) {
+          continue;
+        }
+
+        const id = this.stateId(record.store, record.record_id);
+        changes.set(id, SyncMerge.mergeChanges(changes.get(id) ?? null, {
+          store: record.store,
+          record_id: record.record_id,
+          fields: record.fields,
+          deleted: record.deleted,
+        }));
+      }
+
+      for (const remote of changes.values()) {
+        const result = await this.applyRemoteChange(unitOfWork, remote, now);
+        if (result === "applied") totals.applied++;
+        if (result === "deleted") totals.deleted++;
+      }
+
+      // The cursor advances in the same transaction as the records it covers
+      unitOfWork.put(SYNC_STATE_STORE, {
+        ...state,
+        cursor: page.cursor,
+        updated_at: now,
+        version: state.version + 1,
+      }, { expectedVersion: state.version });
+      await unitOfWork.commit();
+
+      hasMore = page.has_more;
+    }
+
+    return totals;
+  }
+
+  /**
+   * Merge a server record into the local copy and stage the result
+   */
+  private static async applyRemoteChange(
+    unitOfWork: UnitOfWork,
+    remote: SyncChange,
+    now: string
+  ): Promise<"applied" | "deleted" | "unchanged"> {
+    const stateId = this.stateId(remote.store, remote.record_id);
+    const state = await storageService.get<SyncRecordState>(SYNC_STATE_STORE, stateId);
+    const local = await storageService.get<SyncedRecord>(remote.store, remote.record_id);
+
+    const merged = SyncMerge.mergeChanges(state ? this.stateToChange(state) : null, remote);
+    const winners = Object.entries(remote.fields).filter(([name, field]) => {
+      const localClock = state?.fields[name];
+      return !localClock || SyncMerge.compareClocks(field.clock, localClock) > 0;
+    });
+
+    const winningFields = Object.fromEntries(winners);
+    unitOfWork.put(
+      SYNC_STATE_STORE,
+      this.applyToState(state, { ...remote, fields: winningFields, deleted: merged.deleted }, now)
+    );
+
+    if (SyncMerge.isDeleted(merged)) {
+      if (!local) {
+        return "unchanged";
+      }
+      unitOfWork.delete(remote.store, remote.record_id);
+      return "deleted";
+    }
+
+    if (winners.length === 0 && local) {
+      return "unchanged";
+    }
+
+    const record: Record<string, unknown> = { ...(local ?? {}) };
+    winners.forEach(([name, field]) => {
+      if (field.value === null) {
+        delete record[name];
+      } else {
+        record[name] = field.value;
+      }
+    });
+
+    const lastWrite = SyncMerge.latestClock(Object.values(merged.fields).map((field) => field.clock))!;
+    record.id = remote.record_id;
+    record.created_at = record.created_at ?? lastWrite.updated_at;
+    record.updated_at = lastWrite.updated_at;
+    // Bump past the local version so editors holding the old copy get a conflict
+    record.version = local ? local.version + 1 : lastWrite.version;
+
+    unitOfWork.put(
+      remote.store,
+      record as unknown as StorageData,
+      local ? { expectedVersion: local.version } : {}
+    );
+    return "applied";
+  }
+
+  /**
+   * Compare a record with its last synced snapshot; null if nothing changed
+   */
+  private static diffRecord(
+    store: string,
+    record: SyncedRecord,
+    state: SyncRecordState | null,
+    deviceId: string,
+    now: string
+  ): SyncChange | null {
+    // A record recreated after a delete re-sends every field to overtake the tombstone
+    const recreated = state !== null && SyncMerge.isDeleted(this.stateToChange(state));
+    const snapshot = recreated ? {} : (state?.snapshot ?? {});
+
+    const fields: Record<string, SyncField> = {};
+    const names = new Set([...Object.keys(record), ...Object.keys(snapshot)]);
+
+    names.forEach((name) => {
+      if (this.UNSYNCED_FIELDS.has(name)) {
+        return;
+      }
+
+      const value = record[name] ?? null;
+      if (snapshot[name] === JSON.stringify(value)) {
+        return;
+      }
+
+      const updatedAt = typeof record.updated_at === "string" ? record.updated_at : now;
+      fields[name] = {
+        value,
+        clock: this.nextClock(updatedAt, record.version ?? 1, state?.fields[name], deviceId),
+      };
+    });
+
+    if (Object.keys(fields).length === 0) {
+      return null;
+    }
+
+    return { store, record_id: record.id, fields, deleted: null };
+  }
+
+  /**
+   * Clock for a local write. It always sorts after the previous write of the
+   * field, even when this device's clock is behind the one that made it.
+   */
+  private static nextClock(
+    updatedAt: string,
+    version: number,
+    previous: FieldClock | null | undefined,
+    deviceId: string
+  ): FieldClock {
+    const candidate: FieldClock = { updated_at: updatedAt, version, device_id: deviceId };
+    if (!previous || SyncMerge.compareClocks(candidate, previous) > 0) {
+      return candidate;
+    }
+    return { updated_at: previous.updated_at, version: previous.version + 1, device_id: deviceId };
+  }
+
+  private static queueChange(
+    unitOfWork: UnitOfWork,
+    outbox: Map<string, SyncOutboxEntry>,
+    change: SyncChange,
+    now: string
+  ): void {
+    const id = this.stateId(change.store, change.record_id);
+    const existing = outbox.get(id);
+    const merged = SyncMerge.mergeChanges(existing ?? null, change);
+    const entry: SyncOutboxEntry = {
+      ...merged,
+      id,
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+      version: (existing?.version ?? 0) + 1,
+    };
+    outbox.set(id, entry);
+    unitOfWork.put(SYNC_OUTBOX_STORE, entry);
+  }
+
+  private static applyToState(state: SyncRecordState | null, change: SyncChange, now: string): SyncRecordState {
+    const fields = { ...(state?.fields ?? {}) };
+    const snapshot = { ...(state?.snapshot ?? {}) };
+    Object.entries(change.fields).forEach(([name, field]) => {
+      fields[name] = field.clock;
+      snapshot[name] = JSON.stringify(field.value);
+    });
+
+    return {
+      id: this.stateId(change.store, change.record_id),
+      store: change.store,
+      record_id: change.record_id,
+      fields,
+      snapshot,
+      deleted: SyncMerge.latestClock([state?.deleted, change.deleted]),
+      created_at: state?.created_at ?? now,
+      updated_at: now,
+      version: (state?.version ?? 0) + 1,
+    };
+  }
+
+  private static stateToChange(state: SyncRecordState): SyncChange {
+    const fields: Record<string, SyncField> = {};
+    Object.entries(state.fields).forEach(([name, clock]) => {
+      fields[name] = { value: JSON.parse(state.snapshot[name] ?? "null"), clock };
+    });
+    return { store: state.store, record_id: state.record_id, fields, deleted: state.deleted };
+  }
+
+  private static stateId(store: string, recordId: string): string {
+    return `${store}/${recordId}`;
+  }
+
+  private static async getSyncedStores(): Promise<string[]> {
+    const stores = await storageService.getStoreNames();
+    const { stores: encrypted } = await EncryptionService.getStatus();
+    return stores.filter((store) => !this.EXCLUDED_STORES.includes(store) && !encrypted.includes(store));
+  }
+
+  /**
+   * Call the sync server and unwrap its ApiResponse envelope
+   */
+  private static async request<T>(url: string, init: RequestInit = {}): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json", ...init.headers },
+      });
+    } catch {
+      throw new Error(`Sync server is unreachable at ${url}`);
+    }
+
+    const body = (await response.json().catch(() => null)) as ApiResponse<T> | null;
+    if (!response.ok || !body?.success) {
+      throw new Error(body?.error?.message ?? `Sync server responded with ${response.status}`);
+    }
+    return body.data as T;
+  }
+}
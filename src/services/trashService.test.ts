@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { StorageService } from "./storage";
+import { TrashService } from "./trashService";
+import { UndoService } from "./undoService";
+import { setActiveProfileId } from "./activeProfile";
+import { goalsRepository } from "@/repositories";
+import { installIndexedDbStorage, removeIndexedDbStorage } from "@/test/indexedDbStorage";
+import type { FitnessGoal, UndoOffer } from "@/types";
+
+function goal(id: string): FitnessGoal {
+  return {
+    id,
+    title: "Run 5 km",
+    category: "cardio",
+    goal_type: "target_value",
+    target_value: 5,
+    target_unit: "km",
+    start_date: "2026-01-01",
+    target_date: "2026-06-30",
+    metric_to_track: "run_distance_km",
+    measurement_frequency: "weekly",
+    status: "active",
+    completion_percentage: 20,
+    created_at: "2026-01-01T08:00:00.000Z",
+    updated_at: "2026-01-01T08:00:00.000Z",
+    version: 1,
+  };
+}
+
+describe("TrashService", () => {
+  let storage: StorageService;
+
+  beforeEach(async () => {
+    storage = installIndexedDbStorage();
+    setActiveProfileId("alice");
+    await goalsRepository.save(goal("goal-1"));
+    await goalsRepository.save(goal("goal-2"));
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("undoes a cleared store through the undo offer", async () => {
+    const { deleted_at, count } = await TrashService.trashStores(["goals"]);
+    expect(count).toBe(2);
+    expect(await goalsRepository.getAll()).toEqual([]);
+
+    let current: UndoOffer | null = null;
+    const unsubscribe = UndoService.subscribe((offer) => (current = offer));
+    const offer = UndoService.offer("Cleared 2 records", () => TrashService.restoreDeletion(["goals"], deleted_at));
+    expect(current).toBe(offer);
+
+    await UndoService.undo(offer.id);
+    unsubscribe();
+
+    expect(current).toBeNull();
+    expect((await goalsRepository.getAll()).map((restored) => restored.id).sort()).toEqual(["goal-1", "goal-2"]);
+    await expect(UndoService.undo(offer.id)).rejects.toThrow("can no longer be undone");
+  });
+
+  it("leaves other profiles' records out of a cleared store", async () => {
+    setActiveProfileId("bob");
+    await goalsRepository.save(goal("goal-3"));
+
+    expect((await TrashService.trashStores(["goals"])).count).toBe(1);
+
+    setActiveProfileId("alice");
+    expect(await goalsRepository.getAll()).toHaveLength(2);
+  });
+
+  it("purges records kept in the trash past the retention period", async () => {
+    await goalsRepository.delete("goal-1");
+    const expired = new Date(Date.now() - (TrashService.RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000).toISOString();
+    await storage.save("goals", { ...(await storage.get<FitnessGoal>("goals", "goal-2"))!, deleted_at: expired });
+
+    expect(await TrashService.purgeExpired()).toBe(1);
+    expect(await storage.get("goals", "goal-2")).toBeNull();
+    expect((await TrashService.list("goals")).map((item) => item.id)).toEqual(["goal-1"]);
+  });
+
+  it("counts live records without loading the trash", async () => {
+    await goalsRepository.save(goal("goal-3"));
+    await goalsRepository.delete("goal-1");
+
+    const getAll = vi.spyOn(storage, "getAll");
+    const scan = vi.spyOn(storage, "scan");
+    expect(await goalsRepository.count()).toBe(2);
+    expect(getAll).not.toHaveBeenCalled();
+    expect(scan).not.toHaveBeenCalled();
+  });
+});
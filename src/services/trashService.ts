@@ -0,0 +1,251 @@
+/**
+ * Trash: records deleted from the standard views, kept until restored or purged
+ * Following cursor rules for error handling and type safety
+ *
+ * Repositories soft delete by stamping deleted_at. Everything stays in the
+ * trash for RETENTION_DAYS and is then purged on the next app start.
+ */
+
+import {
+  baselineRepository,
+  bodyMeasurementsRepository,
+  exerciseRepository,
+  glossaryRepository,
+  goalsRepository,
+  metricsRepository,
+  planRepository,
+  progressPhotosRepository,
+  revisionRepository,
+  workoutRepository,
+} from "@/repositories";
+import { PlanService } from "./planService";
+import { getActiveProfileId, ownerOf } from "./activeProfile";
+import { REVISIONS_STORE } from "./revisionLog";
+import { getStorageAdapter, getTrashStorageAdapter, getUnscopedStorageAdapter } from "./storageBackend";
+import { DateUtils } from "@/utils/dateUtils";
+import type { EntityRevision, StorageData, TrashItem, TrashStore } from "@/types";
+
+type StoredRecord = StorageData & Record<string, unknown>;
+
+interface TrashSource {
+  getDeleted(): Promise<StorageData[]>;
+  restore(id: string): Promise<unknown>;
+  purge(id: string): Promise<void>;
+}
+
+export class TrashService {
+  static readonly RETENTION_DAYS = 30;
+
+  static readonly STORE_LABELS: Record<TrashStore, string> = {
+    workouts: "Workouts",
+    plans: "Plans",
+    exercises: "Exercises",
+    glossary: "Glossary terms",
+    metrics: "Body weight entries",
+    baselines: "Baseline tests",
+    goals: "Goals",
+    "body-measurements": "Body measurements",
+    "progress-photos": "Progress photos",
+  };
+
+  // Plans take their completed session history along into and out of the trash
+  private static readonly SESSION_HISTORY_STORE = "completed_sessions";
+
+  /**
+   * Items of one type in the trash, most recently deleted first
+   */
+  static async list(store: TrashStore): Promise<TrashItem[]> {
+    const records = await this.sourceFor(store).getDeleted();
+    return records.map((record) => this.toItem(store, record as StoredRecord));
+  }
+
+  /**
+   * Take an item back out of the trash
+   */
+  static async restore(store: TrashStore, id: string): Promise<void> {
+    await this.sourceFor(store).restore(id);
+  }
+
+  /**
+   * Permanently delete an item
+   */
+  static async purge(store: TrashStore, id: string): Promise<void> {
+    await this.sourceFor(store).purge(id);
+  }
+
+  /**
+   * Permanently delete everything of one type in the trash
+   */
+  static async emptyTrash(store: TrashStore): Promise<number> {
+    const source = this.sourceFor(store);
+    const records = await source.getDeleted();
+    for (const record of records) {
+      await source.purge(record.id);
+    }
+    return records.length;
+  }
+
+  /**
+   * Move the active profile's own records in the given stores to the trash
+   * as one deletion. The shared catalog is left alone. Returns the deletion
+   * time that restoreDeletion takes to undo it.
+   */
+  static async trashStores(stores: TrashStore[]): Promise<{ deleted_at: string; count: number }> {
+    const storage = getStorageAdapter();
+    const unitOfWork = storage.beginUnitOfWork();
+    const deletedAt = DateUtils.getCurrentDateTime();
+    const profileId = getActiveProfileId();
+    let count = 0;
+
+    for (const store of stores) {
+      const records = await storage.getAll<StoredRecord>(store);
+      for (const record of records.filter((candidate) => ownerOf(candidate) === profileId)) {
+        unitOfWork.put(store, this.bump({ ...record, deleted_at: deletedAt }), { expectedVersion: record.version });
+        count++;
+      }
+    }
+
+    await unitOfWork.commit();
+    return { deleted_at: deletedAt, count };
+  }
+
+  /**
+   * Restore every record trashStores moved to the trash at deletedAt
+   */
+  static async restoreDeletion(stores: TrashStore[], deletedAt: string): Promise<number> {
+    const storage = getTrashStorageAdapter();
+    const unitOfWork = storage.beginUnitOfWork();
+    let count = 0;
+
+    for (const store of stores) {
+      const records = await storage.getAll<StoredRecord>(store);
+      for (const record of records.filter((candidate) => candidate.deleted_at === deletedAt)) {
+        const restored = { ...record };
+        delete restored.deleted_at;
+        unitOfWork.put(store, this.bump(restored), { expectedVersion: record.version });
+        count++;
+      }
+    }
+
+    await unitOfWork.commit();
+    return count;
+  }
+
+  /**
+   * Permanently delete everything that has been in the trash longer than
+   * RETENTION_DAYS, for every profile on the device
+   */
+  static async purgeExpired(): Promise<number> {
+    const storage = getUnscopedStorageAdapter();
+    const unitOfWork = storage.beginUnitOfWork();
+    const now = DateUtils.getCurrentDateTime();
+    const purgedIds = new Set<string>();
+    let purged = 0;
+
+    for (const store of [...Object.keys(this.STORE_LABELS), this.SESSION_HISTORY_STORE]) {
+      const records = await storage.getAll<StorageData>(store);
+      for (const record of records) {
+        if (record.deleted_at && this.purgeDate(record.deleted_at) <= now) {
+          unitOfWork.delete(store, record.id);
+          purgedIds.add(record.id);
+          purged++;
+        }
+      }
+    }
+
+    // Revision history goes with the plans and workouts it belongs to
+    if (purgedIds.size > 0) {
+      const revisions = await storage.getAll<EntityRevision>(REVISIONS_STORE);
+      revisions
+        .filter((revision) => purgedIds.has(revision.entity_id))
+        .forEach((revision) => unitOfWork.delete(REVISIONS_STORE, revision.id));
+    }
+
+    if (purged > 0) {
+      await unitOfWork.commit();
+    }
+    return purged;
+  }
+
+  private static sourceFor(store: TrashStore): TrashSource {
+    switch (store) {
+      case "workouts":
+        return {
+          getDeleted: () => workoutRepository.getDeleted(),
+          restore: (id) => workoutRepository.restore(id),
+          purge: (id) => this.purgeWorkout(id),
+        };
+      case "plans":
+        return {
+          getDeleted: () => planRepository.getDeleted(),
+          restore: (id) => PlanService.restorePlan(id),
+          purge: (id) => PlanService.purgePlan(id),
+        };
+      case "exercises":
+        return exerciseRepository;
+      case "glossary":
+        return glossaryRepository;
+      case "metrics":
+        return metricsRepository;
+      case "baselines":
+        return baselineRepository;
+      case "goals":
+        return goalsRepository;
+      case "body-measurements":
+        return bodyMeasurementsRepository;
+      case "progress-photos":
+        return progressPhotosRepository;
+    }
+  }
+
+  private static async purgeWorkout(id: string): Promise<void> {
+    const unitOfWork = getStorageAdapter().beginUnitOfWork();
+    await workoutRepository.purge(id, unitOfWork);
+    await revisionRepository.deleteHistory("workouts", id, unitOfWork);
+    await unitOfWork.commit();
+  }
+
+  private static toItem(store: TrashStore, record: StoredRecord): TrashItem {
+    const text = (key: string): string | undefined =>
+      typeof record[key] === "string" || typeof record[key] === "number" ? String(record[key]) : undefined;
+    const deletedAt = record.deleted_at ?? record.updated_at;
+
+    const [title, detail] = ((): [string, string | undefined] => {
+      switch (store) {
+        case "workouts":
+          return [text("session_title") ?? "Workout", this.formatDate(text("date_time_start"))];
+        case "plans":
+        case "goals":
+          return [text("title") ?? "Untitled", undefined];
+        case "exercises":
+          return [text("name") ?? "Exercise", text("category")];
+        case "glossary":
+          return [text("term") ?? "Term", text("category")];
+        case "metrics":
+          return [`${text("body_weight") ?? "?"} ${text("weight_unit") ?? ""}`.trim(), this.formatDate(text("date"))];
+        case "baselines":
+          return [`Baseline test ${text("month") ?? ""}`.trim(), this.formatDate(text("test_date"))];
+        case "body-measurements":
+          return ["Body measurements", this.formatDate(text("date"))];
+        case "progress-photos":
+          return [`${text("photo_type") ?? "Progress"} photo`, this.formatDate(text("date"))];
+      }
+    })();
+
+    return { store, id: record.id, title, detail, deleted_at: deletedAt, purge_at: this.purgeDate(deletedAt) };
+  }
+
+  private static purgeDate(deletedAt: string): string {
+    const purgeAt = new Date(deletedAt);
+    purgeAt.setDate(purgeAt.getDate() + this.RETENTION_DAYS);
+    return purgeAt.toISOString();
+  }
+
+  private static formatDate(value?: string): string | undefined {
+    return value ? new Date(value).toLocaleDateString() : undefined;
+  }
+
+  private static bump<T extends StorageData>(record: T): T {
+    return { ...record, updated_at: DateUtils.getCurrentDateTime(), version: record.version + 1 };
+  }
+}
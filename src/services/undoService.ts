@@ -0,0 +1,70 @@
+/**
+ * Undo for the most recent destructive action
+ * Following cursor rules for error handling and type safety
+ *
+ * Whatever deleted something offers a way to take it back; UndoToast shows
+ * the latest offer until it is used, dismissed or replaced.
+ */
+
+import type { UndoOffer } from "@/types";
+
+type UndoListener = (offer: UndoOffer | null) => void;
+
+export class UndoService {
+  private static current: UndoOffer | null = null;
+  private static readonly listeners = new Set<UndoListener>();
+
+  /**
+   * Offer to undo an action that just happened, replacing any earlier offer
+   */
+  static offer(message: string, undo: () => Promise<unknown>): UndoOffer {
+    const offer = { id: crypto.randomUUID(), message, undo };
+    this.publish(offer);
+    return offer;
+  }
+
+  /**
+   * Run an offer's undo and withdraw it. Earlier offers have expired.
+   */
+  static async undo(offerId: string): Promise<void> {
+    const offer = this.current;
+    if (!offer || offer.id !== offerId) {
+      throw new Error("This action can no longer be undone");
+    }
+
+    this.publish(null);
+    await offer.undo();
+  }
+
+  /**
+   * Withdraw an offer without undoing it
+   */
+  static dismiss(offerId: string): void {
+    if (this.current?.id === offerId) {
+      this.publish(null);
+    }
+  }
+
+  /**
+   * Listen for offers; the listener hears the current one straight away
+   */
+  static subscribe(listener: UndoListener): () => void {
+    this.listeners.add(listener);
+    listener(this.current);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static publish(offer: UndoOffer | null): void {
+    this.current = offer;
+    this.listeners.forEach((listener) => {
+      try {
+        listener(offer);
+      } catch (error) {
+        console.error("Undo listener failed:", error);
+      }
+    });
+  }
+}
@@ -0,0 +1,558 @@
+/**
+ * Workout history import from other lifting apps
+ * Following cursor rules for error handling and type safety
+ *
+ * Reads the CSV exports of Strong, Hevy and FitNotes, matches their exercise
+ * names against the catalog and saves the history as workout log entries.
+ * Run with dryRun first to preview what an import would do.
+ */
+
+import { exerciseRepository, workoutRepository } from "@/repositories";
+import { CsvParser } from "@/utils/csv";
+import { DateUtils } from "@/utils/dateUtils";
+import { UnitConverter } from "@/utils/units";
+import type {
+  ExerciseCatalogItem,
+  ImportedSetRow,
+  ImportExerciseMatch,
+  ImportSkippedRow,
+  PerformedSet,
+  SetType,
+  StrengthEntry,
+  WorkoutImportOptions,
+  WorkoutImportReport,
+  WorkoutImportSource,
+  WorkoutLogEntry,
+} from "@/types";
+
+type CsvRecord = { row: number; values: Record<string, string> };
+
+// A parsed set, a reason to report the row as skipped, or null to drop it silently
+type RowResult = ImportedSetRow | { skip: string } | null;
+
+type WeightUnit = "kg" | "lb";
+
+interface ParsedImport {
+  source: WorkoutImportSource;
+  rows: ImportedSetRow[];
+  skipped: ImportSkippedRow[];
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const SET_TYPES: Record<string, SetType> = {
+  w: "warm_up",
+  warmup: "warm_up",
+  d: "drop_set",
+  dropset: "drop_set",
+  f: "failure",
+  failure: "failure",
+};
+
+export class WorkoutImportService {
+  static readonly SOURCE_LABELS: Record<WorkoutImportSource, string> = {
+    strong: "Strong",
+    hevy: "Hevy",
+    fitnotes: "FitNotes",
+  };
+
+  /**
+   * Recognize an export by its (lowercased) header columns
+   */
+  static detectSource(columns: string[]): WorkoutImportSource | null {
+    const has = (name: string) => columns.includes(name);
+    if (has("exercise_title") && has("start_time")) return "hevy";
+    if (has("exercise name") && has("set order")) return "strong";
+    if (has("exercise") && has("category") && has("reps")) return "fitnotes";
+    return null;
+  }
+
+  /**
+   * Parse an export into set rows. Rows that can't be imported (cardio,
+   * timed sets, unreadable dates) are reported rather than failing the file.
+   */
+  static parse(text: string, options: WorkoutImportOptions = {}): ParsedImport {
+    const records = CsvParser.parseRecords(text);
+    if (records.length === 0) {
+      throw new Error("The file has no workout rows");
+    }
+
+    const columns = Object.keys(records[0].values);
+    const source = options.source ?? this.detectSource(columns);
+    if (!source) {
+      throw new Error("Unrecognized export: expected a Strong, Hevy or FitNotes CSV file");
+    }
+
+    const weightUnit = this.unitFromColumns(columns) ?? options.defaultWeightUnit ?? "kg";
+    const rows: ImportedSetRow[] = [];
+    const skipped: ImportSkippedRow[] = [];
+
+    records.forEach((record) => {
+      const result =
+        source === "strong"
+          ? this.parseStrongRow(record, weightUnit)
+          : source === "hevy"
+            ? this.parseHevyRow(record, weightUnit)
+            : this.parseFitNotesRow(record, weightUnit);
+
+      if (result && "skip" in result) {
+        skipped.push({ row: record.row, reason: result.skip });
+      } else if (result) {
+        rows.push(result);
+      }
+    });
+
+    return { source, rows, skipped };
+  }
+
+  /**
+   * Import an export, or with options.dryRun report what importing would do.
+   * Workouts already in the log (same start time) are left alone, so
+   * importing the same file twice adds nothing.
+   */
+  static async importCsv(
+    text: string,
+    options: WorkoutImportOptions = {}
+  ): Promise<WorkoutImportReport> {
+    const { source, rows, skipped } = this.parse(text, options);
+    const dryRun = options.dryRun ?? false;
+
+    const catalog = await exerciseRepository.getAll();
+    const matches = this.matchExercises(rows, catalog);
+
+    const created = (options.createExercises ?? [])
+      .filter((name) => matches.get(name)?.exercise_id === null)
+      .map((name) => this.createCustomExercise(name, source));
+    created.forEach((exercise) => {
+      const match = matches.get(exercise.name)!;
+      match.exercise_id = exercise.id;
+      match.exercise_name = exercise.name;
+    });
+
+    const workouts = this.buildWorkouts(rows, matches, options.targetWeightUnit);
+    const starts = workouts.map((workout) => workout.date_time_start).sort();
+    const existing = starts.length > 0
+      ? await workoutRepository.getByDateRange(starts[0], starts[starts.length - 1])
+      : [];
+    const existingStarts = new Set(existing.map((workout) => workout.date_time_start));
+    const fresh = workouts.filter((workout) => !existingStarts.has(workout.date_time_start));
+
+    if (!dryRun) {
+      if (created.length > 0) {
+        await exerciseRepository.saveBatch(created);
+      }
+      if (fresh.length > 0) {
+        await workoutRepository.saveBatch(fresh);
+      }
+    }
+
+    const freshStarts = fresh.map((workout) => workout.date_time_start).sort();
+    return {
+      source,
+      dry_run: dryRun,
+      workouts: fresh.length,
+      sets: fresh.reduce(
+        (sum, workout) =>
+          sum +
+          workout.entries.reduce(
+            (count, entry) => count + (entry.type === "strength" ? entry.performed_sets.length : 0),
+            0
+          ),
+        0
+      ),
+      first_date: freshStarts[0] ?? null,
+      last_date: freshStarts[freshStarts.length - 1] ?? null,
+      duplicates: workouts.length - fresh.length,
+      exercises: Array.from(matches.values()),
+      created_exercises: created.map((exercise) => exercise.name),
+      unmatched_sets: rows.filter((row) => !matches.get(row.exercise_name)?.exercise_id).length,
+      skipped_rows: skipped,
+    };
+  }
+
+  /**
+   * Match each distinct exercise name to the catalog by name, then by alias.
+   * "Bench Press (Barbell)" also tries "Bench Press" and "Barbell Bench Press".
+   */
+  private static matchExercises(
+    rows: ImportedSetRow[],
+    catalog: ExerciseCatalogItem[]
+  ): Map<string, ImportExerciseMatch> {
+    const index = new Map<string, { exercise: ExerciseCatalogItem; matchedBy: "name" | "alias" }>();
+    catalog.forEach((exercise) => {
+      index.set(this.normalizeName(exercise.name), { exercise, matchedBy: "name" });
+    });
+    catalog.forEach((exercise) => {
+      exercise.aliases.forEach((alias) => {
+        const key = this.normalizeName(alias);
+        if (!index.has(key)) {
+          index.set(key, { exercise, matchedBy: "alias" });
+        }
+      });
+    });
+
+    const matches = new Map<string, ImportExerciseMatch>();
+    rows.forEach((row) => {
+      const existing = matches.get(row.exercise_name);
+      if (existing) {
+        existing.set_count++;
+        return;
+      }
+
+      const hit = this.nameVariants(row.exercise_name)
+        .map((variant) => index.get(variant))
+        .find((candidate) => candidate !== undefined);
+      matches.set(row.exercise_name, {
+        name: row.exercise_name,
+        exercise_id: hit?.exercise.id ?? null,
+        exercise_name: hit?.exercise.name ?? null,
+        matched_by: hit?.matchedBy ?? null,
+        set_count: 1,
+      });
+    });
+    return matches;
+  }
+
+  private static normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  }
+
+  private static nameVariants(name: string): string[] {
+    const variants = [name];
+    const qualified = name.match(/^(.*?)\s*\(([^)]+)\)\s*$/);
+    if (qualified) {
+      variants.push(qualified[1], `${qualified[2]} ${qualified[1]}`);
+    }
+    return variants.map((variant) => this.normalizeName(variant));
+  }
+
+  /**
+   * Group set rows into workouts, one strength entry per exercise in the
+   * order exercises first appear. Sets of unmatched exercises are left out.
+   */
+  private static buildWorkouts(
+    rows: ImportedSetRow[],
+    matches: Map<string, ImportExerciseMatch>,
+    targetUnit?: WeightUnit
+  ): WorkoutLogEntry[] {
+    const groups = new Map<string, ImportedSetRow[]>();
+    rows.forEach((row) => {
+      groups.set(row.workout_key, [...(groups.get(row.workout_key) ?? []), row]);
+    });
+
+    const now = DateUtils.getCurrentDateTime();
+    return Array.from(groups.values()).flatMap((workoutRows): WorkoutLogEntry[] => {
+      const entries = new Map<string, StrengthEntry>();
+
+      workoutRows.forEach((row) => {
+        const match = matches.get(row.exercise_name);
+        if (!match?.exercise_id || !match.exercise_name) {
+          return;
+        }
+
+        let entry = entries.get(match.exercise_id);
+        if (!entry) {
+          entry = {
+            type: "strength",
+            exercise_id: match.exercise_id,
+            exercise_name: match.exercise_name,
+            order_index: entries.size,
+            performed_sets: [],
+            notes: row.exercise_notes || undefined,
+          };
+          entries.set(match.exercise_id, entry);
+        }
+        entry.performed_sets.push(this.toPerformedSet(row, entry.performed_sets.length + 1, targetUnit));
+      });
+
+      if (entries.size === 0) {
+        return [];
+      }
+
+      const first = workoutRows[0];
+      const start = new Date(first.started_at);
+      return [
+        {
+          id: crypto.randomUUID(),
+          date_time_start: first.started_at,
+          date_time_end: first.duration_seconds
+            ? new Date(start.getTime() + first.duration_seconds * 1000).toISOString()
+            : undefined,
+          session_title: first.workout_title || undefined,
+          session_notes: first.workout_notes || undefined,
+          entries: Array.from(entries.values()),
+          created_at: now,
+          updated_at: now,
+          version: 1,
+        },
+      ];
+    });
+  }
+
+  private static toPerformedSet(row: ImportedSetRow, setNumber: number, targetUnit?: WeightUnit): PerformedSet {
+    const unit = targetUnit ?? row.weight_unit;
+    const weight = row.weight_value
+      ? UnitConverter.convertWeight(row.weight_value, row.weight_unit, unit)
+      : undefined;
+    return {
+      set_number: setNumber,
+      set_type: row.set_type,
+      repetitions_done: row.repetitions,
+      weight_value: weight,
+      weight_unit: weight !== undefined ? unit : undefined,
+      rpe_score: row.rpe,
+      perceived_effort_text: this.effortFromRpe(row.rpe),
+      notes: row.notes || undefined,
+    };
+  }
+
+  // Same scale SetLogger uses when a set is logged live
+  private static effortFromRpe(rpe?: number): PerformedSet["perceived_effort_text"] {
+    if (!rpe) return "moderately hard";
+    if (rpe <= 2) return "very easy";
+    if (rpe <= 4) return "easy";
+    if (rpe <= 6) return "moderately hard";
+    if (rpe <= 8) return "hard";
+    return "very hard";
+  }
+
+  /**
+   * A minimal catalog entry for an exercise the catalog doesn't know yet.
+   * The movement pattern is a rough guess from the name.
+   */
+  private static createCustomExercise(name: string, source: WorkoutImportSource): ExerciseCatalogItem {
+    const now = DateUtils.getCurrentDateTime();
+    return {
+      id: crypto.randomUUID(),
+      name,
+      aliases: [],
+      movement_pattern: this.guessMovementPattern(name),
+      primary_muscles: ["unspecified"],
+      equipment: [],
+      step_by_step_instructions: [`Imported from ${this.SOURCE_LABELS[source]} workout history.`],
+      safety_notes: [],
+      media: [],
+      beginner_friendly_name: name,
+      difficulty_level: "intermediate",
+      exercise_type: "strength",
+      created_at: now,
+      updated_at: now,
+      version: 1,
+    };
+  }
+
+  private static guessMovementPattern(name: string): ExerciseCatalogItem["movement_pattern"] {
+    const lower = name.toLowerCase();
+    if (/squat|lunge|leg press|step.?up|split/.test(lower)) return "squat";
+    if (/deadlift|rdl|hip thrust|good morning|swing|bridge/.test(lower)) return "hinge";
+    if (/row|pull|chin|curl|shrug/.test(lower)) return "pull";
+    if (/carry|farmer/.test(lower)) return "carry";
+    if (/press|bench|push|dip|fly|raise|extension/.test(lower)) return "press";
+    return "core";
+  }
+
+  // Strong: Date, Workout Name, Duration, Exercise Name, Set Order, Weight, Reps, RPE, Notes...
+  private static parseStrongRow({ row, values }: CsvRecord, weightUnit: WeightUnit): RowResult {
+    const setOrder = values["set order"] ?? "";
+    if (/rest timer/i.test(setOrder)) {
+      return null;
+    }
+
+    const startedAt = this.parseDateTime(values["date"]);
+    if (!startedAt) {
+      return { skip: `Unrecognized date "${values["date"]}"` };
+    }
+
+    return this.toSetRow({
+      row,
+      workout_key: `${values["date"]}|${values["workout name"] ?? ""}`,
+      workout_title: values["workout name"],
+      workout_notes: values["workout notes"],
+      started_at: startedAt,
+      duration_seconds:
+        this.parseNumber(values["duration (sec)"]) ?? this.parseDuration(values["duration"]),
+      exercise_name: values["exercise name"],
+      set_type: SET_TYPES[setOrder.toLowerCase()],
+      reps: values["reps"],
+      weight: this.pickWeight(values),
+      weight_unit: this.parseUnit(values["weight unit"]) ?? weightUnit,
+      rpe: values["rpe"],
+      notes: values["notes"],
+    });
+  }
+
+  // Hevy: title, start_time, end_time, description, exercise_title, set_type, weight_kg, reps, rpe...
+  private static parseHevyRow({ row, values }: CsvRecord, weightUnit: WeightUnit): RowResult {
+    const startedAt = this.parseDateTime(values["start_time"]);
+    if (!startedAt) {
+      return { skip: `Unrecognized start time "${values["start_time"]}"` };
+    }
+
+    const endedAt = this.parseDateTime(values["end_time"]);
+    const duration = endedAt
+      ? Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000)
+      : undefined;
+
+    return this.toSetRow({
+      row,
+      workout_key: `${values["start_time"]}|${values["title"] ?? ""}`,
+      workout_title: values["title"],
+      workout_notes: values["description"],
+      started_at: startedAt,
+      duration_seconds: duration && duration > 0 ? duration : undefined,
+      exercise_name: values["exercise_title"],
+      exercise_notes: values["exercise_notes"],
+      set_type: SET_TYPES[(values["set_type"] ?? "").toLowerCase()],
+      reps: values["reps"],
+      weight: this.pickWeight(values),
+      weight_unit: weightUnit,
+      rpe: values["rpe"],
+    });
+  }
+
+  // FitNotes: Date, Exercise, Category, Weight (kgs), Reps, Distance, Time, Comment
+  private static parseFitNotesRow({ row, values }: CsvRecord, weightUnit: WeightUnit): RowResult {
+    const startedAt = this.parseDateTime(values["date"]);
+    if (!startedAt) {
+      return { skip: `Unrecognized date "${values["date"]}"` };
+    }
+
+    // FitNotes has no workouts, only a training log per day
+    return this.toSetRow({
+      row,
+      workout_key: values["date"],
+      started_at: startedAt,
+      exercise_name: values["exercise"],
+      reps: values["reps"],
+      weight: this.pickWeight(values),
+      weight_unit: this.parseUnit(values["weight unit"]) ?? weightUnit,
+      notes: values["comment"],
+    });
+  }
+
+  private static toSetRow(fields: {
+    row: number;
+    workout_key: string;
+    workout_title?: string;
+    workout_notes?: string;
+    started_at: string;
+    duration_seconds?: number;
+    exercise_name?: string;
+    exercise_notes?: string;
+    set_type?: SetType;
+    reps?: string;
+    weight?: string;
+    weight_unit: WeightUnit;
+    rpe?: string;
+    notes?: string;
+  }): RowResult {
+    if (!fields.exercise_name) {
+      return { skip: "Missing exercise name" };
+    }
+
+    const reps = this.parseNumber(fields.reps);
+    const weight = this.parseNumber(fields.weight);
+    if ((reps !== undefined && reps < 0) || (weight !== undefined && weight < 0)) {
+      return { skip: "Negative weight or repetitions" };
+    }
+    if (!reps && !weight) {
+      return { skip: `No repetitions for ${fields.exercise_name} (cardio and timed sets are not imported)` };
+    }
+
+    const rpe = this.parseNumber(fields.rpe);
+    return {
+      row: fields.row,
+      workout_key: fields.workout_key,
+      workout_title: fields.workout_title,
+      workout_notes: fields.workout_notes,
+      started_at: fields.started_at,
+      duration_seconds: fields.duration_seconds,
+      exercise_name: fields.exercise_name,
+      exercise_notes: fields.exercise_notes,
+      set_type: fields.set_type,
+      repetitions: Math.round(reps ?? 0),
+      weight_value: weight || undefined,
+      weight_unit: fields.weight_unit,
+      rpe: rpe !== undefined && rpe >= 1 && rpe <= 10 ? rpe : undefined,
+      notes: fields.notes,
+    };
+  }
+
+  /**
+   * The weight column's header often names the unit: "Weight (kg)", "weight_lbs"
+   */
+  private static unitFromColumns(columns: string[]): WeightUnit | null {
+    const column = columns.find((name) => name.startsWith("weight") && name !== "weight unit");
+    return column ? this.parseUnit(column) : null;
+  }
+
+  private static parseUnit(value?: string): WeightUnit | null {
+    if (!value) return null;
+    if (/kg/i.test(value)) return "kg";
+    if (/lb/i.test(value)) return "lb";
+    return null;
+  }
+
+  private static pickWeight(values: Record<string, string>): string | undefined {
+    const column = Object.keys(values).find((name) => name.startsWith("weight") && name !== "weight unit");
+    return column ? values[column] : undefined;
+  }
+
+  private static parseNumber(value?: string): number | undefined {
+    if (!value) return undefined;
+    // Exports from comma-decimal locales write 62,5
+    const parsed = Number(value.replace(",", "."));
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  /**
+   * Strong writes durations like "1h 5m" or "45m"
+   */
+  private static parseDuration(value?: string): number | undefined {
+    if (!value) return undefined;
+    const parts = Array.from(value.matchAll(/(\d+)\s*([hms])/gi));
+    if (parts.length === 0) return undefined;
+
+    const seconds = { h: 3600, m: 60, s: 1 } as const;
+    return parts.reduce(
+      (total, [, amount, unit]) => total + Number(amount) * seconds[unit.toLowerCase() as "h" | "m" | "s"],
+      0
+    );
+  }
+
+  /**
+   * Read "2024-03-15 18:04:12", "2024-03-15" or Hevy's "15 Mar 2024, 18:04",
+   * all in local time, as an ISO date-time
+   */
+  private static parseDateTime(value?: string): string | null {
+    if (!value) return null;
+
+    const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+    if (iso) {
+      const [, year, month, day, hours = "0", minutes = "0", seconds = "0"] = iso;
+      return this.localDateTime(+year, +month - 1, +day, +hours, +minutes, +seconds);
+    }
+
+    const named = value.match(/^(\d{1,2}) ([a-z]{3})[a-z]* (\d{4}),? (\d{1,2}):(\d{2})$/i);
+    if (named) {
+      const [, day, monthName, year, hours, minutes] = named;
+      const month = MONTHS.indexOf(monthName.toLowerCase());
+      return month >= 0 ? this.localDateTime(+year, month, +day, +hours, +minutes, 0) : null;
+    }
+
+    const parsed = new Date(value);
+    return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+  }
+
+  private static localDateTime(
+    year: number,
+    month: number,
+    day: number,
+    hours: number,
+    minutes: number,
+    seconds: number
+  ): string | null {
+    const date = new Date(year, month, day, hours, minutes, seconds);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+}
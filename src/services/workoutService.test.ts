@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { StorageService } from "./storage";
+import { getStorageAdapter } from "./storageBackend";
+import { WorkoutService } from "./workoutService";
+import { installIndexedDbStorage, removeIndexedDbStorage } from "@/test/indexedDbStorage";
+import type { ActiveWorkoutSession, ExerciseCatalogItem } from "@/types";
+
+function session(id: string, minutesAgo: number, planId?: string): ActiveWorkoutSession {
+  const lastActivity = new Date(Date.now() - minutesAgo * 60 * 1000).toISOString();
+  return {
+    id,
+    workoutLog: {
+      id,
+      date_time_start: lastActivity,
+      session_plan_ref: planId,
+      entries: [],
+      created_at: lastActivity,
+      updated_at: lastActivity,
+      version: 1,
+    },
+    currentExerciseIndex: 0,
+    sessionStatus: "active",
+    startTime: lastActivity,
+    pauseDuration: 0,
+    isResting: false,
+    restTimeRemaining: 0,
+    lastActivity,
+    created_at: lastActivity,
+    updated_at: lastActivity,
+    version: 1,
+  };
+}
+
+describe("WorkoutService.getFreeformDraft", () => {
+  let storage: StorageService;
+
+  beforeEach(() => {
+    storage = installIndexedDbStorage();
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("skips sessions started from a plan, however recent", async () => {
+    await getStorageAdapter().save("active-sessions", session("freeform", 30));
+    await getStorageAdapter().save("active-sessions", session("planned", 5, "plan-session-1"));
+
+    expect((await WorkoutService.getFreeformDraft())?.id).toBe("freeform");
+  });
+
+  it("picks the most recently used unplanned session", async () => {
+    await getStorageAdapter().save("active-sessions", session("older", 60));
+    await getStorageAdapter().save("active-sessions", session("newer", 10));
+    await getStorageAdapter().save("active-sessions", {
+      ...session("finished", 1),
+      sessionStatus: "completed",
+    });
+
+    expect((await WorkoutService.getFreeformDraft())?.id).toBe("newer");
+  });
+
+  it("has no draft when only planned or stale sessions are left", async () => {
+    await getStorageAdapter().save("active-sessions", session("planned", 5, "plan-session-1"));
+    await getStorageAdapter().save(
+      "active-sessions",
+      session("stale", (WorkoutService.SESSION_EXPIRY_HOURS + 1) * 60)
+    );
+
+    expect(await WorkoutService.getFreeformDraft()).toBeNull();
+  });
+});
+
+describe("WorkoutService cardio entries", () => {
+  let storage: StorageService;
+
+  beforeEach(() => {
+    storage = installIndexedDbStorage();
+  });
+
+  afterEach(() => removeIndexedDbStorage(storage));
+
+  it("keeps the catalog exercise apart from the cardio mode", async () => {
+    const now = new Date().toISOString();
+    const treadmill: ExerciseCatalogItem = {
+      id: "exercise-treadmill",
+      name: "Treadmill Run",
+      aliases: [],
+      movement_pattern: "squat",
+      primary_muscles: ["legs"],
+      equipment: ["treadmill"],
+      step_by_step_instructions: [],
+      safety_notes: [],
+      media: [],
+      beginner_friendly_name: "Treadmill Run",
+      difficulty_level: "beginner",
+      exercise_type: "cardio",
+      created_at: now,
+      updated_at: now,
+      version: 1,
+    };
+    const draft = await WorkoutService.startFreeformSession();
+    await WorkoutService.addExercise(draft.id, treadmill);
+    const updated = await WorkoutService.logCardioSegment(draft.id, treadmill.id, {
+      segment_number: 1,
+      label: "Segment 1",
+      duration_seconds: 600,
+    });
+
+    expect(updated.workoutLog.entries).toEqual([
+      expect.objectContaining({
+        type: "cardio",
+        mode: "treadmill_run",
+        exercise_id: "exercise-treadmill",
+        exercise_name: "Treadmill Run",
+        total_duration_seconds: 600,
+      }),
+    ]);
+  });
+});
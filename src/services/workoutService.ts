@@ -1,8 +1,13 @@
 "use client";
 
 
-import { storageService } from './storage';
+import { getStorageAdapter } from './storageBackend';
+import type { StorageAdapter } from './storageAdapter';
+import { workoutRepository, goalsRepository, planRepository, exerciseRepository } from '@/repositories';
+import { MetricsAnalysisService } from './metricsAnalysisService';
 import type { 
+  CompletedSession,
+  SessionPath,
   WorkoutLogEntry, 
   PerformedSet, 
   CardioSegment, 
@@ -13,16 +18,39 @@ import type {
   WorkoutNotification,
   Session,
   StrengthEntry,
-  CardioEntry
+  CardioEntry,
+  ExerciseCatalogItem,
+  ExerciseEntry,
+  ExerciseGroup,
+  GroupStep,
+  LastPerformance
 } from '@/types';
 
 import { WorkoutAnalysis } from '@/utils/workoutAnalysis';
 
+/**
+ * Records written alongside a finished workout
+ */
+export interface SessionCompletionContext {
+  planId?: string;
+  sessionPath?: SessionPath;
+  goalProgress?: Array<{ goalId: string; currentValue: number }>;
+}
+
 /**
  * Service for managing workout logging and session business logic
  */
 export class WorkoutService {
-  private static readonly STORAGE_KEY = 'workout-logs';
+  private static readonly STORAGE_KEY = 'workouts';
+  private static readonly ACTIVE_SESSIONS_STORE = 'active-sessions';
+
+  // A workout idle this long is not coming back; offering to resume it would only get in the way
+  static readonly SESSION_EXPIRY_HOURS = 12;
+
+  // Last performances by exercise id, looked up once per set logger rather than once per render.
+  // Cleared whenever a workout is saved or deleted, including a profile switch.
+  private static lastPerformanceCache = new Map<string, Promise<LastPerformance | null>>();
+  private static lastPerformanceAdapter: StorageAdapter | null = null;
 
   /**
    * Start a new workout session from a session plan
@@ -38,6 +66,7 @@ export class WorkoutService {
       id: sessionId,
       date_time_start: now,
       session_plan_ref: sessionPlan.id,
+      session_title: sessionPlan.title,
       entries: [],
       session_notes: '',
       created_at: now,
@@ -62,11 +91,241 @@ export class WorkoutService {
     };
 
     // Save active session to storage
-    await storageService.save('active-sessions', activeSession);
+    await getStorageAdapter().save(this.ACTIVE_SESSIONS_STORE, activeSession);
+
+    return activeSession;
+  }
+
+  /**
+   * Start an unplanned workout. Exercises are added as the user goes, and the
+   * draft is saved with every change so it survives a reload.
+   */
+  static async startFreeformSession(): Promise<ActiveWorkoutSession> {
+    const sessionId = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    const activeSession: ActiveWorkoutSession = {
+      id: sessionId,
+      workoutLog: {
+        id: sessionId,
+        date_time_start: now,
+        entries: [],
+        session_notes: '',
+        created_at: now,
+        updated_at: now,
+        version: 1
+      },
+      currentExerciseIndex: 0,
+      sessionStatus: 'active',
+      startTime: now,
+      pauseDuration: 0,
+      isResting: false,
+      restTimeRemaining: 0,
+      lastActivity: now,
+      created_at: now,
+      updated_at: now,
+      version: 1
+    };
 
+    await this.updateActiveSession(activeSession);
     return activeSession;
   }
 
+  /**
+   * Workouts that were left running or paused, e.g. because the phone closed
+   * the tab, most recent first. Sessions idle past SESSION_EXPIRY_HOURS are
+   * left out.
+   */
+  static async getUnfinishedSessions(): Promise<ActiveWorkoutSession[]> {
+    const sessions = await getStorageAdapter().getAll<ActiveWorkoutSession>(this.ACTIVE_SESSIONS_STORE);
+    return sessions
+      .filter(session => this.isUnfinished(session) && !this.isStale(session))
+      .sort((a, b) => b.lastActivity.localeCompare(a.lastActivity) || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * The unplanned workout the log page picks up, i.e. the most recently used
+   * unfinished session that didn't start from a plan.
+   */
+  static async getFreeformDraft(): Promise<ActiveWorkoutSession | null> {
+    const sessions = await this.getUnfinishedSessions();
+    return sessions.find(session => !session.workoutLog.session_plan_ref) ?? null;
+  }
+
+  /**
+   * Mark sessions idle past SESSION_EXPIRY_HOURS as abandoned. Their logged
+   * sets stay in the store until storage cleanup removes them.
+   */
+  static async expireStaleSessions(): Promise<number> {
+    const sessions = await getStorageAdapter().getAll<ActiveWorkoutSession>(this.ACTIVE_SESSIONS_STORE);
+    const stale = sessions.filter(session => this.isUnfinished(session) && this.isStale(session));
+    if (stale.length === 0) {
+      return 0;
+    }
+
+    const unitOfWork = getStorageAdapter().beginUnitOfWork();
+    stale.forEach(session => unitOfWork.put(this.ACTIVE_SESSIONS_STORE, {
+      ...session,
+      sessionStatus: 'abandoned',
+      isResting: false,
+      restEndsAt: undefined,
+      updated_at: new Date().toISOString(),
+      version: session.version + 1
+    }, { expectedVersion: session.version }));
+    await unitOfWork.commit();
+    return stale.length;
+  }
+
+  /**
+   * Cardio mode for a catalog exercise, going by its name. The catalog has
+   * no mode of its own, and anything unrecognised is "other".
+   */
+  static cardioModeFor(exerciseName: string): string {
+    const lower = exerciseName.toLowerCase();
+    const onTreadmill = lower.includes('treadmill');
+    if (/run|jog/.test(lower)) return onTreadmill ? 'treadmill_run' : 'run';
+    if (/walk|march/.test(lower)) return onTreadmill ? 'treadmill_walk' : 'walk';
+    if (/bik|cycl/.test(lower)) return 'bike';
+    if (/row/.test(lower)) return 'row';
+    if (/ellipt/.test(lower)) return 'elliptical';
+    if (/swim/.test(lower)) return 'swim';
+    return 'other';
+  }
+
+  /**
+   * Add a catalog exercise to a workout. Cardio exercises are logged as
+   * segments, everything else as sets.
+   */
+  static async addExercise(
+    sessionId: string,
+    exercise: ExerciseCatalogItem
+  ): Promise<ActiveWorkoutSession> {
+    const activeSession = await this.getActiveSession(sessionId);
+    if (!activeSession) {
+      throw new Error('Active session not found');
+    }
+
+    // Sets and segments are logged against the exercise, so each appears once
+    const entries = activeSession.workoutLog.entries;
+    if (entries.some(entry => entry.exercise_id === exercise.id)) {
+      return activeSession;
+    }
+
+    const entry: StrengthEntry | CardioEntry = exercise.exercise_type === 'cardio'
+      ? {
+          type: 'cardio',
+          mode: this.cardioModeFor(exercise.name),
+          exercise_id: exercise.id,
+          exercise_name: exercise.name,
+          total_duration_seconds: 0,
+          segments: []
+        }
+      : {
+          type: 'strength',
+          exercise_id: exercise.id,
+          exercise_name: exercise.name,
+          order_index: entries.length,
+          performed_sets: []
+        };
+
+    const updatedSession: ActiveWorkoutSession = {
+      ...activeSession,
+      currentExerciseIndex: entries.length,
+      workoutLog: {
+        ...activeSession.workoutLog,
+        entries: [...entries, entry],
+        updated_at: new Date().toISOString()
+      },
+      lastActivity: new Date().toISOString()
+    };
+
+    await this.updateActiveSession(updatedSession);
+    return updatedSession;
+  }
+
+  /**
+   * Remove an exercise and everything logged for it from a workout
+   */
+  static async removeEntry(sessionId: string, entryIndex: number): Promise<ActiveWorkoutSession> {
+    const activeSession = await this.getActiveSession(sessionId);
+    if (!activeSession) {
+      throw new Error('Active session not found');
+    }
+
+    const entries = activeSession.workoutLog.entries
+      .filter((_, index) => index !== entryIndex)
+      .map((entry, index) => entry.type === 'strength' ? { ...entry, order_index: index } : entry);
+
+    const updatedSession: ActiveWorkoutSession = {
+      ...activeSession,
+      currentExerciseIndex: Math.min(activeSession.currentExerciseIndex, Math.max(0, entries.length - 1)),
+      workoutLog: {
+        ...activeSession.workoutLog,
+        entries,
+        updated_at: new Date().toISOString()
+      },
+      lastActivity: new Date().toISOString()
+    };
+
+    await this.updateActiveSession(updatedSession);
+    return updatedSession;
+  }
+
+  /**
+   * Finish an unplanned workout into the workout history. Exercises added
+   * but never logged are left out.
+   */
+  static async finishFreeformSession(
+    sessionId: string,
+    details: { title?: string; notes?: string; rating?: number } = {}
+  ): Promise<WorkoutLogEntry> {
+    const activeSession = await this.getActiveSession(sessionId);
+    if (!activeSession) {
+      throw new Error('Active session not found');
+    }
+
+    const entries = activeSession.workoutLog.entries
+      .filter(entry => !this.isEmptyEntry(entry))
+      .map((entry, index) => entry.type === 'strength' ? { ...entry, order_index: index } : entry);
+    if (entries.length === 0) {
+      throw new Error('Log at least one set before finishing the workout');
+    }
+
+    await this.updateActiveSession({
+      ...activeSession,
+      workoutLog: {
+        ...activeSession.workoutLog,
+        session_title: details.title?.trim() || undefined,
+        entries
+      }
+    });
+    return this.completeSession(sessionId, details.notes, details.rating);
+  }
+
+  /**
+   * Exercises logged most often, topped up from the catalog for new users
+   */
+  static async getFrequentExercises(limit: number = 6): Promise<ExerciseCatalogItem[]> {
+    const summary = await workoutRepository.getWorkoutSummary();
+    const frequent = await exerciseRepository.getMultiple(
+      summary.most_frequent_exercises.map(({ exercise_id }) => exercise_id)
+    );
+    const byId = new Map(frequent.map(exercise => [exercise.id, exercise]));
+    const ranked = summary.most_frequent_exercises
+      .map(({ exercise_id }) => byId.get(exercise_id))
+      .filter((exercise): exercise is ExerciseCatalogItem => exercise !== undefined)
+      .slice(0, limit);
+
+    if (ranked.length < limit) {
+      const fill = await exerciseRepository.getMostPopular(limit);
+      fill
+        .filter(exercise => !byId.has(exercise.id))
+        .slice(0, limit - ranked.length)
+        .forEach(exercise => ranked.push(exercise));
+    }
+    return ranked;
+  }
+
   /**
    * Start the actual workout execution
    */
@@ -93,7 +352,9 @@ export class WorkoutService {
   static async logStrengthSet(
     sessionId: string,
     exerciseId: string,
-    set: PerformedSet
+    set: PerformedSet,
+    exerciseName?: string,
+    group?: ExerciseGroup
   ): Promise<ActiveWorkoutSession> {
     const activeSession = await this.getActiveSession(sessionId);
     if (!activeSession) {
@@ -109,9 +370,10 @@ export class WorkoutService {
       exerciseEntry = {
         type: 'strength',
         exercise_id: exerciseId,
-        exercise_name: '', // Will be populated from catalog
+        exercise_name: exerciseName || exerciseId, // Catalog name when the caller knows it
         order_index: activeSession.workoutLog.entries.length,
-        performed_sets: []
+        performed_sets: [],
+        ...(group && { group })
       };
       activeSession.workoutLog.entries.push(exerciseEntry);
     }
@@ -140,7 +402,8 @@ export class WorkoutService {
   static async logCardioSegment(
     sessionId: string,
     exerciseId: string,
-    segment: CardioSegment
+    segment: CardioSegment,
+    group?: ExerciseGroup
   ): Promise<ActiveWorkoutSession> {
     const activeSession = await this.getActiveSession(sessionId);
     if (!activeSession) {
@@ -149,15 +412,19 @@ export class WorkoutService {
 
     // Find or create exercise entry
     let exerciseEntry = activeSession.workoutLog.entries.find(
-      entry => entry.type === 'cardio' && entry.mode === exerciseId
+      entry => entry.type === 'cardio' && entry.exercise_id === exerciseId
     ) as CardioEntry | undefined;
 
     if (!exerciseEntry) {
+      const exercise = await exerciseRepository.getById(exerciseId);
       exerciseEntry = {
         type: 'cardio',
-        mode: exerciseId,
+        mode: this.cardioModeFor(exercise?.name ?? ''),
+        exercise_id: exerciseId,
+        ...(exercise && { exercise_name: exercise.name }),
         total_duration_seconds: 0,
-        segments: []
+        segments: [],
+        ...(group && { group })
       };
       activeSession.workoutLog.entries.push(exerciseEntry);
     }
@@ -228,6 +495,111 @@ export class WorkoutService {
     return updatedSession;
   }
 
+  /**
+   * Jump to an exercise in the plan, e.g. the next one in a superset
+   */
+  static async moveToExercise(sessionId: string, exerciseIndex: number): Promise<ActiveWorkoutSession> {
+    const activeSession = await this.getActiveSession(sessionId);
+    if (!activeSession) {
+      throw new Error('Active session not found');
+    }
+
+    const updatedSession: ActiveWorkoutSession = {
+      ...activeSession,
+      currentExerciseIndex: exerciseIndex,
+      lastActivity: new Date().toISOString()
+    };
+
+    await this.updateActiveSession(updatedSession);
+    return updatedSession;
+  }
+
+  /**
+   * Plan positions of the exercises done back to back with the one at
+   * exerciseIndex, in order. An ungrouped exercise is on its own.
+   */
+  static getGroupIndices(sessionPlan: Session, exerciseIndex: number): number[] {
+    const groupId = sessionPlan.exercises[exerciseIndex]?.group?.group_id;
+    if (!groupId) {
+      return [exerciseIndex];
+    }
+    return sessionPlan.exercises.flatMap((exercise, index) => exercise.group?.group_id === groupId ? [index] : []);
+  }
+
+  /**
+   * What follows a set of a grouped exercise: the next exercise of the round
+   * with no rest, or the group's rest and back to the first exercise once the
+   * round is done. Worked out from the logged sets, so it holds after a reload.
+   * Returns null for an exercise that isn't in a group.
+   */
+  static getNextGroupStep(
+    activeSession: ActiveWorkoutSession,
+    sessionPlan: Session,
+    exerciseIndex: number
+  ): GroupStep | null {
+    const group = sessionPlan.exercises[exerciseIndex]?.group;
+    if (!group) {
+      return null;
+    }
+
+    const indices = this.getGroupIndices(sessionPlan, exerciseIndex);
+    const setsDone = indices.map(index => this.performedSetCount(activeSession, sessionPlan.exercises[index].exercise_id));
+    const roundsDone = Math.min(...setsDone);
+    const roundComplete = roundsDone > 0 && setsDone.every(count => count === roundsDone);
+
+    if (roundsDone >= group.rounds) {
+      return {
+        nextExerciseIndex: Math.max(...indices) + 1,
+        roundComplete,
+        groupComplete: true,
+        restSeconds: group.rest_after_round_seconds
+      };
+    }
+
+    // The first exercise still owed a set this round, so a skipped one is picked up
+    const behind = setsDone.findIndex(count => count === roundsDone);
+    return {
+      nextExerciseIndex: indices[behind],
+      roundComplete,
+      groupComplete: false,
+      restSeconds: roundComplete ? group.rest_after_round_seconds : undefined
+    };
+  }
+
+  /**
+   * What the user did for an exercise the last time they logged it, or null
+   * if they never have. Cached until the workout history changes.
+   */
+  static getLastPerformance(exerciseId: string): Promise<LastPerformance | null> {
+    this.watchWorkoutHistory();
+
+    const cached = this.lastPerformanceCache.get(exerciseId);
+    if (cached) {
+      return cached;
+    }
+
+    const lookup = workoutRepository.getExerciseHistory(exerciseId, 1).then(([latest]) =>
+      latest?.entry.type === 'strength'
+        ? { workout_id: latest.workout.id, date: latest.workout.date_time_start, sets: latest.entry.performed_sets }
+        : null
+    );
+    // A failed lookup is tried again next time instead of being remembered
+    lookup.catch(() => this.lastPerformanceCache.delete(exerciseId));
+    this.lastPerformanceCache.set(exerciseId, lookup);
+    return lookup;
+  }
+
+  /**
+   * The set from last time to compare with set setNumber now. Past the number
+   * of sets done last time, the last of them.
+   */
+  static matchLastSet(performance: LastPerformance | null, setNumber: number): PerformedSet | undefined {
+    if (!performance || performance.sets.length === 0) {
+      return undefined;
+    }
+    return performance.sets.find(set => set.set_number === setNumber) ?? performance.sets[performance.sets.length - 1];
+  }
+
   /**
    * Pause the workout session
    */
@@ -237,10 +609,13 @@ export class WorkoutService {
       throw new Error('Active session not found');
     }
 
+    // A running rest is held at what's left and picks up again on resume
     const updatedSession: ActiveWorkoutSession = {
       ...activeSession,
       sessionStatus: 'paused',
       pauseTime: new Date().toISOString(),
+      restTimeRemaining: this.getRestTimeRemaining(activeSession),
+      restEndsAt: undefined,
       lastActivity: new Date().toISOString()
     };
 
@@ -269,6 +644,52 @@ export class WorkoutService {
       sessionStatus: 'active',
       pauseTime: undefined,
       pauseDuration: activeSession.pauseDuration + Math.floor(pauseDuration / 1000),
+      restEndsAt: activeSession.isResting
+        ? new Date(Date.now() + activeSession.restTimeRemaining * 1000).toISOString()
+        : undefined,
+      lastActivity: new Date().toISOString()
+    };
+
+    await this.updateActiveSession(updatedSession);
+    return updatedSession;
+  }
+
+  /**
+   * Start the rest countdown after a set
+   */
+  static async startRest(sessionId: string, seconds: number): Promise<ActiveWorkoutSession> {
+    const activeSession = await this.getActiveSession(sessionId);
+    if (!activeSession) {
+      throw new Error('Active session not found');
+    }
+
+    const now = Date.now();
+    const updatedSession: ActiveWorkoutSession = {
+      ...activeSession,
+      isResting: true,
+      restTimeRemaining: seconds,
+      restEndsAt: activeSession.sessionStatus === 'paused' ? undefined : new Date(now + seconds * 1000).toISOString(),
+      lastActivity: new Date(now).toISOString()
+    };
+
+    await this.updateActiveSession(updatedSession);
+    return updatedSession;
+  }
+
+  /**
+   * End or skip the rest countdown
+   */
+  static async endRest(sessionId: string): Promise<ActiveWorkoutSession> {
+    const activeSession = await this.getActiveSession(sessionId);
+    if (!activeSession) {
+      throw new Error('Active session not found');
+    }
+
+    const updatedSession: ActiveWorkoutSession = {
+      ...activeSession,
+      isResting: false,
+      restTimeRemaining: 0,
+      restEndsAt: undefined,
       lastActivity: new Date().toISOString()
     };
 
@@ -277,12 +698,39 @@ export class WorkoutService {
   }
 
   /**
-   * Complete the entire workout session
+   * Seconds of rest left, counted from the stored end time so it stays right
+   * across reloads. A paused session holds its remaining rest.
+   */
+  static getRestTimeRemaining(session: ActiveWorkoutSession, now: number = Date.now()): number {
+    if (!session.isResting) {
+      return 0;
+    }
+    if (!session.restEndsAt) {
+      return session.restTimeRemaining;
+    }
+    return Math.max(0, Math.ceil((new Date(session.restEndsAt).getTime() - now) / 1000));
+  }
+
+  /**
+   * Seconds spent working out so far, not counting pauses
+   */
+  static getElapsedSeconds(session: ActiveWorkoutSession, now: number = Date.now()): number {
+    const end = session.sessionStatus === 'paused' && session.pauseTime
+      ? new Date(session.pauseTime).getTime()
+      : now;
+    return Math.max(0, Math.floor((end - new Date(session.startTime).getTime()) / 1000) - session.pauseDuration);
+  }
+
+  /**
+   * Complete the entire workout session.
+   * The workout log, plan completion record, goal progress and removal of
+   * the active session are committed together or not at all.
    */
   static async completeSession(
     sessionId: string,
     sessionNotes?: string,
-    sessionRating?: number
+    sessionRating?: number,
+    context: SessionCompletionContext = {}
   ): Promise<WorkoutLogEntry> {
     const activeSession = await this.getActiveSession(sessionId);
     if (!activeSession) {
@@ -294,23 +742,51 @@ export class WorkoutService {
     // Finalize workout log
     const completedWorkout: WorkoutLogEntry = {
       ...activeSession.workoutLog,
+      date_time_end: activeSession.workoutLog.date_time_end || now,
       session_notes: sessionNotes || activeSession.workoutLog.session_notes,
       overall_rating: sessionRating as 1 | 2 | 3 | 4 | 5 | undefined,
       updated_at: now
     };
 
-    // Save to workout logs
-    await storageService.save(this.STORAGE_KEY, completedWorkout);
+    const unitOfWork = getStorageAdapter().beginUnitOfWork();
+
+    await workoutRepository.save(completedWorkout, unitOfWork);
+
+    // Record plan progress when the workout came from a planned session
+    if (context.planId && context.sessionPath && completedWorkout.session_plan_ref) {
+      const completedSession: CompletedSession = {
+        id: crypto.randomUUID(),
+        session_id: completedWorkout.session_plan_ref,
+        completion_date: now,
+        session_path: context.sessionPath,
+        plan_id: context.planId,
+        actual_duration_minutes: Math.round(
+          WorkoutAnalysis.calculateWorkoutDuration(completedWorkout) / 60
+        ),
+        completion_notes: completedWorkout.session_notes,
+        created_at: now,
+        updated_at: now,
+        version: 1
+      };
+      await planRepository.markSessionCompleted(completedSession, unitOfWork);
+    }
 
-    // Update active session status
-    const updatedSession: ActiveWorkoutSession = {
-      ...activeSession,
-      sessionStatus: 'completed',
-      workoutLog: completedWorkout,
-      lastActivity: now
-    };
+    for (const { goalId, currentValue } of context.goalProgress ?? []) {
+      const goal = await goalsRepository.getById(goalId);
+      if (!goal) {
+        throw new Error(`Goal ${goalId} not found`);
+      }
 
-    await this.updateActiveSession(updatedSession);
+      const progress = MetricsAnalysisService.calculateGoalProgress(goal, currentValue);
+      await goalsRepository.update(goalId, {
+        current_value: currentValue,
+        completion_percentage: Math.max(0, Math.min(100, progress.percentage)),
+        status: progress.percentage >= 100 ? 'completed' : goal.status
+      }, unitOfWork);
+    }
+
+    unitOfWork.delete(this.ACTIVE_SESSIONS_STORE, sessionId);
+    await unitOfWork.commit();
 
     return completedWorkout;
   }
@@ -339,7 +815,7 @@ export class WorkoutService {
    */
   static async getActiveSession(sessionId: string): Promise<ActiveWorkoutSession | null> {
     try {
-      return await storageService.get('active-sessions', sessionId);
+      return await getStorageAdapter().get(this.ACTIVE_SESSIONS_STORE, sessionId);
     } catch {
       return null;
     }
@@ -349,7 +825,7 @@ export class WorkoutService {
    * Update active session
    */
   static async updateActiveSession(session: ActiveWorkoutSession): Promise<void> {
-    await storageService.save('active-sessions', session);
+    await getStorageAdapter().save(this.ACTIVE_SESSIONS_STORE, session);
   }
 
   /**
@@ -361,7 +837,7 @@ export class WorkoutService {
     limit?: number;
   }): Promise<WorkoutLogEntry[]> {
     try {
-      const allLogs = await storageService.getAll<WorkoutLogEntry>(this.STORAGE_KEY);
+      const allLogs = await getStorageAdapter().getAll<WorkoutLogEntry>(this.STORAGE_KEY);
       let filteredLogs = allLogs;
 
       // Apply filters
@@ -400,7 +876,7 @@ export class WorkoutService {
    */
   static async getWorkoutLog(logId: string): Promise<WorkoutLogEntry | null> {
     try {
-      return await storageService.get(this.STORAGE_KEY, logId);
+      return await getStorageAdapter().get(this.STORAGE_KEY, logId);
     } catch (error) {
       return null;
     }
@@ -419,22 +895,18 @@ export class WorkoutService {
     // Count total sets completed and planned
     let setsCompleted = 0;
     let totalSets = 0;
+    const currentGroup = this.getGroupIndices(sessionPlan, activeSession.currentExerciseIndex);
 
     sessionPlan.exercises.forEach((exercise, index) => {
       if (exercise.sets) {
         totalSets += exercise.sets.length;
         
-        if (index < activeSession.currentExerciseIndex) {
+        if (currentGroup.includes(index)) {
+          // Current exercise, or one done back to back with it - count completed sets
+          setsCompleted += this.performedSetCount(activeSession, exercise.exercise_id);
+        } else if (index < activeSession.currentExerciseIndex) {
           // Exercise completed - count all sets
           setsCompleted += exercise.sets.length;
-        } else if (index === activeSession.currentExerciseIndex) {
-          // Current exercise - count completed sets
-          const entry = activeSession.workoutLog.entries.find(
-            e => e.type === 'strength' && e.exercise_id === exercise.exercise_id
-          );
-          if (entry && entry.type === 'strength') {
-            setsCompleted += entry.performed_sets.length;
-          }
         }
       }
     });
@@ -487,8 +959,10 @@ export class WorkoutService {
           exerciseFrequency.set(entry.exercise_id, (exerciseFrequency.get(entry.exercise_id) || 0) + 1);
           totalVolumeLib += WorkoutAnalysis.calculateVolume(entry.performed_sets);
         } else if (entry.type === 'cardio') {
-          exercisesPerformed.add(entry.mode);
-          exerciseFrequency.set(entry.mode, (exerciseFrequency.get(entry.mode) || 0) + 1);
+          // Imported activities have no catalog exercise, so they count by mode
+          const exerciseKey = entry.exercise_id ?? entry.mode;
+          exercisesPerformed.add(exerciseKey);
+          exerciseFrequency.set(exerciseKey, (exerciseFrequency.get(exerciseKey) || 0) + 1);
           
           entry.segments.forEach(segment => {
             if (segment.distance_value) {
@@ -578,12 +1052,54 @@ export class WorkoutService {
     return errors;
   }
 
+  // Subscribes once per storage adapter, so a swapped backend starts with an empty cache
+  private static watchWorkoutHistory(): void {
+    const adapter = getStorageAdapter();
+    if (adapter === this.lastPerformanceAdapter) {
+      return;
+    }
+
+    this.lastPerformanceAdapter = adapter;
+    this.lastPerformanceCache.clear();
+    adapter.subscribe(changes => {
+      if (changes.some(change => change.store === this.STORAGE_KEY)) {
+        this.lastPerformanceCache.clear();
+      }
+    });
+  }
+
+  private static isUnfinished(session: ActiveWorkoutSession): boolean {
+    return session.sessionStatus === 'active' || session.sessionStatus === 'paused';
+  }
+
+  private static isStale(session: ActiveWorkoutSession): boolean {
+    return Date.now() - new Date(session.lastActivity).getTime() > this.SESSION_EXPIRY_HOURS * 60 * 60 * 1000;
+  }
+
+  private static performedSetCount(session: ActiveWorkoutSession, exerciseId: string): number {
+    const entry = session.workoutLog.entries.find(
+      candidate => candidate.type === 'strength' && candidate.exercise_id === exerciseId
+    );
+    return entry?.type === 'strength' ? entry.performed_sets.length : 0;
+  }
+
+  private static isEmptyEntry(entry: ExerciseEntry): boolean {
+    switch (entry.type) {
+      case 'strength':
+        return entry.performed_sets.length === 0;
+      case 'cardio':
+        return entry.segments.length === 0;
+      case 'flexibility':
+        return false;
+    }
+  }
+
   /**
    * Clean up old active sessions (for maintenance)
    */
   static async cleanupOldSessions(olderThanDays: number = 7): Promise<number> {
     try {
-      const allSessions = await storageService.getAll<ActiveWorkoutSession>('active-sessions');
+      const allSessions = await getStorageAdapter().getAll<ActiveWorkoutSession>(this.ACTIVE_SESSIONS_STORE);
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
 
@@ -591,7 +1107,7 @@ export class WorkoutService {
       for (const session of allSessions) {
         const lastActivity = new Date(session.lastActivity);
         if (lastActivity < cutoffDate) {
-          await storageService.delete('active-sessions', session.id);
+          await getStorageAdapter().delete(this.ACTIVE_SESSIONS_STORE, session.id);
           cleanedCount++;
         }
       }
@@ -0,0 +1,33 @@
+/**
+ * The app's storage stack over a fresh in-memory IndexedDB, for tests that
+ * need records to make the same round trip through storage the app's do
+ */
+
+import { StorageService } from "@/services/storage";
+import { setStorageAdapter } from "@/services/storageBackend";
+import { ProfileScopedStorageAdapter } from "@/services/profileScopedStorageAdapter";
+import { SoftDeleteStorageAdapter } from "@/services/softDeleteStorageAdapter";
+
+const DB_NAME = "FitnessTracker";
+
+/**
+ * Install a profile-scoped, trash-filtering adapter over a new IndexedDB
+ * database as the shared adapter. Returns the IndexedDB layer underneath.
+ */
+export function installIndexedDbStorage(): StorageService {
+  const storage = new StorageService();
+  setStorageAdapter(new SoftDeleteStorageAdapter(new ProfileScopedStorageAdapter(storage)));
+  return storage;
+}
+
+/**
+ * Close the database and delete it so the next test starts empty
+ */
+export function removeIndexedDbStorage(storage: StorageService): Promise<void> {
+  storage.close();
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Activity file import types
+ * GPS watch and bike computer recordings (GPX, TCX, FIT) are read into a
+ * common track and summarized as cardio segments.
+ */
+
+import type { CardioEntry, WorkoutLogEntry } from "./log";
+
+export type ActivityFileFormat = "gpx" | "tcx" | "fit";
+
+export interface ActivityTrackPoint {
+  time: string; // ISO date-time
+  latitude?: number;
+  longitude?: number;
+  elevation_meters?: number;
+  distance_meters?: number; // Cumulative from the start, as the device recorded it
+  heart_rate_bpm?: number;
+}
+
+export interface ActivityLap {
+  start_time: string; // ISO date-time
+  duration_seconds?: number; // Moving time when the device reports it
+  distance_meters?: number;
+}
+
+export interface ParsedActivity {
+  format: ActivityFileFormat;
+  name?: string;
+  sport?: string; // As the file names it, e.g. "Running" or "cycling"
+  start_time: string;
+  points: ActivityTrackPoint[];
+  laps: ActivityLap[];
+}
+
+export type ActivitySplit =
+  | { by: "lap" }
+  | { by: "distance"; meters: number }
+  | { by: "time"; seconds: number };
+
+export interface ActivityImportOptions {
+  split?: ActivitySplit; // Defaults to laps, or one segment when the file has none
+  distanceUnit?: "miles" | "kilometers"; // Unit for segment distance, speed and pace
+  mode?: string; // CardioEntry mode; guessed from the file's sport when omitted
+  workoutId?: string; // Add to this workout instead of creating a new one
+  dryRun?: boolean;
+}
+
+export interface ActivityImportResult {
+  format: ActivityFileFormat;
+  workout: WorkoutLogEntry;
+  entry: CardioEntry;
+  created_workout: boolean;
+  dry_run: boolean;
+}
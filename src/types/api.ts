@@ -0,0 +1,43 @@
+/**
+ * Wire types for the server storage API (/api/data)
+ * Key ranges and cursor positions travel as plain JSON
+ */
+
+import type { CursorPosition, KeyRange, StorageData } from "./index";
+
+export interface DataScanRequest {
+  index?: string;
+  range?: KeyRange;
+  direction?: "next" | "prev";
+  limit?: number;
+  after?: CursorPosition;
+}
+
+export interface DataScanResponse<T> {
+  items: T[];
+  positions: CursorPosition[]; // Cursor position of each item
+  last: CursorPosition | null;
+  hasMore: boolean;
+}
+
+export interface DataCountRequest {
+  index?: string;
+  range?: KeyRange;
+}
+
+export type DataWriteOperation =
+  | { type: "put"; storeName: string; data: Record<string, unknown> & { id: string }; expectedVersion?: number }
+  | { type: "delete"; storeName: string; id: string }
+  | { type: "clear"; storeName: string };
+
+export interface DataTransactionRequest {
+  operations: DataWriteOperation[];
+}
+
+// Error details of a 409 response for a stale expectedVersion
+export interface DataVersionConflictDetails {
+  store: string;
+  id: string;
+  expected_version: number;
+  current: StorageData | null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Backup archive types
+ * One archive holds every object store plus the binary media they reference
+ */
+
+import type { AppSettings } from "./settings";
+
+export interface BackupStoreSection {
+  name: string;
+  count: number;
+  offset: number; // Byte offset of the JSON section within the payload
+  length: number;
+}
+
+export interface BackupBinaryEntry {
+  store: string;
+  id: string;
+  field: string; // Record field the blob belongs to, e.g. "blob" or "thumbnailBlob"
+  mime_type: string;
+  offset: number;
+  length: number;
+}
+
+export interface BackupManifest {
+  format: "fitness-tracker-backup";
+  format_version: number;
+  created_at: string;
+  schema_version: number;
+  data_version: number;
+  stores: BackupStoreSection[];
+  binaries: BackupBinaryEntry[];
+  app_settings?: AppSettings; // Device settings kept outside IndexedDB
+  profile_id?: string; // Set when the archive holds one profile's records
+}
+
+export interface BackupArchive {
+  manifest: BackupManifest;
+  encrypted: boolean;
+  stores: Record<string, Record<string, unknown>[]>;
+}
+
+export interface BackupOptions {
+  appSettings?: AppSettings;
+  passphrase?: string; // Encrypt the whole archive when set
+  profileId?: string; // Only this profile's records and the shared catalog; every profile when omitted
+}
+
+export type RestoreMode = "merge" | "replace";
+
+// How merge mode settles a record that exists both locally and in the backup
+export type ConflictStrategy = "newest" | "keep-local" | "use-backup";
+
+export interface RestoreOptions {
+  mode: RestoreMode;
+  conflictStrategy?: ConflictStrategy;
+  dryRun?: boolean; // Validate and report without writing
+  passphrase?: string; // Required for encrypted archives
+}
+
+export interface BackupConflict {
+  store: string;
+  id: string;
+  local_updated_at: string;
+  backup_updated_at: string;
+  resolution: "kept-local" | "used-backup";
+}
+
+export interface InvalidBackupRecord {
+  store: string;
+  id: string;
+  errors: string[];
+}
+
+export interface RestoreStoreSummary {
+  store: string;
+  total: number;
+  restored: number;
+  skipped: number;
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  dry_run: boolean;
+  encrypted: boolean;
+  created_at: string; // When the backup was made
+  stores: RestoreStoreSummary[];
+  conflicts: BackupConflict[];
+  invalid: InvalidBackupRecord[];
+  unknown_stores: string[];
+  media_restored: number;
+  app_settings?: AppSettings;
+  profile_id?: string; // Profile a single-profile archive was restored into
+}
@@ -45,6 +45,8 @@ export interface BaselineTestEntry {
   };
   
   notes?: string;
+  profile_id?: string;
+  deleted_at?: string;
   created_at: string;
   updated_at: string;
   version: number;
@@ -17,6 +17,8 @@ export interface ExerciseCatalogItem {
   beginner_friendly_name: string;
   difficulty_level: "beginner" | "intermediate" | "advanced";
   exercise_type: "strength" | "cardio" | "flexibility" | "balance";
+  profile_id?: string;
+  deleted_at?: string;
   created_at: string;
   updated_at: string;
   version: number;
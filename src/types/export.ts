@@ -0,0 +1,30 @@
+/**
+ * Analysis export types
+ * Flat, one-row-per-record exports for spreadsheets and coaches, as opposed
+ * to the full-fidelity backup archive.
+ */
+
+export type DataExportDataset = "sets" | "cardio_segments" | "body_metrics" | "baselines";
+
+export type DataExportFormat = "csv" | "jsonl";
+
+export type DataExportValue = string | number | boolean | null;
+
+export type DataExportRow = Record<string, DataExportValue>;
+
+export interface DataExportOptions {
+  dataset: DataExportDataset;
+  format: DataExportFormat;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  columns?: string[]; // Subset and order of the dataset's columns; all when omitted
+  weightUnit?: "kg" | "lb"; // Normalize set and body weights; as logged when omitted
+}
+
+export interface DataExportFile {
+  file_name: string;
+  mime_type: string;
+  content: string;
+  rows: number;
+  columns: string[];
+}
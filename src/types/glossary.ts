@@ -16,6 +16,8 @@ export interface GlossaryItem {
   media: MediaItem[];
   related_terms: string[];
   difficulty_level: "beginner" | "intermediate" | "advanced";
+  profile_id?: string;
+  deleted_at?: string;
   created_at: string;
   updated_at: string;
   version: number;
@@ -0,0 +1,100 @@
+/**
+ * Workout history import types
+ * CSV exports from other lifting apps are parsed into set rows, matched
+ * against the exercise catalog and grouped into workout log entries.
+ */
+
+import type { SetType } from "./plan";
+
+export type WorkoutImportSource = "strong" | "hevy" | "fitnotes";
+
+// One logged set as read from an export, before exercises are matched
+export interface ImportedSetRow {
+  row: number; // Row in the file, counting the header as row 1
+  workout_key: string; // Rows sharing a key belong to the same workout
+  workout_title?: string;
+  workout_notes?: string;
+  started_at: string; // ISO date-time
+  duration_seconds?: number;
+  exercise_name: string;
+  exercise_notes?: string;
+  set_type?: SetType; // From the source's set markers, e.g. Strong's "W" for a warm-up
+  repetitions: number;
+  weight_value?: number;
+  weight_unit: "kg" | "lb";
+  rpe?: number;
+  notes?: string;
+}
+
+export interface ImportSkippedRow {
+  row: number;
+  reason: string;
+}
+
+export interface ImportExerciseMatch {
+  name: string; // As written in the export
+  exercise_id: string | null; // null when nothing in the catalog matched
+  exercise_name: string | null;
+  matched_by: "name" | "alias" | null;
+  set_count: number;
+}
+
+export interface WorkoutImportOptions {
+  source?: WorkoutImportSource; // Detected from the header row when omitted
+  defaultWeightUnit?: "kg" | "lb"; // For exports that don't say which unit they use
+  targetWeightUnit?: "kg" | "lb"; // Convert every weight to this unit
+  createExercises?: string[]; // Unmatched names to add as custom exercises
+  dryRun?: boolean; // Parse and match without writing
+}
+
+export interface WorkoutImportReport {
+  source: WorkoutImportSource;
+  dry_run: boolean;
+  workouts: number; // New workouts imported (or to import on a dry run)
+  sets: number;
+  first_date: string | null;
+  last_date: string | null;
+  duplicates: number; // Workouts already in the log, left alone
+  exercises: ImportExerciseMatch[];
+  created_exercises: string[];
+  unmatched_sets: number; // Left out because their exercise is not in the catalog
+  skipped_rows: ImportSkippedRow[];
+}
+
+// Body metrics from phone health apps
+
+export type HealthImportSource = "apple_health" | "google_fit";
+
+export type HealthMetric = "body_weight" | "body_fat_percent" | "resting_heart_rate";
+
+// One measurement as read from an export, in the export's own date
+export interface HealthSample {
+  metric: HealthMetric;
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM
+  value: number; // kg, percent (0-100) or bpm
+  device?: string;
+}
+
+export interface HealthImportSkipped {
+  date: string;
+  metric: HealthMetric;
+  reason: string;
+}
+
+export interface HealthImportOptions {
+  weightUnit?: "kg" | "lb"; // Unit to store body weight in; defaults to kg
+  dryRun?: boolean; // Parse and de-duplicate without writing
+}
+
+export interface HealthImportReport {
+  sources: HealthImportSource[];
+  dry_run: boolean;
+  metric_entries: number; // New body metric entries imported (or to import on a dry run)
+  baselines_created: number; // Months given a new baseline entry for resting heart rate
+  baselines_updated: number; // Existing baseline entries given a resting heart rate
+  first_date: string | null;
+  last_date: string | null;
+  skipped: HealthImportSkipped[];
+  ignored_records: number; // Records of types this import doesn't read, e.g. steps
+}
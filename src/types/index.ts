@@ -6,6 +6,17 @@ export * from "./plan";
 export * from "./log";
 export * from "./baseline";
 export * from "./glossary";
+export * from "./backup";
+export * from "./sync";
+export * from "./api";
+export * from "./import";
+export * from "./export";
+export * from "./activity";
+export * from "./integrity";
+export * from "./profile";
+export * from "./trash";
+export * from "./revision";
+export * from "./quota";
 
 // Navigation Types
 export interface NavItem {
@@ -19,11 +30,29 @@ export interface NavItem {
 export interface StorageData {
   id: string;
   timestamp?: number;
+  profile_id?: string; // Local profile that owns the record, or "shared" for the starter catalog
+  deleted_at?: string; // Set while the record is in the trash
   created_at: string;
   updated_at: string;
   version: number;
 }
 
+// Keys as IndexedDB orders them: numbers, then strings, then arrays
+export type StorageKey = string | number | StorageKey[];
+
+// Portable equivalent of IDBKeyRange, usable outside the browser and as JSON
+export interface KeyRange {
+  lower?: StorageKey;
+  upper?: StorageKey;
+  lowerOpen?: boolean;
+  upperOpen?: boolean;
+}
+
+export interface CursorPosition {
+  key: StorageKey;
+  primaryKey: StorageKey;
+}
+
 // Error Types
 export interface AppError {
   code: string;
@@ -53,6 +82,14 @@ export interface ErrorBoundaryProps {
   fallback?: React.ComponentType<{ error: Error; resetError: () => void }>;
 }
 
+// Both sides of a write rejected because the stored record changed first
+export interface VersionConflict<T> {
+  local: T; // The rejected edit
+  remote: T | null; // What is stored now; null if it was deleted
+}
+
+export type ConflictResolution = "keep-mine" | "use-theirs";
+
 // Data operation types
 export type QueryFilter<T> = {
   [K in keyof T]?: T[K] | T[K][] | { min?: T[K]; max?: T[K] };
@@ -68,6 +105,17 @@ export interface PaginationOptions {
   limit: number;
 }
 
+// Cursor pagination: pass the previous page's nextCursor to continue
+export interface CursorPaginationOptions {
+  limit: number;
+  cursor?: string | null;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
 // Utility types for data operations
 export type CreateData<T> = Omit<T, "id" | "created_at" | "updated_at" | "version">;
 export type UpdateData<T> = Partial<Omit<T, "id" | "created_at" | "version">> & { id: string };
@@ -0,0 +1,51 @@
+/**
+ * Referential integrity types
+ * A scan follows every cross-store reference (exercise ids, plan sessions,
+ * media, glossary terms) and reports the ones that don't resolve.
+ */
+
+import type { SessionPath } from "./plan";
+
+export type IntegrityCategory =
+  | "exercise" // Workout entries and plan prescriptions naming a missing exercise
+  | "plan_session" // Workouts whose session_plan_ref matches no plan session
+  | "completed_session" // Completed sessions whose plan or session_path is gone
+  | "media" // Exercise and glossary media whose source is not in the media store
+  | "progress_photo" // Body measurements listing a missing progress photo
+  | "glossary_term"; // related_terms naming a term the glossary doesn't have
+
+export type IntegrityRepair =
+  | "relink" // Point the reference at the record it was meant to name
+  | "remove" // Drop the dangling reference (or the record holding it)
+  | "create_stub"; // Create a placeholder record under the missing reference
+
+export interface IntegrityIssue {
+  id: string; // Stable within a scan: store, record and path
+  category: IntegrityCategory;
+  store: string;
+  record_id: string;
+  record_label: string; // e.g. the workout date or exercise name, for display
+  path: Array<string | number>; // Where the reference sits, e.g. ["entries", 2, "exercise_id"]
+  reference: string; // The value that doesn't resolve
+  repairs: IntegrityRepair[]; // Repairs that apply, best first
+  relink?: { value: string | SessionPath; label: string }; // What relink would write
+}
+
+export interface IntegrityReport {
+  scanned_at: string;
+  records_scanned: Record<string, number>; // Per store
+  issues: IntegrityIssue[];
+}
+
+export interface IntegrityRepairChoice {
+  issue: IntegrityIssue;
+  repair: IntegrityRepair;
+}
+
+export interface IntegrityRepairResult {
+  repaired: number;
+  records_updated: number;
+  records_deleted: number;
+  stubs_created: number;
+  skipped: Array<{ issue_id: string; reason: string }>;
+}
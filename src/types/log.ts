@@ -3,6 +3,8 @@
  * Following masterplan for comprehensive workout recording
  */
 
+import type { ExerciseGroup, SetType } from "./plan";
+
 export interface WorkoutLogEntry {
   id: string;
   date_time_start: string; // ISO string with time
@@ -15,6 +17,8 @@ export interface WorkoutLogEntry {
   energy_level_start?: 1 | 2 | 3 | 4 | 5;
   energy_level_end?: 1 | 2 | 3 | 4 | 5;
   environment?: "gym" | "home" | "outdoor" | "other";
+  profile_id?: string;
+  deleted_at?: string;
   created_at: string;
   updated_at: string;
   version: number;
@@ -30,11 +34,13 @@ export interface StrengthEntry {
   performed_sets: PerformedSet[];
   notes?: string;
   form_rating?: 1 | 2 | 3 | 4 | 5; // How was form/technique
+  group?: ExerciseGroup; // Copied from the plan, so the log shows what was done back to back
 }
 
 export interface PerformedSet {
   set_number: number;
-  repetitions_done: number;
+  set_type?: SetType; // Missing means a working set
+  repetitions_done: number; // The first effort; drops and mini-sets after it are in sub_sets
   weight_value?: number;
   weight_unit?: "lb" | "kg";
   rest_seconds_observed?: number;
@@ -49,17 +55,29 @@ export interface PerformedSet {
   pain_shoulder_0_to_10?: number;
   pain_other_location?: string;
   pain_other_0_to_10?: number;
+  sub_sets?: PerformedSubSet[];
+}
+
+// A drop or mini-set that continues a drop set, rest-pause or cluster set
+export interface PerformedSubSet {
+  repetitions_done: number;
+  weight_value?: number; // Missing means the set's weight
+  weight_unit?: "lb" | "kg";
+  rest_seconds_before?: number;
 }
 
 export interface CardioEntry {
   type: "cardio";
   mode: string; // "treadmill_walk", "treadmill_run", "bike", "soccer_match"
+  exercise_id?: string; // Catalog exercise, when logged against one; imported activities have none
+  exercise_name?: string; // Cached like StrengthEntry's
   total_duration_seconds: number;
   segments: CardioSegment[];
   average_heart_rate_bpm?: number;
   max_heart_rate_bpm?: number;
   calories_estimated?: number;
   notes?: string;
+  group?: ExerciseGroup;
 }
 
 export interface CardioSegment {
@@ -69,10 +87,13 @@ export interface CardioSegment {
   distance_value?: number;
   distance_unit?: "miles" | "kilometers" | "meters";
   speed_mph_or_kph?: number;
+  pace_seconds_per_unit?: number; // Seconds per mile or kilometer, following distance_unit
   incline_percent?: number;
   resistance_level?: number; // For bikes, ellipticals
   average_heart_rate_bpm?: number;
   max_heart_rate_bpm?: number;
+  elevation_gain_meters?: number;
+  elevation_loss_meters?: number;
   perceived_effort?: "very easy" | "easy" | "moderately hard" | "hard" | "very hard";
   notes?: string;
 }
@@ -110,12 +131,29 @@ export interface ActiveWorkoutSession {
   pauseDuration: number; // Total paused time in seconds
   isResting: boolean;
   restTimeRemaining: number;
+  restEndsAt?: string; // ISO timestamp the running rest ends, so a reload can pick the countdown back up
   lastActivity: string; // ISO timestamp
+  profile_id?: string;
   created_at: string;
   updated_at: string;
   version: number;
 }
 
+// Where a workout goes after a set of an exercise done back to back with others
+export interface GroupStep {
+  nextExerciseIndex: number; // Plan position of the exercise to do next
+  roundComplete: boolean; // Every exercise in the group has done this round; time to rest
+  groupComplete: boolean; // All rounds are done; the next exercise is past the group
+  restSeconds?: number; // The group's rest after the round, when one is prescribed
+}
+
+// The sets of an exercise from the most recent logged workout that included it
+export interface LastPerformance {
+  workout_id: string;
+  date: string; // When that workout started
+  sets: PerformedSet[];
+}
+
 export interface WorkoutFilters {
   exerciseId?: string;
   dateRange?: { start: Date; end: Date };
@@ -17,6 +17,8 @@ export interface BodyMetricEntry {
   notes?: string;
   measurement_device?: string; // Scale model/brand
   measurement_time?: string; // Time of day (HH:MM format)
+  profile_id?: string;
+  deleted_at?: string;
   created_at: string;
   updated_at: string;
   version: number;
@@ -43,6 +45,8 @@ export interface BodyMeasurement {
   measurement_technique?: string;
   notes?: string;
   progress_photo_ids?: string[]; // References to stored photos
+  profile_id?: string;
+  deleted_at?: string;
   created_at: string;
   updated_at: string;
   version: number;
@@ -76,6 +80,8 @@ export interface FitnessGoal {
   why_important?: string;
   reward_for_completion?: string;
   
+  profile_id?: string;
+  deleted_at?: string;
   created_at: string;
   updated_at: string;
   version: number;
@@ -113,6 +119,8 @@ export interface ProgressPhoto {
   photo_type: "front" | "side" | "back" | "custom";
   notes?: string;
   measurements_id?: string; // Link to body measurements
+  profile_id?: string;
+  deleted_at?: string;
   created_at: string;
   updated_at: string;
   version: number;
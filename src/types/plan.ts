@@ -13,6 +13,8 @@ export interface ProgramPlan {
   tags: string[];
   author?: string;
   is_template: boolean;
+  profile_id?: string;
+  deleted_at?: string;
   created_at: string;
   updated_at: string;
   version: number;
@@ -57,11 +59,31 @@ export interface ExercisePrescription {
   cardio_block?: CardioBlock;
   rest_notes?: string;
   form_cues?: string[];
+  group?: ExerciseGroup; // Set on every exercise done back to back with others
 }
 
+export type ExerciseGroupType = "superset" | "circuit" | "giant_set";
+
+// Exercises done back to back: one set of each, in plan order, makes a round.
+// Each exercise in the group prescribes one set per round.
+export interface ExerciseGroup {
+  group_id: string;
+  group_type: ExerciseGroupType;
+  rounds: number;
+  rest_after_round_seconds?: number; // No rest between the exercises within a round
+}
+
+export type ExerciseGroupSettings = Omit<ExerciseGroup, "group_id">;
+
+// Warm-ups are left out of working volume and personal records
+export type SetType = "working" | "warm_up" | "drop_set" | "amrap" | "rest_pause" | "cluster" | "failure";
+
+export type RepetitionTarget = number | { min: number; max: number } | "AMRAP"; // AMRAP: as many as possible
+
 export interface SetPrescription {
   set_number: number;
-  target_repetitions: number | { min: number; max: number };
+  set_type?: SetType; // Missing means a working set
+  target_repetitions: RepetitionTarget;
   target_weight_value?: number;
   target_weight_unit?: "lb" | "kg";
   target_weight_percentage?: number; // % of 1RM
@@ -69,6 +91,13 @@ export interface SetPrescription {
   tempo_text?: string; // e.g., "3-1-2-0"
   rpe_target?: number; // Rate of Perceived Exertion 1-10
   notes_for_user?: string;
+  sub_sets?: SubSetPrescription[]; // The drops of a drop set, or the mini-sets after a rest-pause or cluster pause
+}
+
+export interface SubSetPrescription {
+  target_repetitions: number | "AMRAP";
+  weight_drop_percentage?: number; // Drop sets: how much lighter than the effort before
+  rest_seconds?: number; // Rest-pause and cluster sets: the pause before this mini-set
 }
 
 export interface CardioBlock {
@@ -127,6 +156,8 @@ export interface CompletedSession {
   plan_id: string;
   actual_duration_minutes?: number;
   completion_notes?: string;
+  profile_id?: string;
+  deleted_at?: string;
   created_at: string;
   updated_at: string;
   version: number;
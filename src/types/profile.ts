@@ -0,0 +1,39 @@
+/**
+ * User profile types
+ * The personal details that standards, BMI and calorie estimates depend on
+ */
+
+export type ActivityLevel =
+  | "sedentary"
+  | "lightly_active"
+  | "moderately_active"
+  | "very_active"
+  | "extra_active";
+
+export interface UserProfile {
+  id: string;
+  display_name?: string;
+  birth_date?: string; // ISO date string YYYY-MM-DD
+  sex_for_standards?: "male" | "female"; // Which strength, cardio and body fat tables to use
+  height_cm?: number; // Always stored in centimeters; shown in the user's unit system
+  activity_level?: ActivityLevel;
+  training_experience?: "beginner" | "intermediate" | "advanced";
+  created_at: string;
+  updated_at: string;
+  version: number;
+}
+
+// Profile fields resolved for calculations; missing ones stay undefined
+export interface ProfileInputs {
+  age?: number;
+  gender?: "male" | "female";
+  height_cm?: number;
+  activity_level?: ActivityLevel;
+}
+
+// What deleting a profile removed along with it
+export interface ProfileDeletionReport {
+  profile_id: string;
+  records_deleted: Record<string, number>; // By store
+  media_deleted: number;
+}
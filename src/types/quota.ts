@@ -0,0 +1,37 @@
+/**
+ * Storage quota types
+ * How full the device's storage is and what can be cleaned up to make room
+ */
+
+export type StorageHealth = "ok" | "warning" | "critical";
+
+export interface StorageStatus {
+  usage: number; // Bytes used by the app
+  quota: number; // Bytes the browser allows the app
+  percent_used: number; // 0-100
+  persisted: boolean | null; // Whether the browser will keep the data under storage pressure; null if unsupported
+  health: StorageHealth;
+  warning_percent: number;
+  critical_percent: number;
+}
+
+export type CleanupActionId =
+  | "recompress_photos"
+  | "drop_thumbnails"
+  | "purge_abandoned_sessions"
+  | "cleanup_orphaned_media";
+
+export interface CleanupAction {
+  id: CleanupActionId;
+  label: string;
+  description: string;
+  item_count: number;
+  estimated_bytes: number; // Space the action is expected to free
+  unavailable_reason?: string; // Set when the action can't run right now, e.g. encrypted data is locked
+}
+
+export interface CleanupResult {
+  id: CleanupActionId;
+  items_affected: number;
+  freed_bytes: number;
+}
@@ -0,0 +1,40 @@
+/**
+ * Revision history types
+ * Every save of a plan or workout log keeps a snapshot of the saved record,
+ * so a bad edit can be compared against and rolled back.
+ */
+
+import type { ProgramPlan } from "./plan";
+import type { WorkoutLogEntry } from "./log";
+
+export type RevisionStore = "plans" | "workouts";
+
+export interface EntityRevision {
+  id: string; // One slot per store, record and version; the oldest slots are reused
+  store: RevisionStore;
+  entity_id: string;
+  entity_version: number; // The record's version as saved
+  snapshot: ProgramPlan | WorkoutLogEntry;
+  profile_id?: string;
+  created_at: string; // When this version was saved
+  updated_at: string;
+  version: number;
+}
+
+export type RevisionChangeKind = "added" | "removed" | "changed" | "reordered";
+
+export interface RevisionChange {
+  kind: RevisionChangeKind;
+  path: string[]; // Readable location, e.g. ["Base", "Week 2", "Upper A", "Bench Press", "Sets"]
+  description: string; // e.g. "Added Bench Press to Upper A"
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface RevisionHistoryEntry {
+  revision_id: string;
+  entity_version: number;
+  saved_at: string;
+  summary: string; // What changed since the previous revision
+  change_count: number;
+}
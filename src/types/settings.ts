@@ -3,6 +3,8 @@
  * Following masterplan specifications for user preferences
  */
 
+import type { StorageData } from "./index";
+
 export interface AppSettings {
   id: string;
   unit_system: "imperial" | "metric";
@@ -10,6 +12,8 @@ export interface AppSettings {
   language: "en";
   data_version: number;
   privacy_acknowledged: boolean;
+  storage_warning_percent?: number; // Storage use that triggers a warning
+  storage_critical_percent?: number; // Storage use at which writes are likely to start failing
   created_at: string;
   updated_at: string;
   version: number;
@@ -23,3 +27,6 @@ export interface UserPreferences {
   weight_increment_lb: number;
   weight_increment_kg: number;
 }
+
+// The active profile's preferences as kept in the preferences store
+export interface UserPreferencesRecord extends UserPreferences, StorageData {}
@@ -0,0 +1,77 @@
+/**
+ * Device sync types
+ * Records sync as maps of fields; each field carries the clock of its last write
+ * so concurrent edits on different devices merge field by field.
+ */
+
+import type { StorageData } from "./index";
+
+// Last-writer-wins clock: compared by updated_at, then version, then device_id
+export interface FieldClock {
+  updated_at: string;
+  version: number;
+  device_id: string;
+}
+
+export interface SyncField {
+  value: unknown; // null means the field was removed
+  clock: FieldClock;
+}
+
+// State of one record: its fields, plus a tombstone if it was deleted
+export interface SyncChange {
+  store: string;
+  record_id: string;
+  fields: Record<string, SyncField>;
+  deleted: FieldClock | null;
+}
+
+// Server copy of a record, stamped with the server sequence of its last merge
+export interface SyncServerRecord extends SyncChange {
+  seq: number;
+}
+
+export interface SyncPushRequest {
+  device_id: string;
+  changes: SyncChange[];
+}
+
+export interface SyncPushResult {
+  accepted: number;
+  cursor: number;
+}
+
+export interface SyncPullResult {
+  changes: SyncServerRecord[];
+  cursor: number; // Pass as `since` on the next pull
+  has_more: boolean;
+}
+
+// Per-record bookkeeping on the device: field clocks and the last synced values
+export interface SyncRecordState extends StorageData {
+  store: string;
+  record_id: string;
+  fields: Record<string, FieldClock>;
+  snapshot: Record<string, string>; // JSON of each field as last captured or pulled
+  deleted: FieldClock | null;
+}
+
+export interface SyncDeviceState extends StorageData {
+  device_id: string;
+  server_url: string;
+  cursor: number;
+  last_synced_at: string | null;
+}
+
+export interface SyncReport {
+  captured: number;
+  pushed: number;
+  pulled: number;
+  applied: number;
+  deleted: number;
+  cursor: number;
+  synced_at: string;
+}
+
+// Local changes waiting to be pushed, coalesced per record
+export type SyncOutboxEntry = SyncChange & StorageData;
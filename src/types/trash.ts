@@ -0,0 +1,32 @@
+/**
+ * Trash types
+ * Soft-deleted records waiting to be restored or purged
+ */
+
+// Stores whose deletions go to the trash
+export type TrashStore =
+  | "workouts"
+  | "plans"
+  | "exercises"
+  | "glossary"
+  | "metrics"
+  | "baselines"
+  | "goals"
+  | "body-measurements"
+  | "progress-photos";
+
+export interface TrashItem {
+  store: TrashStore;
+  id: string;
+  title: string;
+  detail?: string; // Date or other context that tells similar items apart
+  deleted_at: string; // ISO string
+  purge_at: string; // ISO string; purged automatically after this
+}
+
+// A destructive action that can still be taken back from a toast
+export interface UndoOffer {
+  id: string;
+  message: string;
+  undo: () => Promise<unknown>;
+}
@@ -0,0 +1,104 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing
+ * Handles quoted fields with embedded delimiters, quotes and line breaks,
+ * which workout exports use freely in their notes columns.
+ */
+
+export class CsvParser {
+  /**
+   * Guess the delimiter from the header line; some exports use semicolons
+   */
+  static detectDelimiter(text: string): string {
+    const header = text.split(/\r?\n/, 1)[0] ?? "";
+    const candidates = [",", ";", "\t"];
+    return candidates.reduce((best, candidate) =>
+      header.split(candidate).length > header.split(best).length ? candidate : best
+    );
+  }
+
+  /**
+   * Split CSV text into rows of fields. Blank lines are dropped.
+   */
+  static parse(text: string, delimiter = this.detectDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    // Excel likes to prepend a byte order mark
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field === "") {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && input[i + 1] === "\n") {
+          i++;
+        }
+        row.push(field);
+        field = "";
+        if (row.some((value) => value !== "")) {
+          rows.push(row);
+        }
+        row = [];
+      } else {
+        field += char;
+      }
+    }
+
+    row.push(field);
+    if (row.some((value) => value !== "")) {
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Parse CSV into records keyed by the header row's column names
+   * (trimmed and lowercased). Rows are numbered from 1 at the header.
+   */
+  static parseRecords(text: string): Array<{ row: number; values: Record<string, string> }> {
+    const [header, ...rows] = this.parse(text);
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map((column) => column.trim().toLowerCase());
+    return rows.map((row, i) => ({
+      row: i + 2,
+      values: Object.fromEntries(columns.map((column, j) => [column, (row[j] ?? "").trim()])),
+    }));
+  }
+
+  /**
+   * Join rows into CSV text, quoting fields only where needed.
+   * Lines end with CRLF as RFC 4180 and spreadsheet apps expect.
+   */
+  static stringify(rows: Array<Array<string | number | boolean | null | undefined>>, delimiter = ","): string {
+    return rows
+      .map((row) => row.map((value) => this.quote(value, delimiter)).join(delimiter))
+      .join("\r\n");
+  }
+
+  private static quote(value: string | number | boolean | null | undefined, delimiter: string): string {
+    const text = value === null || value === undefined ? "" : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Minimal decoder for Garmin FIT activity files
+ * Reads definition and data messages (including compressed timestamp
+ * headers) into raw field values keyed by field number. Scaling and units
+ * are left to the caller, which knows the messages it cares about.
+ */
+
+export interface FitMessage {
+  global: number; // Global message number, e.g. 20 for record
+  fields: Record<number, number | string>;
+}
+
+interface FitFieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitDefinition {
+  global: number;
+  littleEndian: boolean;
+  fields: FitFieldDefinition[];
+  developerBytes: number;
+  length: number; // Bytes the definition message itself takes up
+}
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET = 631065600;
+
+const TIMESTAMP_FIELD = 253;
+
+// Byte size of each base type, indexed by base type number
+const BASE_TYPE_SIZES = [1, 1, 1, 2, 2, 4, 4, 1, 4, 8, 1, 2, 4, 1, 8, 8, 8];
+
+export class FitDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FitDecodeError";
+  }
+}
+
+export class FitDecoder {
+  /**
+   * Check the ".FIT" signature in the file header
+   */
+  static isFit(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < 12) {
+      return false;
+    }
+    const signature = new Uint8Array(buffer, 8, 4);
+    return String.fromCharCode(...signature) === ".FIT";
+  }
+
+  /**
+   * Decode every data message in the file. Developer fields are skipped.
+   */
+  static decode(buffer: ArrayBuffer): FitMessage[] {
+    if (!this.isFit(buffer)) {
+      throw new FitDecodeError("Not a FIT file");
+    }
+
+    const view = new DataView(buffer);
+    const headerSize = view.getUint8(0);
+    const end = Math.min(headerSize + view.getUint32(4, true), buffer.byteLength);
+    const definitions = new Map<number, FitDefinition>();
+    const messages: FitMessage[] = [];
+    let lastTimestamp = 0;
+    let offset = headerSize;
+
+    try {
+      while (offset < end) {
+        const header = view.getUint8(offset++);
+
+        // Compressed timestamp header: 2-bit local type, 5-bit time offset
+        if (header & 0x80) {
+          const definition = this.definitionFor(definitions, (header >> 5) & 0x03);
+          const timeOffset = header & 0x1f;
+          lastTimestamp += (timeOffset - (lastTimestamp & 0x1f) + 0x20) & 0x1f;
+          const message = this.readMessage(view, offset, definition);
+          offset += this.messageSize(definition);
+          message.fields[TIMESTAMP_FIELD] ??= lastTimestamp;
+          messages.push(message);
+          continue;
+        }
+
+        const localType = header & 0x0f;
+        if (header & 0x40) {
+          const definition = this.readDefinition(view, offset, (header & 0x20) !== 0);
+          offset += definition.length;
+          definitions.set(localType, definition);
+          continue;
+        }
+
+        const definition = this.definitionFor(definitions, localType);
+        const message = this.readMessage(view, offset, definition);
+        offset += this.messageSize(definition);
+        const timestamp = message.fields[TIMESTAMP_FIELD];
+        if (typeof timestamp === "number") {
+          lastTimestamp = timestamp;
+        }
+        messages.push(message);
+      }
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new FitDecodeError("FIT file is truncated");
+      }
+      throw error;
+    }
+
+    return messages;
+  }
+
+  /**
+   * Convert a FIT timestamp to an ISO date-time
+   */
+  static toISOString(timestamp: number): string {
+    return new Date((timestamp + FIT_EPOCH_OFFSET) * 1000).toISOString();
+  }
+
+  /**
+   * Convert semicircles, FIT's unit for latitude and longitude, to degrees
+   */
+  static toDegrees(semicircles: number): number {
+    return semicircles * (180 / 2 ** 31);
+  }
+
+  private static definitionFor(definitions: Map<number, FitDefinition>, localType: number): FitDefinition {
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new FitDecodeError(`Data message for undefined local type ${localType}`);
+    }
+    return definition;
+  }
+
+  private static readDefinition(view: DataView, offset: number, hasDeveloperFields: boolean): FitDefinition {
+    const littleEndian = view.getUint8(offset + 1) === 0;
+    const global = view.getUint16(offset + 2, littleEndian);
+    const fieldCount = view.getUint8(offset + 4);
+
+    const fields: FitFieldDefinition[] = [];
+    for (let i = 0; i < fieldCount; i++) {
+      const position = offset + 5 + i * 3;
+      fields.push({
+        number: view.getUint8(position),
+        size: view.getUint8(position + 1),
+        baseType: view.getUint8(position + 2) & 0x1f,
+      });
+    }
+
+    let length = 5 + fieldCount * 3;
+    let developerBytes = 0;
+    if (hasDeveloperFields) {
+      const developerCount = view.getUint8(offset + length);
+      for (let i = 0; i < developerCount; i++) {
+        developerBytes += view.getUint8(offset + length + 1 + i * 3 + 1);
+      }
+      length += 1 + developerCount * 3;
+    }
+
+    return { global, littleEndian, fields, developerBytes, length };
+  }
+
+  private static messageSize(definition: FitDefinition): number {
+    return definition.fields.reduce((total, field) => total + field.size, 0) + definition.developerBytes;
+  }
+
+  private static readMessage(view: DataView, offset: number, definition: FitDefinition): FitMessage {
+    const fields: Record<number, number | string> = {};
+    let position = offset;
+
+    for (const field of definition.fields) {
+      const value = this.readValue(view, position, field, definition.littleEndian);
+      if (value !== null) {
+        fields[field.number] = value;
+      }
+      position += field.size;
+    }
+
+    return { global: definition.global, fields };
+  }
+
+  // Arrays are reduced to their first element; none of the fields read here are arrays
+  private static readValue(
+    view: DataView,
+    offset: number,
+    field: FitFieldDefinition,
+    littleEndian: boolean
+  ): number | string | null {
+    if (field.size < (BASE_TYPE_SIZES[field.baseType] ?? Infinity)) {
+      return null;
+    }
+
+    switch (field.baseType) {
+      case 0: // enum
+      case 2: // uint8
+      case 10: // uint8z
+      case 13: { // byte
+        const value = view.getUint8(offset);
+        return value === 0xff || (field.baseType === 10 && value === 0) ? null : value;
+      }
+      case 1: {
+        const value = view.getInt8(offset);
+        return value === 0x7f ? null : value;
+      }
+      case 3: {
+        const value = view.getInt16(offset, littleEndian);
+        return value === 0x7fff ? null : value;
+      }
+      case 4:
+      case 11: {
+        const value = view.getUint16(offset, littleEndian);
+        return value === 0xffff || (field.baseType === 11 && value === 0) ? null : value;
+      }
+      case 5: {
+        const value = view.getInt32(offset, littleEndian);
+        return value === 0x7fffffff ? null : value;
+      }
+      case 6:
+      case 12: {
+        const value = view.getUint32(offset, littleEndian);
+        return value === 0xffffffff || (field.baseType === 12 && value === 0) ? null : value;
+      }
+      case 7: {
+        const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+        const [text] = new TextDecoder().decode(bytes).split("\0");
+        return text || null;
+      }
+      case 8: {
+        const value = view.getFloat32(offset, littleEndian);
+        return Number.isFinite(value) ? value : null;
+      }
+      case 9: {
+        const value = view.getFloat64(offset, littleEndian);
+        return Number.isFinite(value) ? value : null;
+      }
+      default:
+        // 64-bit integers aren't needed for activities
+        return null;
+    }
+  }
+}
@@ -8,10 +8,22 @@ import type {
   ExerciseCatalogItem,
   PerformedSet,
   CardioSegment,
+  RepetitionTarget,
+  SetType,
 } from "@/types";
 import { UnitConverter } from "./units";
 
 export class FriendlyFormatter {
+  static readonly SET_TYPE_LABELS: Record<SetType, string> = {
+    working: "Working",
+    warm_up: "Warm-up",
+    drop_set: "Drop set",
+    amrap: "AMRAP",
+    rest_pause: "Rest-pause",
+    cluster: "Cluster",
+    failure: "To failure",
+  };
+
   // Format exercise prescription for display
   static exerciseDescription(
     prescription: ExercisePrescription,
@@ -45,8 +57,10 @@ export class FriendlyFormatter {
   }
 
   // Format rep ranges
-  private static formatRepRange(reps: number | { min: number; max: number }): string {
-    if (typeof reps === "number") {
+  private static formatRepRange(reps: RepetitionTarget): string {
+    if (reps === "AMRAP") {
+      return "as many reps as possible";
+    } else if (typeof reps === "number") {
       return `${reps} reps`;
     } else {
       return `${reps.min}-${reps.max} reps`;
@@ -147,9 +161,17 @@ export class FriendlyFormatter {
     return ratingMap[Math.round(rating)] || "Not rated";
   }
 
+  // Format set type, e.g. "Drop set"; a set without one is a working set
+  static setTypeLabel(setType?: SetType): string {
+    return this.SET_TYPE_LABELS[setType ?? "working"];
+  }
+
   // Format set performance summary
   static formatSetSummary(performedSet: PerformedSet, unitSystem: "imperial" | "metric"): string {
     let summary = `${performedSet.repetitions_done} reps`;
+    if (performedSet.sub_sets?.length) {
+      summary += ` + ${performedSet.sub_sets.map((subSet) => subSet.repetitions_done).join(" + ")}`;
+    }
     
     if (performedSet.weight_value && performedSet.weight_unit) {
       const weight = this.formatWeightDisplay(
@@ -164,6 +186,10 @@ export class FriendlyFormatter {
       const effort = performedSet.perceived_effort_text;
       summary += ` • ${effort}`;
     }
+
+    if (performedSet.set_type && performedSet.set_type !== "working") {
+      summary = `${this.setTypeLabel(performedSet.set_type)}: ${summary}`;
+    }
     
     return summary;
   }
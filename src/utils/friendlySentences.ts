@@ -3,7 +3,13 @@
  * Following cursor rules for clear, beginner-friendly descriptions
  */
 
-import type { ExercisePrescription, SetPrescription, ExerciseCatalogItem } from "@/types";
+import type {
+  ExercisePrescription,
+  SetPrescription,
+  ExerciseCatalogItem,
+  ExerciseGroup,
+  ExerciseGroupType
+} from "@/types";
 
 interface UnitConverter {
   convertWeight(value: number, fromUnit: string, toUnit: string): number;
@@ -29,6 +35,14 @@ const UnitConverter: UnitConverter = {
 };
 
 export class FriendlySentenceGenerator {
+  static readonly GROUP_NAMES: Record<ExerciseGroupType, string> = {
+    superset: "Superset",
+    circuit: "Circuit",
+    giant_set: "Giant set"
+  };
+
+  private static readonly COUNT_WORDS = ["", "one", "two", "three", "four", "five", "six"];
+
   /**
    * Generate a complete exercise description from prescription
    */
@@ -53,6 +67,29 @@ export class FriendlySentenceGenerator {
     return exercise.beginner_friendly_name || exercise.name;
   }
 
+  /**
+   * Describe exercises done back to back, e.g. "Superset: Push-Up and Dumbbell Row.
+   * Do these two back to back, 3 rounds. Rest 90 seconds after each round."
+   * The exercises are given in the order they are done.
+   */
+  static generateGroupDescription(
+    group: ExerciseGroup,
+    exercises: ExerciseCatalogItem[]
+  ): string {
+    const names = exercises.map(exercise => exercise.beginner_friendly_name || exercise.name);
+    const count = this.COUNT_WORDS[names.length] ?? String(names.length);
+    const rounds = group.rounds === 1 ? "1 round" : `${group.rounds} rounds`;
+
+    let description = `${this.GROUP_NAMES[group.group_type]}: ${this.formatList(names)}.`;
+    description += ` Do these ${count} back to back, ${rounds}.`;
+
+    if (group.rest_after_round_seconds) {
+      description += ` Rest ${this.formatDuration(group.rest_after_round_seconds)} after each round.`;
+    }
+
+    return description;
+  }
+
   /**
    * Generate strength exercise description
    */
@@ -61,7 +98,10 @@ export class FriendlySentenceGenerator {
     exercise: ExerciseCatalogItem,
     unitSystem: 'imperial' | 'metric'
   ): string {
-    const sets = prescription.sets!;
+    // Warm-ups are described on their own, so "3 series" means the work that counts
+    const warmUpCount = prescription.sets!.filter(set => set.set_type === 'warm_up').length;
+    const workingSets = prescription.sets!.filter(set => set.set_type !== 'warm_up');
+    const sets = workingSets.length > 0 ? workingSets : prescription.sets!;
     const setCount = sets.length;
     const firstSet = sets[0];
     
@@ -103,6 +143,16 @@ export class FriendlySentenceGenerator {
     if (rpeText) {
       description += ` ${rpeText}`;
     }
+
+    const setTypeText = this.formatSetType(firstSet);
+    if (setTypeText) {
+      description += ` ${setTypeText}`;
+    }
+
+    if (warmUpCount > 0 && workingSets.length > 0) {
+      const seriesText = warmUpCount === 1 ? '1 lighter warm-up series' : `${warmUpCount} lighter warm-up series`;
+      description += ` Start with ${seriesText} first.`;
+    }
     
     return description;
   }
@@ -148,7 +198,9 @@ export class FriendlySentenceGenerator {
    * Format repetitions text
    */
   private static formatRepetitions(set: SetPrescription): string {
-    if (typeof set.target_repetitions === 'number') {
+    if (set.target_repetitions === 'AMRAP') {
+      return "as many repetitions as you can with good form";
+    } else if (typeof set.target_repetitions === 'number') {
       const reps = set.target_repetitions;
       if (reps === 1) {
         return "1 repetition";
@@ -215,6 +267,32 @@ export class FriendlySentenceGenerator {
     }
   }
 
+  /**
+   * Format what a drop set, rest-pause or cluster set asks for
+   */
+  private static formatSetType(set: SetPrescription): string {
+    const extraEfforts = set.sub_sets?.length ?? 0;
+
+    switch (set.set_type) {
+      case 'drop_set': {
+        const drop = set.sub_sets?.[0]?.weight_drop_percentage;
+        const dropText = drop ? `lower the weight by about ${drop}%` : 'lower the weight';
+        const times = extraEfforts > 1 ? ` ${extraEfforts} times` : '';
+        return `At the end of each series, ${dropText} and keep going${times}.`;
+      }
+      case 'rest_pause':
+      case 'cluster': {
+        const pause = set.sub_sets?.[0]?.rest_seconds ?? (set.set_type === 'cluster' ? 15 : 20);
+        const mini = extraEfforts === 1 ? '1 more mini-set' : `${extraEfforts || 2} more mini-sets`;
+        return `After each series, rest ${this.formatDuration(pause)} and do ${mini}.`;
+      }
+      case 'failure':
+        return "Keep going until you can't do another repetition with good form.";
+      default:
+        return '';
+    }
+  }
+
   /**
    * Format rest time text
    */
@@ -223,18 +301,34 @@ export class FriendlySentenceGenerator {
       return '';
     }
     
-    const minutes = Math.floor(set.rest_seconds / 60);
-    const seconds = set.rest_seconds % 60;
-    
+    return `Rest ${this.formatDuration(set.rest_seconds)} between series.`;
+  }
+
+  /**
+   * Format a rest length, e.g. "1 minute and 30 seconds"
+   */
+  private static formatDuration(totalSeconds: number): string {
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    const minuteText = minutes === 1 ? 'minute' : 'minutes';
+
     if (minutes === 0) {
-      return `Rest ${seconds} seconds between series.`;
+      return `${seconds} seconds`;
     } else if (seconds === 0) {
-      const minuteText = minutes === 1 ? 'minute' : 'minutes';
-      return `Rest ${minutes} ${minuteText} between series.`;
+      return `${minutes} ${minuteText}`;
     } else {
-      const minuteText = minutes === 1 ? 'minute' : 'minutes';
-      return `Rest ${minutes} ${minuteText} and ${seconds} seconds between series.`;
+      return `${minutes} ${minuteText} and ${seconds} seconds`;
+    }
+  }
+
+  /**
+   * Format a list of names, e.g. "Squat, Push-Up and Plank"
+   */
+  private static formatList(names: string[]): string {
+    if (names.length <= 1) {
+      return names.join('');
     }
+    return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
   }
 
   /**
@@ -0,0 +1,86 @@
+/**
+ * Key ordering and key ranges with IndexedDB semantics
+ * Lets adapters that don't run on IndexedDB (memory, OPFS, the storage server)
+ * walk indexes in exactly the order the browser would.
+ */
+
+import type { CursorPosition, KeyRange, StorageKey } from "@/types";
+
+export class KeyRanges {
+  static only(value: StorageKey): KeyRange {
+    return { lower: value, upper: value };
+  }
+
+  static bound(lower: StorageKey, upper: StorageKey, lowerOpen = false, upperOpen = false): KeyRange {
+    return { lower, upper, lowerOpen, upperOpen };
+  }
+
+  static lowerBound(lower: StorageKey, open = false): KeyRange {
+    return { lower, lowerOpen: open };
+  }
+
+  static upperBound(upper: StorageKey, open = false): KeyRange {
+    return { upper, upperOpen: open };
+  }
+
+  /**
+   * The same range on a compound index whose keys start with prefix, e.g. one
+   * profile's slice of [profile_id, date]. Keys that continue past the ranged
+   * component, like [profile_id, date, deleted_at], sort with their bound.
+   */
+  static withPrefix(prefix: StorageKey[], range: KeyRange = {}): KeyRange {
+    // An empty array sorts after every number and string, so it closes off all continuations
+    const past = (key: StorageKey[]): StorageKey[] => [...key, []];
+    const { lower, upper } = range;
+
+    return {
+      lower: lower === undefined ? prefix : range.lowerOpen ? past([...prefix, lower]) : [...prefix, lower],
+      upper: upper === undefined ? past(prefix) : range.upperOpen ? [...prefix, upper] : past([...prefix, upper]),
+      lowerOpen: false,
+      upperOpen: Boolean(upper !== undefined && range.upperOpen),
+    };
+  }
+
+  /**
+   * Order keys the way IndexedDB does: numbers, then strings, then arrays
+   */
+  static compare(a: StorageKey, b: StorageKey): number {
+    const rank = (key: StorageKey) => (typeof key === "number" ? 1 : typeof key === "string" ? 2 : 3);
+    if (rank(a) !== rank(b)) {
+      return rank(a) - rank(b);
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const order = this.compare(a[i], b[i]);
+        if (order !== 0) return order;
+      }
+      return a.length - b.length;
+    }
+
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  static comparePositions(a: CursorPosition, b: CursorPosition): number {
+    return this.compare(a.key, b.key) || this.compare(a.primaryKey, b.primaryKey);
+  }
+
+  static isValidKey(value: unknown): value is StorageKey {
+    if (typeof value === "number") return !Number.isNaN(value);
+    if (typeof value === "string") return true;
+    return Array.isArray(value) && value.every((item) => this.isValidKey(item));
+  }
+
+  static includes(range: KeyRange | undefined, key: StorageKey): boolean {
+    if (!range) return true;
+    if (range.lower !== undefined) {
+      const order = this.compare(key, range.lower);
+      if (order < 0 || (order === 0 && range.lowerOpen)) return false;
+    }
+    if (range.upper !== undefined) {
+      const order = this.compare(key, range.upper);
+      if (order > 0 || (order === 0 && range.upperOpen)) return false;
+    }
+    return true;
+  }
+}
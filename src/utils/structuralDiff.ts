@@ -0,0 +1,185 @@
+/**
+ * Structural diff between two versions of a record
+ * Walks both versions side by side and reports what was added, removed,
+ * changed or reordered, with paths made of readable labels rather than keys
+ * and indexes, e.g. ["Base phase", "Week 2", "Upper A", "Bench Press", "Reps"].
+ */
+
+import type { RevisionChange, RevisionChangeKind } from "@/types";
+
+type PlainObject = Record<string, unknown>;
+
+export interface StructuralDiffOptions {
+  // Keys skipped at any depth, e.g. bookkeeping fields that change on every save
+  ignore?: string[];
+  // Identity of an array element, so edits aren't mistaken for removals and moves are noticed
+  keyOf?: (item: PlainObject) => string | undefined;
+  // Name of an array element for paths; defaults to e.g. "Set 3"
+  labelOf?: (item: PlainObject) => string | undefined;
+}
+
+export class StructuralDiff {
+  /**
+   * Every difference between two versions, in document order
+   */
+  static compare(before: unknown, after: unknown, options: StructuralDiffOptions = {}): RevisionChange[] {
+    const changes: RevisionChange[] = [];
+    this.walk(before, after, [], changes, options);
+    return changes;
+  }
+
+  /**
+   * One-line account of a list of changes, e.g. "Added Bench Press to Upper A and 2 more changes"
+   */
+  static summarize(changes: RevisionChange[], shown: number = 2): string {
+    if (changes.length === 0) {
+      return "No changes";
+    }
+
+    const described = changes.slice(0, shown).map((change) => change.description).join("; ");
+    const remaining = changes.length - shown;
+    return remaining > 0 ? `${described} and ${remaining} more change${remaining === 1 ? "" : "s"}` : described;
+  }
+
+  private static walk(
+    before: unknown,
+    after: unknown,
+    path: string[],
+    changes: RevisionChange[],
+    options: StructuralDiffOptions
+  ): void {
+    if (this.isEqual(before, after)) {
+      return;
+    }
+
+    if (this.isPlainObject(before) && this.isPlainObject(after)) {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      for (const key of keys) {
+        if (options.ignore?.includes(key)) {
+          continue;
+        }
+
+        const childPath = [...path, this.fieldLabel(key)];
+        if (before[key] === undefined && after[key] !== undefined) {
+          changes.push(this.change("added", childPath, undefined, after[key]));
+        } else if (before[key] !== undefined && after[key] === undefined) {
+          changes.push(this.change("removed", childPath, before[key], undefined));
+        } else {
+          this.walk(before[key], after[key], childPath, changes, options);
+        }
+      }
+      return;
+    }
+
+    if (this.isObjectArray(before) && this.isObjectArray(after)) {
+      this.walkArray(before, after, path, changes, options);
+      return;
+    }
+
+    changes.push(this.change("changed", path, before, after));
+  }
+
+  // Elements are matched by identity and named in the path in place of the array field
+  private static walkArray(
+    before: PlainObject[],
+    after: PlainObject[],
+    path: string[],
+    changes: RevisionChange[],
+    options: StructuralDiffOptions
+  ): void {
+    const parent = path.slice(0, -1);
+    const field = path[path.length - 1] ?? "Items";
+    // The same key twice (e.g. one exercise prescribed twice) is told apart by occurrence
+    const keyed = (items: PlainObject[]) => {
+      const seen = new Map<string, number>();
+      return new Map(
+        items.map((item, index) => {
+          const key = options.keyOf?.(item) ?? `#${index}`;
+          const occurrence = seen.get(key) ?? 0;
+          seen.set(key, occurrence + 1);
+          return [occurrence > 0 ? `${key}#${occurrence}` : key, { item, index }];
+        })
+      );
+    };
+    const label = (item: PlainObject, index: number) =>
+      options.labelOf?.(item) ?? `${this.singular(field)} ${index + 1}`;
+
+    const beforeItems = keyed(before);
+    const afterItems = keyed(after);
+
+    for (const [key, { item, index }] of afterItems) {
+      const previous = beforeItems.get(key);
+      const itemPath = [...parent, label(item, index)];
+      if (previous) {
+        this.walk(previous.item, item, itemPath, changes, options);
+      } else {
+        changes.push(this.change("added", itemPath, undefined, item));
+      }
+    }
+
+    for (const [key, { item, index }] of beforeItems) {
+      if (!afterItems.has(key)) {
+        changes.push(this.change("removed", [...parent, label(item, index)], item, undefined));
+      }
+    }
+
+    const kept = (items: Map<string, unknown>, other: Map<string, unknown>) =>
+      Array.from(items.keys()).filter((key) => other.has(key));
+    const beforeOrder = kept(beforeItems, afterItems);
+    const afterOrder = kept(afterItems, beforeItems);
+    if (beforeOrder.some((key, index) => key !== afterOrder[index])) {
+      changes.push(this.change("reordered", path, undefined, undefined));
+    }
+  }
+
+  private static change(kind: RevisionChangeKind, path: string[], before: unknown, after: unknown): RevisionChange {
+    return { kind, path, description: this.describe(kind, path), before, after };
+  }
+
+  private static describe(kind: RevisionChangeKind, path: string[]): string {
+    const subject = path[path.length - 1] ?? "Record";
+    const context = path.slice(-3, -1).join(" › ");
+
+    switch (kind) {
+      case "added":
+        return context ? `Added ${subject} to ${context}` : `Added ${subject}`;
+      case "removed":
+        return context ? `Removed ${subject} from ${context}` : `Removed ${subject}`;
+      case "reordered":
+        return context ? `Reordered ${subject.toLowerCase()} in ${context}` : `Reordered ${subject.toLowerCase()}`;
+      case "changed":
+        return context ? `Changed ${subject.toLowerCase()} in ${context}` : `Changed ${subject.toLowerCase()}`;
+    }
+  }
+
+  private static fieldLabel(key: string): string {
+    const words = key.replace(/_/g, " ");
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private static singular(label: string): string {
+    return label.replace(/ies$/, "y").replace(/s$/, "");
+  }
+
+  private static isPlainObject(value: unknown): value is PlainObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  private static isObjectArray(value: unknown): value is PlainObject[] {
+    return Array.isArray(value) && value.every((item) => this.isPlainObject(item));
+  }
+
+  private static isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+      return true;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, index) => this.isEqual(item, b[index]));
+    }
+    if (this.isPlainObject(a) && this.isPlainObject(b)) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      return Array.from(keys).every((key) => this.isEqual(a[key], b[key]));
+    }
+    return false;
+  }
+}
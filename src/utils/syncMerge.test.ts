@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { SyncMerge } from "./syncMerge";
+import type { FieldClock, SyncChange } from "@/types";
+
+function clock(updatedAt: string, version: number = 1, deviceId: string = "phone"): FieldClock {
+  return { updated_at: `2026-06-01T${updatedAt}:00.000Z`, version, device_id: deviceId };
+}
+
+function change(fields: SyncChange["fields"], deleted: FieldClock | null = null): SyncChange {
+  return { store: "workouts", record_id: "workout-1", fields, deleted };
+}
+
+describe("SyncMerge", () => {
+  it("orders clocks by time, then version, then device", () => {
+    expect(SyncMerge.compareClocks(clock("10:00"), clock("09:00"))).toBeGreaterThan(0);
+    expect(SyncMerge.compareClocks(clock("10:00", 2), clock("10:00", 3))).toBeLessThan(0);
+    expect(SyncMerge.compareClocks(clock("10:00", 1, "tablet"), clock("10:00", 1, "phone"))).toBeGreaterThan(0);
+    expect(SyncMerge.compareClocks(clock("10:00"), clock("10:00"))).toBe(0);
+  });
+
+  it("keeps the newest write of each field from either side", () => {
+    const merged = SyncMerge.mergeChanges(
+      change({
+        session_title: { value: "Legs", clock: clock("10:00") },
+        session_notes: { value: "Knee ok", clock: clock("12:00") },
+      }),
+      change({
+        session_title: { value: "Heavy legs", clock: clock("11:00", 1, "tablet") },
+        session_notes: { value: "Knee sore", clock: clock("09:00", 1, "tablet") },
+      })
+    );
+
+    expect(merged.fields.session_title.value).toBe("Heavy legs");
+    expect(merged.fields.session_notes.value).toBe("Knee ok");
+  });
+
+  it("gives the same result whichever side merges first", () => {
+    const a = change({ session_title: { value: "Legs", clock: clock("10:00", 1, "phone") } });
+    const b = change({ session_title: { value: "Legs day", clock: clock("10:00", 1, "tablet") } });
+
+    expect(SyncMerge.mergeChanges(a, b)).toEqual(SyncMerge.mergeChanges(b, a));
+  });
+
+  it("treats a record as deleted until a field is written after the tombstone", () => {
+    const deleted = change({ session_title: { value: "Legs", clock: clock("10:00") } }, clock("11:00"));
+    expect(SyncMerge.isDeleted(deleted)).toBe(true);
+
+    const edited = SyncMerge.mergeChanges(
+      deleted,
+      change({ session_title: { value: "Legs again", clock: clock("12:00", 1, "tablet") } })
+    );
+    expect(SyncMerge.isDeleted(edited)).toBe(false);
+  });
+});
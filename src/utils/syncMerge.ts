@@ -0,0 +1,68 @@
+/**
+ * Deterministic merge rules shared by the sync client and the reference server
+ * Every field resolves independently: the write with the greater clock wins,
+ * so any two replicas that have seen the same changes converge.
+ */
+
+import type { FieldClock, SyncChange, SyncField } from "@/types";
+
+export class SyncMerge {
+  /**
+   * Order clocks by updated_at, then version, then device_id as a final tie-break
+   */
+  static compareClocks(a: FieldClock, b: FieldClock): number {
+    if (a.updated_at !== b.updated_at) {
+      return a.updated_at < b.updated_at ? -1 : 1;
+    }
+    if (a.version !== b.version) {
+      return a.version - b.version;
+    }
+    if (a.device_id !== b.device_id) {
+      return a.device_id < b.device_id ? -1 : 1;
+    }
+    return 0;
+  }
+
+  static latestClock(clocks: Array<FieldClock | null | undefined>): FieldClock | null {
+    return clocks.reduce<FieldClock | null>((latest, clock) => {
+      if (!clock) return latest;
+      return !latest || this.compareClocks(clock, latest) > 0 ? clock : latest;
+    }, null);
+  }
+
+  /**
+   * Merge two states of the same record, keeping the newest write of every field
+   */
+  static mergeChanges(base: SyncChange | null, incoming: SyncChange): SyncChange {
+    if (!base) {
+      return { ...incoming, fields: { ...incoming.fields } };
+    }
+
+    const fields: Record<string, SyncField> = { ...base.fields };
+    Object.entries(incoming.fields).forEach(([name, field]) => {
+      const current = fields[name];
+      if (!current || this.compareClocks(field.clock, current.clock) > 0) {
+        fields[name] = field;
+      }
+    });
+
+    return {
+      store: base.store,
+      record_id: base.record_id,
+      fields,
+      deleted: this.latestClock([base.deleted, incoming.deleted]),
+    };
+  }
+
+  /**
+   * A record is deleted when its tombstone is newer than every field write;
+   * editing a field after the delete brings the record back.
+   */
+  static isDeleted(change: SyncChange): boolean {
+    if (!change.deleted) {
+      return false;
+    }
+    const lastWrite = this.latestClock(Object.values(change.fields).map((field) => field.clock));
+    return !lastWrite || this.compareClocks(change.deleted, lastWrite) > 0;
+  }
+}
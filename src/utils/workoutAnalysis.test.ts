@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { WorkoutAnalysis } from "./workoutAnalysis";
+import type { PerformedSet, WorkoutLogEntry } from "@/types";
+
+function set(fields: Partial<PerformedSet>): PerformedSet {
+  return {
+    set_number: 1,
+    repetitions_done: 10,
+    weight_value: 100,
+    weight_unit: "lb",
+    perceived_effort_text: "moderately hard",
+    ...fields,
+  };
+}
+
+describe("WorkoutAnalysis working volume", () => {
+  it("leaves warm-ups out", () => {
+    const sets = [set({ set_type: "warm_up", weight_value: 45 }), set({}), set({ set_type: "working" })];
+
+    expect(WorkoutAnalysis.workingSets(sets)).toHaveLength(2);
+    expect(WorkoutAnalysis.calculateVolume(sets)).toBe(2000);
+  });
+
+  it("counts each drop at its own weight and mini-sets at the set's weight", () => {
+    const dropSet = set({
+      set_type: "drop_set",
+      sub_sets: [
+        { repetitions_done: 8, weight_value: 80 },
+        { repetitions_done: 6, weight_value: 60 },
+      ],
+    });
+    const restPause = set({ set_type: "rest_pause", sub_sets: [{ repetitions_done: 3, rest_seconds_before: 15 }] });
+
+    expect(WorkoutAnalysis.totalRepetitions(dropSet)).toBe(24);
+    expect(WorkoutAnalysis.calculateVolume([dropSet])).toBe(1000 + 640 + 360);
+    expect(WorkoutAnalysis.calculateVolume([restPause])).toBe(1300);
+  });
+
+  it("converts drops logged in another unit", () => {
+    const dropSet = set({
+      set_type: "drop_set",
+      weight_value: 50,
+      weight_unit: "kg",
+      repetitions_done: 1,
+      sub_sets: [{ repetitions_done: 1, weight_value: 100, weight_unit: "lb" }],
+    });
+
+    expect(WorkoutAnalysis.calculateVolume([dropSet], "kg")).toBeCloseTo(50 + 45.3592);
+  });
+
+  it("keeps warm-ups out of personal records", () => {
+    const workout: WorkoutLogEntry = {
+      id: "workout-1",
+      date_time_start: "2026-04-06T18:00:00.000Z",
+      entries: [
+        {
+          type: "strength",
+          exercise_id: "deadlift",
+          exercise_name: "Deadlift",
+          order_index: 0,
+          performed_sets: [
+            set({ set_type: "warm_up", weight_value: 315, repetitions_done: 20 }),
+            set({ weight_value: 275, repetitions_done: 5 }),
+          ],
+        },
+      ],
+      created_at: "2026-04-06T18:00:00.000Z",
+      updated_at: "2026-04-06T18:00:00.000Z",
+      version: 1,
+    };
+
+    expect(WorkoutAnalysis.getPersonalRecords([workout], "deadlift")).toMatchObject({
+      maxWeight: 275,
+      maxReps: 5,
+      maxVolume: 1375,
+    });
+  });
+});
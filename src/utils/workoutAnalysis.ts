@@ -13,22 +13,55 @@ import type {
 
 export class WorkoutAnalysis {
   /**
-   * Calculate total volume for strength sets (weight × reps)
+   * Whether a set counts toward working volume and records; warm-ups don't
+   */
+  static isWorkingSet(set: PerformedSet): boolean {
+    return set.set_type !== 'warm_up';
+  }
+
+  /**
+   * The sets that count toward working volume and records
+   */
+  static workingSets(sets: PerformedSet[]): PerformedSet[] {
+    return sets.filter(set => this.isWorkingSet(set));
+  }
+
+  /**
+   * Repetitions in a set, including its drops and mini-sets
+   */
+  static totalRepetitions(set: PerformedSet): number {
+    return set.repetitions_done + (set.sub_sets ?? []).reduce((sum, subSet) => sum + subSet.repetitions_done, 0);
+  }
+
+  /**
+   * Calculate total working volume for strength sets (weight × reps).
+   * Warm-ups are left out; drops and mini-sets count at their own weight.
    */
   static calculateVolume(sets: PerformedSet[], targetUnit: 'lb' | 'kg' = 'lb'): number {
-    return sets.reduce((total, set) => {
-      let weight = set.weight_value || 0;
-      
-      // Convert weight to target unit
-      if (set.weight_unit && set.weight_unit !== targetUnit) {
-        if (targetUnit === 'lb' && set.weight_unit === 'kg') {
-          weight *= 2.20462;
-        } else if (targetUnit === 'kg' && set.weight_unit === 'lb') {
-          weight *= 0.453592;
+    return this.workingSets(sets).reduce((total, set) => {
+      const efforts = [
+        { weight: set.weight_value, unit: set.weight_unit, reps: set.repetitions_done },
+        ...(set.sub_sets ?? []).map(subSet => ({
+          weight: subSet.weight_value ?? set.weight_value,
+          unit: subSet.weight_unit ?? set.weight_unit,
+          reps: subSet.repetitions_done
+        }))
+      ];
+
+      return total + efforts.reduce((sum, effort) => {
+        let weight = effort.weight || 0;
+
+        // Convert weight to target unit
+        if (effort.unit && effort.unit !== targetUnit) {
+          if (targetUnit === 'lb' && effort.unit === 'kg') {
+            weight *= 2.20462;
+          } else if (targetUnit === 'kg' && effort.unit === 'lb') {
+            weight *= 0.453592;
+          }
         }
-      }
-      
-      return total + (weight * set.repetitions_done);
+
+        return sum + (weight * effort.reps);
+      }, 0);
     }, 0);
   }
 
@@ -174,7 +207,7 @@ export class WorkoutAnalysis {
       if (exerciseEntry && exerciseEntry.type === 'strength') {
         const strengthEntry = exerciseEntry as StrengthEntry;
         
-        strengthEntry.performed_sets.forEach(set => {
+        this.workingSets(strengthEntry.performed_sets).forEach(set => {
           // Weight PR
           const weight = set.weight_value || 0;
           if (weight > maxWeight) {
@@ -225,7 +258,10 @@ export class WorkoutAnalysis {
         }
 
         const strengthEntry = exerciseEntry as StrengthEntry;
-        const sets = strengthEntry.performed_sets;
+        const sets = this.workingSets(strengthEntry.performed_sets);
+        if (sets.length === 0) {
+          return null;
+        }
         
         const maxWeight = Math.max(...sets.map(set => set.weight_value || 0));
         const maxReps = Math.max(...sets.map(set => set.repetitions_done));
@@ -291,8 +327,8 @@ export class WorkoutAnalysis {
         const volume = this.calculateVolume(strengthEntry.performed_sets);
         totalVolume += volume;
         
-        strengthEntry.performed_sets.forEach(set => {
-          totalReps += set.repetitions_done;
+        this.workingSets(strengthEntry.performed_sets).forEach(set => {
+          totalReps += this.totalRepetitions(set);
           maxWeight = Math.max(maxWeight, set.weight_value || 0);
           
           const rpe = set.rpe_score || this.perceivedEffortToNumber(set.perceived_effort_text);
@@ -13,6 +13,10 @@ import {
   validateWorkoutLog,
   validateBaselineTest,
   validateGlossaryItem,
+  validateUserProfile,
+  validateUserPreferences,
+  validateSyncPushRequest,
+  validateDataTransactionRequest,
 } from "./schemas";
 import type {
   AppSettings,
@@ -24,6 +28,10 @@ import type {
   WorkoutLogEntry,
   BaselineTestEntry,
   GlossaryItem,
+  UserProfile,
+  UserPreferencesRecord,
+  SyncPushRequest,
+  DataTransactionRequest,
 } from "@/types";
 
 export class ValidationService {
@@ -33,7 +41,7 @@ export class ValidationService {
       return data;
     }
     
-    throw this.createValidationError(
+    throw ValidationService.createValidationError(
       "INVALID_APP_SETTINGS",
       "Invalid app settings format",
       validateAppSettings.errors || []
@@ -46,7 +54,7 @@ export class ValidationService {
       return data;
     }
     
-    throw this.createValidationError(
+    throw ValidationService.createValidationError(
       "INVALID_BODY_METRIC",
       "Invalid body metric entry format",
       validateBodyMetricEntry.errors || []
@@ -59,7 +67,7 @@ export class ValidationService {
       return data;
     }
     
-    throw this.createValidationError(
+    throw ValidationService.createValidationError(
       "INVALID_BODY_MEASUREMENT",
       "Invalid body measurement format",
       validateBodyMeasurement.errors || []
@@ -72,7 +80,7 @@ export class ValidationService {
       return data;
     }
     
-    throw this.createValidationError(
+    throw ValidationService.createValidationError(
       "INVALID_GOAL",
       "Invalid fitness goal format",
       validateGoal.errors || []
@@ -85,7 +93,7 @@ export class ValidationService {
       return data;
     }
     
-    throw this.createValidationError(
+    throw ValidationService.createValidationError(
       "INVALID_PROGRESS_PHOTO",
       "Invalid progress photo format",
       validateProgressPhoto.errors || []
@@ -98,7 +106,7 @@ export class ValidationService {
       return data;
     }
     
-    throw this.createValidationError(
+    throw ValidationService.createValidationError(
       "INVALID_EXERCISE",
       "Invalid exercise format",
       validateExercise.errors || []
@@ -111,7 +119,7 @@ export class ValidationService {
       return data;
     }
     
-    throw this.createValidationError(
+    throw ValidationService.createValidationError(
       "INVALID_WORKOUT_LOG",
       "Invalid workout log format",
       validateWorkoutLog.errors || []
@@ -124,7 +132,7 @@ export class ValidationService {
       return data;
     }
     
-    throw this.createValidationError(
+    throw ValidationService.createValidationError(
       "INVALID_BASELINE_TEST",
       "Invalid baseline test format",
       validateBaselineTest.errors || []
@@ -137,13 +145,65 @@ export class ValidationService {
       return data;
     }
     
-    throw this.createValidationError(
+    throw ValidationService.createValidationError(
       "INVALID_GLOSSARY_ITEM",
       "Invalid glossary item format",
       validateGlossaryItem.errors || []
     );
   }
 
+  // Validate user profile
+  static validateUserProfile(data: unknown): UserProfile {
+    if (validateUserProfile(data)) {
+      return data;
+    }
+    
+    throw ValidationService.createValidationError(
+      "INVALID_USER_PROFILE",
+      "Invalid user profile format",
+      validateUserProfile.errors || []
+    );
+  }
+
+  // Validate user preferences
+  static validateUserPreferences(data: unknown): UserPreferencesRecord {
+    if (validateUserPreferences(data)) {
+      return data;
+    }
+    
+    throw ValidationService.createValidationError(
+      "INVALID_USER_PREFERENCES",
+      "Invalid user preferences format",
+      validateUserPreferences.errors || []
+    );
+  }
+
+  // Validate sync push payload
+  static validateSyncPushRequest(data: unknown): SyncPushRequest {
+    if (validateSyncPushRequest(data)) {
+      return data;
+    }
+
+    throw ValidationService.createValidationError(
+      "INVALID_SYNC_PUSH",
+      "Invalid sync push request",
+      validateSyncPushRequest.errors || []
+    );
+  }
+
+  // Validate server storage transaction payload
+  static validateDataTransactionRequest(data: unknown): DataTransactionRequest {
+    if (validateDataTransactionRequest(data)) {
+      return data;
+    }
+
+    throw ValidationService.createValidationError(
+      "INVALID_DATA_TRANSACTION",
+      "Invalid storage transaction",
+      validateDataTransactionRequest.errors || []
+    );
+  }
+
   // Create user-friendly validation error
   private static createValidationError(
     code: string,
@@ -353,4 +413,5 @@ export {
   validateWorkoutLog,
   validateBaselineTest,
   validateGlossaryItem,
+  validateUserProfile,
 };
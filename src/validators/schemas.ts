@@ -14,8 +14,13 @@ import type {
   ExerciseCatalogItem,
   WorkoutLogEntry,
   PerformedSet,
+  PerformedSubSet,
   BaselineTestEntry,
   GlossaryItem,
+  UserProfile,
+  UserPreferencesRecord,
+  SyncPushRequest,
+  DataTransactionRequest,
 } from "@/types";
 
 // Initialize Ajv instance with strict settings
@@ -28,6 +33,16 @@ const baseEntityProps = {
   created_at: { type: "string", format: "date-time" },
   updated_at: { type: "string", format: "date-time" },
   version: { type: "number", minimum: 1 },
+  // Stamped by the storage layer on first write, so records read back from storage carry it
+  timestamp: { type: "number", nullable: true },
+} as const;
+
+// Records kept per local profile also carry the owning profile id, and a
+// deletion time while they sit in the trash
+const profileEntityProps = {
+  ...baseEntityProps,
+  profile_id: { type: "string", nullable: true, minLength: 1 },
+  deleted_at: { type: "string", nullable: true, format: "date-time" },
 } as const;
 
 // App Settings Schema
@@ -40,6 +55,8 @@ export const appSettingsSchema: JSONSchemaType<AppSettings> = {
     language: { type: "string", enum: ["en"] },
     data_version: { type: "number", minimum: 1 },
     privacy_acknowledged: { type: "boolean" },
+    storage_warning_percent: { type: "number", minimum: 1, maximum: 100, nullable: true },
+    storage_critical_percent: { type: "number", minimum: 1, maximum: 100, nullable: true },
   },
   required: [
     "id",
@@ -59,7 +76,7 @@ export const appSettingsSchema: JSONSchemaType<AppSettings> = {
 export const bodyMetricEntrySchema: JSONSchemaType<BodyMetricEntry> = {
   type: "object",
   properties: {
-    ...baseEntityProps,
+    ...profileEntityProps,
     date: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
     body_weight: { type: "number", minimum: 0 },
     weight_unit: { type: "string", enum: ["lb", "kg"] },
@@ -102,7 +119,7 @@ const mediaItemSchema = {
 export const exerciseSchema: JSONSchemaType<ExerciseCatalogItem> = {
   type: "object",
   properties: {
-    ...baseEntityProps,
+    ...profileEntityProps,
     name: { type: "string", minLength: 1, maxLength: 200 },
     aliases: { type: "array", items: { type: "string" } },
     movement_pattern: {
@@ -153,11 +170,29 @@ export const exerciseSchema: JSONSchemaType<ExerciseCatalogItem> = {
   additionalProperties: false,
 };
 
+// Performed Sub-Set Schema
+const performedSubSetSchema: JSONSchemaType<PerformedSubSet> = {
+  type: "object",
+  properties: {
+    repetitions_done: { type: "number", minimum: 0 },
+    weight_value: { type: "number", nullable: true, minimum: 0 },
+    weight_unit: { type: "string", nullable: true, enum: ["lb", "kg"] },
+    rest_seconds_before: { type: "number", nullable: true, minimum: 0 },
+  },
+  required: ["repetitions_done"],
+  additionalProperties: false,
+};
+
 // Performed Set Schema
 const performedSetSchema: JSONSchemaType<PerformedSet> = {
   type: "object",
   properties: {
     set_number: { type: "number", minimum: 1 },
+    set_type: {
+      type: "string",
+      nullable: true,
+      enum: ["working", "warm_up", "drop_set", "amrap", "rest_pause", "cluster", "failure"],
+    },
     repetitions_done: { type: "number", minimum: 0 },
     weight_value: { type: "number", nullable: true, minimum: 0 },
     weight_unit: { type: "string", nullable: true, enum: ["lb", "kg"] },
@@ -175,11 +210,25 @@ const performedSetSchema: JSONSchemaType<PerformedSet> = {
     pain_shoulder_0_to_10: { type: "number", nullable: true, minimum: 0, maximum: 10 },
     pain_other_location: { type: "string", nullable: true },
     pain_other_0_to_10: { type: "number", nullable: true, minimum: 0, maximum: 10 },
+    sub_sets: { type: "array", nullable: true, items: performedSubSetSchema },
   },
   required: ["set_number", "repetitions_done", "perceived_effort_text"],
   additionalProperties: false,
 };
 
+// Exercise Group Schema
+const exerciseGroupSchema = {
+  type: "object",
+  properties: {
+    group_id: { type: "string", minLength: 1 },
+    group_type: { type: "string", enum: ["superset", "circuit", "giant_set"] },
+    rounds: { type: "number", minimum: 1 },
+    rest_after_round_seconds: { type: "number", nullable: true, minimum: 0 },
+  },
+  required: ["group_id", "group_type", "rounds"],
+  additionalProperties: false,
+} as const;
+
 // Strength Entry Schema
 const strengthEntrySchema = {
   type: "object",
@@ -191,6 +240,7 @@ const strengthEntrySchema = {
     performed_sets: { type: "array", items: performedSetSchema, minItems: 1 },
     notes: { type: "string", nullable: true, maxLength: 500 },
     form_rating: { type: "number", nullable: true, minimum: 1, maximum: 5 },
+    group: { ...exerciseGroupSchema, nullable: true },
   },
   required: ["type", "exercise_id", "exercise_name", "order_index", "performed_sets"],
   additionalProperties: false,
@@ -210,10 +260,13 @@ const cardioSegmentSchema = {
       enum: ["miles", "kilometers", "meters"] 
     },
     speed_mph_or_kph: { type: "number", nullable: true, minimum: 0 },
+    pace_seconds_per_unit: { type: "number", nullable: true, minimum: 0 },
     incline_percent: { type: "number", nullable: true, minimum: 0 },
     resistance_level: { type: "number", nullable: true, minimum: 0 },
     average_heart_rate_bpm: { type: "number", nullable: true, minimum: 30, maximum: 250 },
     max_heart_rate_bpm: { type: "number", nullable: true, minimum: 30, maximum: 250 },
+    elevation_gain_meters: { type: "number", nullable: true, minimum: 0 },
+    elevation_loss_meters: { type: "number", nullable: true, minimum: 0 },
     perceived_effort: {
       type: "string",
       nullable: true,
@@ -231,12 +284,15 @@ const cardioEntrySchema = {
   properties: {
     type: { type: "string", const: "cardio" },
     mode: { type: "string", minLength: 1 },
+    exercise_id: { type: "string", nullable: true, minLength: 1 },
+    exercise_name: { type: "string", nullable: true, minLength: 1 },
     total_duration_seconds: { type: "number", minimum: 0 },
     segments: { type: "array", items: cardioSegmentSchema, minItems: 1 },
     average_heart_rate_bpm: { type: "number", nullable: true, minimum: 30, maximum: 250 },
     max_heart_rate_bpm: { type: "number", nullable: true, minimum: 30, maximum: 250 },
     calories_estimated: { type: "number", nullable: true, minimum: 0 },
     notes: { type: "string", nullable: true, maxLength: 500 },
+    group: { ...exerciseGroupSchema, nullable: true },
   },
   required: ["type", "mode", "total_duration_seconds", "segments"],
   additionalProperties: false,
@@ -267,7 +323,7 @@ const flexibilityEntrySchema = {
 export const workoutLogSchema: JSONSchemaType<WorkoutLogEntry> = {
   type: "object",
   properties: {
-    ...baseEntityProps,
+    ...profileEntityProps,
     date_time_start: { type: "string", format: "date-time" },
     date_time_end: { type: "string", nullable: true, format: "date-time" },
     session_plan_ref: { type: "string", nullable: true },
@@ -304,7 +360,7 @@ export const workoutLogSchema: JSONSchemaType<WorkoutLogEntry> = {
 export const baselineTestSchema: JSONSchemaType<BaselineTestEntry> = {
   type: "object",
   properties: {
-    ...baseEntityProps,
+    ...profileEntityProps,
     month: { type: "string", pattern: "^\\d{4}-\\d{2}$" },
     test_date: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
     rockport_time_mm_ss: { type: "string", nullable: true, pattern: "^\\d+:\\d{2}$" },
@@ -372,7 +428,7 @@ export const baselineTestSchema: JSONSchemaType<BaselineTestEntry> = {
 export const glossaryItemSchema: JSONSchemaType<GlossaryItem> = {
   type: "object",
   properties: {
-    ...baseEntityProps,
+    ...profileEntityProps,
     term: { type: "string", minLength: 1, maxLength: 100 },
     category: {
       type: "string",
@@ -410,7 +466,7 @@ export const glossaryItemSchema: JSONSchemaType<GlossaryItem> = {
 export const bodyMeasurementSchema: JSONSchemaType<BodyMeasurement> = {
   type: "object",
   properties: {
-    ...baseEntityProps,
+    ...profileEntityProps,
     date: { type: "string", format: "date" },
     measurements: {
       type: "object",
@@ -447,7 +503,7 @@ export const bodyMeasurementSchema: JSONSchemaType<BodyMeasurement> = {
 export const fitnessGoalSchema: JSONSchemaType<FitnessGoal> = {
   type: "object",
   properties: {
-    ...baseEntityProps,
+    ...profileEntityProps,
     title: { type: "string", minLength: 1, maxLength: 100 },
     description: { type: "string", nullable: true, maxLength: 500 },
     category: { 
@@ -488,7 +544,7 @@ export const fitnessGoalSchema: JSONSchemaType<FitnessGoal> = {
 export const progressPhotoSchema: JSONSchemaType<ProgressPhoto> = {
   type: "object",
   properties: {
-    ...baseEntityProps,
+    ...profileEntityProps,
     date: { type: "string", format: "date" },
     photo_data: { type: "string", minLength: 1 }, // Base64 encoded
     photo_type: { type: "string", enum: ["front", "side", "back", "custom"] },
@@ -499,6 +555,140 @@ export const progressPhotoSchema: JSONSchemaType<ProgressPhoto> = {
   additionalProperties: false,
 };
 
+// User Profile Schema
+export const userProfileSchema: JSONSchemaType<UserProfile> = {
+  type: "object",
+  properties: {
+    ...baseEntityProps,
+    display_name: { type: "string", nullable: true, maxLength: 100 },
+    birth_date: { type: "string", nullable: true, pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+    sex_for_standards: { type: "string", nullable: true, enum: ["male", "female"] },
+    height_cm: { type: "number", nullable: true, minimum: 50, maximum: 275 },
+    activity_level: {
+      type: "string",
+      nullable: true,
+      enum: ["sedentary", "lightly_active", "moderately_active", "very_active", "extra_active"],
+    },
+    training_experience: {
+      type: "string",
+      nullable: true,
+      enum: ["beginner", "intermediate", "advanced"],
+    },
+  },
+  required: ["id", "created_at", "updated_at", "version"],
+  additionalProperties: false,
+};
+
+// User Preferences Schema
+export const userPreferencesSchema: JSONSchemaType<UserPreferencesRecord> = {
+  type: "object",
+  properties: {
+    ...profileEntityProps,
+    show_beginner_tips: { type: "boolean" },
+    default_rest_time_seconds: { type: "number", minimum: 1 },
+    auto_save_workouts: { type: "boolean" },
+    exercise_order_preference: { type: "string", enum: ["alphabetical", "recent", "custom"] },
+    weight_increment_lb: { type: "number", exclusiveMinimum: 0 },
+    weight_increment_kg: { type: "number", exclusiveMinimum: 0 },
+  },
+  required: [
+    "id",
+    "show_beginner_tips",
+    "default_rest_time_seconds",
+    "auto_save_workouts",
+    "exercise_order_preference",
+    "weight_increment_lb",
+    "weight_increment_kg",
+    "created_at",
+    "updated_at",
+    "version",
+  ],
+  additionalProperties: false,
+};
+
+// Sync push payload schema (field values are arbitrary JSON)
+const fieldClockSchema = {
+  type: "object",
+  properties: {
+    updated_at: { type: "string", minLength: 1 },
+    version: { type: "number" },
+    device_id: { type: "string", minLength: 1 },
+  },
+  required: ["updated_at", "version", "device_id"],
+  additionalProperties: false,
+} as const;
+
+export const syncPushRequestSchema = {
+  type: "object",
+  properties: {
+    device_id: { type: "string", minLength: 1, maxLength: 100 },
+    changes: {
+      type: "array",
+      maxItems: 5000,
+      items: {
+        type: "object",
+        properties: {
+          store: { type: "string", minLength: 1 },
+          record_id: { type: "string", minLength: 1 },
+          fields: {
+            type: "object",
+            additionalProperties: {
+              type: "object",
+              properties: { value: {}, clock: fieldClockSchema },
+              required: ["value", "clock"],
+              additionalProperties: false,
+            },
+          },
+          deleted: { ...fieldClockSchema, nullable: true },
+        },
+        required: ["store", "record_id", "fields", "deleted"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["device_id", "changes"],
+  additionalProperties: false,
+};
+
+// Server storage transaction schema (records are validated by repositories)
+export const dataTransactionRequestSchema = {
+  type: "object",
+  properties: {
+    operations: {
+      type: "array",
+      maxItems: 10000,
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: ["put", "delete", "clear"] },
+          storeName: { type: "string", minLength: 1 },
+          id: { type: "string", minLength: 1 },
+          data: {
+            type: "object",
+            properties: { id: { type: "string", minLength: 1 } },
+            required: ["id"],
+          },
+          expectedVersion: { type: "number" },
+        },
+        required: ["type", "storeName"],
+        additionalProperties: false,
+        allOf: [
+          {
+            if: { properties: { type: { const: "put" } } },
+            then: { properties: { data: true }, required: ["data"] },
+          },
+          {
+            if: { properties: { type: { const: "delete" } } },
+            then: { properties: { id: true }, required: ["id"] },
+          },
+        ],
+      },
+    },
+  },
+  required: ["operations"],
+  additionalProperties: false,
+};
+
 // Compile validators
 export const validateAppSettings = ajv.compile(appSettingsSchema);
 export const validateBodyMetricEntry = ajv.compile(bodyMetricEntrySchema);
@@ -509,6 +699,12 @@ export const validateExercise = ajv.compile(exerciseSchema);
 export const validateWorkoutLog = ajv.compile(workoutLogSchema);
 export const validateBaselineTest = ajv.compile(baselineTestSchema);
 export const validateGlossaryItem = ajv.compile(glossaryItemSchema);
+export const validateUserProfile = ajv.compile(userProfileSchema);
+export const validateUserPreferences = ajv.compile(userPreferencesSchema);
+export const validateSyncPushRequest = ajv.compile<SyncPushRequest>(syncPushRequestSchema);
+export const validateDataTransactionRequest = ajv.compile<DataTransactionRequest>(
+  dataTransactionRequestSchema
+);
 
 // Export the Ajv instance for custom validations
 export { ajv };